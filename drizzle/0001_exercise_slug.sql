@@ -0,0 +1,2 @@
+ALTER TABLE "exercises" ADD COLUMN "slug" text;--> statement-breakpoint
+ALTER TABLE "exercises" ADD CONSTRAINT "exercises_slug_unique" UNIQUE("slug");
\ No newline at end of file
@@ -0,0 +1,8 @@
+CREATE TABLE "user_settings" (
+	"user_id" text PRIMARY KEY NOT NULL,
+	"weight_unit" text DEFAULT 'lb' NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "weight_unit" text DEFAULT 'lb' NOT NULL;
\ No newline at end of file
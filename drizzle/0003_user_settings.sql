@@ -0,0 +1,6 @@
+ALTER TABLE "user_settings" ADD COLUMN "week_starts_on" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "rest_timer_seconds" integer DEFAULT 90 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "bodyweight" numeric(6, 2);--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "bodyweight_unit" text DEFAULT 'lb' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "one_rep_max_formula" text DEFAULT 'epley' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "time_zone" text DEFAULT 'UTC' NOT NULL;
\ No newline at end of file
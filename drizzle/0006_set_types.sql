@@ -0,0 +1,4 @@
+ALTER TABLE "sets" ADD COLUMN "set_type" text DEFAULT 'working' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "rpe" numeric(3, 1);--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "rir" integer;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "tempo" text;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "sets" ALTER COLUMN "reps" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "exercises" ADD COLUMN "measurement_type" text DEFAULT 'weight_reps' NOT NULL;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "duration_seconds" integer;--> statement-breakpoint
+ALTER TABLE "sets" ADD COLUMN "distance" numeric(8, 2);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "workout_exercises" ADD COLUMN "group_id" uuid;
\ No newline at end of file
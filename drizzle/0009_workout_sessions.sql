@@ -0,0 +1,2 @@
+ALTER TABLE "workouts" ADD COLUMN "started_at" timestamp;--> statement-breakpoint
+ALTER TABLE "workouts" ADD COLUMN "completed_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,3 @@
+ALTER TABLE "user_settings" ADD COLUMN "progression_rule" text DEFAULT 'double_progression' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "rep_range_min" integer DEFAULT 8 NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_settings" ADD COLUMN "rep_range_max" integer DEFAULT 12 NOT NULL;
\ No newline at end of file
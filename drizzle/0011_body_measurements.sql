@@ -0,0 +1,19 @@
+CREATE TABLE "body_measurements" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"date" date NOT NULL,
+	"bodyweight" numeric(6, 2),
+	"bodyweight_unit" text DEFAULT 'lb' NOT NULL,
+	"body_fat_percentage" numeric(4, 1),
+	"neck" numeric(5, 2),
+	"chest" numeric(5, 2),
+	"waist" numeric(5, 2),
+	"hips" numeric(5, 2),
+	"arms" numeric(5, 2),
+	"thighs" numeric(5, 2),
+	"length_unit" text DEFAULT 'in' NOT NULL,
+	"notes" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "body_measurements_user_id_date_unique" UNIQUE("user_id","date")
+);
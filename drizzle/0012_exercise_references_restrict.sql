@@ -0,0 +1,6 @@
+ALTER TABLE "program_exercises" DROP CONSTRAINT "program_exercises_exercise_id_exercises_id_fk";
+--> statement-breakpoint
+ALTER TABLE "template_exercises" DROP CONSTRAINT "template_exercises_exercise_id_exercises_id_fk";
+--> statement-breakpoint
+ALTER TABLE "program_exercises" ADD CONSTRAINT "program_exercises_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "template_exercises" ADD CONSTRAINT "template_exercises_exercise_id_exercises_id_fk" FOREIGN KEY ("exercise_id") REFERENCES "public"."exercises"("id") ON DELETE restrict ON UPDATE no action;
\ No newline at end of file
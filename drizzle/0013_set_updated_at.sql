@@ -0,0 +1 @@
+ALTER TABLE "sets" ADD COLUMN "updated_at" timestamp DEFAULT now() NOT NULL;
\ No newline at end of file
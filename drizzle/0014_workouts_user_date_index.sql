@@ -0,0 +1 @@
+CREATE INDEX "workouts_user_id_date_id_index" ON "workouts" USING btree ("user_id","date","id");
\ No newline at end of file
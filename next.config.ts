@@ -3,6 +3,25 @@ import type { NextConfig } from "next";
 const nextConfig: NextConfig = {
   /* config options here */
   reactCompiler: true,
+  experimental: {
+    serverActions: {
+      // Workout imports send a parsed CSV export, which can run to megabytes
+      bodySizeLimit: "10mb",
+    },
+  },
+  async headers() {
+    return [
+      {
+        // Browsers check for a new service worker on every visit, so it
+        // must never come from a cache
+        source: "/sw.js",
+        headers: [
+          { key: "Cache-Control", value: "no-cache, no-store, must-revalidate" },
+          { key: "Content-Type", value: "application/javascript; charset=utf-8" },
+        ],
+      },
+    ];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,156 @@
+// Keeps the pages you've opened available offline. Pages are fetched fresh
+// whenever there's a connection and fall back to the last copy when there
+// isn't; Next's hashed build files never change, so they're served from the
+// cache first. Mutations aren't handled here: the dashboard queues them in
+// IndexedDB and replays them itself.
+//
+// Pages hold one user's data, so they're cached per user: the page tells the
+// worker who's signed in (see ServiceWorkerRegistration), and every other
+// user's pages are deleted when that changes or they sign out.
+
+const STATIC_CACHE = "lifting-diary-static-v1";
+const PAGES_CACHE_PREFIX = "lifting-diary-pages-";
+// Remembers the signed-in user across restarts of the worker
+const USER_CACHE = "lifting-diary-user";
+const USER_KEY = "/signed-in-user";
+
+function isOwnCache(key) {
+  return (
+    key === STATIC_CACHE ||
+    key === USER_CACHE ||
+    key.startsWith(PAGES_CACHE_PREFIX)
+  );
+}
+
+async function getUserId() {
+  const response = await caches.match(USER_KEY, { cacheName: USER_CACHE });
+  return response ? response.text() : null;
+}
+
+// Deletes the cached pages of everyone but the given user
+async function deleteOtherPages(userId) {
+  const keys = await caches.keys();
+
+  await Promise.all(
+    keys
+      .filter(
+        (key) =>
+          key.startsWith(PAGES_CACHE_PREFIX) &&
+          key !== PAGES_CACHE_PREFIX + userId
+      )
+      .map((key) => caches.delete(key))
+  );
+}
+
+async function setUser(userId) {
+  const cache = await caches.open(USER_CACHE);
+
+  await cache.put(USER_KEY, new Response(userId));
+  await deleteOtherPages(userId);
+}
+
+async function signOut() {
+  await caches.delete(USER_CACHE);
+  await deleteOtherPages(null);
+}
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => !isOwnCache(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "setUser") {
+    event.waitUntil(setUser(event.data.userId));
+  } else if (event.data?.type === "signOut") {
+    event.waitUntil(signOut());
+  }
+});
+
+function isCacheable(response) {
+  return response.ok && response.type === "basic";
+}
+
+async function networkFirst(request) {
+  const userId = await getUserId();
+
+  // Until the page says who's signed in, there's nowhere safe to keep it
+  if (!userId) {
+    return fetch(request);
+  }
+
+  const cache = await caches.open(PAGES_CACHE_PREFIX + userId);
+
+  try {
+    const response = await fetch(request);
+
+    if (isCacheable(response)) {
+      await cache.put(request, response.clone());
+    }
+
+    return response;
+  } catch (error) {
+    // Next varies pages on its router headers, which differ between visits
+    const cached = await cache.match(request, { ignoreVary: true });
+
+    if (cached) {
+      return cached;
+    }
+
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(STATIC_CACHE);
+  const cached = await cache.match(request);
+
+  if (cached) {
+    return cached;
+  }
+
+  const response = await fetch(request);
+
+  if (isCacheable(response)) {
+    await cache.put(request, response.clone());
+  }
+
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  if (request.method !== "GET" || url.origin !== self.location.origin) {
+    return;
+  }
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+
+  // Only the dashboard (which includes today's workouts and the live
+  // session) works offline; exports and the rest need the server anyway
+  if (
+    url.pathname.startsWith("/dashboard") &&
+    (request.mode === "navigate" || request.headers.get("RSC") === "1")
+  ) {
+    event.respondWith(networkFirst(request));
+  }
+});
@@ -0,0 +1,80 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ANALYTICS_WEEK_OPTIONS,
+  SECONDARY_FRACTIONS,
+  SECONDARY_FRACTION_LABELS,
+  type AnalyticsWeeks,
+  type SecondaryFraction,
+} from "@/lib/muscle-volume";
+
+interface AnalyticsControlsProps {
+  weeks: AnalyticsWeeks;
+  secondaryFraction: SecondaryFraction;
+}
+
+export function AnalyticsControls({
+  weeks,
+  secondaryFraction,
+}: AnalyticsControlsProps) {
+  const router = useRouter();
+
+  const navigate = (changes: { weeks?: string; secondary?: string }) => {
+    const params = new URLSearchParams({
+      weeks: String(weeks),
+      secondary: String(secondaryFraction),
+      ...changes,
+    });
+    router.push(`/analytics?${params}`);
+  };
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <div className="space-y-2">
+        <Label htmlFor="analytics-weeks">Period</Label>
+        <Select
+          value={String(weeks)}
+          onValueChange={(value) => navigate({ weeks: value })}
+        >
+          <SelectTrigger id="analytics-weeks" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ANALYTICS_WEEK_OPTIONS.map((option) => (
+              <SelectItem key={option} value={String(option)}>
+                Last {option} weeks
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="analytics-secondary">Count secondary muscles</Label>
+        <Select
+          value={String(secondaryFraction)}
+          onValueChange={(value) => navigate({ secondary: value })}
+        >
+          <SelectTrigger id="analytics-secondary" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SECONDARY_FRACTIONS.map((fraction) => (
+              <SelectItem key={fraction} value={String(fraction)}>
+                {SECONDARY_FRACTION_LABELS[fraction]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
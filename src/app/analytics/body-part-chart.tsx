@@ -0,0 +1,105 @@
+"use client";
+
+import { format, parse } from "date-fns";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { MuscleVolumeWeek } from "@/data/types";
+import {
+  BODY_PARTS,
+  BODY_PART_LABELS,
+  MUSCLE_BODY_PARTS,
+  MUSCLE_GROUPS,
+} from "@/lib/muscles";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+
+const chartConfig = Object.fromEntries(
+  BODY_PARTS.map((bodyPart, index) => [
+    bodyPart,
+    { label: BODY_PART_LABELS[bodyPart], color: `var(--chart-${index + 1})` },
+  ])
+) satisfies ChartConfig;
+
+interface BodyPartChartProps {
+  weeks: MuscleVolumeWeek[];
+  metric: "hardSets" | "tonnage";
+  unit: WeightUnit;
+}
+
+// Weekly hard sets or tonnage stacked by body part
+export function BodyPartChart({ weeks, metric, unit }: BodyPartChartProps) {
+  const data = weeks.map((week) => {
+    const totals = Object.fromEntries(
+      BODY_PARTS.map((bodyPart) => [bodyPart, 0])
+    );
+
+    for (const muscle of MUSCLE_GROUPS) {
+      totals[MUSCLE_BODY_PARTS[muscle]] += week.muscles[muscle][metric];
+    }
+
+    return {
+      weekStart: week.weekStart,
+      ...Object.fromEntries(
+        Object.entries(totals).map(([bodyPart, total]) => [
+          bodyPart,
+          Math.round(total * 10) / 10,
+        ])
+      ),
+    };
+  });
+  const description =
+    metric === "hardSets"
+      ? "Weekly hard sets by body part"
+      : `Weekly tonnage in ${WEIGHT_UNIT_ABBREVIATIONS[unit]} by body part`;
+
+  return (
+    <ChartContainer
+      config={chartConfig}
+      className="min-h-[240px] w-full"
+      role="img"
+      aria-label={description}
+    >
+      <BarChart data={data} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="weekStart"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={16}
+          tickFormatter={(value: string) =>
+            format(parse(value, "yyyy-MM-dd", new Date()), "MMM d")
+          }
+        />
+        <YAxis tickLine={false} axisLine={false} width={48} />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `Week of ${format(
+                  parse(payload[0]?.payload.weekStart, "yyyy-MM-dd", new Date()),
+                  "do MMM yyyy"
+                )}`
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        {BODY_PARTS.map((bodyPart) => (
+          <Bar
+            key={bodyPart}
+            dataKey={bodyPart}
+            stackId="volume"
+            fill={`var(--color-${bodyPart})`}
+          />
+        ))}
+      </BarChart>
+    </ChartContainer>
+  );
+}
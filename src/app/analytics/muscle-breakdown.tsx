@@ -0,0 +1,129 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { MuscleVolumeWeek } from "@/data/types";
+import {
+  BODY_PARTS,
+  BODY_PART_LABELS,
+  MUSCLE_BODY_PARTS,
+  MUSCLE_GROUPS,
+  formatMuscle,
+} from "@/lib/muscles";
+import {
+  VOLUME_STATUS_LABELS,
+  WEEKLY_SET_TARGETS,
+  getVolumeStatus,
+  type VolumeStatus,
+} from "@/lib/muscle-volume";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+
+const STATUS_VARIANTS: Record<
+  VolumeStatus,
+  "destructive" | "outline" | "secondary"
+> = {
+  below: "destructive",
+  within: "outline",
+  above: "secondary",
+};
+
+function formatSets(sets: number) {
+  return sets.toLocaleString("en-US", { maximumFractionDigits: 1 });
+}
+
+interface MuscleBreakdownProps {
+  // Completed weeks to average over
+  weeks: MuscleVolumeWeek[];
+  // The week in progress, shown alongside but not averaged
+  currentWeek: MuscleVolumeWeek;
+  unit: WeightUnit;
+}
+
+// Average weekly hard sets per muscle against its target range, grouped by
+// body part so undertrained muscles stand out
+export function MuscleBreakdown({
+  weeks,
+  currentWeek,
+  unit,
+}: MuscleBreakdownProps) {
+  const averages = Object.fromEntries(
+    MUSCLE_GROUPS.map((muscle) => {
+      const totals = weeks.reduce(
+        (sum, week) => ({
+          hardSets: sum.hardSets + week.muscles[muscle].hardSets,
+          tonnage: sum.tonnage + week.muscles[muscle].tonnage,
+        }),
+        { hardSets: 0, tonnage: 0 }
+      );
+
+      return [
+        muscle,
+        {
+          hardSets: totals.hardSets / Math.max(weeks.length, 1),
+          tonnage: totals.tonnage / Math.max(weeks.length, 1),
+        },
+      ];
+    })
+  );
+
+  return (
+    <div className="space-y-6">
+      {BODY_PARTS.map((bodyPart) => (
+        <section key={bodyPart} aria-label={BODY_PART_LABELS[bodyPart]}>
+          <h3 className="font-medium mb-2">{BODY_PART_LABELS[bodyPart]}</h3>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Muscle</TableHead>
+                <TableHead className="text-right">Sets / week</TableHead>
+                <TableHead className="text-right">This week</TableHead>
+                <TableHead className="text-right">Target</TableHead>
+                <TableHead className="text-right">Tonnage / week</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {MUSCLE_GROUPS.filter(
+                (muscle) => MUSCLE_BODY_PARTS[muscle] === bodyPart
+              ).map((muscle) => {
+                const { hardSets, tonnage } = averages[muscle];
+                const target = WEEKLY_SET_TARGETS[muscle];
+                const status = getVolumeStatus(muscle, hardSets);
+
+                return (
+                  <TableRow key={muscle}>
+                    <TableCell className="font-medium">
+                      {formatMuscle(muscle)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatSets(hardSets)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatSets(currentWeek.muscles[muscle].hardSets)}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {target.min}–{target.max}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {formatWeight(Math.round(tonnage), unit)}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[status]}>
+                        {VOLUME_STATUS_LABELS[status]}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { format, parse, startOfWeek, subWeeks } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { hasBodyweight } from "@/lib/body-measurements";
+import { getTodayInTimeZone } from "@/lib/dates";
+import {
+  DEFAULT_ANALYTICS_WEEKS,
+  DEFAULT_SECONDARY_FRACTION,
+  HARD_SET_MIN_INTENSITY,
+  isAnalyticsWeeks,
+  isSecondaryFraction,
+} from "@/lib/muscle-volume";
+import { getRelativeStrength, getWeeklyMuscleVolume } from "@/data/analytics";
+import { getBodyweightHistory } from "@/data/body-measurements";
+import { getUserSettings } from "@/data/user-settings";
+import { AnalyticsControls } from "./analytics-controls";
+import { BodyPartChart } from "./body-part-chart";
+import { MuscleBreakdown } from "./muscle-breakdown";
+import { RelativeStrengthTable } from "./relative-strength-table";
+
+interface AnalyticsPageProps {
+  searchParams: Promise<{ weeks?: string; secondary?: string }>;
+}
+
+export default async function AnalyticsPage({
+  searchParams,
+}: AnalyticsPageProps) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const params = await searchParams;
+  const requestedWeeks = Number(params.weeks);
+  const requestedFraction = Number(params.secondary);
+  const weeks = isAnalyticsWeeks(requestedWeeks)
+    ? requestedWeeks
+    : DEFAULT_ANALYTICS_WEEKS;
+  const secondaryFraction =
+    params.secondary !== undefined && isSecondaryFraction(requestedFraction)
+      ? requestedFraction
+      : DEFAULT_SECONDARY_FRACTION;
+
+  const settings = await getUserSettings(userId);
+  const { weightUnit, weekStartsOn, timeZone, oneRepMaxFormula } = settings;
+  const today = getTodayInTimeZone(timeZone);
+  const currentWeekStart = startOfWeek(
+    parse(today, "yyyy-MM-dd", new Date()),
+    { weekStartsOn }
+  );
+
+  const fromDate = format(subWeeks(currentWeekStart, weeks), "yyyy-MM-dd");
+  const bodyweights = await getBodyweightHistory(userId, settings);
+  const [volumeWeeks, relativeStrength] = await Promise.all([
+    getWeeklyMuscleVolume(userId, {
+      fromDate,
+      toDate: today,
+      weekStartsOn,
+      unit: weightUnit,
+      bodyweights,
+      secondaryFraction,
+    }),
+    getRelativeStrength(userId, {
+      fromDate,
+      toDate: today,
+      unit: weightUnit,
+      formula: oneRepMaxFormula,
+      bodyweights,
+    }),
+  ]);
+  const completedWeeks = volumeWeeks.slice(0, -1);
+  const currentWeek = volumeWeeks[volumeWeeks.length - 1];
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Analytics</h1>
+
+      <div className="space-y-6">
+        <AnalyticsControls
+          weeks={weeks}
+          secondaryFraction={secondaryFraction}
+        />
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Hard Sets</h2>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Sets under {HARD_SET_MIN_INTENSITY * 100}% of the heaviest set of
+              the same exercise in a workout count as warm-ups.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <BodyPartChart
+              weeks={volumeWeeks}
+              metric="hardSets"
+              unit={weightUnit}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Tonnage</h2>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <BodyPartChart
+              weeks={volumeWeeks}
+              metric="tonnage"
+              unit={weightUnit}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Muscle Breakdown</h2>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Averaged over the last {weeks} full weeks.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <MuscleBreakdown
+              weeks={completedWeeks}
+              currentWeek={currentWeek}
+              unit={weightUnit}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Relative Strength</h2>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Each exercise&apos;s best estimated 1RM since{" "}
+              {format(parse(fromDate, "yyyy-MM-dd", new Date()), "do MMM")},
+              against your bodyweight that day.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <RelativeStrengthTable
+              lifts={relativeStrength}
+              unit={weightUnit}
+              hasBodyweight={hasBodyweight(bodyweights)}
+            />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,85 @@
+import Link from "next/link";
+import { format, parse } from "date-fns";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { RelativeStrength } from "@/data/types";
+import { formatRelativeStrength } from "@/lib/body-measurements";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+
+interface RelativeStrengthTableProps {
+  lifts: RelativeStrength[];
+  unit: WeightUnit;
+  // Whether the user has any bodyweight to compare against
+  hasBodyweight: boolean;
+}
+
+export function RelativeStrengthTable({
+  lifts,
+  unit,
+  hasBodyweight,
+}: RelativeStrengthTableProps) {
+  if (!hasBodyweight) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        <Link href="/body" className="underline underline-offset-4">
+          Log your bodyweight
+        </Link>{" "}
+        to compare your lifts against it.
+      </p>
+    );
+  }
+
+  if (lifts.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No weighted sets logged in this period.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Exercise</TableHead>
+          <TableHead>Date</TableHead>
+          <TableHead className="text-right">Est. 1RM</TableHead>
+          <TableHead className="text-right">Bodyweight</TableHead>
+          <TableHead className="text-right">Ratio</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {lifts.map((lift) => (
+          <TableRow key={lift.exerciseId}>
+            <TableCell className="font-medium">
+              <Link
+                href={`/exercises/${lift.exerciseId}`}
+                className="underline-offset-4 hover:underline"
+              >
+                {lift.exerciseName}
+              </Link>
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {format(parse(lift.date, "yyyy-MM-dd", new Date()), "do MMM")}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatWeight(lift.estimatedOneRepMax, unit, 1)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatWeight(lift.bodyweight, unit, 1)}
+            </TableCell>
+            <TableCell className="text-right font-medium">
+              {formatRelativeStrength(lift.ratio)}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
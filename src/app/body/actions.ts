@@ -0,0 +1,127 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  deleteBodyMeasurement,
+  saveBodyMeasurement,
+} from "@/data/body-measurements";
+import type { ActionResult } from "@/lib/action-types";
+import { CIRCUMFERENCES, MAX_CIRCUMFERENCE } from "@/lib/body-measurements";
+import { WEIGHT_UNITS } from "@/lib/units";
+import type { BodyMeasurement } from "@/data/types";
+
+const circumferenceSchema = z
+  .number()
+  .positive("Measurements must be positive")
+  .max(MAX_CIRCUMFERENCE, "Measurement is too large")
+  .nullable();
+
+const saveBodyMeasurementSchema = z
+  .object({
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+    bodyweight: z
+      .number()
+      .positive("Bodyweight must be positive")
+      .max(9999.99, "Bodyweight is too large")
+      .nullable(),
+    bodyFatPercentage: z
+      .number()
+      .positive("Body fat must be positive")
+      .lt(100, "Body fat must be under 100%")
+      .nullable(),
+    neck: circumferenceSchema,
+    chest: circumferenceSchema,
+    waist: circumferenceSchema,
+    hips: circumferenceSchema,
+    arms: circumferenceSchema,
+    thighs: circumferenceSchema,
+    notes: z
+      .string()
+      .max(1000, "Notes must be 1000 characters or less")
+      .nullable(),
+    // The unit the form was filled in with; circumferences follow it
+    weightUnit: z.enum(WEIGHT_UNITS),
+  })
+  .refine(
+    (data) =>
+      data.bodyweight !== null ||
+      data.bodyFatPercentage !== null ||
+      CIRCUMFERENCES.some((circumference) => data[circumference] !== null),
+    { message: "Enter at least one measurement", path: ["bodyweight"] }
+  );
+
+const deleteBodyMeasurementSchema = z.object({
+  measurementId: z.string().uuid(),
+});
+
+type SaveBodyMeasurementInput = z.infer<typeof saveBodyMeasurementSchema>;
+type DeleteBodyMeasurementInput = z.infer<typeof deleteBodyMeasurementSchema>;
+
+// Bodyweight feeds volume, analytics and relative strength everywhere
+function revalidateBodyweight() {
+  revalidatePath("/", "layout");
+}
+
+export async function saveBodyMeasurementAction(
+  input: SaveBodyMeasurementInput
+): Promise<ActionResult<BodyMeasurement>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = saveBodyMeasurementSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { weightUnit, ...data } = result.data;
+    const measurement = await saveBodyMeasurement(
+      userId,
+      { ...data, notes: data.notes || null },
+      weightUnit
+    );
+
+    revalidateBodyweight();
+    return { data: measurement };
+  } catch (error) {
+    console.error("Failed to save body measurements:", error);
+    return { error: "Failed to save body measurements" };
+  }
+}
+
+export async function deleteBodyMeasurementAction(
+  input: DeleteBodyMeasurementInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = deleteBodyMeasurementSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const deleted = await deleteBodyMeasurement(
+      userId,
+      result.data.measurementId
+    );
+
+    if (!deleted) {
+      return { error: "Measurement not found" };
+    }
+
+    revalidateBodyweight();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to delete body measurements:", error);
+    return { error: "Failed to delete body measurements" };
+  }
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import { useState } from "react";
+import { format, parse, subDays } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { BodyMeasurement } from "@/data/types";
+import {
+  BODY_METRICS,
+  BODY_METRIC_LABELS,
+  getLengthUnit,
+  isBodyMetric,
+  type BodyMetric,
+} from "@/lib/body-measurements";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+
+// Entries within this many days, the day itself included, are averaged to
+// smooth out day-to-day swings in water and food
+const AVERAGE_DAYS = 7;
+
+function getMetricUnit(metric: BodyMetric, unit: WeightUnit) {
+  switch (metric) {
+    case "bodyweight":
+      return WEIGHT_UNIT_ABBREVIATIONS[unit];
+    case "bodyFatPercentage":
+      return "%";
+    default:
+      return getLengthUnit(unit);
+  }
+}
+
+function getChartConfig(metric: BodyMetric, unit: WeightUnit) {
+  const label = `${BODY_METRIC_LABELS[metric]} (${getMetricUnit(metric, unit)})`;
+
+  return {
+    value: {
+      label,
+      color: "var(--chart-1)",
+    },
+    average: {
+      label: `${AVERAGE_DAYS}-day average`,
+      color: "var(--chart-2)",
+    },
+  } satisfies ChartConfig;
+}
+
+interface BodyChartProps {
+  // Oldest first
+  measurements: BodyMeasurement[];
+  unit: WeightUnit;
+}
+
+export function BodyChart({ measurements, unit }: BodyChartProps) {
+  // Only what's been logged at least twice has a trend to show
+  const metrics = BODY_METRICS.filter(
+    (metric) =>
+      measurements.filter((measurement) => measurement[metric] !== null)
+        .length >= 2
+  );
+  const [selectedMetric, setSelectedMetric] = useState<BodyMetric>(
+    metrics[0] ?? "bodyweight"
+  );
+  const metric = metrics.includes(selectedMetric)
+    ? selectedMetric
+    : (metrics[0] ?? "bodyweight");
+
+  if (metrics.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Log at least two entries to see a trend.
+      </p>
+    );
+  }
+
+  const points = measurements.flatMap((measurement) => {
+    const value = measurement[metric];
+    return value !== null ? [{ date: measurement.date, value }] : [];
+  });
+  const data = points.map((point) => {
+    const since = format(
+      subDays(parse(point.date, "yyyy-MM-dd", new Date()), AVERAGE_DAYS - 1),
+      "yyyy-MM-dd"
+    );
+    const recent = points.filter(
+      (other) => other.date >= since && other.date <= point.date
+    );
+    const average =
+      recent.reduce((total, other) => total + other.value, 0) / recent.length;
+
+    return { ...point, average: Math.round(average * 10) / 10 };
+  });
+
+  const formatDate = (value: string) =>
+    format(parse(value, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2 sm:w-60">
+        <Label htmlFor="body-chart-metric">Measurement</Label>
+        <Select
+          value={metric}
+          onValueChange={(value) => {
+            if (isBodyMetric(value)) {
+              setSelectedMetric(value);
+            }
+          }}
+        >
+          <SelectTrigger id="body-chart-metric" className="w-full">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {metrics.map((option) => (
+              <SelectItem key={option} value={option}>
+                {BODY_METRIC_LABELS[option]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ChartContainer
+        config={getChartConfig(metric, unit)}
+        className="min-h-[240px] w-full"
+        role="img"
+        aria-label={`${BODY_METRIC_LABELS[metric]} in ${getMetricUnit(metric, unit)} over time, with its ${AVERAGE_DAYS}-day average`}
+      >
+        <LineChart data={data} margin={{ left: 0, right: 12 }}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            tickMargin={8}
+            minTickGap={32}
+            tickFormatter={(value: string) =>
+              format(parse(value, "yyyy-MM-dd", new Date()), "MMM d")
+            }
+          />
+          <YAxis
+            tickLine={false}
+            axisLine={false}
+            width={48}
+            domain={["auto", "auto"]}
+          />
+          <ChartTooltip
+            content={
+              <ChartTooltipContent
+                labelFormatter={(_, payload) =>
+                  formatDate(payload[0]?.payload.date)
+                }
+              />
+            }
+          />
+          <ChartLegend content={<ChartLegendContent />} />
+          <Line
+            dataKey="value"
+            type="monotone"
+            stroke="var(--color-value)"
+            strokeWidth={2}
+            dot={data.length <= 30}
+          />
+          <Line
+            dataKey="average"
+            type="monotone"
+            stroke="var(--color-average)"
+            strokeWidth={2}
+            strokeDasharray="4 4"
+            dot={false}
+          />
+        </LineChart>
+      </ChartContainer>
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { format, parse } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { DatePicker } from "@/components/ui/date-picker";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  CIRCUMFERENCES,
+  CIRCUMFERENCE_LABELS,
+  getLengthUnit,
+} from "@/lib/body-measurements";
+import type { WeekStartDay } from "@/lib/dates";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+import type { BodyMeasurement } from "@/data/types";
+import { saveBodyMeasurementAction } from "./actions";
+
+function parseOptionalNumber(value: FormDataEntryValue | null) {
+  return value === null || value === "" ? null : Number(value);
+}
+
+interface BodyMeasurementFormProps {
+  date: string;
+  // What's already logged for the date, to edit
+  entry: BodyMeasurement | null;
+  unit: WeightUnit;
+  weekStartsOn: WeekStartDay;
+  loggedDates: string[];
+}
+
+export function BodyMeasurementForm({
+  date,
+  entry,
+  unit,
+  weekStartsOn,
+  loggedDates,
+}: BodyMeasurementFormProps) {
+  const router = useRouter();
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const lengthUnit = getLengthUnit(unit);
+
+  const handleDateChange = (newDate: Date | undefined) => {
+    if (newDate) {
+      router.push(`/body?date=${format(newDate, "yyyy-MM-dd")}`);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await saveBodyMeasurementAction({
+        date,
+        bodyweight: parseOptionalNumber(formData.get("bodyweight")),
+        bodyFatPercentage: parseOptionalNumber(
+          formData.get("bodyFatPercentage")
+        ),
+        neck: parseOptionalNumber(formData.get("neck")),
+        chest: parseOptionalNumber(formData.get("chest")),
+        waist: parseOptionalNumber(formData.get("waist")),
+        hips: parseOptionalNumber(formData.get("hips")),
+        arms: parseOptionalNumber(formData.get("arms")),
+        thighs: parseOptionalNumber(formData.get("thighs")),
+        notes: (formData.get("notes") as string) || null,
+        weightUnit: unit,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setSaved(true);
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-4">
+        <span className="text-sm font-medium">Date:</span>
+        <DatePicker
+          date={parse(date, "yyyy-MM-dd", new Date())}
+          onDateChange={handleDateChange}
+          weekStartsOn={weekStartsOn}
+          markedDates={loggedDates.map((loggedDate) =>
+            parse(loggedDate, "yyyy-MM-dd", new Date())
+          )}
+          markedLabel="measurements logged"
+        />
+      </div>
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="body-bodyweight">
+            Bodyweight ({WEIGHT_UNIT_ABBREVIATIONS[unit]})
+          </Label>
+          <Input
+            id="body-bodyweight"
+            name="bodyweight"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min="0"
+            defaultValue={entry?.bodyweight ?? ""}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="body-fat">Body fat (%)</Label>
+          <Input
+            id="body-fat"
+            name="bodyFatPercentage"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min="0"
+            max="99.9"
+            defaultValue={entry?.bodyFatPercentage ?? ""}
+          />
+        </div>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium mb-2">
+          Circumferences ({lengthUnit})
+        </legend>
+        <div className="grid gap-4 grid-cols-2 sm:grid-cols-3">
+          {CIRCUMFERENCES.map((circumference) => (
+            <div key={circumference} className="space-y-2">
+              <Label htmlFor={`body-${circumference}`}>
+                {CIRCUMFERENCE_LABELS[circumference]}
+              </Label>
+              <Input
+                id={`body-${circumference}`}
+                name={circumference}
+                type="number"
+                inputMode="decimal"
+                step="any"
+                min="0"
+                defaultValue={entry?.[circumference] ?? ""}
+              />
+            </div>
+          ))}
+        </div>
+      </fieldset>
+
+      <div className="space-y-2">
+        <Label htmlFor="body-notes">Notes</Label>
+        <Textarea
+          id="body-notes"
+          name="notes"
+          maxLength={1000}
+          placeholder="e.g. Morning, before breakfast"
+          defaultValue={entry?.notes ?? ""}
+        />
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-4">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Saving..." : entry ? "Update entry" : "Save entry"}
+        </Button>
+        {saved && (
+          <p className="text-sm text-muted-foreground" role="status">
+            Measurements saved.
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,152 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { format, parse } from "date-fns";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  BODY_METRICS,
+  BODY_METRIC_LABELS,
+  formatBodyMetric,
+} from "@/lib/body-measurements";
+import type { WeightUnit } from "@/lib/units";
+import type { BodyMeasurement } from "@/data/types";
+import { deleteBodyMeasurementAction } from "./actions";
+
+function formatDate(date: string) {
+  return format(parse(date, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+}
+
+interface BodyMeasurementListProps {
+  // Newest first
+  measurements: BodyMeasurement[];
+  unit: WeightUnit;
+}
+
+export function BodyMeasurementList({
+  measurements,
+  unit,
+}: BodyMeasurementListProps) {
+  if (measurements.length === 0) {
+    return (
+      <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
+        No measurements logged yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {measurements.map((measurement) => (
+        <li key={measurement.id} className="py-3 first:pt-0 last:pb-0">
+          <BodyMeasurementRow measurement={measurement} unit={unit} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function BodyMeasurementRow({
+  measurement,
+  unit,
+}: {
+  measurement: BodyMeasurement;
+  unit: WeightUnit;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const date = formatDate(measurement.date);
+  const values = BODY_METRICS.flatMap((metric) => {
+    const value = measurement[metric];
+    return value !== null
+      ? [
+          metric === "bodyweight"
+            ? formatBodyMetric(metric, value, unit)
+            : `${BODY_METRIC_LABELS[metric]} ${formatBodyMetric(metric, value, unit)}`,
+        ]
+      : [];
+  });
+
+  const handleDelete = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await deleteBodyMeasurementAction({
+        measurementId: measurement.id,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="space-y-1">
+          <p className="font-medium">{date}</p>
+          <p className="text-sm">{values.join(" · ")}</p>
+          {measurement.notes && (
+            <p className="text-sm text-muted-foreground">{measurement.notes}</p>
+          )}
+        </div>
+        <div className="flex shrink-0 gap-1">
+          <Button variant="ghost" size="icon-sm" asChild>
+            <Link
+              href={`/body?date=${measurement.date}`}
+              aria-label={`Edit measurements for ${date}`}
+            >
+              <Pencil />
+            </Link>
+          </Button>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                disabled={isPending}
+                aria-label={`Delete measurements for ${date}`}
+              >
+                <Trash2 />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this entry?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Everything logged for {date} will be permanently deleted.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={handleDelete}>
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+      {error && (
+        <Alert variant="destructive" className="py-2">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
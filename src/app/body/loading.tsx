@@ -0,0 +1,36 @@
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function BodyLoading() {
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Body</h1>
+
+      <div className="space-y-6" aria-label="Loading body measurements">
+        <Card>
+          <CardHeader className="space-y-2">
+            <Skeleton className="h-6 w-44" />
+            <Skeleton className="h-4 w-72" />
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <Skeleton className="h-9 w-full sm:w-[240px]" />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <Skeleton className="h-9 w-full" />
+              <Skeleton className="h-9 w-full" />
+            </div>
+            <Skeleton className="h-24 w-full" />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <Skeleton className="h-6 w-20" />
+          </CardHeader>
+          <CardContent>
+            <Skeleton className="h-60 w-full" />
+          </CardContent>
+        </Card>
+      </div>
+    </main>
+  );
+}
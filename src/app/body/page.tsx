@@ -0,0 +1,114 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getBodyMeasurements } from "@/data/body-measurements";
+import { getUserSettings } from "@/data/user-settings";
+import { getBodyweightChange } from "@/lib/body-measurements";
+import { getTodayInTimeZone, isDateString } from "@/lib/dates";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import { BodyChart } from "./body-chart";
+import { BodyMeasurementForm } from "./body-measurement-form";
+import { BodyMeasurementList } from "./body-measurement-list";
+
+// Long enough to tell a bulk or a cut from a few heavy days
+const CHANGE_DAYS = 30;
+
+function formatChange(change: number, unit: WeightUnit) {
+  const rounded = Math.round(change * 10) / 10;
+
+  if (rounded === 0) {
+    return "no change";
+  }
+
+  return `${rounded > 0 ? "+" : "−"}${formatWeight(Math.abs(rounded), unit, 1)}`;
+}
+
+interface BodyPageProps {
+  searchParams: Promise<{ date?: string }>;
+}
+
+export default async function BodyPage({ searchParams }: BodyPageProps) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const { date: dateParam } = await searchParams;
+  const { weightUnit, weekStartsOn, timeZone } = await getUserSettings(userId);
+  const date = isDateString(dateParam)
+    ? dateParam
+    : getTodayInTimeZone(timeZone);
+  const measurements = await getBodyMeasurements(userId, weightUnit);
+  const entry =
+    measurements.find((measurement) => measurement.date === date) ?? null;
+
+  const bodyweights = measurements.flatMap((measurement) =>
+    measurement.bodyweight !== null
+      ? [{ date: measurement.date, bodyweight: measurement.bodyweight }]
+      : []
+  );
+  const latest = bodyweights.at(-1);
+  const change = getBodyweightChange(
+    { entries: bodyweights, fallback: null },
+    CHANGE_DAYS
+  );
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Body</h1>
+
+      <div className="space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Log Measurements</h2>
+            </CardTitle>
+            <p className="text-sm text-muted-foreground">
+              Bodyweight logged here is used for bodyweight exercises and
+              relative strength from that day on.
+            </p>
+          </CardHeader>
+          <CardContent>
+            <BodyMeasurementForm
+              key={date}
+              date={date}
+              entry={entry}
+              unit={weightUnit}
+              weekStartsOn={weekStartsOn}
+              loggedDates={measurements.map((measurement) => measurement.date)}
+            />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Trend</h2>
+            </CardTitle>
+            {latest && (
+              <p className="text-sm text-muted-foreground">
+                Latest bodyweight {formatWeight(latest.bodyweight, weightUnit, 1)}
+                {change !== null &&
+                  ` · ${formatChange(change, weightUnit)} in the last ${CHANGE_DAYS} days`}
+              </p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <BodyChart measurements={measurements} unit={weightUnit} />
+          </CardContent>
+        </Card>
+
+        <section aria-labelledby="entries-heading" className="border-t pt-6">
+          <h2 id="entries-heading" className="text-lg font-semibold mb-4">
+            Entries
+          </h2>
+          <BodyMeasurementList
+            measurements={[...measurements].reverse()}
+            unit={weightUnit}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,685 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  createWorkout,
+  getWorkoutDetails,
+  updateWorkout,
+  deleteWorkout,
+  startWorkoutSession,
+  finishWorkoutSession,
+  addExerciseToWorkout,
+  removeExerciseFromWorkout,
+  setSupersetLink,
+  copyWorkout,
+} from "@/data/workouts";
+import { createSet, getSetById, updateSet, deleteSet } from "@/data/sets";
+import { startWorkoutFromTemplate } from "@/data/templates";
+import { startPlannedSession } from "@/data/programs";
+import { getUserSettings } from "@/data/user-settings";
+import type { ActionResult } from "@/lib/action-types";
+import { MAX_DISTANCE, MAX_DURATION_SECONDS } from "@/lib/measurement-types";
+import {
+  MAX_RIR,
+  MAX_RPE,
+  MAX_TEMPO_LENGTH,
+  MIN_RPE,
+  RPE_STEP,
+  SET_TYPES,
+} from "@/lib/set-types";
+import { WEIGHT_UNITS } from "@/lib/units";
+import { WORKOUT_COPY_MODES } from "@/lib/workout-copy";
+import type { Workout, WorkoutExercise, WorkoutSet } from "@/data/types";
+
+// The dashboard and the live session pages under it
+function revalidateDashboard() {
+  revalidatePath("/dashboard", "layout");
+}
+
+// Creates accept an id generated on the device, so a create queued offline
+// can be replayed without making a duplicate
+const clientIdSchema = z.string().uuid().optional();
+
+// The updatedAt an edit was made against, so one made on a stale copy (from
+// another device, or queued before a change made elsewhere) is turned down
+// rather than overwriting that change
+const expectedUpdatedAtSchema = z.date().optional();
+
+const createWorkoutSchema = z.object({
+  id: clientIdSchema,
+  name: z.string().trim().max(100, "Name must be 100 characters or less").optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  notes: z.string().max(1000, "Notes must be 1000 characters or less").optional(),
+});
+
+const startFromTemplateSchema = z.object({
+  templateId: z.string().uuid("Select a template"),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+});
+
+const startPlannedSessionSchema = z.object({
+  programDayId: z.string().uuid(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+});
+
+const updateWorkoutSchema = z.object({
+  workoutId: z.string().uuid(),
+  name: z.string().trim().max(100, "Name must be 100 characters or less").nullable(),
+  notes: z.string().max(1000, "Notes must be 1000 characters or less").nullable(),
+  expectedUpdatedAt: expectedUpdatedAtSchema,
+});
+
+const workoutSessionSchema = z.object({
+  workoutId: z.string().uuid(),
+});
+
+const deleteWorkoutSchema = z.object({
+  workoutId: z.string().uuid(),
+});
+
+const copyWorkoutSchema = z
+  .object({
+    workoutId: z.string().uuid(),
+    date: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+    mode: z.enum(WORKOUT_COPY_MODES),
+    increment: z
+      .object({
+        weight: z
+          .number()
+          .positive("Increment must be positive")
+          .max(999, "Increment is too large"),
+        unit: z.enum(WEIGHT_UNITS),
+      })
+      .optional(),
+  })
+  .refine((data) => data.mode !== "progression" || data.increment, {
+    message: "Enter how much weight to add",
+    path: ["increment"],
+  });
+
+const addExerciseSchema = z.object({
+  id: clientIdSchema,
+  workoutId: z.string().uuid(),
+  exerciseId: z.string().uuid("Select an exercise"),
+});
+
+const removeExerciseSchema = z.object({
+  workoutExerciseId: z.string().uuid(),
+});
+
+const supersetLinkSchema = z.object({
+  workoutExerciseId: z.string().uuid(),
+  linked: z.boolean(),
+});
+
+const weightSchema = z
+  .number()
+  .positive("Weight must be positive")
+  .max(9999.99, "Weight is too large");
+const weightUnitSchema = z.enum(WEIGHT_UNITS);
+const repsSchema = z
+  .number()
+  .int("Reps must be a whole number")
+  .positive("Reps must be at least 1")
+  .max(999);
+const durationSchema = z
+  .number()
+  .int("Time must be a whole number of seconds")
+  .positive("Time must be at least 1 second")
+  .max(MAX_DURATION_SECONDS, "Time must be 24 hours or less");
+const distanceSchema = z
+  .number()
+  .positive("Distance must be positive")
+  .max(MAX_DISTANCE, "Distance is too large");
+const setTypeSchema = z.enum(SET_TYPES);
+const rpeSchema = z
+  .number()
+  .min(MIN_RPE, `RPE must be between ${MIN_RPE} and ${MAX_RPE}`)
+  .max(MAX_RPE, `RPE must be between ${MIN_RPE} and ${MAX_RPE}`)
+  .multipleOf(RPE_STEP, "RPE must be in half points");
+const rirSchema = z
+  .number()
+  .int("RIR must be a whole number")
+  .min(0, "RIR can't be negative")
+  .max(MAX_RIR, `RIR must be ${MAX_RIR} or less`);
+const tempoSchema = z
+  .string()
+  .trim()
+  .max(MAX_TEMPO_LENGTH, `Tempo must be ${MAX_TEMPO_LENGTH} characters or less`);
+
+// Which of reps, time and distance a set needs depends on how its exercise is
+// measured, so any one of them will do
+const hasMeasurement = (set: {
+  reps?: number | null;
+  durationSeconds?: number | null;
+  distance?: number | null;
+}) =>
+  [set.reps, set.durationSeconds, set.distance].some(
+    (value) => value !== undefined && value !== null
+  );
+
+const createSetSchema = z
+  .object({
+    id: clientIdSchema,
+    workoutExerciseId: z.string().uuid(),
+    weight: weightSchema.optional(),
+    weightUnit: weightUnitSchema,
+    reps: repsSchema.optional(),
+    durationSeconds: durationSchema.optional(),
+    distance: distanceSchema.optional(),
+    notes: z
+      .string()
+      .max(500, "Notes must be 500 characters or less")
+      .optional(),
+    setType: setTypeSchema,
+    rpe: rpeSchema.optional(),
+    rir: rirSchema.optional(),
+    tempo: tempoSchema.optional(),
+  })
+  .refine(hasMeasurement, {
+    message: "Enter reps, a time or a distance",
+    path: ["reps"],
+  });
+
+const updateSetSchema = z
+  .object({
+    setId: z.string().uuid(),
+    // Left out when the weight wasn't changed, to keep it as logged
+    weight: weightSchema.nullable().optional(),
+    weightUnit: weightUnitSchema.optional(),
+    reps: repsSchema.nullable(),
+    durationSeconds: durationSchema.nullable(),
+    distance: distanceSchema.nullable(),
+    notes: z
+      .string()
+      .max(500, "Notes must be 500 characters or less")
+      .nullable(),
+    setType: setTypeSchema,
+    rpe: rpeSchema.nullable(),
+    rir: rirSchema.nullable(),
+    tempo: tempoSchema.nullable(),
+    expectedUpdatedAt: expectedUpdatedAtSchema,
+  })
+  .refine(hasMeasurement, {
+    message: "Enter reps, a time or a distance",
+    path: ["reps"],
+  })
+  .refine((data) => data.weight === undefined || data.weightUnit !== undefined, {
+    message: "Select a unit for the weight",
+    path: ["weightUnit"],
+  });
+
+const deleteSetSchema = z.object({
+  setId: z.string().uuid(),
+});
+
+type CreateWorkoutInput = z.infer<typeof createWorkoutSchema>;
+type StartFromTemplateInput = z.infer<typeof startFromTemplateSchema>;
+type StartPlannedSessionInput = z.infer<typeof startPlannedSessionSchema>;
+type UpdateWorkoutInput = z.infer<typeof updateWorkoutSchema>;
+type WorkoutSessionInput = z.infer<typeof workoutSessionSchema>;
+type DeleteWorkoutInput = z.infer<typeof deleteWorkoutSchema>;
+type CopyWorkoutInput = z.infer<typeof copyWorkoutSchema>;
+type AddExerciseInput = z.infer<typeof addExerciseSchema>;
+type RemoveExerciseInput = z.infer<typeof removeExerciseSchema>;
+type SupersetLinkInput = z.infer<typeof supersetLinkSchema>;
+type CreateSetInput = z.infer<typeof createSetSchema>;
+type UpdateSetInput = z.infer<typeof updateSetSchema>;
+type DeleteSetInput = z.infer<typeof deleteSetSchema>;
+
+export async function createWorkoutAction(
+  input: CreateWorkoutInput
+): Promise<ActionResult<Workout>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = createWorkoutSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const workout = await createWorkout(userId, {
+      ...result.data,
+      name: result.data.name || undefined,
+      notes: result.data.notes || undefined,
+    });
+    revalidateDashboard();
+    return { data: workout };
+  } catch (error) {
+    console.error("Failed to create workout:", error);
+    return { error: "Failed to create workout" };
+  }
+}
+
+export async function startFromTemplateAction(
+  input: StartFromTemplateInput
+): Promise<ActionResult<Workout>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = startFromTemplateSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { templateId, date } = result.data;
+    const settings = await getUserSettings(userId);
+    const workout = await startWorkoutFromTemplate(
+      userId,
+      templateId,
+      date,
+      settings
+    );
+
+    if (!workout) {
+      return { error: "Template not found" };
+    }
+
+    revalidateDashboard();
+    return { data: workout };
+  } catch (error) {
+    console.error("Failed to start workout from template:", error);
+    return { error: "Failed to start workout from template" };
+  }
+}
+
+export async function startPlannedSessionAction(
+  input: StartPlannedSessionInput
+): Promise<ActionResult<Workout>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = startPlannedSessionSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { programDayId, date } = result.data;
+    const { weightUnit, oneRepMaxFormula } = await getUserSettings(userId);
+    const workout = await startPlannedSession(
+      userId,
+      programDayId,
+      date,
+      weightUnit,
+      oneRepMaxFormula
+    );
+
+    if (!workout) {
+      return { error: "No session planned for this date" };
+    }
+
+    revalidateDashboard();
+    revalidatePath("/programs");
+    return { data: workout };
+  } catch (error) {
+    console.error("Failed to start planned session:", error);
+    return { error: "Failed to start planned session" };
+  }
+}
+
+export async function updateWorkoutAction(
+  input: UpdateWorkoutInput
+): Promise<ActionResult<Workout>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateWorkoutSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { workoutId, name, notes, expectedUpdatedAt } = result.data;
+    const workout = await updateWorkout(
+      userId,
+      workoutId,
+      { name: name || null, notes: notes || null },
+      expectedUpdatedAt
+    );
+
+    if (!workout) {
+      const exists = await getWorkoutDetails(userId, workoutId);
+      return {
+        error: exists
+          ? "This workout was changed somewhere else since you loaded it. Refresh to see the latest before editing it."
+          : "Workout not found",
+      };
+    }
+
+    revalidateDashboard();
+    return { data: workout };
+  } catch (error) {
+    console.error("Failed to update workout:", error);
+    return { error: "Failed to update workout" };
+  }
+}
+
+export async function startSessionAction(
+  input: WorkoutSessionInput
+): Promise<ActionResult<Pick<Workout, "id" | "updatedAt">>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = workoutSessionSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const started = await startWorkoutSession(userId, result.data.workoutId);
+
+    if (!started) {
+      return { error: "Workout not found" };
+    }
+
+    revalidateDashboard();
+    return { data: started };
+  } catch (error) {
+    console.error("Failed to start session:", error);
+    return { error: "Failed to start session" };
+  }
+}
+
+export async function finishSessionAction(
+  input: WorkoutSessionInput
+): Promise<ActionResult<Pick<Workout, "id" | "updatedAt">>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = workoutSessionSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const finished = await finishWorkoutSession(userId, result.data.workoutId);
+
+    if (!finished) {
+      return { error: "Session not found" };
+    }
+
+    revalidateDashboard();
+    return { data: finished };
+  } catch (error) {
+    console.error("Failed to finish session:", error);
+    return { error: "Failed to finish session" };
+  }
+}
+
+export async function deleteWorkoutAction(
+  input: DeleteWorkoutInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = deleteWorkoutSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const deleted = await deleteWorkout(userId, result.data.workoutId);
+
+    if (!deleted) {
+      return { error: "Workout not found" };
+    }
+
+    revalidateDashboard();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to delete workout:", error);
+    return { error: "Failed to delete workout" };
+  }
+}
+
+export async function copyWorkoutAction(
+  input: CopyWorkoutInput
+): Promise<ActionResult<Workout>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = copyWorkoutSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { workoutId, ...data } = result.data;
+    const workout = await copyWorkout(userId, workoutId, data);
+
+    if (!workout) {
+      return { error: "Workout not found" };
+    }
+
+    revalidateDashboard();
+    return { data: workout };
+  } catch (error) {
+    console.error("Failed to copy workout:", error);
+    return { error: "Failed to copy workout" };
+  }
+}
+
+export async function addExerciseAction(
+  input: AddExerciseInput
+): Promise<ActionResult<WorkoutExercise>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = addExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const workoutExercise = await addExerciseToWorkout(
+      userId,
+      result.data.workoutId,
+      result.data.exerciseId,
+      result.data.id
+    );
+
+    if (!workoutExercise) {
+      return { error: "Workout or exercise not found" };
+    }
+
+    revalidateDashboard();
+    return { data: workoutExercise };
+  } catch (error) {
+    console.error("Failed to add exercise:", error);
+    return { error: "Failed to add exercise" };
+  }
+}
+
+export async function removeExerciseAction(
+  input: RemoveExerciseInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = removeExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const deleted = await removeExerciseFromWorkout(
+      userId,
+      result.data.workoutExerciseId
+    );
+
+    if (!deleted) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidateDashboard();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to remove exercise:", error);
+    return { error: "Failed to remove exercise" };
+  }
+}
+
+export async function setSupersetLinkAction(
+  input: SupersetLinkInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = supersetLinkSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const updated = await setSupersetLink(
+      userId,
+      result.data.workoutExerciseId,
+      result.data.linked
+    );
+
+    if (!updated) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidateDashboard();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to update superset:", error);
+    return { error: "Failed to update superset" };
+  }
+}
+
+export async function createSetAction(
+  input: CreateSetInput
+): Promise<ActionResult<WorkoutSet>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = createSetSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { workoutExerciseId, ...data } = result.data;
+    const set = await createSet(userId, workoutExerciseId, {
+      ...data,
+      notes: data.notes || undefined,
+      tempo: data.tempo || undefined,
+    });
+
+    if (!set) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidateDashboard();
+    return { data: set };
+  } catch (error) {
+    console.error("Failed to add set:", error);
+    return { error: "Failed to add set" };
+  }
+}
+
+export async function updateSetAction(
+  input: UpdateSetInput
+): Promise<ActionResult<WorkoutSet>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateSetSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { setId, expectedUpdatedAt, ...data } = result.data;
+    const set = await updateSet(
+      userId,
+      setId,
+      { ...data, notes: data.notes || null, tempo: data.tempo || null },
+      expectedUpdatedAt
+    );
+
+    if (!set) {
+      const exists = await getSetById(userId, setId);
+      return {
+        error: exists
+          ? "This set was changed somewhere else since you loaded it. Refresh to see the latest before editing it."
+          : "Set not found",
+      };
+    }
+
+    revalidateDashboard();
+    return { data: set };
+  } catch (error) {
+    console.error("Failed to update set:", error);
+    return { error: "Failed to update set" };
+  }
+}
+
+export async function deleteSetAction(
+  input: DeleteSetInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = deleteSetSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const deleted = await deleteSet(userId, result.data.setId);
+
+    if (!deleted) {
+      return { error: "Set not found" };
+    }
+
+    revalidateDashboard();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to delete set:", error);
+    return { error: "Failed to delete set" };
+  }
+}
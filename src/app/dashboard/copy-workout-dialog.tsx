@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { Copy } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  PLATE_INCREMENTS,
+  WEIGHT_UNIT_ABBREVIATIONS,
+  type WeightUnit,
+} from "@/lib/units";
+import {
+  WORKOUT_COPY_MODES,
+  WORKOUT_COPY_MODE_LABELS,
+  isWorkoutCopyMode,
+  type WorkoutCopyMode,
+} from "@/lib/workout-copy";
+import type { WorkoutWithExercises } from "@/data/types";
+import { copyWorkoutAction } from "./actions";
+
+interface CopyWorkoutDialogProps {
+  workout: WorkoutWithExercises;
+  today: string;
+  unit: WeightUnit;
+}
+
+export function CopyWorkoutDialog({
+  workout,
+  today,
+  unit,
+}: CopyWorkoutDialogProps) {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<WorkoutCopyMode>("sets");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+    const date = formData.get("date") as string;
+
+    startTransition(async () => {
+      const result = await copyWorkoutAction({
+        workoutId: workout.id,
+        date,
+        mode,
+        increment:
+          mode === "progression"
+            ? { weight: Number(formData.get("increment")), unit }
+            : undefined,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setOpen(false);
+      router.push(`/dashboard?date=${date}`);
+    });
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(nextOpen) => {
+        setOpen(nextOpen);
+        setError(null);
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Copy />
+          Copy
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Copy {workout.name || "workout"}</DialogTitle>
+            <DialogDescription>
+              Creates a new workout with the same exercises on the date you
+              choose.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            <Label htmlFor={`copy-date-${workout.id}`}>Date</Label>
+            <Input
+              id={`copy-date-${workout.id}`}
+              name="date"
+              type="date"
+              defaultValue={today}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor={`copy-mode-${workout.id}`}>Copy</Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => {
+                if (isWorkoutCopyMode(value)) {
+                  setMode(value);
+                }
+              }}
+            >
+              <SelectTrigger id={`copy-mode-${workout.id}`} className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKOUT_COPY_MODES.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {WORKOUT_COPY_MODE_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {mode === "progression" && (
+            <div className="space-y-2">
+              <Label htmlFor={`copy-increment-${workout.id}`}>
+                Add to each weighted working set (
+                {WEIGHT_UNIT_ABBREVIATIONS[unit]})
+              </Label>
+              <Input
+                id={`copy-increment-${workout.id}`}
+                name="increment"
+                type="number"
+                inputMode="decimal"
+                step="any"
+                min="0"
+                defaultValue={PLATE_INCREMENTS[unit] * 2}
+                required
+              />
+            </div>
+          )}
+
+          {error && (
+            <Alert variant="destructive">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+
+          <DialogFooter>
+            <Button type="submit" disabled={isPending}>
+              {isPending ? "Copying..." : "Copy workout"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
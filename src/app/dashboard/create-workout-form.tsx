@@ -0,0 +1,67 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { getActionErrorMessage } from "@/lib/action-types";
+import { runMutation } from "./offline-queue";
+
+interface CreateWorkoutFormProps {
+  date: string;
+}
+
+export function CreateWorkoutForm({ date }: CreateWorkoutFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    startTransition(async () => {
+      const result = await runMutation("createWorkout", {
+        id: crypto.randomUUID(),
+        name: (formData.get("name") as string) || undefined,
+        date,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      form.reset();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="new-workout-name">New workout</Label>
+          <Input
+            id="new-workout-name"
+            name="name"
+            placeholder="e.g. Push Day"
+            maxLength={100}
+          />
+        </div>
+        <Button type="submit" disabled={isPending}>
+          <Plus />
+          {isPending ? "Creating..." : "Log Workout"}
+        </Button>
+      </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </form>
+  );
+}
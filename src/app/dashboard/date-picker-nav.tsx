@@ -3,19 +3,31 @@
 import { useRouter } from "next/navigation";
 import { format, parse } from "date-fns";
 import { DatePicker } from "@/components/ui/date-picker";
+import type { WeekStartDay } from "@/lib/dates";
+import { getDashboardHref, type DashboardView } from "@/lib/dashboard-views";
 
 interface DatePickerNavProps {
   currentDate: string;
+  // Picking a date keeps the week or month view
+  view: DashboardView;
+  weekStartsOn: WeekStartDay;
+  // Days with workouts in the months around currentDate
+  trainingDates: string[];
 }
 
-export function DatePickerNav({ currentDate }: DatePickerNavProps) {
+export function DatePickerNav({
+  currentDate,
+  view,
+  weekStartsOn,
+  trainingDates,
+}: DatePickerNavProps) {
   const router = useRouter();
   const date = parse(currentDate, "yyyy-MM-dd", new Date());
 
   const handleDateChange = (newDate: Date | undefined) => {
     if (newDate) {
       const dateString = format(newDate, "yyyy-MM-dd");
-      router.push(`/dashboard?date=${dateString}`);
+      router.push(getDashboardHref(view, dateString));
     }
   };
 
@@ -24,7 +36,15 @@ export function DatePickerNav({ currentDate }: DatePickerNavProps) {
       <label htmlFor="date-picker" className="text-sm font-medium">
         Select Date:
       </label>
-      <DatePicker date={date} onDateChange={handleDateChange} />
+      <DatePicker
+        date={date}
+        onDateChange={handleDateChange}
+        weekStartsOn={weekStartsOn}
+        markedDates={trainingDates.map((trainingDate) =>
+          parse(trainingDate, "yyyy-MM-dd", new Date())
+        )}
+        markedLabel="workout logged"
+      />
     </div>
   );
 }
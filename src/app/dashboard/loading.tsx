@@ -12,6 +12,14 @@ export default function DashboardLoading() {
           <Skeleton className="h-10 w-full sm:w-[240px]" />
         </div>
 
+        <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Skeleton className="h-4 w-24" />
+            <Skeleton className="h-9 w-full" />
+          </div>
+          <Skeleton className="h-9 w-full sm:w-32" />
+        </div>
+
         <section className="border-t pt-6">
           <Skeleton className="h-6 w-48 mb-4" />
 
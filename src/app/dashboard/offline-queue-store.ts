@@ -0,0 +1,58 @@
+// The IndexedDB store behind the offline queue. Kept apart from
+// offline-queue.ts so the root layout can clear it on sign-out without
+// bundling the dashboard's server actions.
+
+const DB_NAME = "lifting-diary";
+const STORE_NAME = "mutations";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openQueueDb() {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, {
+        keyPath: "key",
+        autoIncrement: true,
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Private mode, a blocked upgrade or a full disk may not last; the
+      // next enqueue or replay opens it again
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Runs one request against the queue and resolves once it's committed
+export async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+) {
+  const db = await openQueueDb();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = run(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+const clearListeners = new Set<() => void>();
+
+export function onStoredMutationsCleared(listener: () => void) {
+  clearListeners.add(listener);
+}
+
+// Forgets everything queued on the device, for when its user signs out
+export async function clearStoredMutations() {
+  await withStore("readwrite", (store) => store.clear());
+  clearListeners.forEach((listener) => listener());
+}
@@ -0,0 +1,396 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getActionErrorMessage, type ActionResult } from "@/lib/action-types";
+import {
+  addExerciseAction,
+  createSetAction,
+  createWorkoutAction,
+  deleteSetAction,
+  deleteWorkoutAction,
+  finishSessionAction,
+  startSessionAction,
+  updateSetAction,
+  updateWorkoutAction,
+} from "./actions";
+import { onStoredMutationsCleared, withStore } from "./offline-queue-store";
+
+// The mutations that can wait for a connection. Creates carry an id made on
+// the device, so sending one twice doesn't log it twice.
+const mutations = {
+  createWorkout: createWorkoutAction,
+  updateWorkout: updateWorkoutAction,
+  deleteWorkout: deleteWorkoutAction,
+  startSession: startSessionAction,
+  finishSession: finishSessionAction,
+  addExercise: addExerciseAction,
+  createSet: createSetAction,
+  updateSet: updateSetAction,
+  deleteSet: deleteSetAction,
+};
+
+export type MutationName = keyof typeof mutations;
+
+type MutationInput<N extends MutationName> = Parameters<
+  (typeof mutations)[N]
+>[0];
+
+export type QueuedMutation = {
+  [N in MutationName]: {
+    // Assigned by IndexedDB, so it also orders the queue
+    key: number;
+    // Who made the change; the queue is shared by everyone on the device
+    userId: string;
+    name: N;
+    input: MutationInput<N>;
+    queuedAt: string;
+    // Why the server turned it down once it got there, or null while it's
+    // still waiting to be sent
+    error: string | null;
+  };
+}[MutationName];
+
+export type MutationResult =
+  | ActionResult<unknown>
+  | { queued: true; data?: never; error?: never };
+
+export const MUTATION_LABELS: Record<MutationName, string> = {
+  createWorkout: "New workout",
+  updateWorkout: "Workout details",
+  deleteWorkout: "Deleted workout",
+  startSession: "Session start",
+  finishSession: "Session finish",
+  addExercise: "Added exercise",
+  createSet: "New set",
+  updateSet: "Set changes",
+  deleteSet: "Deleted set",
+};
+
+// Deleting something that's already gone (from another device, or a replay
+// whose response got lost) has still done its job
+const ALREADY_APPLIED_ERRORS: Partial<Record<MutationName, string>> = {
+  deleteWorkout: "Workout not found",
+  deleteSet: "Set not found",
+};
+
+// The id of the row a mutation creates, if it creates one
+function getCreatedId(mutation: QueuedMutation) {
+  switch (mutation.name) {
+    case "createWorkout":
+    case "addExercise":
+    case "createSet":
+      return mutation.input.id;
+    default:
+      return undefined;
+  }
+}
+
+// The row a mutation needs to exist on the server first
+function getParentId(mutation: QueuedMutation) {
+  switch (mutation.name) {
+    case "createWorkout":
+      return undefined;
+    case "updateWorkout":
+    case "deleteWorkout":
+    case "startSession":
+    case "finishSession":
+    case "addExercise":
+      return mutation.input.workoutId;
+    case "createSet":
+      return mutation.input.workoutExerciseId;
+    case "updateSet":
+    case "deleteSet":
+      return mutation.input.setId;
+  }
+}
+
+// The updatedAt a mutation left its row with, when the action returns it
+function getResultUpdatedAt(result: ActionResult<unknown>) {
+  const data = result.data as { id?: unknown; updatedAt?: unknown } | undefined;
+
+  return typeof data?.id === "string" && data.updatedAt instanceof Date
+    ? { id: data.id, updatedAt: data.updatedAt }
+    : null;
+}
+
+// An edit queued behind another change this device made to the same row
+// still expects the updatedAt from before it. That change isn't a conflict,
+// so the edit is moved on to the updatedAt it left behind.
+function rebaseEdit(
+  mutation: QueuedMutation,
+  rowId: string,
+  updatedAt: Date
+): QueuedMutation | null {
+  switch (mutation.name) {
+    case "updateWorkout":
+      return mutation.input.workoutId === rowId &&
+        mutation.input.expectedUpdatedAt
+        ? {
+            ...mutation,
+            input: { ...mutation.input, expectedUpdatedAt: updatedAt },
+          }
+        : null;
+    case "updateSet":
+      return mutation.input.setId === rowId && mutation.input.expectedUpdatedAt
+        ? {
+            ...mutation,
+            input: { ...mutation.input, expectedUpdatedAt: updatedAt },
+          }
+        : null;
+    default:
+      return null;
+  }
+}
+
+// The signed-in user, as rendered by the server, so it's known offline too.
+// Nothing is queued or replayed until it's set.
+let currentUserId: string | null = null;
+
+// An in-memory copy of the current user's queue for rendering, reloaded
+// after every change
+let queue: QueuedMutation[] = [];
+const EMPTY_QUEUE: QueuedMutation[] = [];
+const queueListeners = new Set<() => void>();
+
+async function loadQueue() {
+  try {
+    const mutations = await withStore<QueuedMutation[]>("readonly", (store) =>
+      store.getAll()
+    );
+    queue = mutations.filter((mutation) => mutation.userId === currentUserId);
+    queueListeners.forEach((listener) => listener());
+  } catch (error) {
+    console.error("Failed to load offline queue:", error);
+  }
+}
+
+// Signing out clears the store from the root layout, see
+// ServiceWorkerRegistration
+onStoredMutationsCleared(() => {
+  currentUserId = null;
+  void loadQueue();
+});
+
+function subscribeToQueue(onChange: () => void) {
+  queueListeners.add(onChange);
+
+  return () => {
+    queueListeners.delete(onChange);
+  };
+}
+
+// Ties the queue to the signed-in user. Rendered by SyncStatus, which every
+// page that queues mutations shows.
+export function useQueueUser(userId: string) {
+  useEffect(() => {
+    if (currentUserId !== userId) {
+      currentUserId = userId;
+      void loadQueue();
+    }
+  }, [userId]);
+}
+
+export function useMutationQueue() {
+  return useSyncExternalStore(
+    subscribeToQueue,
+    () => queue,
+    () => EMPTY_QUEUE
+  );
+}
+
+function subscribeToConnection(onChange: () => void) {
+  window.addEventListener("online", onChange);
+  window.addEventListener("offline", onChange);
+
+  return () => {
+    window.removeEventListener("online", onChange);
+    window.removeEventListener("offline", onChange);
+  };
+}
+
+// Whether the browser thinks it's online. The server render assumes it is.
+export function useIsOnline() {
+  return useSyncExternalStore(
+    subscribeToConnection,
+    () => navigator.onLine,
+    () => true
+  );
+}
+
+export function isWaitingToSync(mutation: QueuedMutation) {
+  return mutation.error === null;
+}
+
+function callMutation<N extends MutationName>(
+  name: N,
+  input: MutationInput<N>
+) {
+  const mutation = mutations[name] as (
+    input: MutationInput<N>
+  ) => Promise<ActionResult<unknown>>;
+
+  return mutation(input);
+}
+
+async function enqueue<N extends MutationName>(
+  name: N,
+  input: MutationInput<N>
+): Promise<MutationResult> {
+  const userId = currentUserId;
+
+  if (!userId) {
+    return { error: "You're offline. Try again once you're back online." };
+  }
+
+  await withStore("readwrite", (store) =>
+    store.add({
+      userId,
+      name,
+      input,
+      queuedAt: new Date().toISOString(),
+      error: null,
+    })
+  );
+  await loadQueue();
+
+  return { queued: true };
+}
+
+// Sends a mutation straight to the server when it can, and queues it on
+// the device when it can't. Anything already queued goes first, so a later
+// change never overtakes an earlier one.
+export async function runMutation<N extends MutationName>(
+  name: N,
+  input: MutationInput<N>
+): Promise<MutationResult> {
+  if (!navigator.onLine || queue.some(isWaitingToSync)) {
+    return enqueue(name, input);
+  }
+
+  try {
+    return await callMutation(name, input);
+  } catch {
+    // Actions return their own errors, so a throw means the request never
+    // made it, e.g. on a connection that claims to be online
+    return enqueue(name, input);
+  }
+}
+
+let isReplaying = false;
+
+// Sends queued mutations to the server in the order they were made.
+// Resolves to whether any of them got through, so the caller knows to
+// refresh what's on screen.
+export async function replayQueue() {
+  const userId = currentUserId;
+
+  if (isReplaying || !navigator.onLine || !userId) {
+    return false;
+  }
+
+  isReplaying = true;
+  let hasSynced = false;
+
+  try {
+    const mutations = await withStore<QueuedMutation[]>("readonly", (store) =>
+      store.getAll()
+    );
+
+    // Someone else's changes would be saved to this user's account
+    for (const mutation of mutations) {
+      if (mutation.userId !== userId) {
+        await withStore("readwrite", (store) => store.delete(mutation.key));
+      }
+    }
+
+    const ownMutations = mutations.filter(
+      (mutation) => mutation.userId === userId
+    );
+
+    // Rows whose create the server turned down, by the mutation that would
+    // have made them. Anything queued against one of them fails with it
+    // rather than being sent to fail on its own.
+    const failedCreates = new Map<string, MutationName>();
+    const markFailed = (mutation: QueuedMutation) => {
+      const createdId = getCreatedId(mutation);
+
+      if (createdId) {
+        failedCreates.set(createdId, mutation.name);
+      }
+    };
+
+    ownMutations
+      .filter((mutation) => !isWaitingToSync(mutation))
+      .forEach(markFailed);
+
+    const waiting = ownMutations.filter(isWaitingToSync);
+
+    for (const [index, mutation] of waiting.entries()) {
+      const parentId = getParentId(mutation);
+      const failedParent = parentId && failedCreates.get(parentId);
+
+      if (failedParent) {
+        const error = `Not saved because the ${MUTATION_LABELS[failedParent].toLowerCase()} it belongs to wasn't`;
+        await withStore("readwrite", (store) =>
+          store.put({ ...mutation, error })
+        );
+        markFailed(mutation);
+        continue;
+      }
+
+      let result: ActionResult<unknown>;
+
+      try {
+        result = await callMutation(mutation.name, mutation.input);
+      } catch {
+        // Still can't reach the server; the rest waits for the next try
+        break;
+      }
+
+      // Signed out while offline; keep everything until they sign back in
+      if (result.error === "Unauthorized") {
+        break;
+      }
+
+      if (
+        result.error &&
+        result.error !== ALREADY_APPLIED_ERRORS[mutation.name]
+      ) {
+        const error = getActionErrorMessage(result.error);
+        await withStore("readwrite", (store) =>
+          store.put({ ...mutation, error })
+        );
+        markFailed(mutation);
+      } else {
+        await withStore("readwrite", (store) => store.delete(mutation.key));
+        hasSynced = true;
+
+        const updated = getResultUpdatedAt(result);
+
+        for (let later = index + 1; updated && later < waiting.length; later++) {
+          const rebased = rebaseEdit(
+            waiting[later],
+            updated.id,
+            updated.updatedAt
+          );
+
+          if (rebased) {
+            waiting[later] = rebased;
+            await withStore("readwrite", (store) => store.put(rebased));
+          }
+        }
+      }
+    }
+  } catch (error) {
+    console.error("Failed to sync offline changes:", error);
+  } finally {
+    isReplaying = false;
+    await loadQueue();
+  }
+
+  return hasSynced;
+}
+
+// Drops a mutation the server turned down, once its error has been seen
+export async function dismissMutation(key: number) {
+  await withStore("readwrite", (store) => store.delete(key));
+  await loadQueue();
+}
@@ -1,12 +1,35 @@
 import { auth } from "@clerk/nextjs/server";
 import { redirect } from "next/navigation";
-import { format } from "date-fns";
-import { getWorkoutsByDate } from "@/data/workouts";
+import { addMonths, parse, subMonths } from "date-fns";
+import { getCalendarRange, getTodayInTimeZone } from "@/lib/dates";
+import { resolveDashboardRange } from "@/lib/dashboard-views";
+import { getTrainingDays, getWorkoutsInRange } from "@/data/workouts";
+import { getBodyweightHistory } from "@/data/body-measurements";
+import { getExercises } from "@/data/exercises";
+import { getPersonalRecordFlags } from "@/data/personal-records";
+import {
+  getPreviousPerformance,
+  getProgressionSuggestions,
+} from "@/data/progress";
+import { getUserSettings } from "@/data/user-settings";
+import { getTemplates } from "@/data/templates";
+import { getPlannedSessions } from "@/data/programs";
 import { DatePickerNav } from "./date-picker-nav";
+import { RangeNav } from "./range-nav";
+import { RangeTotals } from "./range-totals";
+import { CreateWorkoutForm } from "./create-workout-form";
+import { StartFromTemplateForm } from "./start-from-template-form";
+import { PlannedSessionCard } from "./planned-session-card";
+import { SyncStatus } from "./sync-status";
 import { WorkoutList } from "./workout-list";
 
 interface DashboardPageProps {
-  searchParams: Promise<{ date?: string }>;
+  searchParams: Promise<{
+    date?: string;
+    view?: string;
+    from?: string;
+    to?: string;
+  }>;
 }
 
 export default async function DashboardPage({ searchParams }: DashboardPageProps) {
@@ -16,16 +39,109 @@ export default async function DashboardPage({ searchParams }: DashboardPageProps
     redirect("/");
   }
 
-  const { date } = await searchParams;
-  const selectedDate = date || format(new Date(), "yyyy-MM-dd");
-  const workouts = await getWorkoutsByDate(userId, selectedDate);
+  const params = await searchParams;
+  const settings = await getUserSettings(userId);
+  const { weightUnit, weekStartsOn, oneRepMaxFormula, timeZone } = settings;
+  const today = getTodayInTimeZone(timeZone);
+  const range = resolveDashboardRange(params, today, weekStartsOn);
+  const selectedDate = range.date;
+  const isDayView = range.view === "day";
+  // The picker marks training days from a year before the selected month to
+  // the month after, which covers how far people page through it
+  const selectedMonth = parse(selectedDate, "yyyy-MM-dd", new Date());
+  const { fromDate } = getCalendarRange(subMonths(selectedMonth, 12), weekStartsOn);
+  const { toDate } = getCalendarRange(addMonths(selectedMonth, 1), weekStartsOn);
+  const [
+    workouts,
+    exercises,
+    templates,
+    plannedSessions,
+    bodyweights,
+  ] = await Promise.all([
+    getWorkoutsInRange(userId, range.fromDate, range.toDate, weightUnit),
+    getExercises(userId),
+    isDayView ? getTemplates(userId, weightUnit) : [],
+    isDayView
+      ? getPlannedSessions(userId, selectedDate, weightUnit, oneRepMaxFormula)
+      : [],
+    getBodyweightHistory(userId, settings),
+  ]);
+  const loggedExerciseIds = new Set(
+    workouts.flatMap((workout) =>
+      workout.exercises.map((workoutExercise) => workoutExercise.exercise.id)
+    )
+  );
+  const [personalRecords, previousPerformance, trainingDays, suggestions] =
+    await Promise.all([
+      getPersonalRecordFlags(userId, workouts, oneRepMaxFormula, weightUnit),
+      getPreviousPerformance(userId, workouts, weightUnit),
+      getTrainingDays(userId, fromDate, toDate, weightUnit, bodyweights),
+      isDayView
+        ? getProgressionSuggestions(userId, selectedDate, settings, [
+            ...loggedExerciseIds,
+          ])
+        : {},
+    ]);
 
   return (
     <main className="container mx-auto px-4 py-8 max-w-4xl">
       <h1 className="text-2xl font-bold mb-6">Workout Dashboard</h1>
       <div className="space-y-6">
-        <DatePickerNav currentDate={selectedDate} />
-        <WorkoutList workouts={workouts} selectedDate={selectedDate} />
+        <SyncStatus userId={userId} />
+        <DatePickerNav
+          currentDate={selectedDate}
+          view={range.view === "range" ? "day" : range.view}
+          weekStartsOn={weekStartsOn}
+          trainingDates={trainingDays.map((day) => day.date)}
+        />
+        <RangeNav range={range} />
+        {isDayView ? (
+          <>
+            <CreateWorkoutForm key={selectedDate} date={selectedDate} />
+            <StartFromTemplateForm
+              key={`template-${selectedDate}`}
+              date={selectedDate}
+              templates={templates.map(({ id, name }) => ({ id, name }))}
+            />
+          </>
+        ) : (
+          <RangeTotals
+            workouts={workouts}
+            unit={weightUnit}
+            bodyweights={bodyweights}
+          />
+        )}
+        {plannedSessions.length > 0 && (
+          <section aria-labelledby="planned-heading" className="border-t pt-6">
+            <h2 id="planned-heading" className="text-lg font-semibold mb-4">
+              Planned Sessions
+            </h2>
+            <div className="space-y-4">
+              {plannedSessions.map((session) => (
+                <PlannedSessionCard
+                  key={session.programDayId}
+                  session={session}
+                  isStarted={session.exercises.some((prescription) =>
+                    loggedExerciseIds.has(prescription.exercise.id)
+                  )}
+                  unit={weightUnit}
+                />
+              ))}
+            </div>
+          </section>
+        )}
+        <WorkoutList
+          workouts={workouts}
+          fromDate={range.fromDate}
+          toDate={range.toDate}
+          today={today}
+          exercises={exercises}
+          personalRecords={personalRecords}
+          previousPerformance={previousPerformance}
+          suggestions={suggestions}
+          unit={weightUnit}
+          bodyweights={bodyweights}
+        />
       </div>
     </main>
   );
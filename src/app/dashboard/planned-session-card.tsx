@@ -0,0 +1,128 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { CalendarCheck, Check } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getActionErrorMessage } from "@/lib/action-types";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { PlannedSession } from "@/data/types";
+import { startPlannedSessionAction } from "./actions";
+
+interface PlannedSessionCardProps {
+  session: PlannedSession;
+  // Whether a workout on this date already includes the session's exercises
+  isStarted: boolean;
+  unit: WeightUnit;
+}
+
+export function PlannedSessionCard({
+  session,
+  isStarted,
+  unit,
+}: PlannedSessionCardProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const adherence =
+    session.prescribedSets > 0
+      ? Math.round((session.completedSets / session.prescribedSets) * 100)
+      : null;
+
+  const handleStart = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await startPlannedSessionAction({
+        programDayId: session.programDayId,
+        date: session.date,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <Card className="border-dashed">
+      <CardHeader>
+        <CardTitle>
+          <h3 className="flex flex-wrap items-center gap-2">
+            <CalendarCheck className="size-4 text-muted-foreground" />
+            {session.dayName}
+            {session.isDeload && <Badge variant="secondary">Deload</Badge>}
+          </h3>
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          <Link href="/programs" className="underline-offset-4 hover:underline">
+            {session.programName}
+          </Link>{" "}
+          · Week {session.weekNumber}
+          {adherence !== null &&
+            ` · ${session.completedSets} of ${session.prescribedSets} sets done (${adherence}%)`}
+        </p>
+        {!isStarted && session.exercises.length > 0 && (
+          <CardAction>
+            <Button size="sm" onClick={handleStart} disabled={isPending}>
+              {isPending ? "Starting..." : "Start session"}
+            </Button>
+          </CardAction>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {session.exercises.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No exercises prescribed for this day.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {session.exercises.map((prescription) => {
+              const isComplete = prescription.completedSets >= prescription.sets;
+
+              return (
+                <li
+                  key={prescription.programExerciseId}
+                  className="flex flex-wrap items-center gap-2"
+                >
+                  <span className="font-medium">{prescription.exercise.name}</span>
+                  <span className="text-sm text-muted-foreground">
+                    {prescription.sets} × {prescription.reps}
+                    {prescription.weight !== null &&
+                      ` @ ${formatWeight(prescription.weight, unit)}`}
+                    {prescription.percentage !== null &&
+                      ` (${prescription.percentage}% 1RM${prescription.weight === null ? ", log a set to estimate your 1RM" : ""})`}
+                  </span>
+                  <span
+                    className={
+                      isComplete
+                        ? "ml-auto flex items-center gap-1 text-sm font-medium"
+                        : "ml-auto text-sm text-muted-foreground"
+                    }
+                    aria-label={`${prescription.completedSets} of ${prescription.sets} sets done`}
+                  >
+                    {isComplete && <Check className="size-4" />}
+                    {prescription.completedSets}/{prescription.sets}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
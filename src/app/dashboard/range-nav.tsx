@@ -0,0 +1,102 @@
+import Link from "next/link";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  DASHBOARD_VIEWS,
+  DASHBOARD_VIEW_LABELS,
+  getAdjacentRangeHref,
+  getDashboardHref,
+  type DashboardRange,
+} from "@/lib/dashboard-views";
+
+interface RangeNavProps {
+  range: DashboardRange;
+}
+
+const PERIOD_LABELS: Record<DashboardRange["view"], string> = {
+  day: "day",
+  week: "week",
+  month: "month",
+  range: "range",
+};
+
+// View switcher, previous/next links and a custom range form. The form is a
+// plain GET so it works before hydration.
+export function RangeNav({ range }: RangeNavProps) {
+  const period = PERIOD_LABELS[range.view];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex gap-1" role="group" aria-label="View">
+          {DASHBOARD_VIEWS.map((view) => (
+            <Button
+              key={view}
+              variant="ghost"
+              size="sm"
+              className={cn(range.view === view && "bg-accent")}
+              asChild
+            >
+              <Link
+                href={getDashboardHref(view, range.date)}
+                aria-current={range.view === view ? "page" : undefined}
+              >
+                {DASHBOARD_VIEW_LABELS[view]}
+              </Link>
+            </Button>
+          ))}
+        </div>
+        <div className="ml-auto flex gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={getAdjacentRangeHref(range, -1)}>
+              <ChevronLeft />
+              Previous {period}
+            </Link>
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={getAdjacentRangeHref(range, 1)}>
+              Next {period}
+              <ChevronRight />
+            </Link>
+          </Button>
+        </div>
+      </div>
+      <form
+        key={`${range.fromDate}-${range.toDate}`}
+        action="/dashboard"
+        className="flex flex-col gap-2 sm:flex-row sm:items-end"
+      >
+        <div className="space-y-1">
+          <Label htmlFor="range-from" className="text-xs">
+            From
+          </Label>
+          <Input
+            id="range-from"
+            name="from"
+            type="date"
+            defaultValue={range.fromDate}
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="range-to" className="text-xs">
+            To
+          </Label>
+          <Input
+            id="range-to"
+            name="to"
+            type="date"
+            defaultValue={range.toDate}
+            required
+          />
+        </div>
+        <Button type="submit" variant="outline">
+          Show range
+        </Button>
+      </form>
+    </div>
+  );
+}
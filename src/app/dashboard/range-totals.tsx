@@ -0,0 +1,60 @@
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  getBodyweightOn,
+  type BodyweightHistory,
+} from "@/lib/body-measurements";
+import { getSetVolume } from "@/lib/measurement-types";
+import { isWarmUpSet } from "@/lib/set-types";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { WorkoutWithExercises } from "@/data/types";
+
+interface RangeTotalsProps {
+  workouts: WorkoutWithExercises[];
+  unit: WeightUnit;
+  // For bodyweight and assisted sets, on each workout's date
+  bodyweights: BodyweightHistory;
+}
+
+// Warm-ups are left out, as they are everywhere totals are shown
+export function RangeTotals({ workouts, unit, bodyweights }: RangeTotalsProps) {
+  const sets = workouts.flatMap((workout) =>
+    workout.exercises.flatMap(({ exercise, sets }) =>
+      sets
+        .filter((set) => !isWarmUpSet(set.setType))
+        .map((set) => ({
+          ...set,
+          measurementType: exercise.measurementType,
+          bodyweight: getBodyweightOn(bodyweights, workout.date),
+        }))
+    )
+  );
+  const volume = sets.reduce(
+    (total, set) =>
+      total +
+      getSetVolume(set.measurementType, set.weight, set.reps, set.bodyweight),
+    0
+  );
+  const totals = [
+    { label: "Sessions", value: workouts.length.toLocaleString("en-US") },
+    { label: "Sets", value: sets.length.toLocaleString("en-US") },
+    { label: "Volume", value: formatWeight(Math.round(volume), unit) },
+  ];
+
+  return (
+    <section aria-labelledby="totals-heading">
+      <h2 id="totals-heading" className="sr-only">
+        Totals
+      </h2>
+      <div className="grid gap-4 sm:grid-cols-3">
+        {totals.map((total) => (
+          <Card key={total.label}>
+            <CardContent className="pt-6">
+              <div className="text-3xl font-bold">{total.value}</div>
+              <div className="text-sm text-muted-foreground">{total.label}</div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,78 @@
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { z } from "zod";
+import { format, parse } from "date-fns";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { getWorkoutById } from "@/data/workouts";
+import { getExercises } from "@/data/exercises";
+import {
+  getPreviousSessions,
+  getProgressionSuggestions,
+} from "@/data/progress";
+import { getUserSettings } from "@/data/user-settings";
+import { SessionView } from "./session-view";
+
+interface SessionPageProps {
+  params: Promise<{ workoutId: string }>;
+}
+
+export default async function SessionPage({ params }: SessionPageProps) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const { workoutId } = await params;
+
+  if (!z.string().uuid().safeParse(workoutId).success) {
+    notFound();
+  }
+
+  const settings = await getUserSettings(userId);
+  const { weightUnit, restTimerSeconds } = settings;
+  const [workout, exercises] = await Promise.all([
+    getWorkoutById(userId, workoutId, weightUnit),
+    getExercises(userId),
+  ]);
+
+  if (!workout) {
+    notFound();
+  }
+
+  const exerciseIds = [...new Set(workout.exercises.map((we) => we.exercise.id))];
+  const [previousSessions, suggestions] = await Promise.all([
+    getPreviousSessions(userId, exerciseIds, workout.date, weightUnit),
+    getProgressionSuggestions(userId, workout.date, settings, exerciseIds),
+  ]);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-2xl">
+      <Button variant="ghost" size="sm" className="-ml-3 mb-4" asChild>
+        <Link href={`/dashboard?date=${workout.date}`}>
+          <ArrowLeft />
+          Dashboard
+        </Link>
+      </Button>
+
+      <div className="mb-6">
+        <h1 className="text-2xl font-bold">{workout.name || "Workout"}</h1>
+        <p className="text-sm text-muted-foreground">
+          {format(parse(workout.date, "yyyy-MM-dd", new Date()), "do MMM yyyy")}
+        </p>
+      </div>
+
+      <SessionView
+        userId={userId}
+        workout={workout}
+        exercises={exercises}
+        previousSessions={previousSessions}
+        suggestions={suggestions}
+        restTimerSeconds={restTimerSeconds}
+        unit={weightUnit}
+      />
+    </main>
+  );
+}
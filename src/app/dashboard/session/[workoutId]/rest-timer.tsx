@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect } from "react";
+import Link from "next/link";
+import { Minus, Play, Plus, SkipForward } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { REST_TIMER_STEP_SECONDS, formatClock } from "@/lib/sessions";
+import {
+  clearRestTimer,
+  startRestTimer,
+  useCurrentSecond,
+  useRestTimerEnd,
+} from "./session-clock";
+
+export function RestTimer({
+  workoutId,
+  restTimerSeconds,
+}: {
+  workoutId: string;
+  restTimerSeconds: number;
+}) {
+  const now = useCurrentSecond();
+  const endsAt = useRestTimerEnd(workoutId);
+  const remaining =
+    endsAt !== null && now !== null
+      ? Math.max(0, Math.ceil(endsAt / 1000) - now)
+      : null;
+  const isOver = remaining === 0;
+
+  useEffect(() => {
+    if (isOver) {
+      navigator.vibrate?.(300);
+    }
+  }, [isOver]);
+
+  const adjust = (seconds: number) => {
+    if (endsAt !== null && remaining !== null) {
+      startRestTimer(workoutId, Math.max(0, remaining + seconds));
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>
+          <h2>Rest</h2>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {remaining === null ? (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm text-muted-foreground">
+              {restTimerSeconds > 0 ? (
+                <>
+                  Starts at {formatClock(restTimerSeconds)} when you complete a
+                  set.
+                </>
+              ) : (
+                <>The rest timer is off.</>
+              )}{" "}
+              <Link
+                href="/settings"
+                className="underline underline-offset-4"
+              >
+                Change
+              </Link>
+            </p>
+            {restTimerSeconds > 0 && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => startRestTimer(workoutId, restTimerSeconds)}
+              >
+                <Play />
+                Start now
+              </Button>
+            )}
+          </div>
+        ) : (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <p
+              className="text-4xl font-semibold tabular-nums"
+              role="timer"
+              aria-live={isOver ? "assertive" : "off"}
+            >
+              {isOver ? "Rest over" : formatClock(remaining)}
+            </p>
+            <div className="flex gap-2">
+              {!isOver && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="icon-sm"
+                    onClick={() => adjust(-REST_TIMER_STEP_SECONDS)}
+                    aria-label={`Rest ${REST_TIMER_STEP_SECONDS} seconds less`}
+                  >
+                    <Minus />
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="icon-sm"
+                    onClick={() => adjust(REST_TIMER_STEP_SECONDS)}
+                    aria-label={`Rest ${REST_TIMER_STEP_SECONDS} seconds more`}
+                  >
+                    <Plus />
+                  </Button>
+                </>
+              )}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => clearRestTimer(workoutId)}
+              >
+                <SkipForward />
+                {isOver ? "Dismiss" : "Skip"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
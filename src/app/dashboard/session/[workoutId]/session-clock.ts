@@ -0,0 +1,63 @@
+import { useSyncExternalStore } from "react";
+
+function subscribeToClock(onTick: () => void) {
+  const interval = setInterval(onTick, 1000);
+  return () => clearInterval(interval);
+}
+
+// The current time in whole seconds, ticking once a second. Null while
+// rendering on the server, where there's no clock to follow.
+export function useCurrentSecond() {
+  return useSyncExternalStore(
+    subscribeToClock,
+    () => Math.floor(Date.now() / 1000),
+    () => null
+  );
+}
+
+// The rest timer's end time lives in localStorage, so it keeps counting
+// through a reload or the phone locking
+const restTimerListeners = new Set<() => void>();
+
+function getRestTimerKey(workoutId: string) {
+  return `rest-timer:${workoutId}`;
+}
+
+function subscribeToRestTimer(onChange: () => void) {
+  restTimerListeners.add(onChange);
+  window.addEventListener("storage", onChange);
+
+  return () => {
+    restTimerListeners.delete(onChange);
+    window.removeEventListener("storage", onChange);
+  };
+}
+
+function setRestTimerEnd(workoutId: string, endsAt: number | null) {
+  if (endsAt === null) {
+    localStorage.removeItem(getRestTimerKey(workoutId));
+  } else {
+    localStorage.setItem(getRestTimerKey(workoutId), endsAt.toString());
+  }
+
+  restTimerListeners.forEach((listener) => listener());
+}
+
+export function startRestTimer(workoutId: string, seconds: number) {
+  setRestTimerEnd(workoutId, Date.now() + seconds * 1000);
+}
+
+export function clearRestTimer(workoutId: string) {
+  setRestTimerEnd(workoutId, null);
+}
+
+// When the workout's rest timer runs out, in milliseconds since the epoch
+export function useRestTimerEnd(workoutId: string) {
+  const stored = useSyncExternalStore(
+    subscribeToRestTimer,
+    () => localStorage.getItem(getRestTimerKey(workoutId)),
+    () => null
+  );
+
+  return stored !== null ? Number(stored) : null;
+}
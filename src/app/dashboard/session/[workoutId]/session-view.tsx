@@ -0,0 +1,404 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { format, parse } from "date-fns";
+import { ChevronLeft, ChevronRight, Flag, Play } from "lucide-react";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { SetTypeBadge } from "@/components/set-type-badge";
+import { getActionErrorMessage } from "@/lib/action-types";
+import { formatDuration, formatSetSummary } from "@/lib/measurement-types";
+import {
+  formatSuggestion,
+  toSuggestedSet,
+  type ProgressionSuggestion,
+} from "@/lib/progression";
+import { formatClock, getSessionSeconds } from "@/lib/sessions";
+import { isWarmUpSet } from "@/lib/set-types";
+import { getExerciseLabels } from "@/lib/supersets";
+import type { WeightUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type {
+  Exercise,
+  PreviousSession,
+  WorkoutWithExercises,
+} from "@/data/types";
+import { runMutation } from "../../offline-queue";
+import {
+  QueuedExerciseList,
+  QueuedSetList,
+  SyncStatus,
+} from "../../sync-status";
+import { AddExerciseForm, AddSetForm } from "../../workout-edit-forms";
+import { RestTimer } from "./rest-timer";
+import { clearRestTimer, startRestTimer, useCurrentSecond } from "./session-clock";
+
+type SessionExercise = WorkoutWithExercises["exercises"][number];
+
+interface SessionViewProps {
+  userId: string;
+  workout: WorkoutWithExercises;
+  exercises: Exercise[];
+  // Both keyed by exercise id
+  previousSessions: Record<string, PreviousSession>;
+  suggestions: Record<string, ProgressionSuggestion>;
+  restTimerSeconds: number;
+  unit: WeightUnit;
+}
+
+function formatDate(date: string) {
+  return format(parse(date, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+}
+
+// Picks up where the session left off: the last exercise with a set logged
+function getDefaultExercise(workout: WorkoutWithExercises) {
+  return (
+    workout.exercises.findLast((we) => we.sets.length > 0) ??
+    workout.exercises[0]
+  );
+}
+
+export function SessionView({
+  userId,
+  workout,
+  exercises,
+  previousSessions,
+  suggestions,
+  restTimerSeconds,
+  unit,
+}: SessionViewProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const labels = getExerciseLabels(workout.exercises);
+  const isFinished = workout.completedAt !== null;
+
+  const current =
+    workout.exercises.find((we) => we.id === selectedId) ??
+    getDefaultExercise(workout);
+  const currentIndex = current ? workout.exercises.indexOf(current) : -1;
+  const suggestion = current && suggestions[current.exercise.id];
+
+  const handleStart = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await runMutation("startSession", {
+        workoutId: workout.id,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  const handleFinish = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await runMutation("finishSession", {
+        workoutId: workout.id,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      } else {
+        clearRestTimer(workout.id);
+      }
+    });
+  };
+
+  const handleSetCompleted = (completed: SessionExercise) => {
+    if (restTimerSeconds > 0) {
+      startRestTimer(workout.id, restTimerSeconds);
+    }
+
+    // The first set logged starts the session clock
+    if (workout.startedAt === null) {
+      handleStart();
+    }
+
+    // Supersets alternate between their exercises after every set
+    const group =
+      completed.groupId !== null
+        ? workout.exercises.filter((we) => we.groupId === completed.groupId)
+        : [];
+
+    if (group.length > 1) {
+      const next = group[(group.indexOf(completed) + 1) % group.length];
+      setSelectedId(next.id);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <SyncStatus userId={userId} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <h2>{isFinished ? "Session finished" : "Session"}</h2>
+          </CardTitle>
+          <CardAction>
+            {workout.startedAt === null || isFinished ? (
+              <Button size="sm" onClick={handleStart} disabled={isPending}>
+                <Play />
+                {workout.startedAt === null ? "Start" : "Resume"}
+              </Button>
+            ) : (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleFinish}
+                disabled={isPending}
+              >
+                <Flag />
+                Finish
+              </Button>
+            )}
+          </CardAction>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {workout.startedAt === null ? (
+            <p className="text-sm text-muted-foreground">
+              The clock starts when you start the session or complete your
+              first set.
+            </p>
+          ) : (
+            <SessionClock
+              startedAt={workout.startedAt}
+              completedAt={workout.completedAt}
+            />
+          )}
+          {error && (
+            <Alert variant="destructive" className="py-2">
+              <AlertDescription>{error}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {!isFinished && (
+        <RestTimer workoutId={workout.id} restTimerSeconds={restTimerSeconds} />
+      )}
+
+      {current && (
+        <>
+          <nav aria-label="Exercises">
+            <ul className="flex flex-wrap gap-2">
+              {workout.exercises.map((we) => (
+                <li key={we.id}>
+                  <Button
+                    variant={we.id === current.id ? "default" : "outline"}
+                    size="sm"
+                    onClick={() => setSelectedId(we.id)}
+                    aria-current={we.id === current.id ? "step" : undefined}
+                  >
+                    {labels[we.id]}. {we.exercise.name}
+                    <span className="text-xs opacity-70">
+                      {we.sets.length} {we.sets.length === 1 ? "set" : "sets"}
+                    </span>
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </nav>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <h2>
+                  {labels[current.id]}. {current.exercise.name}
+                </h2>
+              </CardTitle>
+              <CardAction className="flex gap-2">
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() =>
+                    setSelectedId(workout.exercises[currentIndex - 1].id)
+                  }
+                  disabled={currentIndex === 0}
+                  aria-label="Previous exercise"
+                >
+                  <ChevronLeft />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon-sm"
+                  onClick={() =>
+                    setSelectedId(workout.exercises[currentIndex + 1].id)
+                  }
+                  disabled={currentIndex === workout.exercises.length - 1}
+                  aria-label="Next exercise"
+                >
+                  <ChevronRight />
+                </Button>
+              </CardAction>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <PreviousSessionSummary
+                exercise={current}
+                session={previousSessions[current.exercise.id]}
+                suggestion={suggestion}
+                unit={unit}
+              />
+
+              {current.sets.length > 0 && (
+                <section aria-label="Sets done today">
+                  <ol className="space-y-1 text-sm">
+                    {current.sets.map((set) => (
+                      <li
+                        key={set.id}
+                        className={cn(
+                          "flex items-center gap-2",
+                          isWarmUpSet(set.setType) && "text-muted-foreground"
+                        )}
+                      >
+                        <span className="w-12 text-muted-foreground">
+                          Set {set.setNumber}
+                        </span>
+                        {formatSetSummary(
+                          current.exercise.measurementType,
+                          set,
+                          unit
+                        )}
+                        <SetTypeBadge type={set.setType} />
+                      </li>
+                    ))}
+                  </ol>
+                </section>
+              )}
+
+              <QueuedSetList
+                workoutExerciseId={current.id}
+                measurementType={current.exercise.measurementType}
+                unit={unit}
+              />
+
+              {!isFinished && (
+                <AddSetForm
+                  key={`${current.id}-${current.sets.at(-1)?.id ?? "first"}-${unit}`}
+                  workoutExerciseId={current.id}
+                  measurementType={current.exercise.measurementType}
+                  // The first set starts from the suggestion, or failing
+                  // that the first set last time
+                  lastSet={
+                    current.sets.at(-1) ??
+                    (suggestion && toSuggestedSet(suggestion)) ??
+                    previousSessions[current.exercise.id]?.sets[0]
+                  }
+                  unit={unit}
+                  submitLabel="Complete set"
+                  onAdded={() => handleSetCompleted(current)}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <QueuedExerciseList
+        workoutId={workout.id}
+        exercises={exercises}
+        canAddSets={!isFinished}
+        unit={unit}
+      />
+
+      {!isFinished && (
+        <section aria-label="Add an exercise">
+          <AddExerciseForm
+            workoutId={workout.id}
+            exercises={exercises}
+            suggestions={suggestions}
+            unit={unit}
+          />
+        </section>
+      )}
+    </div>
+  );
+}
+
+function SessionClock({
+  startedAt,
+  completedAt,
+}: {
+  startedAt: Date;
+  completedAt: Date | null;
+}) {
+  const now = useCurrentSecond();
+
+  if (completedAt) {
+    return (
+      <p className="text-sm">
+        Took {formatDuration(getSessionSeconds(startedAt, completedAt))}
+      </p>
+    );
+  }
+
+  return (
+    <p className="text-2xl font-semibold tabular-nums" role="timer">
+      {now !== null
+        ? formatClock(getSessionSeconds(startedAt, new Date(now * 1000)))
+        : "--:--"}
+    </p>
+  );
+}
+
+function PreviousSessionSummary({
+  exercise,
+  session,
+  suggestion,
+  unit,
+}: {
+  exercise: SessionExercise;
+  session: PreviousSession | undefined;
+  suggestion: ProgressionSuggestion | undefined;
+  unit: WeightUnit;
+}) {
+  if (!session) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        First time doing this exercise.
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-md bg-muted p-3 text-sm">
+      <p className="font-medium">Last time, {formatDate(session.date)}</p>
+      <ol className="mt-1 space-y-0.5 text-muted-foreground">
+        {session.sets.map((set) => (
+          <li key={set.setNumber}>
+            Set {set.setNumber}:{" "}
+            {formatSetSummary(exercise.exercise.measurementType, set, unit)}
+            {isWarmUpSet(set.setType) && " (warm-up)"}
+          </li>
+        ))}
+      </ol>
+      {suggestion && (
+        <p className="mt-2">
+          <span className="font-medium">
+            Today:{" "}
+            {formatSuggestion(
+              exercise.exercise.measurementType,
+              suggestion,
+              unit
+            )}
+          </span>
+          <span className="block text-muted-foreground">
+            {suggestion.reason}
+          </span>
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { ClipboardList } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import { startFromTemplateAction } from "./actions";
+
+interface StartFromTemplateFormProps {
+  date: string;
+  templates: { id: string; name: string }[];
+}
+
+export function StartFromTemplateForm({
+  date,
+  templates,
+}: StartFromTemplateFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [templateId, setTemplateId] = useState("");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await startFromTemplateAction({ templateId, date });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setTemplateId("");
+    });
+  };
+
+  if (templates.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Repeat the same sessions often?{" "}
+        <Link href="/templates" className="underline underline-offset-4">
+          Create a template
+        </Link>{" "}
+        to start them in one click.
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end">
+        <div className="flex-1 space-y-2">
+          <Label htmlFor="start-template">Start from template</Label>
+          <Select value={templateId} onValueChange={setTemplateId}>
+            <SelectTrigger id="start-template" className="w-full">
+              <SelectValue placeholder="Choose a template" />
+            </SelectTrigger>
+            <SelectContent>
+              {templates.map((template) => (
+                <SelectItem key={template.id} value={template.id}>
+                  {template.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isPending || !templateId}
+        >
+          <ClipboardList />
+          {isPending ? "Starting..." : "Start workout"}
+        </Button>
+      </div>
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </form>
+  );
+}
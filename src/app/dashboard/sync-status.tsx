@@ -0,0 +1,299 @@
+"use client";
+
+import { useEffect, useTransition } from "react";
+import { useRouter } from "next/navigation";
+import { format, parse } from "date-fns";
+import { CloudOff, RefreshCw, X } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  formatSetSummary,
+  type MeasurementType,
+} from "@/lib/measurement-types";
+import type { ProgressionSuggestion } from "@/lib/progression";
+import type { WeightUnit } from "@/lib/units";
+import type { Exercise } from "@/data/types";
+import {
+  MUTATION_LABELS,
+  dismissMutation,
+  isWaitingToSync,
+  replayQueue,
+  useIsOnline,
+  useMutationQueue,
+  useQueueUser,
+} from "./offline-queue";
+import { AddExerciseForm, AddSetForm } from "./workout-edit-forms";
+
+// Shows what's waiting on the device to reach the server, and sends it as
+// soon as the connection comes back
+export function SyncStatus({ userId }: { userId: string }) {
+  useQueueUser(userId);
+
+  const router = useRouter();
+  const queue = useMutationQueue();
+  const isOnline = useIsOnline();
+  const [isSyncing, startTransition] = useTransition();
+  const waiting = queue.filter(isWaitingToSync);
+  const rejected = queue.filter((mutation) => !isWaitingToSync(mutation));
+
+  useEffect(() => {
+    const sync = async () => {
+      if (await replayQueue()) {
+        router.refresh();
+      }
+    };
+
+    void sync();
+    window.addEventListener("online", sync);
+    return () => window.removeEventListener("online", sync);
+  }, [router]);
+
+  const handleSync = () => {
+    startTransition(async () => {
+      if (await replayQueue()) {
+        router.refresh();
+      }
+    });
+  };
+
+  if (isOnline && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2">
+      {(!isOnline || waiting.length > 0) && (
+        <Alert>
+          {isOnline ? <RefreshCw /> : <CloudOff />}
+          <AlertTitle>
+            {isOnline ? "Waiting to sync" : "You're offline"}
+          </AlertTitle>
+          <AlertDescription>
+            <p>
+              {waiting.length > 0
+                ? `${waiting.length} ${waiting.length === 1 ? "change is" : "changes are"} saved on this device and will sync when you're back online.`
+                : "Changes you make are saved on this device until you're back online."}
+            </p>
+            {isOnline && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="mt-1"
+                onClick={handleSync}
+                disabled={isSyncing}
+              >
+                {isSyncing ? "Syncing..." : "Sync now"}
+              </Button>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+      {rejected.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTitle>Some offline changes couldn&apos;t be saved</AlertTitle>
+          <AlertDescription>
+            <ul className="w-full space-y-1">
+              {rejected.map((mutation) => (
+                <li
+                  key={mutation.key}
+                  className="flex items-center justify-between gap-2"
+                >
+                  <span>
+                    {MUTATION_LABELS[mutation.name]}: {mutation.error}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon-sm"
+                    onClick={() => void dismissMutation(mutation.key)}
+                    aria-label="Dismiss"
+                  >
+                    <X />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
+
+// Sets logged offline, shown after the exercise's saved sets until they sync
+export function QueuedSetList({
+  workoutExerciseId,
+  measurementType,
+  unit,
+}: {
+  workoutExerciseId: string;
+  measurementType: MeasurementType;
+  unit: WeightUnit;
+}) {
+  const queue = useMutationQueue();
+  const queuedSets = queue.flatMap((mutation) =>
+    mutation.name === "createSet" &&
+    isWaitingToSync(mutation) &&
+    mutation.input.workoutExerciseId === workoutExerciseId
+      ? [{ key: mutation.key, ...mutation.input }]
+      : []
+  );
+
+  if (queuedSets.length === 0) {
+    return null;
+  }
+
+  return (
+    <ol className="space-y-1 text-sm text-muted-foreground">
+      {queuedSets.map((set) => (
+        <li key={set.key} className="flex items-center gap-2">
+          <CloudOff className="size-3.5" aria-hidden />
+          {formatSetSummary(
+            measurementType,
+            {
+              weight: set.weight ?? null,
+              reps: set.reps ?? null,
+              durationSeconds: set.durationSeconds ?? null,
+              distance: set.distance ?? null,
+            },
+            unit
+          )}
+          <span className="text-xs">Waiting to sync</span>
+        </li>
+      ))}
+    </ol>
+  );
+}
+
+// Exercises added offline, shown after the workout's saved exercises until
+// they sync. Sets can be logged against them in the meantime.
+export function QueuedExerciseList({
+  workoutId,
+  exercises,
+  canAddSets,
+  unit,
+}: {
+  workoutId: string;
+  // To look up what was added
+  exercises: Exercise[];
+  canAddSets: boolean;
+  unit: WeightUnit;
+}) {
+  const queue = useMutationQueue();
+  const queuedExercises = queue.flatMap((mutation) => {
+    if (
+      mutation.name !== "addExercise" ||
+      !isWaitingToSync(mutation) ||
+      mutation.input.workoutId !== workoutId ||
+      !mutation.input.id
+    ) {
+      return [];
+    }
+
+    const exercise = exercises.find(
+      (exercise) => exercise.id === mutation.input.exerciseId
+    );
+
+    return exercise
+      ? [{ key: mutation.key, id: mutation.input.id, exercise }]
+      : [];
+  });
+
+  if (queuedExercises.length === 0) {
+    return null;
+  }
+
+  return (
+    <ul className="space-y-4">
+      {queuedExercises.map(({ key, id, exercise }) => (
+        <li key={key} className="space-y-2">
+          <p className="flex items-center gap-2 font-medium">
+            <CloudOff className="size-3.5 text-muted-foreground" aria-hidden />
+            {exercise.name}
+            <span className="text-xs font-normal text-muted-foreground">
+              Waiting to sync
+            </span>
+          </p>
+          <div className="ml-4 sm:ml-6 space-y-2">
+            <QueuedSetList
+              workoutExerciseId={id}
+              measurementType={exercise.measurementType}
+              unit={unit}
+            />
+            {canAddSets && (
+              <AddSetForm
+                key={unit}
+                workoutExerciseId={id}
+                measurementType={exercise.measurementType}
+                lastSet={undefined}
+                unit={unit}
+              />
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// Workouts logged offline on the dates shown, until they sync. Exercises
+// and sets can be added to them in the meantime.
+export function QueuedWorkoutList({
+  fromDate,
+  toDate,
+  exercises,
+  suggestions,
+  unit,
+}: {
+  fromDate: string;
+  toDate: string;
+  exercises: Exercise[];
+  suggestions: Record<string, ProgressionSuggestion>;
+  unit: WeightUnit;
+}) {
+  const queue = useMutationQueue();
+  const queuedWorkouts = queue.flatMap((mutation) =>
+    mutation.name === "createWorkout" &&
+    isWaitingToSync(mutation) &&
+    mutation.input.id &&
+    mutation.input.date >= fromDate &&
+    mutation.input.date <= toDate
+      ? [{ key: mutation.key, ...mutation.input, id: mutation.input.id }]
+      : []
+  );
+
+  if (queuedWorkouts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-6 space-y-6">
+      {queuedWorkouts.map((workout) => (
+        <Card key={workout.key}>
+          <CardHeader>
+            <CardTitle>{workout.name || "Workout"}</CardTitle>
+            <p className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CloudOff className="size-3.5" aria-hidden />
+              {format(parse(workout.date, "yyyy-MM-dd", new Date()), "do MMM yyyy")}{" "}
+              · Waiting to sync
+            </p>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <QueuedExerciseList
+              workoutId={workout.id}
+              exercises={exercises}
+              canAddSets
+              unit={unit}
+            />
+            <AddExerciseForm
+              workoutId={workout.id}
+              exercises={exercises}
+              suggestions={suggestions}
+              unit={unit}
+            />
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,709 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Check, Link2, Plus, Trash2, Unlink, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ExerciseSelect } from "@/components/exercise-select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  MAX_DISTANCE,
+  MAX_DURATION_SECONDS,
+  WEIGHT_FIELD_LABELS,
+  usesReps,
+  type MeasurementType,
+} from "@/lib/measurement-types";
+import {
+  formatSuggestion,
+  type ProgressionSuggestion,
+} from "@/lib/progression";
+import {
+  DEFAULT_SET_TYPE,
+  MAX_RIR,
+  MAX_RPE,
+  MAX_TEMPO_LENGTH,
+  MIN_RPE,
+  RPE_STEP,
+  SET_TYPES,
+  SET_TYPE_LABELS,
+  isSetType,
+  type SetType,
+} from "@/lib/set-types";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+import type { Exercise, WorkoutWithExercises } from "@/data/types";
+import { removeExerciseAction, setSupersetLinkAction } from "./actions";
+import { runMutation } from "./offline-queue";
+
+type WorkoutSetRow = WorkoutWithExercises["exercises"][number]["sets"][number];
+
+function parseOptionalNumber(value: FormDataEntryValue | null) {
+  return value === null || value === "" ? undefined : Number(value);
+}
+
+// The one of reps, time and distance a set of the exercise is logged with
+type MeasurementField = "reps" | "durationSeconds" | "distance";
+
+function getMeasurementField(type: MeasurementType): MeasurementField {
+  if (usesReps(type)) {
+    return "reps";
+  }
+
+  return type === "duration" ? "durationSeconds" : "distance";
+}
+
+function parseMeasurement(field: MeasurementField, formData: FormData) {
+  const value = parseOptionalNumber(formData.get(field));
+
+  return {
+    reps: field === "reps" ? value : undefined,
+    durationSeconds: field === "durationSeconds" ? value : undefined,
+    distance: field === "distance" ? value : undefined,
+  };
+}
+
+// Reps, seconds or metres, next to the weight of a set
+function MeasurementInput({
+  field,
+  label,
+  defaultValue,
+}: {
+  field: MeasurementField;
+  // Prefix for the accessible name, e.g. "Set 2" or "New set"
+  label: string;
+  defaultValue: number | null | undefined;
+}) {
+  const inputProps = {
+    reps: {
+      inputMode: "numeric",
+      placeholder: "Reps",
+      "aria-label": `${label} reps`,
+    },
+    durationSeconds: {
+      inputMode: "numeric",
+      max: MAX_DURATION_SECONDS,
+      placeholder: "Seconds",
+      "aria-label": `${label} time in seconds`,
+    },
+    distance: {
+      inputMode: "decimal",
+      step: "any",
+      max: MAX_DISTANCE,
+      placeholder: "Metres",
+      "aria-label": `${label} distance in metres`,
+    },
+  } as const;
+
+  return (
+    <Input
+      name={field}
+      type="number"
+      min={field === "distance" ? "0" : "1"}
+      required
+      defaultValue={defaultValue ?? ""}
+      {...inputProps[field]}
+    />
+  );
+}
+
+// Set type, RPE, RIR and tempo, shown under the weight and reps of a set
+function SetDetailFields({
+  label,
+  defaultValues,
+  setType,
+  onSetTypeChange,
+}: {
+  // Prefix for the accessible names, e.g. "Set 2" or "New set"
+  label: string;
+  defaultValues: Pick<WorkoutSetRow, "rpe" | "rir" | "tempo"> | undefined;
+  setType: SetType;
+  onSetTypeChange: (setType: SetType) => void;
+}) {
+  return (
+    <div className="grid grid-cols-2 gap-2 sm:grid-cols-[9rem_6rem_6rem_7rem]">
+      <Select
+        value={setType}
+        onValueChange={(value) => {
+          if (isSetType(value)) {
+            onSetTypeChange(value);
+          }
+        }}
+      >
+        <SelectTrigger className="w-full" aria-label={`${label} type`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {SET_TYPES.map((option) => (
+            <SelectItem key={option} value={option}>
+              {SET_TYPE_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Input
+        name="rpe"
+        type="number"
+        inputMode="decimal"
+        step={RPE_STEP}
+        min={MIN_RPE}
+        max={MAX_RPE}
+        defaultValue={defaultValues?.rpe ?? ""}
+        placeholder="RPE"
+        aria-label={`${label} RPE`}
+      />
+      <Input
+        name="rir"
+        type="number"
+        inputMode="numeric"
+        min="0"
+        max={MAX_RIR}
+        defaultValue={defaultValues?.rir ?? ""}
+        placeholder="RIR"
+        aria-label={`${label} reps in reserve`}
+      />
+      <Input
+        name="tempo"
+        defaultValue={defaultValues?.tempo ?? ""}
+        placeholder="Tempo"
+        maxLength={MAX_TEMPO_LENGTH}
+        aria-label={`${label} tempo`}
+      />
+    </div>
+  );
+}
+
+function FormError({ message }: { message: string | null }) {
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Alert variant="destructive" className="py-2">
+      <AlertDescription>{message}</AlertDescription>
+    </Alert>
+  );
+}
+
+export function WorkoutDetailsForm({
+  workout,
+  onDone,
+}: {
+  workout: WorkoutWithExercises;
+  onDone: () => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await runMutation("updateWorkout", {
+        workoutId: workout.id,
+        name: (formData.get("name") as string) || null,
+        notes: (formData.get("notes") as string) || null,
+        expectedUpdatedAt: workout.updatedAt,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      onDone();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`workout-name-${workout.id}`}>Name</Label>
+        <Input
+          id={`workout-name-${workout.id}`}
+          name="name"
+          defaultValue={workout.name ?? ""}
+          placeholder="Workout"
+          maxLength={100}
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`workout-notes-${workout.id}`}>Notes</Label>
+        <Textarea
+          id={`workout-notes-${workout.id}`}
+          name="notes"
+          defaultValue={workout.notes ?? ""}
+          maxLength={1000}
+        />
+      </div>
+      <FormError message={error} />
+      <Button type="submit" size="sm" disabled={isPending}>
+        {isPending ? "Saving..." : "Save details"}
+      </Button>
+    </form>
+  );
+}
+
+export function DeleteWorkoutButton({
+  workout,
+}: {
+  workout: WorkoutWithExercises;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await runMutation("deleteWorkout", {
+        workoutId: workout.id,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" size="sm" disabled={isPending}>
+            <Trash2 />
+            {isPending ? "Deleting..." : "Delete workout"}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this workout?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {workout.name || "This workout"} and all of its exercises and
+              sets will be permanently deleted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <FormError message={error} />
+    </div>
+  );
+}
+
+export function AddExerciseForm({
+  workoutId,
+  exercises,
+  suggestions,
+  unit,
+}: {
+  workoutId: string;
+  exercises: Exercise[];
+  // Next-session suggestions keyed by exercise id, see lib/progression
+  suggestions: Record<string, ProgressionSuggestion>;
+  unit: WeightUnit;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [exerciseId, setExerciseId] = useState("");
+  const selected = exercises.find((exercise) => exercise.id === exerciseId);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    startTransition(async () => {
+      const result = await runMutation("addExercise", {
+        id: crypto.randomUUID(),
+        workoutId,
+        exerciseId,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setExerciseId("");
+    });
+  };
+
+  if (exercises.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No exercises available.{" "}
+        <Link href="/exercises" className="underline underline-offset-4">
+          Create one
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <ExerciseSelect
+          exercises={exercises}
+          value={exerciseId}
+          onValueChange={setExerciseId}
+          label="Exercise to add"
+          className="sm:flex-1"
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          disabled={isPending || !exerciseId}
+        >
+          <Plus />
+          {isPending ? "Adding..." : "Add exercise"}
+        </Button>
+      </div>
+      {selected && suggestions[selected.id] && (
+        <p className="text-sm text-muted-foreground" role="status">
+          <span className="font-medium text-foreground">
+            Suggested:{" "}
+            {formatSuggestion(
+              selected.measurementType,
+              suggestions[selected.id],
+              unit
+            )}
+          </span>{" "}
+          {suggestions[selected.id].reason}
+        </p>
+      )}
+      <FormError message={error} />
+    </form>
+  );
+}
+
+export function RemoveExerciseButton({
+  workoutExerciseId,
+  exerciseName,
+}: {
+  workoutExerciseId: string;
+  exerciseName: string;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleRemove = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await removeExerciseAction({ workoutExerciseId });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="ml-auto flex flex-col items-end gap-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="icon-sm"
+        onClick={handleRemove}
+        disabled={isPending}
+        aria-label={`Remove ${exerciseName} from workout`}
+      >
+        <X />
+      </Button>
+      <FormError message={error} />
+    </div>
+  );
+}
+
+export function SupersetLinkButton({
+  workoutExerciseId,
+  exerciseName,
+  nextExerciseName,
+  linked,
+}: {
+  workoutExerciseId: string;
+  exerciseName: string;
+  nextExerciseName: string;
+  linked: boolean;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggle = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await setSupersetLinkAction({
+        workoutExerciseId,
+        linked: !linked,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        onClick={handleToggle}
+        disabled={isPending}
+        aria-label={
+          linked
+            ? `Split superset between ${exerciseName} and ${nextExerciseName}`
+            : `Superset ${exerciseName} with ${nextExerciseName}`
+        }
+      >
+        {linked ? <Unlink /> : <Link2 />}
+        {linked ? "Split superset" : "Superset with next"}
+      </Button>
+      <FormError message={error} />
+    </div>
+  );
+}
+
+export function SetEditorRow({
+  set,
+  measurementType,
+  unit,
+}: {
+  set: WorkoutSetRow;
+  measurementType: MeasurementType;
+  unit: WeightUnit;
+}) {
+  const measurementField = getMeasurementField(measurementType);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [setType, setSetType] = useState(set.setType);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+    const measurement = parseMeasurement(measurementField, formData);
+    const weight = parseOptionalNumber(formData.get("weight")) ?? null;
+
+    startTransition(async () => {
+      const result = await runMutation("updateSet", {
+        setId: set.id,
+        // The field shows the weight converted to the display unit and
+        // rounded, so sending it back unchanged would move the stored one
+        ...(weight !== set.weight && { weight, weightUnit: unit }),
+        reps: measurement.reps ?? null,
+        durationSeconds: measurement.durationSeconds ?? null,
+        distance: measurement.distance ?? null,
+        notes: (formData.get("notes") as string) || null,
+        setType,
+        rpe: parseOptionalNumber(formData.get("rpe")) ?? null,
+        rir: parseOptionalNumber(formData.get("rir")) ?? null,
+        tempo: (formData.get("tempo") as string) || null,
+        expectedUpdatedAt: set.updatedAt,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  const handleDelete = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await runMutation("deleteSet", { setId: set.id });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="grid grid-cols-[auto_1fr_1fr_auto_auto] items-center gap-2 sm:grid-cols-[3rem_7rem_6rem_1fr_auto_auto]">
+        <span className="text-sm font-medium">Set {set.setNumber}</span>
+        <Input
+          name="weight"
+          type="number"
+          inputMode="decimal"
+          step="any"
+          min="0"
+          defaultValue={set.weight ?? ""}
+          placeholder={`${WEIGHT_FIELD_LABELS[measurementType]} (${WEIGHT_UNIT_ABBREVIATIONS[unit]})`}
+          aria-label={`Set ${set.setNumber} ${WEIGHT_FIELD_LABELS[measurementType].toLowerCase()} in ${WEIGHT_UNIT_ABBREVIATIONS[unit]}`}
+        />
+        <MeasurementInput
+          field={measurementField}
+          label={`Set ${set.setNumber}`}
+          defaultValue={set[measurementField]}
+        />
+        <Input
+          name="notes"
+          defaultValue={set.notes ?? ""}
+          placeholder="Notes"
+          maxLength={500}
+          aria-label={`Set ${set.setNumber} notes`}
+          className="col-span-5 row-start-2 sm:col-span-1 sm:row-start-auto"
+        />
+        <Button
+          type="submit"
+          variant="ghost"
+          size="icon-sm"
+          disabled={isPending}
+          aria-label={`Save set ${set.setNumber}`}
+        >
+          <Check />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={handleDelete}
+          disabled={isPending}
+          aria-label={`Delete set ${set.setNumber}`}
+        >
+          <Trash2 />
+        </Button>
+      </div>
+      <div className="sm:pl-14">
+        <SetDetailFields
+          label={`Set ${set.setNumber}`}
+          defaultValues={set}
+          setType={setType}
+          onSetTypeChange={setSetType}
+        />
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
+
+// What a new set starts out as, usually the set logged before it
+type SetDefaults = Pick<
+  WorkoutSetRow,
+  "weight" | "reps" | "durationSeconds" | "distance" | "setType"
+> & { tempo?: string | null };
+
+export function AddSetForm({
+  workoutExerciseId,
+  measurementType,
+  lastSet,
+  unit,
+  submitLabel = "Add set",
+  onAdded,
+}: {
+  workoutExerciseId: string;
+  measurementType: MeasurementType;
+  lastSet: SetDefaults | undefined;
+  unit: WeightUnit;
+  submitLabel?: string;
+  onAdded?: () => void;
+}) {
+  const measurementField = getMeasurementField(measurementType);
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  // Warm-ups usually come in a row, so the next set starts as the last one
+  const [setType, setSetType] = useState(lastSet?.setType ?? DEFAULT_SET_TYPE);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await runMutation("createSet", {
+        id: crypto.randomUUID(),
+        workoutExerciseId,
+        weight: parseOptionalNumber(formData.get("weight")),
+        weightUnit: unit,
+        ...parseMeasurement(measurementField, formData),
+        notes: (formData.get("notes") as string) || undefined,
+        setType,
+        rpe: parseOptionalNumber(formData.get("rpe")),
+        rir: parseOptionalNumber(formData.get("rir")),
+        tempo: (formData.get("tempo") as string) || undefined,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      } else {
+        onAdded?.();
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="grid grid-cols-[1fr_1fr_auto] items-center gap-2 sm:grid-cols-[7rem_6rem_1fr_auto]">
+        <Input
+          name="weight"
+          type="number"
+          inputMode="decimal"
+          step="any"
+          min="0"
+          defaultValue={lastSet?.weight ?? ""}
+          placeholder={`${WEIGHT_FIELD_LABELS[measurementType]} (${WEIGHT_UNIT_ABBREVIATIONS[unit]})`}
+          aria-label={`New set ${WEIGHT_FIELD_LABELS[measurementType].toLowerCase()} in ${WEIGHT_UNIT_ABBREVIATIONS[unit]}`}
+        />
+        <MeasurementInput
+          field={measurementField}
+          label="New set"
+          defaultValue={lastSet?.[measurementField]}
+        />
+        <Input
+          name="notes"
+          placeholder="Notes"
+          maxLength={500}
+          aria-label="New set notes"
+          className="col-span-3 row-start-2 sm:col-span-1 sm:row-start-auto"
+        />
+        <Button type="submit" variant="outline" size="sm" disabled={isPending}>
+          <Plus />
+          {isPending ? "Adding..." : submitLabel}
+        </Button>
+      </div>
+      <SetDetailFields
+        label="New set"
+        // Effort changes set to set, but the tempo usually doesn't
+        defaultValues={
+          lastSet && { rpe: null, rir: null, tempo: lastSet.tempo ?? null }
+        }
+        setType={setType}
+        onSetTypeChange={setSetType}
+      />
+      <FormError message={error} />
+    </form>
+  );
+}
@@ -1,118 +1,595 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
 import { format, parse } from "date-fns";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import type { WorkoutWithExercises } from "@/data/types";
+import { Pencil, Timer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { PersonalRecordBadges } from "@/components/personal-record-badges";
+import { SetTypeBadge } from "@/components/set-type-badge";
+import {
+  getBodyweightOn,
+  type BodyweightHistory,
+} from "@/lib/body-measurements";
+import {
+  WEIGHT_FIELD_LABELS,
+  formatDuration,
+  formatSetMeasurement,
+  formatSetSummary,
+  formatSetWeight,
+  usesReps,
+  type MeasurementType,
+} from "@/lib/measurement-types";
+import { formatMuscle } from "@/lib/muscles";
+import {
+  formatSetScheme,
+  getPerformanceDelta,
+} from "@/lib/previous-performance";
+import {
+  toSuggestedSet,
+  type ProgressionSuggestion,
+} from "@/lib/progression";
+import { getSessionSeconds } from "@/lib/sessions";
+import { formatEffort, isWarmUpSet } from "@/lib/set-types";
+import {
+  getExerciseLabels,
+  getSupersetLinks,
+  groupExercises,
+  interleaveSets,
+} from "@/lib/supersets";
+import type { WeightUnit } from "@/lib/units";
+import { cn } from "@/lib/utils";
+import type {
+  Exercise,
+  PersonalRecordFlags,
+  PreviousSession,
+  WorkoutWithExercises,
+} from "@/data/types";
+import {
+  AddExerciseForm,
+  AddSetForm,
+  DeleteWorkoutButton,
+  RemoveExerciseButton,
+  SetEditorRow,
+  SupersetLinkButton,
+  WorkoutDetailsForm,
+} from "./workout-edit-forms";
+import { CopyWorkoutDialog } from "./copy-workout-dialog";
+import {
+  QueuedExerciseList,
+  QueuedSetList,
+  QueuedWorkoutList,
+} from "./sync-status";
 
 interface WorkoutListProps {
   workouts: WorkoutWithExercises[];
-  selectedDate: string;
+  // Equal for the single-day view
+  fromDate: string;
+  toDate: string;
+  today: string;
+  exercises: Exercise[];
+  personalRecords: PersonalRecordFlags;
+  // Keyed by workout exercise id
+  previousPerformance: Record<string, PreviousSession>;
+  // Keyed by exercise id; only worked out for the single-day view
+  suggestions: Record<string, ProgressionSuggestion>;
+  unit: WeightUnit;
+  bodyweights: BodyweightHistory;
+}
+
+function formatDate(date: string) {
+  return format(parse(date, "yyyy-MM-dd", new Date()), "do MMM yyyy");
 }
 
-export function WorkoutList({ workouts, selectedDate }: WorkoutListProps) {
-  const date = parse(selectedDate, "yyyy-MM-dd", new Date());
+export function WorkoutList({
+  workouts,
+  fromDate,
+  toDate,
+  today,
+  exercises,
+  personalRecords,
+  previousPerformance,
+  suggestions,
+  unit,
+  bodyweights,
+}: WorkoutListProps) {
+  const isSingleDay = fromDate === toDate;
+  const workoutsByDate = new Map<string, WorkoutWithExercises[]>();
+
+  for (const workout of workouts) {
+    workoutsByDate.set(workout.date, [
+      ...(workoutsByDate.get(workout.date) ?? []),
+      workout,
+    ]);
+  }
+
+  const renderCards = (dayWorkouts: WorkoutWithExercises[]) => (
+    <div className="space-y-6">
+      {dayWorkouts.map((workout) => (
+        <WorkoutCard
+          key={workout.id}
+          workout={workout}
+          today={today}
+          exercises={exercises}
+          personalRecords={personalRecords}
+          previousPerformance={previousPerformance}
+          suggestions={suggestions}
+          unit={unit}
+          bodyweights={bodyweights}
+        />
+      ))}
+    </div>
+  );
 
   return (
     <section aria-labelledby="workouts-heading" className="border-t pt-6">
       <h2 id="workouts-heading" className="text-lg font-semibold mb-4">
-        Workouts for {format(date, "do MMM yyyy")}
+        {isSingleDay
+          ? `Workouts for ${formatDate(fromDate)}`
+          : `Workouts from ${formatDate(fromDate)} to ${formatDate(toDate)}`}
       </h2>
 
       {workouts.length === 0 ? (
         <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
-          No workouts logged for this date.
+          {isSingleDay
+            ? "No workouts logged for this date."
+            : "No workouts logged in this range."}
         </p>
+      ) : isSingleDay ? (
+        renderCards(workouts)
       ) : (
-        <div className="space-y-6">
-          {workouts.map((workout) => (
-            <WorkoutCard key={workout.id} workout={workout} />
+        <div className="space-y-8">
+          {Array.from(workoutsByDate, ([date, dayWorkouts]) => (
+            <section key={date} aria-label={formatDate(date)} className="space-y-4">
+              <h3 className="font-medium">
+                <Link
+                  href={`/dashboard?date=${date}`}
+                  className="underline-offset-4 hover:underline"
+                >
+                  {format(parse(date, "yyyy-MM-dd", new Date()), "EEEE, do MMM yyyy")}
+                </Link>
+              </h3>
+              {renderCards(dayWorkouts)}
+            </section>
           ))}
         </div>
       )}
+
+      <QueuedWorkoutList
+        fromDate={fromDate}
+        toDate={toDate}
+        exercises={exercises}
+        suggestions={suggestions}
+        unit={unit}
+      />
     </section>
   );
 }
 
-function WorkoutCard({ workout }: { workout: WorkoutWithExercises }) {
+function WorkoutCard({
+  workout,
+  today,
+  exercises,
+  personalRecords,
+  previousPerformance,
+  suggestions,
+  unit,
+  bodyweights,
+}: {
+  workout: WorkoutWithExercises;
+  today: string;
+  exercises: Exercise[];
+  personalRecords: PersonalRecordFlags;
+  previousPerformance: Record<string, PreviousSession>;
+  suggestions: Record<string, ProgressionSuggestion>;
+  unit: WeightUnit;
+  bodyweights: BodyweightHistory;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const labels = getExerciseLabels(workout.exercises);
+  const links = getSupersetLinks(workout.exercises);
+
   return (
     <Card>
       <CardHeader>
         <CardTitle>{workout.name || "Workout"}</CardTitle>
-        {workout.notes && (
+        {workout.startedAt && workout.completedAt && (
+          <p className="text-sm text-muted-foreground">
+            Took{" "}
+            {formatDuration(
+              getSessionSeconds(workout.startedAt, workout.completedAt)
+            )}
+          </p>
+        )}
+        {workout.notes && !isEditing && (
           <p className="text-sm text-muted-foreground">{workout.notes}</p>
         )}
+        <CardAction className="flex flex-wrap justify-end gap-2">
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/dashboard/session/${workout.id}`}>
+              <Timer />
+              Session
+            </Link>
+          </Button>
+          <CopyWorkoutDialog workout={workout} today={today} unit={unit} />
+          <Button
+            variant={isEditing ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIsEditing(!isEditing)}
+            aria-pressed={isEditing}
+          >
+            <Pencil />
+            {isEditing ? "Done" : "Edit"}
+          </Button>
+        </CardAction>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-6">
+        {isEditing && (
+          <WorkoutDetailsForm
+            workout={workout}
+            onDone={() => setIsEditing(false)}
+          />
+        )}
+
         {workout.exercises.length === 0 ? (
           <p className="text-sm text-muted-foreground">No exercises recorded.</p>
         ) : (
           <div className="space-y-4">
-            {workout.exercises.map((we) => (
-              <div key={we.id} className="border-t pt-4 first:border-t-0 first:pt-0">
-                <div className="flex flex-wrap items-center gap-2 mb-2">
-                  <span className="text-sm font-medium text-muted-foreground">
-                    {we.order}.
-                  </span>
-                  <span className="font-medium">{we.exercise.name}</span>
-                  {we.exercise.primaryMuscle && (
-                    <span className="text-xs bg-muted px-2 py-0.5 rounded">
-                      {we.exercise.primaryMuscle}
-                    </span>
-                  )}
-                </div>
+            {groupExercises(workout.exercises).map((block) => (
+              <div
+                key={block[0].id}
+                className="border-t pt-4 first:border-t-0 first:pt-0"
+              >
+                {block.length > 1 && (
+                  <p className="text-xs font-medium uppercase text-muted-foreground mb-2">
+                    {block.length > 2 ? "Circuit" : "Superset"}
+                  </p>
+                )}
+                <div
+                  className={cn("space-y-4", block.length > 1 && "border-l-2 pl-3")}
+                >
+                  {block.map((we) => {
+                    const index = workout.exercises.indexOf(we);
+                    const next = workout.exercises[index + 1];
+                    const suggestion = suggestions[we.exercise.id];
 
-                {we.sets.length > 0 && (
-                  <div className="ml-4 sm:ml-6">
-                    {/* Mobile: Card-based layout */}
-                    <div className="block sm:hidden space-y-2">
-                      {we.sets.map((set) => (
-                        <div
-                          key={set.id}
-                          className="bg-muted rounded-md p-3 text-sm"
-                        >
-                          <div className="flex justify-between items-center">
-                            <span className="font-medium">Set {set.setNumber}</span>
-                            <span>
-                              {set.weight ? `${set.weight} lbs` : "-"} × {set.reps} reps
+                    return (
+                      <div key={we.id}>
+                        <div className="flex flex-wrap items-center gap-2 mb-2">
+                          <span className="text-sm font-medium text-muted-foreground">
+                            {labels[we.id]}.
+                          </span>
+                          <Link
+                            href={`/exercises/${we.exercise.id}`}
+                            className="font-medium underline-offset-4 hover:underline"
+                          >
+                            {we.exercise.name}
+                          </Link>
+                          {we.exercise.primaryMuscle && (
+                            <span className="text-xs bg-muted px-2 py-0.5 rounded">
+                              {formatMuscle(we.exercise.primaryMuscle)}
                             </span>
-                          </div>
-                          {set.notes && (
-                            <p className="text-muted-foreground text-xs mt-1">{set.notes}</p>
+                          )}
+                          <PersonalRecordBadges types={personalRecords.exercises[we.id]} />
+                          {isEditing && (
+                            <RemoveExerciseButton
+                              workoutExerciseId={we.id}
+                              exerciseName={we.exercise.name}
+                            />
                           )}
                         </div>
-                      ))}
-                    </div>
-
-                    {/* Desktop: Table layout */}
-                    <table className="hidden sm:table text-sm w-full">
-                      <thead>
-                        <tr className="text-muted-foreground text-left">
-                          <th scope="col" className="py-1 pr-4 font-medium">Set</th>
-                          <th scope="col" className="py-1 pr-4 font-medium">Weight</th>
-                          <th scope="col" className="py-1 pr-4 font-medium">Reps</th>
-                          <th scope="col" className="py-1 font-medium">Notes</th>
-                        </tr>
-                      </thead>
-                      <tbody>
-                        {we.sets.map((set) => (
-                          <tr key={set.id}>
-                            <td className="py-1 pr-4">{set.setNumber}</td>
-                            <td className="py-1 pr-4">
-                              {set.weight ? `${set.weight} lbs` : "-"}
-                            </td>
-                            <td className="py-1 pr-4">{set.reps}</td>
-                            <td className="py-1 text-muted-foreground">
-                              {set.notes || "-"}
-                            </td>
-                          </tr>
-                        ))}
-                      </tbody>
-                    </table>
-                  </div>
-                )}
+
+                        <PreviousPerformanceHint
+                          exercise={we}
+                          previous={previousPerformance[we.id]}
+                          date={workout.date}
+                          unit={unit}
+                          bodyweights={bodyweights}
+                        />
+
+                        {isEditing ? (
+                          <div className="ml-4 sm:ml-6 space-y-2">
+                            {we.sets.map((set) => (
+                              <SetEditorRow
+                                key={`${set.id}-${unit}`}
+                                set={set}
+                                measurementType={we.exercise.measurementType}
+                                unit={unit}
+                              />
+                            ))}
+                            <QueuedSetList
+                              workoutExerciseId={we.id}
+                              measurementType={we.exercise.measurementType}
+                              unit={unit}
+                            />
+                            <AddSetForm
+                              key={`${we.sets.at(-1)?.id ?? "first"}-${unit}`}
+                              workoutExerciseId={we.id}
+                              measurementType={we.exercise.measurementType}
+                              // A new exercise starts from its suggestion
+                              lastSet={
+                                we.sets.at(-1) ??
+                                (suggestion && toSuggestedSet(suggestion))
+                              }
+                              unit={unit}
+                            />
+                            {next && (
+                              <SupersetLinkButton
+                                workoutExerciseId={we.id}
+                                exerciseName={we.exercise.name}
+                                nextExerciseName={next.exercise.name}
+                                linked={links[index]}
+                              />
+                            )}
+                          </div>
+                        ) : block.length === 1 && we.sets.length > 0 && (
+                          <SetList
+                            rows={we.sets.map((set) => ({
+                              set,
+                              measurementType: we.exercise.measurementType,
+                            }))}
+                            personalRecords={personalRecords}
+                            unit={unit}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {/* A superset's sets are listed in the order they're done */}
+                  {!isEditing &&
+                    block.length > 1 &&
+                    block.some((we) => we.sets.length > 0) && (
+                      <SetList
+                        rows={interleaveSets(
+                          block.map((we) =>
+                            we.sets.map((set) => ({
+                              set,
+                              measurementType: we.exercise.measurementType,
+                              exerciseLabel: labels[we.id],
+                            }))
+                          )
+                        )}
+                        personalRecords={personalRecords}
+                        unit={unit}
+                      />
+                    )}
+                </div>
               </div>
             ))}
           </div>
         )}
+
+        <QueuedExerciseList
+          workoutId={workout.id}
+          exercises={exercises}
+          canAddSets={isEditing}
+          unit={unit}
+        />
+
+        {isEditing && (
+          <div className="space-y-4 border-t pt-4">
+            <AddExerciseForm
+              workoutId={workout.id}
+              exercises={exercises}
+              suggestions={suggestions}
+              unit={unit}
+            />
+            <DeleteWorkoutButton workout={workout} />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
 }
+
+// "Last time (3rd Mar): 3×5 @ 100 kg · +50 kg volume", comparing today's
+// working sets with the exercise's previous session
+function PreviousPerformanceHint({
+  exercise,
+  previous,
+  date,
+  unit,
+  bodyweights,
+}: {
+  exercise: WorkoutWithExercises["exercises"][number];
+  previous: PreviousSession | undefined;
+  // The workout's
+  date: string;
+  unit: WeightUnit;
+  bodyweights: BodyweightHistory;
+}) {
+  const { measurementType } = exercise.exercise;
+  const scheme = previous
+    ? formatSetScheme(measurementType, previous.sets, unit)
+    : "";
+
+  if (!previous || scheme === "") {
+    return null;
+  }
+
+  const delta = getPerformanceDelta(
+    measurementType,
+    exercise.sets,
+    previous.sets,
+    unit,
+    {
+      today: getBodyweightOn(bodyweights, date),
+      previous: getBodyweightOn(bodyweights, previous.date),
+    }
+  );
+
+  return (
+    <p className="text-xs text-muted-foreground mb-2">
+      <Link
+        href={`/dashboard?date=${previous.date}`}
+        className="underline-offset-4 hover:underline"
+      >
+        Last time ({format(parse(previous.date, "yyyy-MM-dd", new Date()), "do MMM")})
+      </Link>
+      : {scheme}
+      {delta && (
+        <span className="font-medium text-foreground"> · {delta.label}</span>
+      )}
+    </p>
+  );
+}
+
+type WorkoutSetEntry = WorkoutWithExercises["exercises"][number]["sets"][number];
+
+const MEASUREMENT_COLUMN_LABELS: Record<MeasurementType, string> = {
+  weight_reps: "Reps",
+  bodyweight_reps: "Reps",
+  assisted_reps: "Reps",
+  duration: "Time",
+  distance: "Distance",
+};
+
+type SetListRow = {
+  set: WorkoutSetEntry;
+  measurementType: MeasurementType;
+  // Which exercise of a superset the set belongs to, e.g. "B2"
+  exerciseLabel?: string;
+};
+
+function SetList({
+  rows,
+  personalRecords,
+  unit,
+}: {
+  rows: SetListRow[];
+  personalRecords: PersonalRecordFlags;
+  unit: WeightUnit;
+}) {
+  const sets = rows.map((row) => row.set);
+  // Effort and tempo columns only appear once a set of the exercise has them
+  const hasEffort = sets.some((set) => set.rpe !== null || set.rir !== null);
+  const hasTempo = sets.some((set) => set.tempo !== null);
+  // A superset can mix exercises measured in different ways, in which case
+  // the columns get generic headings and reps are spelled out
+  const columnType = rows.every(
+    (row) => row.measurementType === rows[0].measurementType
+  )
+    ? rows[0].measurementType
+    : null;
+
+  const formatMeasurementCell = ({ set, measurementType }: SetListRow) => {
+    const measurement = formatSetMeasurement(measurementType, set);
+
+    return columnType === null && usesReps(measurementType) && set.reps !== null
+      ? `${measurement} reps`
+      : measurement;
+  };
+
+  return (
+    <div className="ml-4 sm:ml-6">
+      {/* Mobile: Card-based layout */}
+      <div className="block sm:hidden space-y-2">
+        {rows.map(({ set, measurementType, exerciseLabel }) => {
+          const effort = formatEffort(set.rpe, set.rir);
+
+          return (
+            <div
+              key={set.id}
+              className={cn(
+                "bg-muted rounded-md p-3 text-sm",
+                isWarmUpSet(set.setType) && "text-muted-foreground"
+              )}
+            >
+              <div className="flex justify-between items-center gap-2">
+                <span className="flex items-center gap-2 font-medium">
+                  {exerciseLabel && `${exerciseLabel} · `}Set {set.setNumber}
+                  <SetTypeBadge type={set.setType} />
+                </span>
+                <span>{formatSetSummary(measurementType, set, unit)}</span>
+              </div>
+              {(effort || set.tempo) && (
+                <p className="text-xs mt-1">
+                  {[effort, set.tempo && `Tempo ${set.tempo}`]
+                    .filter(Boolean)
+                    .join(" · ")}
+                </p>
+              )}
+              {personalRecords.sets[set.id] && (
+                <div className="mt-2">
+                  <PersonalRecordBadges types={personalRecords.sets[set.id]} />
+                </div>
+              )}
+              {set.notes && (
+                <p className="text-muted-foreground text-xs mt-1">{set.notes}</p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Desktop: Table layout */}
+      <table className="hidden sm:table text-sm w-full">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th scope="col" className="py-1 pr-4 font-medium">Set</th>
+            <th scope="col" className="py-1 pr-4 font-medium">
+              {columnType ? WEIGHT_FIELD_LABELS[columnType] : "Weight"}
+            </th>
+            <th scope="col" className="py-1 pr-4 font-medium">
+              {columnType ? MEASUREMENT_COLUMN_LABELS[columnType] : "Amount"}
+            </th>
+            {hasEffort && (
+              <th scope="col" className="py-1 pr-4 font-medium">Effort</th>
+            )}
+            {hasTempo && (
+              <th scope="col" className="py-1 pr-4 font-medium">Tempo</th>
+            )}
+            <th scope="col" className="py-1 pr-4 font-medium">Notes</th>
+            <th scope="col" className="py-1 font-medium">
+              <span className="sr-only">Personal records</span>
+            </th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => {
+            const { set, measurementType, exerciseLabel } = row;
+
+            return (
+              <tr
+                key={set.id}
+                className={cn(isWarmUpSet(set.setType) && "text-muted-foreground")}
+              >
+                <td className="py-1 pr-4">
+                  <span className="flex items-center gap-2">
+                    {exerciseLabel && `${exerciseLabel} · `}
+                    {set.setNumber}
+                    <SetTypeBadge type={set.setType} />
+                  </span>
+                </td>
+                <td className="py-1 pr-4">
+                  {formatSetWeight(measurementType, set.weight, unit)}
+                </td>
+                <td className="py-1 pr-4">{formatMeasurementCell(row)}</td>
+                {hasEffort && (
+                  <td className="py-1 pr-4">
+                    {formatEffort(set.rpe, set.rir) ?? "-"}
+                  </td>
+                )}
+                {hasTempo && <td className="py-1 pr-4">{set.tempo ?? "-"}</td>}
+                <td className="py-1 pr-4 text-muted-foreground">
+                  {set.notes || "-"}
+                </td>
+                <td className="py-1">
+                  <PersonalRecordBadges types={personalRecords.sets[set.id]} />
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
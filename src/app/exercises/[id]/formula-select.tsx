@@ -0,0 +1,47 @@
+"use client";
+
+import { usePathname, useRouter } from "next/navigation";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ONE_REP_MAX_FORMULAS,
+  ONE_REP_MAX_FORMULA_LABELS,
+  type OneRepMaxFormula,
+} from "@/lib/one-rep-max";
+
+interface FormulaSelectProps {
+  formula: OneRepMaxFormula;
+}
+
+export function FormulaSelect({ formula }: FormulaSelectProps) {
+  const router = useRouter();
+  const pathname = usePathname();
+
+  const handleFormulaChange = (value: string) => {
+    router.push(`${pathname}?formula=${value}`);
+  };
+
+  return (
+    <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:gap-4">
+      <Label htmlFor="formula-select">1RM formula:</Label>
+      <Select value={formula} onValueChange={handleFormulaChange}>
+        <SelectTrigger id="formula-select" className="w-full sm:w-[160px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ONE_REP_MAX_FORMULAS.map((option) => (
+            <SelectItem key={option} value={option}>
+              {ONE_REP_MAX_FORMULA_LABELS[option]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { auth } from "@clerk/nextjs/server";
+import { notFound, redirect } from "next/navigation";
+import Link from "next/link";
+import { z } from "zod";
+import { ArrowLeft } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getBodyweightHistory } from "@/data/body-measurements";
+import { getExerciseById } from "@/data/exercises";
+import { getExerciseHistory } from "@/data/progress";
+import { getUserSettings } from "@/data/user-settings";
+import { formatRelativeStrength } from "@/lib/body-measurements";
+import { isOneRepMaxFormula } from "@/lib/one-rep-max";
+import { formatWeight } from "@/lib/units";
+import { formatMuscle } from "@/lib/muscles";
+import { cn } from "@/lib/utils";
+import { FormulaSelect } from "./formula-select";
+import { ProgressChart } from "./progress-chart";
+import { SessionTable } from "./session-table";
+
+interface ExerciseHistoryPageProps {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ formula?: string }>;
+}
+
+export default async function ExerciseHistoryPage({
+  params,
+  searchParams,
+}: ExerciseHistoryPageProps) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const { id } = await params;
+  const { formula: formulaParam } = await searchParams;
+
+  if (!z.string().uuid().safeParse(id).success) {
+    notFound();
+  }
+
+  const [exercise, settings] = await Promise.all([
+    getExerciseById(userId, id),
+    getUserSettings(userId),
+  ]);
+  const { weightUnit, oneRepMaxFormula } = settings;
+
+  if (!exercise) {
+    notFound();
+  }
+
+  const formula = isOneRepMaxFormula(formulaParam)
+    ? formulaParam
+    : oneRepMaxFormula;
+  const sessions = await getExerciseHistory(
+    userId,
+    exercise.id,
+    formula,
+    weightUnit,
+    await getBodyweightHistory(userId, settings)
+  );
+
+  const bestOneRepMax = Math.max(
+    0,
+    ...sessions.map((session) => session.estimatedOneRepMax ?? 0)
+  );
+  const bestVolume = Math.max(0, ...sessions.map((session) => session.volume));
+  const bestRelativeStrength = Math.max(
+    0,
+    ...sessions.map((session) => session.relativeStrength ?? 0)
+  );
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <Button variant="ghost" size="sm" className="-ml-3 mb-4" asChild>
+        <Link href="/exercises">
+          <ArrowLeft />
+          All exercises
+        </Link>
+      </Button>
+
+      <div className="flex flex-wrap items-center gap-2 mb-6">
+        <h1 className="text-2xl font-bold">{exercise.name}</h1>
+        {exercise.primaryMuscle && (
+          <span className="text-xs bg-muted px-2 py-0.5 rounded">
+            {formatMuscle(exercise.primaryMuscle)}
+          </span>
+        )}
+      </div>
+
+      {sessions.length === 0 ? (
+        <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
+          You haven&apos;t logged this exercise yet.
+        </p>
+      ) : (
+        <div className="space-y-6">
+          <FormulaSelect formula={formula} />
+
+          <section aria-labelledby="stats-heading">
+            <h2 id="stats-heading" className="sr-only">
+              Exercise Statistics
+            </h2>
+            <div
+              className={cn(
+                "grid gap-4",
+                bestRelativeStrength > 0
+                  ? "sm:grid-cols-2 lg:grid-cols-4"
+                  : "sm:grid-cols-3"
+              )}
+            >
+              <StatCard label="Sessions" value={sessions.length.toString()} />
+              <StatCard
+                label="Best est. 1RM"
+                value={formatWeight(bestOneRepMax, weightUnit, 1)}
+              />
+              <StatCard
+                label="Best session volume"
+                value={formatWeight(bestVolume, weightUnit, 0)}
+              />
+              {bestRelativeStrength > 0 && (
+                <StatCard
+                  label="Best est. 1RM to bodyweight"
+                  value={formatRelativeStrength(bestRelativeStrength)}
+                />
+              )}
+            </div>
+          </section>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <h2>Strength Trend</h2>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ProgressChart sessions={sessions} unit={weightUnit} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <h2>Sessions</h2>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <SessionTable sessions={sessions} unit={weightUnit} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </main>
+  );
+}
+
+function StatCard({ label, value }: { label: string; value: string }) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="text-3xl font-bold">{value}</div>
+        <div className="text-sm text-muted-foreground">{label}</div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { format, parse } from "date-fns";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { ExerciseSession } from "@/data/types";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+
+function getChartConfig(unit: WeightUnit) {
+  const abbreviation = WEIGHT_UNIT_ABBREVIATIONS[unit];
+
+  return {
+    estimatedOneRepMax: {
+      label: `Est. 1RM (${abbreviation})`,
+      color: "var(--chart-1)",
+    },
+    topSetWeight: {
+      label: `Top set (${abbreviation})`,
+      color: "var(--chart-2)",
+    },
+  } satisfies ChartConfig;
+}
+
+interface ProgressChartProps {
+  sessions: ExerciseSession[];
+  unit: WeightUnit;
+}
+
+export function ProgressChart({ sessions, unit }: ProgressChartProps) {
+  const data = sessions
+    .filter((session) => session.estimatedOneRepMax !== null)
+    .map((session) => ({
+      date: session.date,
+      estimatedOneRepMax: Math.round(session.estimatedOneRepMax! * 10) / 10,
+      topSetWeight: session.topSet?.weight ?? null,
+    }));
+
+  if (data.length < 2) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Log this exercise with weight in at least two sessions to see a trend.
+      </p>
+    );
+  }
+
+  const formatDate = (value: string) =>
+    format(parse(value, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+
+  return (
+    <ChartContainer
+      config={getChartConfig(unit)}
+      className="min-h-[240px] w-full"
+      role="img"
+      aria-label={`Estimated one-rep max and top set weight in ${WEIGHT_UNIT_ABBREVIATIONS[unit]} over time`}
+    >
+      <LineChart data={data} margin={{ left: 0, right: 12 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="date"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={32}
+          tickFormatter={(value: string) =>
+            format(parse(value, "yyyy-MM-dd", new Date()), "MMM d")
+          }
+        />
+        <YAxis
+          tickLine={false}
+          axisLine={false}
+          width={48}
+          domain={["auto", "auto"]}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                formatDate(payload[0]?.payload.date)
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Line
+          dataKey="estimatedOneRepMax"
+          type="monotone"
+          stroke="var(--color-estimatedOneRepMax)"
+          strokeWidth={2}
+          dot={false}
+        />
+        <Line
+          dataKey="topSetWeight"
+          type="monotone"
+          stroke="var(--color-topSetWeight)"
+          strokeWidth={2}
+          dot={false}
+        />
+      </LineChart>
+    </ChartContainer>
+  );
+}
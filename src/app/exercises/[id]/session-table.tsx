@@ -0,0 +1,149 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format, parse } from "date-fns";
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { ExerciseSession } from "@/data/types";
+import { formatRelativeStrength } from "@/lib/body-measurements";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+
+type SortKey =
+  | "date"
+  | "topSet"
+  | "volume"
+  | "estimatedOneRepMax"
+  | "relativeStrength";
+type SortDirection = "asc" | "desc";
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: "date", label: "Date" },
+  { key: "topSet", label: "Top set" },
+  { key: "volume", label: "Volume" },
+  { key: "estimatedOneRepMax", label: "Est. 1RM" },
+  { key: "relativeStrength", label: "To bodyweight" },
+];
+
+function sortValue(session: ExerciseSession, key: SortKey): number | string {
+  switch (key) {
+    case "date":
+      return session.date;
+    case "topSet":
+      return session.topSet?.weight ?? -1;
+    case "volume":
+      return session.volume;
+    case "estimatedOneRepMax":
+      return session.estimatedOneRepMax ?? -1;
+    case "relativeStrength":
+      return session.relativeStrength ?? -1;
+  }
+}
+
+interface SessionTableProps {
+  sessions: ExerciseSession[];
+  unit: WeightUnit;
+}
+
+export function SessionTable({ sessions, unit }: SessionTableProps) {
+  const [sortKey, setSortKey] = useState<SortKey>("date");
+  const [sortDirection, setSortDirection] = useState<SortDirection>("desc");
+
+  const sortedSessions = [...sessions].sort((a, b) => {
+    const aValue = sortValue(a, sortKey);
+    const bValue = sortValue(b, sortKey);
+    const comparison = aValue < bValue ? -1 : aValue > bValue ? 1 : 0;
+    return sortDirection === "asc" ? comparison : -comparison;
+  });
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(sortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setSortKey(key);
+      setSortDirection("desc");
+    }
+  };
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {columns.map((column) => {
+            const isSorted = column.key === sortKey;
+            const SortIcon = !isSorted
+              ? ArrowUpDown
+              : sortDirection === "asc"
+                ? ArrowUp
+                : ArrowDown;
+
+            return (
+              <TableHead
+                key={column.key}
+                aria-sort={
+                  isSorted
+                    ? sortDirection === "asc"
+                      ? "ascending"
+                      : "descending"
+                    : "none"
+                }
+              >
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="-ml-3"
+                  onClick={() => handleSort(column.key)}
+                >
+                  {column.label}
+                  <SortIcon />
+                </Button>
+              </TableHead>
+            );
+          })}
+          <TableHead>Sets</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sortedSessions.map((session) => (
+          <TableRow key={session.workoutId}>
+            <TableCell>
+              <Link
+                href={`/dashboard?date=${session.date}`}
+                className="underline-offset-4 hover:underline"
+              >
+                {format(parse(session.date, "yyyy-MM-dd", new Date()), "do MMM yyyy")}
+              </Link>
+            </TableCell>
+            <TableCell>
+              {session.topSet
+                ? `${formatWeight(session.topSet.weight, unit)} × ${session.topSet.reps}`
+                : "-"}
+            </TableCell>
+            <TableCell>{formatWeight(session.volume, unit, 0)}</TableCell>
+            <TableCell>
+              {session.estimatedOneRepMax !== null
+                ? formatWeight(session.estimatedOneRepMax, unit, 1)
+                : "-"}
+            </TableCell>
+            <TableCell>
+              {session.relativeStrength !== null
+                ? formatRelativeStrength(session.relativeStrength)
+                : "-"}
+            </TableCell>
+            <TableCell className="text-muted-foreground">
+              {session.sets.length}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
@@ -0,0 +1,203 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  createExercise,
+  updateExercise,
+  deleteExercise,
+  mergeExercise,
+  getExerciseById,
+  getExercisePlanUsageCounts,
+  getExerciseUsageCounts,
+  isExerciseNameTaken,
+} from "@/data/exercises";
+import { MEASUREMENT_TYPES } from "@/lib/measurement-types";
+import { MUSCLE_GROUPS } from "@/lib/muscles";
+import type { ActionResult } from "@/lib/action-types";
+import type { Exercise } from "@/data/types";
+
+const exerciseBaseSchema = z.object({
+  name: z
+    .string()
+    .trim()
+    .min(1, "Exercise name is required")
+    .max(100, "Exercise name must be 100 characters or less"),
+  primaryMuscle: z.enum(MUSCLE_GROUPS).nullable(),
+  secondaryMuscles: z.array(z.enum(MUSCLE_GROUPS)).max(MUSCLE_GROUPS.length),
+  measurementType: z.enum(MEASUREMENT_TYPES),
+});
+
+const createExerciseSchema = exerciseBaseSchema;
+
+const updateExerciseSchema = exerciseBaseSchema.extend({
+  exerciseId: z.string().uuid(),
+});
+
+const deleteExerciseSchema = z.object({
+  exerciseId: z.string().uuid(),
+  replacementExerciseId: z.string().uuid().optional(),
+});
+
+type CreateExerciseInput = z.infer<typeof createExerciseSchema>;
+type UpdateExerciseInput = z.infer<typeof updateExerciseSchema>;
+type DeleteExerciseInput = z.infer<typeof deleteExerciseSchema>;
+
+// A muscle can't be both primary and secondary for the same exercise
+function withoutPrimary(
+  secondaryMuscles: string[],
+  primaryMuscle: string | null
+) {
+  return secondaryMuscles.filter((muscle) => muscle !== primaryMuscle);
+}
+
+export async function createExerciseAction(
+  input: CreateExerciseInput
+): Promise<ActionResult<Exercise>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = createExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { name, primaryMuscle, secondaryMuscles, measurementType } =
+      result.data;
+
+    if (await isExerciseNameTaken(userId, name)) {
+      return { error: { name: ["An exercise with this name already exists"] } };
+    }
+
+    const exercise = await createExercise(userId, {
+      name,
+      primaryMuscle: primaryMuscle ?? undefined,
+      secondaryMuscles: withoutPrimary(secondaryMuscles, primaryMuscle),
+      measurementType,
+    });
+
+    revalidatePath("/exercises");
+    return { data: exercise };
+  } catch (error) {
+    console.error("Failed to create exercise:", error);
+    return { error: "Failed to create exercise" };
+  }
+}
+
+export async function updateExerciseAction(
+  input: UpdateExerciseInput
+): Promise<ActionResult<Exercise>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const {
+      exerciseId,
+      name,
+      primaryMuscle,
+      secondaryMuscles,
+      measurementType,
+    } = result.data;
+
+    if (await isExerciseNameTaken(userId, name, exerciseId)) {
+      return { error: { name: ["An exercise with this name already exists"] } };
+    }
+
+    const exercise = await updateExercise(userId, exerciseId, {
+      name,
+      primaryMuscle,
+      secondaryMuscles: withoutPrimary(secondaryMuscles, primaryMuscle),
+      measurementType,
+    });
+
+    if (!exercise) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidatePath("/exercises");
+    revalidatePath("/dashboard");
+    revalidatePath("/templates");
+    revalidatePath("/programs");
+    return { data: exercise };
+  } catch (error) {
+    console.error("Failed to update exercise:", error);
+    return { error: "Failed to update exercise" };
+  }
+}
+
+export async function deleteExerciseAction(
+  input: DeleteExerciseInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = deleteExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { exerciseId, replacementExerciseId } = result.data;
+    let deleted;
+
+    if (replacementExerciseId) {
+      const [exercise, replacement] = await Promise.all([
+        getExerciseById(userId, exerciseId),
+        getExerciseById(userId, replacementExerciseId),
+      ]);
+
+      if (
+        exercise &&
+        replacement &&
+        exercise.measurementType !== replacement.measurementType
+      ) {
+        return {
+          error:
+            "Choose an exercise measured the same way to merge into, so its sets still show.",
+        };
+      }
+
+      deleted = await mergeExercise(userId, exerciseId, replacementExerciseId);
+    } else {
+      const [usageCounts, planUsageCounts] = await Promise.all([
+        getExerciseUsageCounts(userId),
+        getExercisePlanUsageCounts(userId),
+      ]);
+
+      if (usageCounts[exerciseId] || planUsageCounts[exerciseId]) {
+        return {
+          error:
+            "This exercise is used in your workouts, templates or programs. Choose an exercise to merge it into before deleting.",
+        };
+      }
+
+      deleted = await deleteExercise(userId, exerciseId);
+    }
+
+    if (!deleted) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidatePath("/exercises");
+    revalidatePath("/dashboard");
+    revalidatePath("/templates");
+    revalidatePath("/programs");
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to delete exercise:", error);
+    return { error: "Failed to delete exercise" };
+  }
+}
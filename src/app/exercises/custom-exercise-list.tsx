@@ -0,0 +1,262 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Pencil, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { getActionErrorMessage } from "@/lib/action-types";
+import { formatMuscle } from "@/lib/muscles";
+import type { Exercise } from "@/data/types";
+import { deleteExerciseAction } from "./actions";
+import { ExerciseForm } from "./exercise-form";
+
+interface CustomExerciseListProps {
+  exercises: Exercise[];
+  allExercises: Exercise[];
+  usageCounts: Record<string, number>;
+  planUsageCounts: Record<string, number>;
+}
+
+export function CustomExerciseList({
+  exercises,
+  allExercises,
+  usageCounts,
+  planUsageCounts,
+}: CustomExerciseListProps) {
+  if (exercises.length === 0) {
+    return (
+      <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
+        You haven&apos;t created any exercises yet.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="divide-y">
+      {exercises.map((exercise) => (
+        <CustomExerciseRow
+          key={exercise.id}
+          exercise={exercise}
+          usageCount={usageCounts[exercise.id] ?? 0}
+          planUsageCount={planUsageCounts[exercise.id] ?? 0}
+          // Only one measured the same way can show the sets it takes over
+          mergeTargets={allExercises.filter(
+            (e) =>
+              e.id !== exercise.id &&
+              e.measurementType === exercise.measurementType
+          )}
+        />
+      ))}
+    </ul>
+  );
+}
+
+function CustomExerciseRow({
+  exercise,
+  usageCount,
+  planUsageCount,
+  mergeTargets,
+}: {
+  exercise: Exercise;
+  usageCount: number;
+  planUsageCount: number;
+  mergeTargets: Exercise[];
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <li className="py-4 first:pt-0 last:pb-0">
+      {isEditing ? (
+        <ExerciseForm exercise={exercise} onDone={() => setIsEditing(false)} />
+      ) : (
+        <div className="flex flex-col gap-3 sm:flex-row sm:items-start sm:justify-between">
+          <ExerciseSummary exercise={exercise} usageCount={usageCount} />
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsEditing(true)}
+              aria-label={`Edit ${exercise.name}`}
+            >
+              <Pencil />
+              Edit
+            </Button>
+            <DeleteExerciseButton
+              exercise={exercise}
+              usageCount={usageCount}
+              planUsageCount={planUsageCount}
+              mergeTargets={mergeTargets}
+            />
+          </div>
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function ExerciseSummary({
+  exercise,
+  usageCount,
+}: {
+  exercise: Exercise;
+  usageCount?: number;
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-2">
+        <Link
+          href={`/exercises/${exercise.id}`}
+          className="font-medium underline-offset-4 hover:underline"
+        >
+          {exercise.name}
+        </Link>
+        {exercise.primaryMuscle && (
+          <span className="text-xs bg-muted px-2 py-0.5 rounded">
+            {formatMuscle(exercise.primaryMuscle)}
+          </span>
+        )}
+      </div>
+      {exercise.secondaryMuscles && exercise.secondaryMuscles.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          Also works: {exercise.secondaryMuscles.map(formatMuscle).join(", ")}
+        </p>
+      )}
+      {usageCount !== undefined && (
+        <p className="text-xs text-muted-foreground">
+          Used in {usageCount} {usageCount === 1 ? "workout" : "workouts"}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// "3 workouts and 1 template or program"
+function formatUsage(usageCount: number, planUsageCount: number) {
+  const parts = [];
+
+  if (usageCount > 0) {
+    parts.push(`${usageCount} ${usageCount === 1 ? "workout" : "workouts"}`);
+  }
+  if (planUsageCount > 0) {
+    parts.push(
+      `${planUsageCount} ${planUsageCount === 1 ? "template or program" : "templates or programs"}`
+    );
+  }
+
+  return parts.join(" and ");
+}
+
+function DeleteExerciseButton({
+  exercise,
+  usageCount,
+  planUsageCount,
+  mergeTargets,
+}: {
+  exercise: Exercise;
+  usageCount: number;
+  planUsageCount: number;
+  mergeTargets: Exercise[];
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [replacementId, setReplacementId] = useState("");
+
+  const isInUse = usageCount > 0 || planUsageCount > 0;
+
+  const handleDelete = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await deleteExerciseAction({
+        exerciseId: exercise.id,
+        replacementExerciseId: isInUse ? replacementId : undefined,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button
+            variant="destructive"
+            size="sm"
+            disabled={isPending}
+            aria-label={`Delete ${exercise.name}`}
+          >
+            <Trash2 />
+            {isPending ? "Deleting..." : "Delete"}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {exercise.name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {isInUse
+                ? `This exercise is used in ${formatUsage(usageCount, planUsageCount)}. Choose an exercise to merge those entries into; their sets are kept.`
+                : "This exercise isn't used in any workouts, templates or programs and will be permanently deleted."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          {isInUse && (
+            <div className="space-y-2">
+              <Label htmlFor={`merge-target-${exercise.id}`}>Merge into</Label>
+              <Select value={replacementId} onValueChange={setReplacementId}>
+                <SelectTrigger
+                  id={`merge-target-${exercise.id}`}
+                  className="w-full"
+                >
+                  <SelectValue placeholder="Choose an exercise" />
+                </SelectTrigger>
+                <SelectContent>
+                  {mergeTargets.map((target) => (
+                    <SelectItem key={target.id} value={target.id}>
+                      {target.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              disabled={isInUse && !replacementId}
+            >
+              {isInUse ? "Merge and delete" : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      {error && (
+        <Alert variant="destructive" className="py-2">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,188 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  DEFAULT_MEASUREMENT_TYPE,
+  MEASUREMENT_TYPES,
+  MEASUREMENT_TYPE_LABELS,
+  isMeasurementType,
+} from "@/lib/measurement-types";
+import { MUSCLE_GROUPS, formatMuscle, type MuscleGroup } from "@/lib/muscles";
+import type { Exercise } from "@/data/types";
+import { createExerciseAction, updateExerciseAction } from "./actions";
+
+const NO_MUSCLE = "none";
+
+interface ExerciseFormProps {
+  exercise?: Exercise;
+  onDone?: () => void;
+}
+
+export function ExerciseForm({ exercise, onDone }: ExerciseFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState(exercise?.name ?? "");
+  const [primaryMuscle, setPrimaryMuscle] = useState<string>(
+    exercise?.primaryMuscle ?? NO_MUSCLE
+  );
+  const [secondaryMuscles, setSecondaryMuscles] = useState<string[]>(
+    exercise?.secondaryMuscles ?? []
+  );
+  const [measurementType, setMeasurementType] = useState(
+    exercise?.measurementType ?? DEFAULT_MEASUREMENT_TYPE
+  );
+
+  const idPrefix = exercise ? `exercise-${exercise.id}` : "new-exercise";
+
+  const toggleSecondary = (muscle: string, checked: boolean) => {
+    setSecondaryMuscles((current) =>
+      checked ? [...current, muscle] : current.filter((m) => m !== muscle)
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const input = {
+      name,
+      primaryMuscle:
+        primaryMuscle === NO_MUSCLE ? null : (primaryMuscle as MuscleGroup),
+      secondaryMuscles: secondaryMuscles as MuscleGroup[],
+      measurementType,
+    };
+
+    startTransition(async () => {
+      const result = exercise
+        ? await updateExerciseAction({ exerciseId: exercise.id, ...input })
+        : await createExerciseAction(input);
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      if (!exercise) {
+        setName("");
+        setPrimaryMuscle(NO_MUSCLE);
+        setSecondaryMuscles([]);
+        setMeasurementType(DEFAULT_MEASUREMENT_TYPE);
+      }
+      onDone?.();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-name`}>Name</Label>
+          <Input
+            id={`${idPrefix}-name`}
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Paused Bench Press"
+            maxLength={100}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-primary`}>Primary muscle</Label>
+          <Select value={primaryMuscle} onValueChange={setPrimaryMuscle}>
+            <SelectTrigger id={`${idPrefix}-primary`} className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_MUSCLE}>None</SelectItem>
+              {MUSCLE_GROUPS.map((muscle) => (
+                <SelectItem key={muscle} value={muscle}>
+                  {formatMuscle(muscle)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-measurement`}>Measured by</Label>
+          <Select
+            value={measurementType}
+            onValueChange={(value) => {
+              if (isMeasurementType(value)) {
+                setMeasurementType(value);
+              }
+            }}
+          >
+            <SelectTrigger id={`${idPrefix}-measurement`} className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MEASUREMENT_TYPES.map((type) => (
+                <SelectItem key={type} value={type}>
+                  {MEASUREMENT_TYPE_LABELS[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <fieldset className="space-y-2">
+        <legend className="text-sm font-medium mb-2">Secondary muscles</legend>
+        <div className="grid grid-cols-2 gap-2 sm:grid-cols-3 md:grid-cols-5">
+          {MUSCLE_GROUPS.filter((muscle) => muscle !== primaryMuscle).map(
+            (muscle) => (
+              <Label
+                key={muscle}
+                className="font-normal"
+                htmlFor={`${idPrefix}-secondary-${muscle}`}
+              >
+                <Checkbox
+                  id={`${idPrefix}-secondary-${muscle}`}
+                  checked={secondaryMuscles.includes(muscle)}
+                  onCheckedChange={(checked) =>
+                    toggleSecondary(muscle, checked === true)
+                  }
+                />
+                {formatMuscle(muscle)}
+              </Label>
+            )
+          )}
+        </div>
+      </fieldset>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-2">
+        <Button type="submit" disabled={isPending}>
+          {isPending
+            ? "Saving..."
+            : exercise
+              ? "Save changes"
+              : "Create exercise"}
+        </Button>
+        {exercise && onDone && (
+          <Button type="button" variant="outline" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,83 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  getExercises,
+  getExercisePlanUsageCounts,
+  getExerciseUsageCounts,
+} from "@/data/exercises";
+import { CustomExerciseList, ExerciseSummary } from "./custom-exercise-list";
+import { ExerciseForm } from "./exercise-form";
+
+export default async function ExercisesPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const [exercises, usageCounts, planUsageCounts] = await Promise.all([
+    getExercises(userId),
+    getExerciseUsageCounts(userId),
+    getExercisePlanUsageCounts(userId),
+  ]);
+
+  const customExercises = exercises.filter((exercise) => exercise.isCustom);
+  const systemExercises = exercises.filter((exercise) => !exercise.isCustom);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Exercises</h1>
+
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Create Exercise</h2>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ExerciseForm />
+          </CardContent>
+        </Card>
+
+        <section aria-labelledby="custom-exercises-heading">
+          <h2 id="custom-exercises-heading" className="text-lg font-semibold mb-4">
+            My Exercises
+          </h2>
+          <CustomExerciseList
+            exercises={customExercises}
+            allExercises={exercises}
+            usageCounts={usageCounts}
+            planUsageCounts={planUsageCounts}
+          />
+        </section>
+
+        <section
+          aria-labelledby="system-exercises-heading"
+          className="border-t pt-6"
+        >
+          <h2 id="system-exercises-heading" className="text-lg font-semibold mb-4">
+            Exercise Library
+          </h2>
+          {systemExercises.length === 0 ? (
+            <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
+              The exercise library is empty.
+            </p>
+          ) : (
+            <ul className="grid gap-4 sm:grid-cols-2">
+              {systemExercises.map((exercise) => (
+                <li key={exercise.id} className="rounded-lg border p-4">
+                  <ExerciseSummary
+                    exercise={exercise}
+                    usageCount={usageCounts[exercise.id] ?? 0}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,29 @@
+import { auth } from "@clerk/nextjs/server";
+import { getBackup } from "@/data/backups";
+import { getTodayInTimeZone } from "@/lib/dates";
+
+// Downloads everything needed to restore the user's training log as one JSON
+// document. See restoreBackupAction for the way back in.
+export async function GET() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const backup = await getBackup(userId);
+    const today = getTodayInTimeZone(backup.settings.timeZone);
+
+    return new Response(JSON.stringify(backup, null, 2), {
+      headers: {
+        "Content-Type": "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="lifting-diary-backup-${today}.json"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Failed to create backup:", error);
+    return Response.json({ error: "Failed to create backup" }, { status: 500 });
+  }
+}
@@ -0,0 +1,143 @@
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+  getSetExportPage,
+  type ExportCursor,
+  type ExportFilters,
+} from "@/data/export";
+import { getUserSettings } from "@/data/user-settings";
+import { getTodayInTimeZone, isDateString } from "@/lib/dates";
+import { toCsvRow } from "@/lib/csv";
+
+// Workouts fetched per round trip while streaming
+const WORKOUTS_PER_PAGE = 200;
+
+const CSV_HEADER = [
+  "date",
+  "workout",
+  "exercise",
+  "muscle",
+  "set",
+  "weight",
+  "unit",
+  "reps",
+  "duration_seconds",
+  "distance_m",
+  "notes",
+  "set_type",
+  "rpe",
+  "rir",
+  "tempo",
+];
+
+// A real calendar date, so a day like 2024-02-31 is turned down here rather
+// than failing the query once the download has started
+const dateSchema = z
+  .string()
+  .refine(isDateString, "Date must be a valid YYYY-MM-DD date");
+
+const exportFiltersSchema = z
+  .object({
+    from: dateSchema.optional(),
+    to: dateSchema.optional(),
+    exerciseId: z.uuid("Invalid exercise").optional(),
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: "Start date must be on or before end date",
+    path: ["to"],
+  });
+
+// Streams the training log as CSV, one row per set. A route handler rather
+// than a page because the response is a file download; optional from, to
+// and exerciseId search params narrow it down.
+export async function GET(request: Request) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    return Response.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // Empty form fields arrive as empty strings
+  const params = Object.fromEntries(
+    [...new URL(request.url).searchParams].filter(([, value]) => value !== "")
+  );
+  const result = exportFiltersSchema.safeParse(params);
+
+  if (!result.success) {
+    return Response.json(
+      { error: result.error.flatten().fieldErrors },
+      { status: 400 }
+    );
+  }
+
+  const filters: ExportFilters = {
+    fromDate: result.data.from,
+    toDate: result.data.to,
+    exerciseId: result.data.exerciseId,
+  };
+  const settings = await getUserSettings(userId);
+  const encoder = new TextEncoder();
+  let cursor: ExportCursor | null = null;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // The byte order mark makes Excel read the file as UTF-8
+      controller.enqueue(encoder.encode(`\uFEFF${toCsvRow(CSV_HEADER)}`));
+    },
+    async pull(controller) {
+      try {
+        const page = await getSetExportPage(
+          userId,
+          filters,
+          cursor,
+          WORKOUTS_PER_PAGE
+        );
+
+        if (page.rows.length > 0) {
+          controller.enqueue(
+            encoder.encode(
+              page.rows
+                .map((row) =>
+                  toCsvRow([
+                    row.date,
+                    row.workoutName,
+                    row.exerciseName,
+                    row.primaryMuscle,
+                    row.setNumber,
+                    row.weight,
+                    row.weightUnit,
+                    row.reps,
+                    row.durationSeconds,
+                    row.distance,
+                    row.notes,
+                    row.setType,
+                    row.rpe,
+                    row.rir,
+                    row.tempo,
+                  ])
+                )
+                .join("")
+            )
+          );
+        }
+
+        cursor = page.nextCursor;
+
+        if (!cursor) {
+          controller.close();
+        }
+      } catch (error) {
+        console.error("Failed to export workouts:", error);
+        controller.error(error);
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="lifting-diary-${getTodayInTimeZone(settings.timeZone)}.csv"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
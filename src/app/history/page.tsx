@@ -0,0 +1,93 @@
+import { auth } from "@clerk/nextjs/server";
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getTodayInTimeZone } from "@/lib/dates";
+import { formatWeight } from "@/lib/units";
+import { getBodyweightHistory } from "@/data/body-measurements";
+import { getTrainingDays } from "@/data/workouts";
+import { getUserSettings } from "@/data/user-settings";
+import { TrainingHeatmap } from "./training-heatmap";
+
+interface HistoryPageProps {
+  searchParams: Promise<{ year?: string }>;
+}
+
+export default async function HistoryPage({ searchParams }: HistoryPageProps) {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const { year: yearParam } = await searchParams;
+  const settings = await getUserSettings(userId);
+  const { weightUnit, weekStartsOn, timeZone } = settings;
+  const currentYear = Number(getTodayInTimeZone(timeZone).slice(0, 4));
+  const requestedYear = Number(yearParam);
+  const year =
+    Number.isInteger(requestedYear) &&
+    requestedYear >= 1900 &&
+    requestedYear <= currentYear
+      ? requestedYear
+      : currentYear;
+
+  const trainingDays = await getTrainingDays(
+    userId,
+    `${year}-01-01`,
+    `${year}-12-31`,
+    weightUnit,
+    await getBodyweightHistory(userId, settings)
+  );
+  const totalWorkouts = trainingDays.reduce(
+    (total, day) => total + day.workoutCount,
+    0
+  );
+  const totalVolume = trainingDays.reduce((total, day) => total + day.volume, 0);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">History</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <h2>{year}</h2>
+          </CardTitle>
+          <p className="text-sm text-muted-foreground">
+            {totalWorkouts} {totalWorkouts === 1 ? "workout" : "workouts"} on{" "}
+            {trainingDays.length} {trainingDays.length === 1 ? "day" : "days"}
+            {totalVolume > 0 &&
+              ` · ${formatWeight(Math.round(totalVolume), weightUnit)} lifted`}
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <TrainingHeatmap
+            year={year}
+            trainingDays={trainingDays}
+            weekStartsOn={weekStartsOn}
+            unit={weightUnit}
+          />
+          <nav aria-label="Year" className="flex justify-between">
+            <Button variant="outline" size="sm" asChild>
+              <Link href={`/history?year=${year - 1}`}>
+                <ChevronLeft />
+                {year - 1}
+              </Link>
+            </Button>
+            {year < currentYear && (
+              <Button variant="outline" size="sm" asChild>
+                <Link href={`/history?year=${year + 1}`}>
+                  {year + 1}
+                  <ChevronRight />
+                </Link>
+              </Button>
+            )}
+          </nav>
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
@@ -0,0 +1,151 @@
+import Link from "next/link";
+import {
+  addDays,
+  eachWeekOfInterval,
+  endOfYear,
+  format,
+  getYear,
+  startOfYear,
+} from "date-fns";
+import { cn } from "@/lib/utils";
+import type { WeekStartDay } from "@/lib/dates";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { TrainingDay } from "@/data/types";
+
+interface TrainingHeatmapProps {
+  year: number;
+  trainingDays: TrainingDay[];
+  weekStartsOn: WeekStartDay;
+  unit: WeightUnit;
+}
+
+const LEVEL_CLASSES = [
+  "bg-muted",
+  "bg-primary/25",
+  "bg-primary/50",
+  "bg-primary/75",
+  "bg-primary",
+];
+
+// Shade 1-4 by volume relative to the year's biggest day. Days with only
+// bodyweight or empty workouts still get the lightest shade.
+function getLevel(day: TrainingDay | undefined, maxVolume: number) {
+  if (!day) {
+    return 0;
+  }
+
+  if (maxVolume === 0 || day.volume === 0) {
+    return 1;
+  }
+
+  return Math.max(1, Math.ceil((day.volume / maxVolume) * 4));
+}
+
+function describeDay(date: Date, day: TrainingDay | undefined, unit: WeightUnit) {
+  const label = format(date, "do MMM yyyy");
+
+  if (!day) {
+    return `${label}: no workouts`;
+  }
+
+  const workouts = `${day.workoutCount} ${day.workoutCount === 1 ? "workout" : "workouts"}`;
+  return day.volume > 0
+    ? `${label}: ${workouts}, ${formatWeight(Math.round(day.volume), unit)}`
+    : `${label}: ${workouts}`;
+}
+
+// GitHub-style grid with one column per week and one row per weekday
+export function TrainingHeatmap({
+  year,
+  trainingDays,
+  weekStartsOn,
+  unit,
+}: TrainingHeatmapProps) {
+  const yearStart = startOfYear(new Date(year, 0, 1));
+  const weeks = eachWeekOfInterval(
+    { start: yearStart, end: endOfYear(yearStart) },
+    { weekStartsOn }
+  );
+  const daysByDate = new Map(trainingDays.map((day) => [day.date, day]));
+  const maxVolume = Math.max(0, ...trainingDays.map((day) => day.volume));
+  const weekdayLabels = Array.from({ length: 7 }, (_, index) =>
+    index % 2 === 1 ? format(addDays(weeks[0], index), "EEE") : ""
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-x-auto pb-2">
+        <div className="inline-flex gap-1">
+          <div className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-1 pr-1 text-xs text-muted-foreground">
+            <span aria-hidden="true">&nbsp;</span>
+            {weekdayLabels.map((label, index) => (
+              <span key={index} className="leading-3" aria-hidden="true">
+                {label}
+              </span>
+            ))}
+          </div>
+          {weeks.map((weekStart) => {
+            const days = Array.from({ length: 7 }, (_, index) =>
+              addDays(weekStart, index)
+            );
+            const monthStart = days.find(
+              (day) => day.getDate() === 1 && getYear(day) === year
+            );
+
+            return (
+              <div
+                key={weekStart.toISOString()}
+                className="grid grid-rows-[auto_repeat(7,0.75rem)] gap-1"
+              >
+                <span
+                  className="h-4 text-xs text-muted-foreground whitespace-nowrap w-3"
+                  aria-hidden="true"
+                >
+                  {monthStart && format(monthStart, "MMM")}
+                </span>
+                {days.map((day) => {
+                  if (getYear(day) !== year) {
+                    return <span key={day.toISOString()} className="size-3" />;
+                  }
+
+                  const dateString = format(day, "yyyy-MM-dd");
+                  const trainingDay = daysByDate.get(dateString);
+                  const label = describeDay(day, trainingDay, unit);
+                  const className = cn(
+                    "size-3 rounded-sm",
+                    LEVEL_CLASSES[getLevel(trainingDay, maxVolume)]
+                  );
+
+                  return trainingDay ? (
+                    <Link
+                      key={dateString}
+                      href={`/dashboard?date=${dateString}`}
+                      className={cn(
+                        className,
+                        "focus-visible:ring-ring/50 focus-visible:ring-[3px] outline-none"
+                      )}
+                      title={label}
+                      aria-label={label}
+                    />
+                  ) : (
+                    <span key={dateString} className={className} title={label} />
+                  );
+                })}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+      <div
+        className="flex items-center justify-end gap-1 text-xs text-muted-foreground"
+        aria-hidden="true"
+      >
+        Less
+        {LEVEL_CLASSES.map((levelClass) => (
+          <span key={levelClass} className={cn("size-3 rounded-sm", levelClass)} />
+        ))}
+        More
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { importWorkouts } from "@/data/imports";
+import { getTakenExerciseNames } from "@/data/exercises";
+import type { ActionResult } from "@/lib/action-types";
+import { SET_TYPES } from "@/lib/set-types";
+import { WEIGHT_UNITS } from "@/lib/units";
+import { MAX_IMPORTED_NOTE_LENGTH } from "@/lib/workout-import";
+import type { ImportSummary } from "@/data/types";
+
+const exerciseNameSchema = z
+  .string()
+  .trim()
+  .min(1, "Exercise name is required")
+  .max(100, "Exercise name must be 100 characters or less");
+
+const importedSetSchema = z.object({
+  weight: z
+    .number()
+    .positive("Weight must be positive")
+    .max(9999.99, "Weight is too large")
+    .nullable(),
+  reps: z
+    .number()
+    .int("Reps must be a whole number")
+    .positive("Reps must be at least 1")
+    .max(999),
+  setType: z.enum(SET_TYPES),
+  notes: z.string().max(MAX_IMPORTED_NOTE_LENGTH).nullable(),
+});
+
+const importedWorkoutSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format"),
+  name: z
+    .string()
+    .trim()
+    .max(100, "Name must be 100 characters or less")
+    .nullable(),
+  exercises: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        sets: z.array(importedSetSchema).min(1).max(100),
+      })
+    )
+    .min(1)
+    .max(50),
+});
+
+const importWorkoutsSchema = z.object({
+  weightUnit: z.enum(WEIGHT_UNITS),
+  mappings: z
+    .array(
+      z.union([
+        z.object({ name: z.string(), exerciseId: z.string().uuid() }),
+        z.object({ name: z.string(), newExerciseName: exerciseNameSchema }),
+      ])
+    )
+    .max(1000),
+  workouts: z
+    .array(importedWorkoutSchema)
+    .min(1, "The file has no workouts to import")
+    .max(10000, "Import at most 10,000 workouts at a time"),
+});
+
+type ImportWorkoutsInput = z.infer<typeof importWorkoutsSchema>;
+
+export async function importWorkoutsAction(
+  input: ImportWorkoutsInput
+): Promise<ActionResult<ImportSummary>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = importWorkoutsSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { weightUnit, mappings, workouts } = result.data;
+    const [takenName] = await getTakenExerciseNames(
+      userId,
+      mappings.flatMap((mapping) =>
+        "newExerciseName" in mapping ? [mapping.newExerciseName] : []
+      )
+    );
+
+    if (takenName) {
+      return {
+        error: `An exercise named "${takenName}" already exists. Map to it instead.`,
+      };
+    }
+
+    const summary = await importWorkouts(userId, {
+      weightUnit,
+      mappings,
+      workouts,
+    });
+
+    if (!summary) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidatePath("/dashboard");
+    revalidatePath("/history");
+    revalidatePath("/exercises");
+    revalidatePath("/programs");
+    return { data: summary };
+  } catch (error) {
+    console.error("Failed to import workouts:", error);
+    return { error: "Failed to import workouts" };
+  }
+}
@@ -0,0 +1,501 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { format, parse } from "date-fns";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ExerciseSelect } from "@/components/exercise-select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  WEIGHT_UNITS,
+  WEIGHT_UNIT_LABELS,
+  isWeightUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import {
+  IMPORT_SOURCES,
+  IMPORT_SOURCE_LABELS,
+  matchExerciseName,
+  parseWorkoutCsv,
+  type ExerciseMapping,
+  type ParsedImport,
+} from "@/lib/workout-import";
+import type { Exercise, ImportSummary } from "@/data/types";
+import { importWorkoutsAction } from "./actions";
+
+// Most recent workouts shown in the preview table
+const PREVIEW_WORKOUTS = 10;
+
+// Line numbers listed for rows that can't be read before summing up the rest
+const LISTED_INVALID_ROWS = 10;
+
+// Where one imported name is going. The exercise id is kept while creating
+// a new exercise so switching back restores the earlier pick.
+type MappingChoice = {
+  exerciseId: string;
+  newExerciseName: string | null;
+};
+
+// Each distinct exercise name in the file with how many sets use it
+function getImportedNames(parsed: ParsedImport) {
+  const setCounts = new Map<string, number>();
+
+  for (const workout of parsed.workouts) {
+    for (const exercise of workout.exercises) {
+      setCounts.set(
+        exercise.name,
+        (setCounts.get(exercise.name) ?? 0) + exercise.sets.length
+      );
+    }
+  }
+
+  return [...setCounts]
+    .map(([name, setCount]) => ({ name, setCount }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// "Lines 4, 9 and 12 can't be read", or the first few and how many more
+function formatInvalidRows(lines: number[]) {
+  const listed = lines.slice(0, LISTED_INVALID_ROWS);
+  const more = lines.length - listed.length;
+  const parts = more > 0 ? [...listed, `${more} more`] : listed;
+  const list =
+    parts.length === 1
+      ? String(parts[0])
+      : `${parts.slice(0, -1).join(", ")} and ${parts.at(-1)}`;
+
+  return `${lines.length === 1 ? "Line" : "Lines"} ${list} can't be read. Check the date, exercise, reps and weight.`;
+}
+
+function formatDate(date: string) {
+  return format(parse(date, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+}
+
+interface ImportFormProps {
+  exercises: Exercise[];
+  // Used for files that don't record their unit
+  defaultWeightUnit: WeightUnit;
+}
+
+export function ImportForm({ exercises, defaultWeightUnit }: ImportFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [weightUnit, setWeightUnit] = useState(defaultWeightUnit);
+  const [choices, setChoices] = useState<Record<string, MappingChoice>>({});
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+
+    setFileError(null);
+    setError(null);
+    setSummary(null);
+    setParsed(null);
+
+    if (!file) {
+      return;
+    }
+
+    const result = parseWorkoutCsv(await file.text());
+
+    if (!result) {
+      setFileError(
+        "This file isn't a Strong, Hevy or FitNotes CSV export. Export your workouts from the app as CSV and try again."
+      );
+      return;
+    }
+
+    if (result.workouts.length === 0) {
+      setFileError(
+        result.invalidRows.length > 0
+          ? `This file has no sets to import. ${formatInvalidRows(result.invalidRows)}`
+          : "This file has no sets to import."
+      );
+      return;
+    }
+
+    setParsed(result);
+    setWeightUnit(result.weightUnit ?? defaultWeightUnit);
+    setChoices(
+      Object.fromEntries(
+        getImportedNames(result).map(({ name }) => {
+          const match = matchExerciseName(name, exercises);
+          return [
+            name,
+            {
+              exerciseId: match?.id ?? "",
+              newExerciseName: match ? null : name,
+            },
+          ];
+        })
+      )
+    );
+  };
+
+  const updateChoice = (name: string, changes: Partial<MappingChoice>) => {
+    setChoices((current) => ({
+      ...current,
+      [name]: { ...current[name], ...changes },
+    }));
+  };
+
+  const handleImport = () => {
+    if (!parsed) {
+      return;
+    }
+
+    setError(null);
+
+    const unmapped = Object.entries(choices).find(
+      ([, choice]) =>
+        choice.newExerciseName === null
+          ? !choice.exerciseId
+          : !choice.newExerciseName.trim()
+    );
+
+    if (unmapped) {
+      setError(`Choose an exercise for "${unmapped[0]}"`);
+      return;
+    }
+
+    const mappings: ExerciseMapping[] = Object.entries(choices).map(
+      ([name, choice]) =>
+        choice.newExerciseName === null
+          ? { name, exerciseId: choice.exerciseId }
+          : { name, newExerciseName: choice.newExerciseName.trim() }
+    );
+
+    startTransition(async () => {
+      const result = await importWorkoutsAction({
+        weightUnit,
+        mappings,
+        workouts: parsed.workouts,
+      });
+
+      if (result.error !== undefined) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setSummary(result.data);
+      setParsed(null);
+      setFileInputKey((key) => key + 1);
+    });
+  };
+
+  // Grouped by the automatic match so rows stay put while being changed
+  const importedNames = (parsed ? getImportedNames(parsed) : []).map(
+    (importedName) => ({
+      ...importedName,
+      isMatched: matchExerciseName(importedName.name, exercises) !== undefined,
+    })
+  );
+  const unmatchedNames = importedNames.filter(({ isMatched }) => !isMatched);
+  const matchedNames = importedNames.filter(({ isMatched }) => isMatched);
+  const setCount = importedNames.reduce(
+    (total, { setCount }) => total + setCount,
+    0
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <h2>Choose a file</h2>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Export your history as CSV from{" "}
+            {IMPORT_SOURCES.map((source) => IMPORT_SOURCE_LABELS[source]).join(
+              ", "
+            )}{" "}
+            and pick the file here. Nothing is saved until you confirm the
+            import, and exercises you&apos;ve already logged on the same date
+            are skipped, so importing a file twice is safe.
+          </p>
+          <div className="space-y-2">
+            <Label htmlFor="import-file">CSV export</Label>
+            <Input
+              key={fileInputKey}
+              id="import-file"
+              type="file"
+              accept=".csv,text/csv"
+              onChange={handleFileChange}
+              disabled={isPending}
+            />
+          </div>
+          {fileError && (
+            <Alert variant="destructive">
+              <AlertDescription>{fileError}</AlertDescription>
+            </Alert>
+          )}
+          {summary && (
+            <Alert>
+              <AlertDescription>
+                <p>
+                  Imported {summary.workoutCount}{" "}
+                  {summary.workoutCount === 1 ? "workout" : "workouts"} and{" "}
+                  {summary.setCount} {summary.setCount === 1 ? "set" : "sets"}
+                  {summary.createdExerciseCount > 0 &&
+                    `, creating ${summary.createdExerciseCount} custom ${summary.createdExerciseCount === 1 ? "exercise" : "exercises"}`}
+                  .
+                  {summary.skippedExerciseCount > 0 &&
+                    ` Skipped ${summary.skippedExerciseCount} ${summary.skippedExerciseCount === 1 ? "exercise" : "exercises"} already logged on the same date.`}
+                </p>
+                <Link
+                  href="/history"
+                  className="font-medium underline underline-offset-4"
+                >
+                  View your history
+                </Link>
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {parsed && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <h2>Review exercises</h2>
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Match each exercise from {IMPORT_SOURCE_LABELS[parsed.source]}{" "}
+                to one in your catalog, or create it as a custom exercise.
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {unmatchedNames.length > 0 && (
+                <section aria-label="Unmatched exercises" className="space-y-4">
+                  <h3 className="font-medium">
+                    No match found{" "}
+                    <Badge variant="secondary">{unmatchedNames.length}</Badge>
+                  </h3>
+                  {unmatchedNames.map(({ name, setCount }) => (
+                    <ExerciseMappingRow
+                      key={name}
+                      name={name}
+                      setCount={setCount}
+                      choice={choices[name]}
+                      exercises={exercises}
+                      onChange={(changes) => updateChoice(name, changes)}
+                    />
+                  ))}
+                </section>
+              )}
+              {matchedNames.length > 0 && (
+                <section aria-label="Matched exercises" className="space-y-4">
+                  <h3 className="font-medium">
+                    Matched automatically{" "}
+                    <Badge variant="secondary">{matchedNames.length}</Badge>
+                  </h3>
+                  {matchedNames.map(({ name, setCount }) => (
+                    <ExerciseMappingRow
+                      key={name}
+                      name={name}
+                      setCount={setCount}
+                      choice={choices[name]}
+                      exercises={exercises}
+                      onChange={(changes) => updateChoice(name, changes)}
+                    />
+                  ))}
+                </section>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                <h2>Preview</h2>
+              </CardTitle>
+              <p className="text-sm text-muted-foreground">
+                {parsed.workouts.length}{" "}
+                {parsed.workouts.length === 1 ? "workout" : "workouts"} and{" "}
+                {setCount} {setCount === 1 ? "set" : "sets"} from{" "}
+                {formatDate(parsed.workouts[0].date)} to{" "}
+                {formatDate(parsed.workouts.at(-1)!.date)}
+                {parsed.skippedRows > 0 &&
+                  `. ${parsed.skippedRows} ${parsed.skippedRows === 1 ? "row" : "rows"} without reps, such as cardio, will be left out`}
+                .
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {parsed.invalidRows.length > 0 && (
+                <Alert variant="destructive">
+                  <AlertDescription>
+                    {formatInvalidRows(parsed.invalidRows)} Those rows will be
+                    left out.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="import-weight-unit">
+                  Weights in the file are in
+                </Label>
+                <Select
+                  value={weightUnit}
+                  onValueChange={(value) => {
+                    if (isWeightUnit(value)) {
+                      setWeightUnit(value);
+                    }
+                  }}
+                  disabled={parsed.weightUnit !== null}
+                >
+                  <SelectTrigger
+                    id="import-weight-unit"
+                    className="w-full sm:w-48"
+                  >
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEIGHT_UNITS.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {WEIGHT_UNIT_LABELS[unit]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {parsed.weightUnit === null && (
+                  <p className="text-xs text-muted-foreground">
+                    {IMPORT_SOURCE_LABELS[parsed.source]} exports don&apos;t
+                    record the unit. Pick the one the app was set to.
+                  </p>
+                )}
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Workout</TableHead>
+                    <TableHead>Exercises</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {parsed.workouts
+                    .slice(-PREVIEW_WORKOUTS)
+                    .reverse()
+                    .map((workout, index) => (
+                      <TableRow key={`${workout.date}-${index}`}>
+                        <TableCell className="whitespace-nowrap">
+                          {formatDate(workout.date)}
+                        </TableCell>
+                        <TableCell>{workout.name ?? "Workout"}</TableCell>
+                        <TableCell className="whitespace-normal">
+                          {workout.exercises
+                            .map(
+                              (exercise) =>
+                                `${exercise.name} × ${exercise.sets.length}`
+                            )
+                            .join(", ")}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                </TableBody>
+              </Table>
+              {parsed.workouts.length > PREVIEW_WORKOUTS && (
+                <p className="text-xs text-muted-foreground">
+                  Showing the {PREVIEW_WORKOUTS} most recent workouts.
+                </p>
+              )}
+
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+              <Button onClick={handleImport} disabled={isPending}>
+                {isPending
+                  ? "Importing..."
+                  : `Import ${parsed.workouts.length} ${parsed.workouts.length === 1 ? "workout" : "workouts"}`}
+              </Button>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
+
+function ExerciseMappingRow({
+  name,
+  setCount,
+  choice,
+  exercises,
+  onChange,
+}: {
+  name: string;
+  setCount: number;
+  choice: MappingChoice;
+  exercises: Exercise[];
+  onChange: (changes: Partial<MappingChoice>) => void;
+}) {
+  const id = `import-exercise-${name}`;
+  const isNew = choice.newExerciseName !== null;
+
+  return (
+    <div className="grid gap-2 sm:grid-cols-[1fr_2fr] sm:items-center">
+      <div>
+        <Label htmlFor={id}>{name}</Label>
+        <p className="text-xs text-muted-foreground">
+          {setCount} {setCount === 1 ? "set" : "sets"}
+        </p>
+      </div>
+      <div className="flex gap-2">
+        {isNew ? (
+          <Input
+            id={id}
+            value={choice.newExerciseName ?? ""}
+            onChange={(e) => onChange({ newExerciseName: e.target.value })}
+            aria-label={`New exercise name for ${name}`}
+            maxLength={100}
+          />
+        ) : (
+          <ExerciseSelect
+            id={id}
+            exercises={exercises}
+            value={choice.exerciseId}
+            onValueChange={(exerciseId) => onChange({ exerciseId })}
+            label={`Exercise for ${name}`}
+          />
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          className="shrink-0"
+          onClick={() => onChange({ newExerciseName: isNew ? null : name })}
+        >
+          {isNew ? "Use existing" : "Create new"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { getExercises } from "@/data/exercises";
+import { getUserSettings } from "@/data/user-settings";
+import { ImportForm } from "./import-form";
+
+export default async function ImportPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const [{ weightUnit }, exercises] = await Promise.all([
+    getUserSettings(userId),
+    getExercises(userId),
+  ]);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Import Workouts</h1>
+
+      <ImportForm exercises={exercises} defaultWeightUnit={weightUnit} />
+    </main>
+  );
+}
@@ -13,6 +13,8 @@ import {
 
 import { ThemeProvider } from "@/components/theme-provider";
 import { ModeToggle } from "@/components/mode-toggle";
+import { MainNav } from "@/components/main-nav";
+import { ServiceWorkerRegistration } from "@/components/service-worker-registration";
 import { Button } from "@/components/ui/button";
 import "./globals.css";
 
@@ -60,6 +62,9 @@ export default function RootLayout({
                 </Link>
               </Button>
               <nav className="flex items-center gap-4">
+                <SignedIn>
+                  <MainNav />
+                </SignedIn>
                 <ModeToggle />
                 <SignedOut>
                   <SignInButton mode="modal" />
@@ -72,6 +77,7 @@ export default function RootLayout({
             </header>
             {children}
           </ThemeProvider>
+          <ServiceWorkerRegistration />
         </body>
       </html>
     </ClerkProvider>
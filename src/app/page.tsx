@@ -1,7 +1,7 @@
 import { SignedIn, SignedOut, SignUpButton } from "@clerk/nextjs";
 import { auth } from "@clerk/nextjs/server";
 import Link from "next/link";
-import { format } from "date-fns";
+import { format, parse } from "date-fns";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -11,7 +11,14 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { PersonalRecordBadges } from "@/components/personal-record-badges";
+import { getBodyweightHistory } from "@/data/body-measurements";
+import { getRecentPersonalRecords } from "@/data/personal-records";
+import { getUserSettings } from "@/data/user-settings";
 import { getWorkoutSummary } from "@/data/workouts";
+import { formatWeight } from "@/lib/units";
+import type { Streak } from "@/lib/streaks";
+import { WeeklyTrendChart } from "./weekly-trend-chart";
 
 export default async function Home() {
   return (
@@ -110,7 +117,15 @@ async function DashboardSummary() {
     return null;
   }
 
-  const summary = await getWorkoutSummary(userId);
+  const settings = await getUserSettings(userId);
+  const { weightUnit, oneRepMaxFormula, timeZone, weekStartsOn } = settings;
+  const [summary, recentRecords] = await Promise.all([
+    getBodyweightHistory(userId, settings).then((bodyweights) =>
+      getWorkoutSummary(userId, timeZone, weekStartsOn, weightUnit, bodyweights)
+    ),
+    getRecentPersonalRecords(userId, oneRepMaxFormula, weightUnit),
+  ]);
+  const { currentPeriod, previousPeriod } = summary;
 
   return (
     <div className="container mx-auto px-4 py-8 max-w-4xl">
@@ -126,27 +141,86 @@ async function DashboardSummary() {
         <h2 id="stats-heading" className="sr-only">
           Workout Statistics
         </h2>
-        <div className="grid gap-4 sm:grid-cols-3">
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
           <StatCard
             label="Total Workouts"
-            value={summary?.totalWorkouts ?? 0}
+            value={summary.totalWorkouts}
+            detail={`${currentPeriod.workouts} in 30 days, ${formatChange(
+              currentPeriod.workouts - previousPeriod.workouts,
+              String
+            )}`}
           />
           <StatCard
             label="Exercises (30 days)"
-            value={summary?.totalExercises ?? 0}
+            value={summary.totalExercises}
+          />
+          <StatCard
+            label="Sets (30 days)"
+            value={summary.totalSets}
+            detail={formatChange(
+              currentPeriod.sets - previousPeriod.sets,
+              String
+            )}
+          />
+          <StatCard
+            label="Volume (30 days)"
+            value={formatWeight(
+              Math.round(currentPeriod.volume),
+              weightUnit,
+              0
+            )}
+            detail={formatChange(
+              Math.round(currentPeriod.volume - previousPeriod.volume),
+              (value) => formatWeight(value, weightUnit, 0)
+            )}
+          />
+        </div>
+      </section>
+
+      {/* Streaks */}
+      <section aria-labelledby="streaks-heading" className="mb-8">
+        <h2 id="streaks-heading" className="text-lg font-semibold mb-4">
+          Streaks
+        </h2>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <StreakCard
+            label="Day Streak"
+            streak={summary.dayStreak}
+            period="day"
+          />
+          <StreakCard
+            label="Week Streak"
+            streak={summary.weekStreak}
+            period="week"
           />
-          <StatCard label="Sets (30 days)" value={summary?.totalSets ?? 0} />
         </div>
       </section>
 
+      {/* Weekly Trend */}
+      {summary.totalWorkouts > 0 && (
+        <section aria-labelledby="trend-heading" className="mb-8">
+          <h2 id="trend-heading" className="text-lg font-semibold mb-4">
+            Last {summary.weeklyTrend.length} Weeks
+          </h2>
+          <Card>
+            <CardContent className="pt-6">
+              <WeeklyTrendChart
+                weeks={summary.weeklyTrend}
+                unit={weightUnit}
+              />
+            </CardContent>
+          </Card>
+        </section>
+      )}
+
       {/* Last Workout */}
-      {summary?.lastWorkoutDate && (
+      {summary.lastWorkoutDate && (
         <section className="mb-8">
           <Card>
             <CardHeader>
               <CardTitle className="text-lg">Last Workout</CardTitle>
               <CardDescription>
-                {format(new Date(summary.lastWorkoutDate), "do MMM yyyy")}
+                {formatDate(summary.lastWorkoutDate)}
               </CardDescription>
             </CardHeader>
           </Card>
@@ -154,7 +228,7 @@ async function DashboardSummary() {
       )}
 
       {/* Recent Workouts List */}
-      {summary && summary.recentWorkouts.length > 0 && (
+      {summary.recentWorkouts.length > 0 && (
         <section aria-labelledby="recent-heading" className="mb-8">
           <h2 id="recent-heading" className="text-lg font-semibold mb-4">
             Recent Workouts
@@ -171,7 +245,7 @@ async function DashboardSummary() {
                       {workout.name || "Workout"}
                     </span>
                     <span className="text-sm text-muted-foreground">
-                      {format(new Date(workout.date), "do MMM yyyy")}
+                      {formatDate(workout.date)}
                     </span>
                   </li>
                 ))}
@@ -181,6 +255,47 @@ async function DashboardSummary() {
         </section>
       )}
 
+      {/* Recent Personal Records */}
+      {recentRecords.length > 0 && (
+        <section aria-labelledby="records-heading" className="mb-8">
+          <h2 id="records-heading" className="text-lg font-semibold mb-4">
+            Recent PRs
+          </h2>
+          <Card>
+            <CardContent className="pt-6">
+              <ul className="divide-y">
+                {recentRecords.map((record) => (
+                  <li
+                    key={record.id}
+                    className="py-3 first:pt-0 last:pb-0 flex flex-wrap justify-between items-center gap-2"
+                  >
+                    <div className="space-y-1">
+                      <Link
+                        href={`/exercises/${record.exerciseId}`}
+                        className="font-medium hover:underline"
+                      >
+                        {record.exerciseName}
+                      </Link>
+                      <div className="text-sm text-muted-foreground">
+                        {record.volume !== null
+                          ? `${formatWeight(record.volume, weightUnit, 0)} total volume`
+                          : `${formatWeight(record.weight ?? 0, weightUnit)} × ${record.reps} reps`}
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      <PersonalRecordBadges types={record.types} />
+                      <span className="text-sm text-muted-foreground">
+                        {formatDate(record.date)}
+                      </span>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </section>
+      )}
+
       {/* CTA to Dashboard */}
       <section className="text-center">
         <Button asChild size="lg">
@@ -191,13 +306,60 @@ async function DashboardSummary() {
   );
 }
 
-function StatCard({ label, value }: { label: string; value: number }) {
+// Dates are calendar days, so parse them in local time rather than as UTC
+function formatDate(date: string) {
+  return format(parse(date, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+}
+
+// Difference from the previous 30 days, such as "+3 vs previous 30 days"
+function formatChange(change: number, formatValue: (value: number) => string) {
+  if (change === 0) {
+    return "Same as previous 30 days";
+  }
+
+  const sign = change > 0 ? "+" : "−";
+  return `${sign}${formatValue(Math.abs(change))} vs previous 30 days`;
+}
+
+function StatCard({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: number | string;
+  detail?: string;
+}) {
   return (
     <Card>
       <CardContent className="pt-6">
         <div className="text-3xl font-bold">{value}</div>
         <div className="text-sm text-muted-foreground">{label}</div>
+        {detail && (
+          <div className="text-xs text-muted-foreground mt-1">{detail}</div>
+        )}
       </CardContent>
     </Card>
   );
 }
+
+function StreakCard({
+  label,
+  streak,
+  period,
+}: {
+  label: string;
+  streak: Streak;
+  period: "day" | "week";
+}) {
+  const pluralize = (count: number) =>
+    `${count} ${count === 1 ? period : `${period}s`}`;
+
+  return (
+    <StatCard
+      label={label}
+      value={pluralize(streak.current)}
+      detail={`Longest: ${pluralize(streak.longest)}`}
+    />
+  );
+}
@@ -0,0 +1,516 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  createProgram,
+  updateProgram,
+  deleteProgram,
+  addProgramWeek,
+  removeLastProgramWeek,
+  setProgramWeekDeload,
+  addProgramDay,
+  updateProgramDay,
+  removeProgramDay,
+  addProgramExercise,
+  updateProgramExercise,
+  removeProgramExercise,
+} from "@/data/programs";
+import type { ActionResult } from "@/lib/action-types";
+import { MAX_PROGRAM_WEEKS, PRESCRIPTION_TYPES } from "@/lib/programs";
+import { WEIGHT_UNITS } from "@/lib/units";
+import type { Program } from "@/data/types";
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(100, "Name must be 100 characters or less");
+const notesSchema = z.string().max(1000, "Notes must be 1000 characters or less");
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+const deloadPercentageSchema = z
+  .number()
+  .int("Deload percentage must be a whole number")
+  .min(10, "Deload percentage must be at least 10")
+  .max(100, "Deload percentage must be 100 or less");
+
+const daySchema = z.object({
+  name: nameSchema,
+  dayOffset: z
+    .number()
+    .int()
+    .min(0, "Pick a day of the week")
+    .max(6, "Pick a day of the week"),
+});
+
+const prescriptionSchema = z.object({
+  sets: z
+    .number()
+    .int("Sets must be a whole number")
+    .min(1, "Prescribe at least 1 set")
+    .max(20, "Prescribe 20 sets or fewer"),
+  reps: z
+    .number()
+    .int("Reps must be a whole number")
+    .positive("Reps must be at least 1")
+    .max(999),
+  prescriptionType: z.enum(PRESCRIPTION_TYPES),
+  percentage: z
+    .number()
+    .positive("Percentage must be positive")
+    .max(150, "Percentage must be 150 or less")
+    .nullable(),
+  weight: z
+    .number()
+    .positive("Weight must be positive")
+    .max(9999.99, "Weight is too large")
+    .nullable(),
+  progressionPerWeek: z
+    .number()
+    .min(0, "Progression can't be negative")
+    .max(999, "Progression is too large"),
+  weightUnit: z.enum(WEIGHT_UNITS),
+});
+
+const hasPercentageIfRequired = (data: z.infer<typeof prescriptionSchema>) =>
+  data.prescriptionType !== "percentage" || data.percentage !== null;
+
+const createProgramSchema = z.object({
+  name: nameSchema,
+  notes: notesSchema.optional(),
+  startDate: dateSchema,
+  weekCount: z
+    .number()
+    .int("Weeks must be a whole number")
+    .min(1, "A program needs at least 1 week")
+    .max(MAX_PROGRAM_WEEKS, `A program can run ${MAX_PROGRAM_WEEKS} weeks at most`),
+  deloadPercentage: deloadPercentageSchema,
+});
+
+const updateProgramSchema = z.object({
+  programId: z.string().uuid(),
+  name: nameSchema,
+  notes: notesSchema.nullable(),
+  startDate: dateSchema,
+  deloadPercentage: deloadPercentageSchema,
+});
+
+const programIdSchema = z.object({
+  programId: z.string().uuid(),
+});
+
+const setWeekDeloadSchema = z.object({
+  programWeekId: z.string().uuid(),
+  isDeload: z.boolean(),
+});
+
+const addDaySchema = daySchema.extend({
+  programId: z.string().uuid(),
+});
+
+const updateDaySchema = daySchema.extend({
+  programDayId: z.string().uuid(),
+});
+
+const removeDaySchema = z.object({
+  programDayId: z.string().uuid(),
+});
+
+const addProgramExerciseSchema = prescriptionSchema
+  .extend({
+    programDayId: z.string().uuid(),
+    exerciseId: z.string().uuid("Select an exercise"),
+  })
+  .refine(hasPercentageIfRequired, {
+    message: "Enter a percentage of 1RM",
+    path: ["percentage"],
+  });
+
+const updateProgramExerciseSchema = prescriptionSchema
+  .extend({
+    programExerciseId: z.string().uuid(),
+  })
+  .refine(hasPercentageIfRequired, {
+    message: "Enter a percentage of 1RM",
+    path: ["percentage"],
+  });
+
+const removeProgramExerciseSchema = z.object({
+  programExerciseId: z.string().uuid(),
+});
+
+type CreateProgramInput = z.infer<typeof createProgramSchema>;
+type UpdateProgramInput = z.infer<typeof updateProgramSchema>;
+type ProgramIdInput = z.infer<typeof programIdSchema>;
+type SetWeekDeloadInput = z.infer<typeof setWeekDeloadSchema>;
+type AddDayInput = z.infer<typeof addDaySchema>;
+type UpdateDayInput = z.infer<typeof updateDaySchema>;
+type RemoveDayInput = z.infer<typeof removeDaySchema>;
+type AddProgramExerciseInput = z.infer<typeof addProgramExerciseSchema>;
+type UpdateProgramExerciseInput = z.infer<typeof updateProgramExerciseSchema>;
+type RemoveProgramExerciseInput = z.infer<typeof removeProgramExerciseSchema>;
+
+type ProgramDetails = Omit<Program, "weeks" | "days">;
+
+// Programs feed the planned session card on the dashboard
+function revalidateProgramPaths() {
+  revalidatePath("/programs");
+  revalidatePath("/dashboard");
+}
+
+export async function createProgramAction(
+  input: CreateProgramInput
+): Promise<ActionResult<ProgramDetails>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = createProgramSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const program = await createProgram(userId, {
+      ...result.data,
+      notes: result.data.notes || undefined,
+    });
+
+    revalidateProgramPaths();
+    return { data: program };
+  } catch (error) {
+    console.error("Failed to create program:", error);
+    return { error: "Failed to create program" };
+  }
+}
+
+export async function updateProgramAction(
+  input: UpdateProgramInput
+): Promise<ActionResult<ProgramDetails>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateProgramSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { programId, ...data } = result.data;
+    const program = await updateProgram(userId, programId, {
+      ...data,
+      notes: data.notes || null,
+    });
+
+    if (!program) {
+      return { error: "Program not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: program };
+  } catch (error) {
+    console.error("Failed to update program:", error);
+    return { error: "Failed to update program" };
+  }
+}
+
+export async function deleteProgramAction(
+  input: ProgramIdInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = programIdSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const deleted = await deleteProgram(userId, result.data.programId);
+
+    if (!deleted) {
+      return { error: "Program not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to delete program:", error);
+    return { error: "Failed to delete program" };
+  }
+}
+
+export async function addProgramWeekAction(
+  input: ProgramIdInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = programIdSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const week = await addProgramWeek(userId, result.data.programId);
+
+    if (!week) {
+      return { error: "Program not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to add program week:", error);
+    return { error: "Failed to add program week" };
+  }
+}
+
+export async function removeLastProgramWeekAction(
+  input: ProgramIdInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = programIdSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const removed = await removeLastProgramWeek(userId, result.data.programId);
+
+    if (!removed) {
+      return { error: "A program needs at least 1 week" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to remove program week:", error);
+    return { error: "Failed to remove program week" };
+  }
+}
+
+export async function setProgramWeekDeloadAction(
+  input: SetWeekDeloadInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = setWeekDeloadSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const week = await setProgramWeekDeload(
+      userId,
+      result.data.programWeekId,
+      result.data.isDeload
+    );
+
+    if (!week) {
+      return { error: "Week not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to update program week:", error);
+    return { error: "Failed to update program week" };
+  }
+}
+
+export async function addProgramDayAction(
+  input: AddDayInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = addDaySchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { programId, ...data } = result.data;
+    const day = await addProgramDay(userId, programId, data);
+
+    if (!day) {
+      return { error: "Program not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to add program day:", error);
+    return { error: "Failed to add program day" };
+  }
+}
+
+export async function updateProgramDayAction(
+  input: UpdateDayInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateDaySchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { programDayId, ...data } = result.data;
+    const day = await updateProgramDay(userId, programDayId, data);
+
+    if (!day) {
+      return { error: "Day not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to update program day:", error);
+    return { error: "Failed to update program day" };
+  }
+}
+
+export async function removeProgramDayAction(
+  input: RemoveDayInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = removeDaySchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const removed = await removeProgramDay(userId, result.data.programDayId);
+
+    if (!removed) {
+      return { error: "Day not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to remove program day:", error);
+    return { error: "Failed to remove program day" };
+  }
+}
+
+export async function addProgramExerciseAction(
+  input: AddProgramExerciseInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = addProgramExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { programDayId, ...data } = result.data;
+    const programExercise = await addProgramExercise(userId, programDayId, data);
+
+    if (!programExercise) {
+      return { error: "Day or exercise not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to add exercise to program:", error);
+    return { error: "Failed to add exercise to program" };
+  }
+}
+
+export async function updateProgramExerciseAction(
+  input: UpdateProgramExerciseInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateProgramExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { programExerciseId, ...prescription } = result.data;
+    const programExercise = await updateProgramExercise(
+      userId,
+      programExerciseId,
+      prescription
+    );
+
+    if (!programExercise) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to update program exercise:", error);
+    return { error: "Failed to update program exercise" };
+  }
+}
+
+export async function removeProgramExerciseAction(
+  input: RemoveProgramExerciseInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = removeProgramExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const removed = await removeProgramExercise(
+      userId,
+      result.data.programExerciseId
+    );
+
+    if (!removed) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidateProgramPaths();
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to remove exercise from program:", error);
+    return { error: "Failed to remove exercise from program" };
+  }
+}
@@ -0,0 +1,57 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getTodayInTimeZone } from "@/lib/dates";
+import { getExercises } from "@/data/exercises";
+import { getPrograms, getProgramAdherence } from "@/data/programs";
+import { getUserSettings } from "@/data/user-settings";
+import { CreateProgramForm } from "./program-forms";
+import { ProgramList } from "./program-list";
+
+export default async function ProgramsPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const { weightUnit, timeZone } = await getUserSettings(userId);
+  const today = getTodayInTimeZone(timeZone);
+  const [programs, exercises] = await Promise.all([
+    getPrograms(userId, weightUnit),
+    getExercises(userId),
+  ]);
+  const adherence = await getProgramAdherence(userId, programs, today);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Programs</h1>
+
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Create Program</h2>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CreateProgramForm today={today} />
+          </CardContent>
+        </Card>
+
+        <section aria-labelledby="programs-heading" className="border-t pt-6">
+          <h2 id="programs-heading" className="text-lg font-semibold mb-4">
+            My Programs
+          </h2>
+          <ProgramList
+            programs={programs}
+            adherence={adherence}
+            exercises={exercises}
+            unit={weightUnit}
+            today={today}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,843 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Check, Minus, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ExerciseSelect } from "@/components/exercise-select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  MAX_PROGRAM_WEEKS,
+  PRESCRIPTION_TYPES,
+  PRESCRIPTION_TYPE_LABELS,
+  getProgramDayLabel,
+  isPrescriptionType,
+  type PrescriptionType,
+} from "@/lib/programs";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+import type { Exercise, Program, ProgramExercise } from "@/data/types";
+import {
+  createProgramAction,
+  updateProgramAction,
+  deleteProgramAction,
+  addProgramWeekAction,
+  removeLastProgramWeekAction,
+  setProgramWeekDeloadAction,
+  addProgramDayAction,
+  updateProgramDayAction,
+  removeProgramDayAction,
+  addProgramExerciseAction,
+  updateProgramExerciseAction,
+  removeProgramExerciseAction,
+} from "./actions";
+
+type ProgramDay = Program["days"][number];
+
+const DAY_OFFSETS = [0, 1, 2, 3, 4, 5, 6];
+
+function parseOptionalNumber(value: FormDataEntryValue | null) {
+  return value === null || value === "" ? null : Number(value);
+}
+
+function parsePrescription(
+  formData: FormData,
+  prescriptionType: PrescriptionType,
+  unit: WeightUnit
+) {
+  return {
+    sets: Number(formData.get("sets")),
+    reps: Number(formData.get("reps")),
+    prescriptionType,
+    percentage: parseOptionalNumber(formData.get("percentage")),
+    weight: parseOptionalNumber(formData.get("weight")),
+    progressionPerWeek: Number(formData.get("progressionPerWeek") || 0),
+    weightUnit: unit,
+  };
+}
+
+function FormError({ message }: { message: string | null }) {
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Alert variant="destructive" className="py-2">
+      <AlertDescription>{message}</AlertDescription>
+    </Alert>
+  );
+}
+
+export function CreateProgramForm({ today }: { today: string }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    startTransition(async () => {
+      const result = await createProgramAction({
+        name: formData.get("name") as string,
+        notes: (formData.get("notes") as string) || undefined,
+        startDate: formData.get("startDate") as string,
+        weekCount: Number(formData.get("weekCount")),
+        deloadPercentage: Number(formData.get("deloadPercentage")),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      form.reset();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="new-program-name">Name</Label>
+        <Input
+          id="new-program-name"
+          name="name"
+          placeholder="e.g. 5/3/1 Block"
+          maxLength={100}
+          required
+        />
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        <div className="space-y-2">
+          <Label htmlFor="new-program-start">Start date</Label>
+          <Input
+            id="new-program-start"
+            name="startDate"
+            type="date"
+            defaultValue={today}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-program-weeks">Weeks</Label>
+          <Input
+            id="new-program-weeks"
+            name="weekCount"
+            type="number"
+            inputMode="numeric"
+            min="1"
+            max={MAX_PROGRAM_WEEKS}
+            defaultValue={4}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="new-program-deload">Deload load (%)</Label>
+          <Input
+            id="new-program-deload"
+            name="deloadPercentage"
+            type="number"
+            inputMode="numeric"
+            min="10"
+            max="100"
+            defaultValue={60}
+            required
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-program-notes">Notes</Label>
+        <Textarea
+          id="new-program-notes"
+          name="notes"
+          placeholder="Optional"
+          maxLength={1000}
+        />
+      </div>
+      <FormError message={error} />
+      <Button type="submit" disabled={isPending}>
+        <Plus />
+        {isPending ? "Creating..." : "Create program"}
+      </Button>
+    </form>
+  );
+}
+
+export function ProgramDetailsForm({
+  program,
+  onDone,
+}: {
+  program: Program;
+  onDone: () => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await updateProgramAction({
+        programId: program.id,
+        name: formData.get("name") as string,
+        notes: (formData.get("notes") as string) || null,
+        startDate: formData.get("startDate") as string,
+        deloadPercentage: Number(formData.get("deloadPercentage")),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      onDone();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`program-name-${program.id}`}>Name</Label>
+        <Input
+          id={`program-name-${program.id}`}
+          name="name"
+          defaultValue={program.name}
+          maxLength={100}
+          required
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor={`program-start-${program.id}`}>Start date</Label>
+          <Input
+            id={`program-start-${program.id}`}
+            name="startDate"
+            type="date"
+            defaultValue={program.startDate}
+            required
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor={`program-deload-${program.id}`}>Deload load (%)</Label>
+          <Input
+            id={`program-deload-${program.id}`}
+            name="deloadPercentage"
+            type="number"
+            inputMode="numeric"
+            min="10"
+            max="100"
+            defaultValue={program.deloadPercentage}
+            required
+          />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`program-notes-${program.id}`}>Notes</Label>
+        <Textarea
+          id={`program-notes-${program.id}`}
+          name="notes"
+          defaultValue={program.notes ?? ""}
+          maxLength={1000}
+        />
+      </div>
+      <FormError message={error} />
+      <Button type="submit" size="sm" disabled={isPending}>
+        {isPending ? "Saving..." : "Save details"}
+      </Button>
+    </form>
+  );
+}
+
+export function DeleteProgramButton({ program }: { program: Program }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await deleteProgramAction({ programId: program.id });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" size="sm" disabled={isPending}>
+            <Trash2 />
+            {isPending ? "Deleting..." : "Delete program"}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this program?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {program.name} and its schedule will be permanently deleted.
+              Workouts you logged while following it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <FormError message={error} />
+    </div>
+  );
+}
+
+// Week count and which weeks are deloads
+export function ProgramWeeksEditor({ program }: { program: Program }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = (
+    action: () => Promise<{ error?: string | Record<string, string[]> }>
+  ) => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await action();
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <fieldset className="space-y-3">
+      <legend className="text-sm font-medium mb-2">
+        Weeks ({program.weeks.length})
+      </legend>
+      <div className="grid grid-cols-2 gap-2 sm:grid-cols-4">
+        {program.weeks.map((week) => (
+          <Label
+            key={week.id}
+            className="font-normal"
+            htmlFor={`program-week-${week.id}`}
+          >
+            <Checkbox
+              id={`program-week-${week.id}`}
+              checked={week.isDeload}
+              disabled={isPending}
+              onCheckedChange={(checked) =>
+                runAction(() =>
+                  setProgramWeekDeloadAction({
+                    programWeekId: week.id,
+                    isDeload: checked === true,
+                  })
+                )
+              }
+            />
+            Week {week.weekNumber} deload
+          </Label>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isPending || program.weeks.length >= MAX_PROGRAM_WEEKS}
+          onClick={() =>
+            runAction(() => addProgramWeekAction({ programId: program.id }))
+          }
+        >
+          <Plus />
+          Add week
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={isPending || program.weeks.length <= 1}
+          onClick={() =>
+            runAction(() =>
+              removeLastProgramWeekAction({ programId: program.id })
+            )
+          }
+        >
+          <Minus />
+          Remove last week
+        </Button>
+      </div>
+      <FormError message={error} />
+    </fieldset>
+  );
+}
+
+function DayOffsetSelect({
+  id,
+  startDate,
+  value,
+  onValueChange,
+}: {
+  id: string;
+  startDate: string;
+  value: number;
+  onValueChange: (value: number) => void;
+}) {
+  return (
+    <Select
+      value={String(value)}
+      onValueChange={(newValue) => onValueChange(Number(newValue))}
+    >
+      <SelectTrigger id={id} className="w-full" aria-label="Day of the week">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {DAY_OFFSETS.map((offset) => (
+          <SelectItem key={offset} value={String(offset)}>
+            Day {offset + 1} ({getProgramDayLabel(startDate, offset)})
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function AddProgramDayForm({ program }: { program: Program }) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [dayOffset, setDayOffset] = useState(0);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    startTransition(async () => {
+      const result = await addProgramDayAction({
+        programId: program.id,
+        name: formData.get("name") as string,
+        dayOffset,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      form.reset();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="grid gap-2 sm:grid-cols-[1fr_14rem_auto]">
+        <Input
+          name="name"
+          placeholder="e.g. Lower A"
+          maxLength={100}
+          required
+          aria-label="New day name"
+        />
+        <DayOffsetSelect
+          id={`new-day-offset-${program.id}`}
+          startDate={program.startDate}
+          value={dayOffset}
+          onValueChange={setDayOffset}
+        />
+        <Button type="submit" variant="outline" disabled={isPending}>
+          <Plus />
+          {isPending ? "Adding..." : "Add day"}
+        </Button>
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
+
+export function ProgramDayDetailsForm({
+  program,
+  day,
+}: {
+  program: Program;
+  day: ProgramDay;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [dayOffset, setDayOffset] = useState(day.dayOffset);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await updateProgramDayAction({
+        programDayId: day.id,
+        name: formData.get("name") as string,
+        dayOffset,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  const handleRemove = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await removeProgramDayAction({ programDayId: day.id });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="grid grid-cols-[1fr_auto_auto] gap-2 sm:grid-cols-[1fr_14rem_auto_auto]">
+        <Input
+          name="name"
+          defaultValue={day.name}
+          maxLength={100}
+          required
+          aria-label="Day name"
+          className="font-medium"
+        />
+        <div className="col-span-3 row-start-2 sm:col-span-1 sm:row-start-auto">
+          <DayOffsetSelect
+            id={`day-offset-${day.id}`}
+            startDate={program.startDate}
+            value={dayOffset}
+            onValueChange={setDayOffset}
+          />
+        </div>
+        <Button
+          type="submit"
+          variant="ghost"
+          size="icon-sm"
+          disabled={isPending}
+          aria-label={`Save ${day.name}`}
+        >
+          <Check />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          onClick={handleRemove}
+          disabled={isPending}
+          aria-label={`Remove ${day.name} from program`}
+        >
+          <X />
+        </Button>
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
+
+// Sets, reps, load and weekly progression inputs shared by the add and edit
+// rows; the load input follows the prescription type
+function PrescriptionInputs({
+  label,
+  unit,
+  prescriptionType,
+  onPrescriptionTypeChange,
+  defaults,
+}: {
+  label: string;
+  unit: WeightUnit;
+  prescriptionType: PrescriptionType;
+  onPrescriptionTypeChange: (value: PrescriptionType) => void;
+  defaults?: Pick<
+    ProgramExercise,
+    "sets" | "reps" | "percentage" | "weight" | "progressionPerWeek"
+  >;
+}) {
+  const isPercentage = prescriptionType === "percentage";
+  const unitLabel = isPercentage ? "%" : WEIGHT_UNIT_ABBREVIATIONS[unit];
+
+  return (
+    <>
+      <Input
+        name="sets"
+        type="number"
+        inputMode="numeric"
+        min="1"
+        max="20"
+        required
+        defaultValue={defaults?.sets ?? 3}
+        placeholder="Sets"
+        aria-label={`${label} sets`}
+      />
+      <Input
+        name="reps"
+        type="number"
+        inputMode="numeric"
+        min="1"
+        required
+        defaultValue={defaults?.reps ?? 5}
+        placeholder="Reps"
+        aria-label={`${label} reps`}
+      />
+      <Select
+        value={prescriptionType}
+        onValueChange={(value) => {
+          if (isPrescriptionType(value)) {
+            onPrescriptionTypeChange(value);
+          }
+        }}
+      >
+        <SelectTrigger className="w-full" aria-label={`${label} load type`}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRESCRIPTION_TYPES.map((type) => (
+            <SelectItem key={type} value={type}>
+              {PRESCRIPTION_TYPE_LABELS[type]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {isPercentage ? (
+        <Input
+          key="percentage"
+          name="percentage"
+          type="number"
+          inputMode="decimal"
+          step="any"
+          min="0"
+          max="150"
+          required
+          defaultValue={defaults?.percentage ?? 75}
+          placeholder="% of 1RM"
+          aria-label={`${label} percentage of 1RM`}
+        />
+      ) : (
+        <Input
+          key="weight"
+          name="weight"
+          type="number"
+          inputMode="decimal"
+          step="any"
+          min="0"
+          defaultValue={defaults?.weight ?? ""}
+          placeholder={`Weight (${unitLabel})`}
+          aria-label={`${label} weight in ${unitLabel}`}
+        />
+      )}
+      <Input
+        name="progressionPerWeek"
+        type="number"
+        inputMode="decimal"
+        step="any"
+        min="0"
+        defaultValue={defaults?.progressionPerWeek || ""}
+        placeholder={`+${unitLabel}/week`}
+        aria-label={`${label} added each week in ${unitLabel}`}
+      />
+    </>
+  );
+}
+
+export function ProgramExerciseEditorRow({
+  programExercise,
+  unit,
+}: {
+  programExercise: ProgramExercise;
+  unit: WeightUnit;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [prescriptionType, setPrescriptionType] = useState(
+    programExercise.prescriptionType
+  );
+  const name = programExercise.exercise.name;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await updateProgramExerciseAction({
+        programExerciseId: programExercise.id,
+        ...parsePrescription(formData, prescriptionType, unit),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  const handleRemove = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await removeProgramExerciseAction({
+        programExerciseId: programExercise.id,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-muted-foreground">
+          {programExercise.order}.
+        </span>
+        <span className="font-medium">{name}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          className="ml-auto"
+          onClick={handleRemove}
+          disabled={isPending}
+          aria-label={`Remove ${name} from day`}
+        >
+          <X />
+        </Button>
+      </div>
+      <div className="grid grid-cols-2 items-center gap-2 sm:grid-cols-[4.5rem_4.5rem_9rem_6rem_7rem_auto]">
+        <PrescriptionInputs
+          label={name}
+          unit={unit}
+          prescriptionType={prescriptionType}
+          onPrescriptionTypeChange={setPrescriptionType}
+          defaults={programExercise}
+        />
+        <Button
+          type="submit"
+          variant="ghost"
+          size="icon-sm"
+          disabled={isPending}
+          aria-label={`Save ${name} prescription`}
+        >
+          <Check />
+        </Button>
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
+
+export function AddProgramExerciseForm({
+  programDayId,
+  exercises,
+  unit,
+}: {
+  programDayId: string;
+  exercises: Exercise[];
+  unit: WeightUnit;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [exerciseId, setExerciseId] = useState("");
+  const [prescriptionType, setPrescriptionType] =
+    useState<PrescriptionType>("percentage");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    startTransition(async () => {
+      const result = await addProgramExerciseAction({
+        programDayId,
+        exerciseId,
+        ...parsePrescription(formData, prescriptionType, unit),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      form.reset();
+      setExerciseId("");
+    });
+  };
+
+  if (exercises.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No exercises available.{" "}
+        <Link href="/exercises" className="underline underline-offset-4">
+          Create one
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <ExerciseSelect
+        exercises={exercises}
+        value={exerciseId}
+        onValueChange={setExerciseId}
+        label="Exercise to add"
+      />
+      <div className="grid grid-cols-2 items-center gap-2 sm:grid-cols-[4.5rem_4.5rem_9rem_6rem_7rem_auto]">
+        <PrescriptionInputs
+          label="New exercise"
+          unit={unit}
+          prescriptionType={prescriptionType}
+          onPrescriptionTypeChange={setPrescriptionType}
+        />
+        <Button
+          type="submit"
+          variant="outline"
+          className="col-span-2 sm:col-span-1"
+          disabled={isPending || !exerciseId}
+        >
+          <Plus />
+          {isPending ? "Adding..." : "Add"}
+        </Button>
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
@@ -0,0 +1,266 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { format, parse } from "date-fns";
+import { Pencil } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { getProgramDayLabel, getProgramPosition } from "@/lib/programs";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type {
+  Exercise,
+  Program,
+  ProgramAdherence,
+  ProgramExercise,
+} from "@/data/types";
+import {
+  AddProgramDayForm,
+  AddProgramExerciseForm,
+  DeleteProgramButton,
+  ProgramDayDetailsForm,
+  ProgramDetailsForm,
+  ProgramExerciseEditorRow,
+  ProgramWeeksEditor,
+} from "./program-forms";
+
+interface ProgramListProps {
+  programs: Program[];
+  adherence: Record<string, ProgramAdherence>;
+  exercises: Exercise[];
+  unit: WeightUnit;
+  today: string;
+}
+
+export function ProgramList({
+  programs,
+  adherence,
+  exercises,
+  unit,
+  today,
+}: ProgramListProps) {
+  if (programs.length === 0) {
+    return (
+      <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
+        You haven&apos;t created any programs yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {programs.map((program) => (
+        <ProgramCard
+          key={program.id}
+          program={program}
+          adherence={adherence[program.id]}
+          exercises={exercises}
+          unit={unit}
+          today={today}
+        />
+      ))}
+    </div>
+  );
+}
+
+function formatDate(date: string) {
+  return format(parse(date, "yyyy-MM-dd", new Date()), "do MMM yyyy");
+}
+
+function formatPrescription(programExercise: ProgramExercise, unit: WeightUnit) {
+  const { sets, reps, percentage, weight, progressionPerWeek } = programExercise;
+  const isPercentage = programExercise.prescriptionType === "percentage";
+  const load = isPercentage
+    ? percentage !== null
+      ? ` @ ${percentage}% 1RM`
+      : ""
+    : weight !== null
+      ? ` @ ${formatWeight(weight, unit)}`
+      : "";
+  const progression =
+    progressionPerWeek > 0
+      ? ` (+${isPercentage ? `${progressionPerWeek}%` : formatWeight(progressionPerWeek, unit)}/week)`
+      : "";
+
+  return `${sets} × ${reps}${load}${progression}`;
+}
+
+// Where today falls in the program's schedule
+function getProgramStatus(program: Program, today: string) {
+  const position = getProgramPosition(
+    program.startDate,
+    program.weeks.length,
+    today
+  );
+
+  if (position) {
+    return `Week ${position.weekNumber} of ${program.weeks.length}`;
+  }
+
+  return today < program.startDate
+    ? `Starts ${formatDate(program.startDate)}`
+    : "Finished";
+}
+
+function ProgramCard({
+  program,
+  adherence,
+  exercises,
+  unit,
+  today,
+}: {
+  program: Program;
+  adherence: ProgramAdherence | undefined;
+  exercises: Exercise[];
+  unit: WeightUnit;
+  today: string;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+  const deloadWeeks = program.weeks.filter((week) => week.isDeload);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{program.name}</CardTitle>
+        <p className="text-sm text-muted-foreground">
+          {getProgramStatus(program, today)} · {program.weeks.length}{" "}
+          {program.weeks.length === 1 ? "week" : "weeks"} from{" "}
+          {formatDate(program.startDate)}
+        </p>
+        {program.notes && !isEditing && (
+          <p className="text-sm text-muted-foreground">{program.notes}</p>
+        )}
+        <CardAction>
+          <Button
+            variant={isEditing ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIsEditing(!isEditing)}
+            aria-pressed={isEditing}
+          >
+            <Pencil />
+            {isEditing ? "Done" : "Edit"}
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {adherence && adherence.prescribedSets > 0 && (
+          <p className="text-sm">
+            <span className="font-medium">Adherence:</span>{" "}
+            {Math.round((adherence.completedSets / adherence.prescribedSets) * 100)}
+            % · {adherence.completedSets} of {adherence.prescribedSets} sets
+            across {adherence.scheduledSessions}{" "}
+            {adherence.scheduledSessions === 1 ? "session" : "sessions"} so far
+          </p>
+        )}
+
+        {isEditing && (
+          <>
+            <ProgramDetailsForm
+              program={program}
+              onDone={() => setIsEditing(false)}
+            />
+            <div className="border-t pt-4">
+              <ProgramWeeksEditor program={program} />
+            </div>
+          </>
+        )}
+
+        {isEditing ? (
+          <div className="space-y-6">
+            {program.days.map((day) => (
+              <section
+                key={`${day.id}-${program.startDate}`}
+                aria-label={day.name}
+                className="border-t pt-4 space-y-4"
+              >
+                <ProgramDayDetailsForm program={program} day={day} />
+                <div className="space-y-4 pl-4 border-l">
+                  {day.exercises.map((programExercise) => (
+                    <ProgramExerciseEditorRow
+                      key={`${programExercise.id}-${unit}`}
+                      programExercise={programExercise}
+                      unit={unit}
+                    />
+                  ))}
+                  <AddProgramExerciseForm
+                    programDayId={day.id}
+                    exercises={exercises}
+                    unit={unit}
+                  />
+                </div>
+              </section>
+            ))}
+            <div className="border-t pt-4">
+              <AddProgramDayForm program={program} />
+            </div>
+          </div>
+        ) : program.days.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No training days planned. Edit the program to add some.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {deloadWeeks.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                Deload{" "}
+                {deloadWeeks.length === 1 ? "week" : "weeks"}{" "}
+                {deloadWeeks.map((week) => week.weekNumber).join(", ")} at{" "}
+                {program.deloadPercentage}% load
+              </p>
+            )}
+            {program.days.map((day) => (
+              <div key={day.id} className="space-y-2">
+                <h3 className="font-medium">
+                  {day.name}{" "}
+                  <Badge variant="secondary">
+                    {getProgramDayLabel(program.startDate, day.dayOffset)}
+                  </Badge>
+                </h3>
+                {day.exercises.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No exercises prescribed.
+                  </p>
+                ) : (
+                  <ol className="space-y-1">
+                    {day.exercises.map((programExercise) => (
+                      <li
+                        key={programExercise.id}
+                        className="flex flex-wrap items-center gap-2"
+                      >
+                        <span className="text-sm font-medium text-muted-foreground">
+                          {programExercise.order}.
+                        </span>
+                        <Link
+                          href={`/exercises/${programExercise.exercise.id}`}
+                          className="font-medium underline-offset-4 hover:underline"
+                        >
+                          {programExercise.exercise.name}
+                        </Link>
+                        <span className="text-sm text-muted-foreground">
+                          {formatPrescription(programExercise, unit)}
+                        </span>
+                      </li>
+                    ))}
+                  </ol>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {isEditing && (
+          <div className="border-t pt-4">
+            <DeleteProgramButton program={program} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,181 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { restoreBackup } from "@/data/backups";
+import { restoreBackupAction } from "./actions";
+
+vi.mock("@clerk/nextjs/server", () => ({
+  auth: async () => ({ userId: "user_1" }),
+}));
+vi.mock("next/cache", () => ({ revalidatePath: vi.fn() }));
+vi.mock("@/data/user-settings", () => ({ updateUserSettings: vi.fn() }));
+vi.mock("@/data/backups", () => ({ restoreBackup: vi.fn() }));
+
+const settings = {
+  weightUnit: "kg",
+  weekStartsOn: 1,
+  restTimerSeconds: 90,
+  bodyweight: null,
+  oneRepMaxFormula: "epley",
+  timeZone: "UTC",
+};
+
+const exerciseReference = { id: "ex_1", name: "Squat", slug: "squat" };
+
+// A version 1 backup from before sessions, supersets, set details and
+// progression settings
+const backupV1 = {
+  version: 1,
+  exportedAt: "2024-01-01T00:00:00.000Z",
+  settings,
+  exercises: [
+    {
+      id: "custom_1",
+      name: "Sled Push",
+      primaryMuscle: null,
+      secondaryMuscles: [],
+    },
+  ],
+  workouts: [
+    {
+      id: "workout_1",
+      name: "Legs",
+      date: "2023-12-31",
+      notes: null,
+      exercises: [
+        {
+          id: "entry_1",
+          order: 0,
+          exercise: exerciseReference,
+          sets: [
+            {
+              id: "set_1",
+              setNumber: 1,
+              weight: "100",
+              weightUnit: "kg",
+              reps: 5,
+              notes: null,
+            },
+          ],
+        },
+      ],
+    },
+  ],
+};
+
+const backupV2 = {
+  version: 2,
+  exportedAt: "2024-01-01T00:00:00.000Z",
+  settings: {
+    ...settings,
+    progressionRule: "double_progression",
+    repRangeMin: 6,
+    repRangeMax: 10,
+  },
+  exercises: [],
+  workouts: [],
+  templates: [],
+  programs: [],
+};
+
+describe("restoreBackupAction", () => {
+  beforeEach(() => {
+    vi.mocked(restoreBackup).mockReset().mockResolvedValue({
+      workoutCount: 0,
+      setCount: 0,
+      createdExerciseCount: 0,
+      skippedExerciseCount: 0,
+    });
+  });
+
+  it("fills in what a version 1 backup is missing", async () => {
+    await restoreBackupAction({ mode: "merge", backup: backupV1 });
+
+    expect(restoreBackup).toHaveBeenCalledWith(
+      "user_1",
+      {
+        version: 3,
+        exportedAt: backupV1.exportedAt,
+        settings: {
+          ...settings,
+          progressionRule: "double_progression",
+          repRangeMin: 8,
+          repRangeMax: 12,
+        },
+        exercises: [
+          { ...backupV1.exercises[0], measurementType: "weight_reps" },
+        ],
+        workouts: [
+          {
+            ...backupV1.workouts[0],
+            startedAt: null,
+            completedAt: null,
+            exercises: [
+              {
+                id: "entry_1",
+                order: 0,
+                groupId: null,
+                exercise: exerciseReference,
+                sets: [
+                  {
+                    ...backupV1.workouts[0].exercises[0].sets[0],
+                    durationSeconds: null,
+                    distance: null,
+                    setType: "working",
+                    rpe: null,
+                    rir: null,
+                    tempo: null,
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+        templates: [],
+        programs: [],
+        bodyMeasurements: [],
+      },
+      "merge"
+    );
+  });
+
+  it("checks a version 1 rep range against the defaults it's missing", async () => {
+    const result = await restoreBackupAction({
+      mode: "merge",
+      backup: { ...backupV1, settings: { ...settings, repRangeMin: 15 } },
+    });
+
+    expect(result).toHaveProperty("error");
+    expect(restoreBackup).not.toHaveBeenCalled();
+  });
+
+  it("gives a version 2 backup no body measurements", async () => {
+    await restoreBackupAction({ mode: "replace", backup: backupV2 });
+
+    expect(restoreBackup).toHaveBeenCalledWith(
+      "user_1",
+      { ...backupV2, version: 3, bodyMeasurements: [] },
+      "replace"
+    );
+  });
+
+  it("restores a current backup as it is", async () => {
+    const backup = { ...backupV2, version: 3, bodyMeasurements: [] };
+
+    await restoreBackupAction({ mode: "merge", backup });
+
+    expect(restoreBackup).toHaveBeenCalledWith("user_1", backup, "merge");
+  });
+
+  it("rejects backups from an unknown version", async () => {
+    const result = await restoreBackupAction({
+      mode: "merge",
+      backup: { ...backupV2, version: 4 },
+    });
+
+    expect(result).toEqual({
+      error: {
+        backup: ["This backup was made by a different version of the app"],
+      },
+    });
+    expect(restoreBackup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,429 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { updateUserSettings } from "@/data/user-settings";
+import { restoreBackup } from "@/data/backups";
+import type { ActionResult } from "@/lib/action-types";
+import {
+  BACKUP_VERSION,
+  RESTORE_MODES,
+  type RestoreMode,
+} from "@/lib/backup";
+import { LENGTH_UNITS } from "@/lib/body-measurements";
+import { isValidTimeZone } from "@/lib/dates";
+import {
+  DEFAULT_MEASUREMENT_TYPE,
+  MAX_DISTANCE,
+  MAX_DURATION_SECONDS,
+  MEASUREMENT_TYPES,
+} from "@/lib/measurement-types";
+import { MUSCLE_GROUPS } from "@/lib/muscles";
+import { ONE_REP_MAX_FORMULAS } from "@/lib/one-rep-max";
+import { MAX_PROGRAM_WEEKS, PRESCRIPTION_TYPES } from "@/lib/programs";
+import {
+  DEFAULT_PROGRESSION_RULE,
+  DEFAULT_REP_RANGE,
+  MAX_TARGET_REPS,
+  PROGRESSION_RULES,
+} from "@/lib/progression";
+import {
+  DEFAULT_SET_TYPE,
+  MAX_RIR,
+  MAX_TEMPO_LENGTH,
+  SET_TYPES,
+} from "@/lib/set-types";
+import { WEIGHT_UNITS } from "@/lib/units";
+import type { ImportSummary, UserSettings } from "@/data/types";
+
+const repTargetSchema = z
+  .number()
+  .int("Reps must be a whole number")
+  .min(1, "Reps must be at least 1")
+  .max(MAX_TARGET_REPS, `Reps must be ${MAX_TARGET_REPS} or fewer`);
+
+const hasValidRepRange = (data: { repRangeMin: number; repRangeMax: number }) =>
+  data.repRangeMin <= data.repRangeMax;
+
+const settingsFieldsSchema = z.object({
+  weightUnit: z.enum(WEIGHT_UNITS),
+  weekStartsOn: z.union([z.literal(0), z.literal(1)]),
+  restTimerSeconds: z
+    .number()
+    .int("Rest timer must be a whole number of seconds")
+    .min(0, "Rest timer can't be negative")
+    .max(3600, "Rest timer must be an hour or less"),
+  bodyweight: z
+    .number()
+    .positive("Bodyweight must be positive")
+    .max(9999.99, "Bodyweight is too large")
+    .nullable(),
+  oneRepMaxFormula: z.enum(ONE_REP_MAX_FORMULAS),
+  timeZone: z.string().refine(isValidTimeZone, "Select a valid timezone"),
+  progressionRule: z.enum(PROGRESSION_RULES),
+  repRangeMin: repTargetSchema,
+  repRangeMax: repTargetSchema,
+});
+
+const repRangeError = {
+  message: "The top of the rep range can't be below the bottom",
+  path: ["repRangeMax"],
+};
+
+const updateSettingsSchema = settingsFieldsSchema.refine(
+  hasValidRepRange,
+  repRangeError
+);
+
+const nullableTextSchema = (max: number) => z.string().max(max).nullable();
+const nameSchema = z.string().trim().min(1).max(100);
+const dateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+const weightSchema = z
+  .string()
+  .regex(/^\d{1,4}(\.\d{1,2})?$/, "Invalid weight")
+  .refine((weight) => Number(weight) > 0, "Invalid weight");
+
+const backupExerciseReferenceSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1).max(100),
+  slug: z.string().nullable(),
+});
+
+const backupCustomExerciseSchema = z.object({
+  id: z.string(),
+  name: nameSchema,
+  primaryMuscle: z.enum(MUSCLE_GROUPS).nullable(),
+  secondaryMuscles: z.array(z.enum(MUSCLE_GROUPS)),
+  measurementType: z.enum(MEASUREMENT_TYPES),
+});
+
+const backupSetSchema = z.object({
+  id: z.string(),
+  setNumber: z.number().int().positive(),
+  weight: weightSchema.nullable(),
+  weightUnit: z.enum(WEIGHT_UNITS),
+  reps: z.number().int().positive().max(999).nullable(),
+  durationSeconds: z
+    .number()
+    .int()
+    .positive()
+    .max(MAX_DURATION_SECONDS)
+    .nullable(),
+  distance: z
+    .string()
+    .regex(/^\d{1,6}(\.\d{1,2})?$/, "Invalid distance")
+    .refine(
+      (distance) => Number(distance) > 0 && Number(distance) <= MAX_DISTANCE,
+      "Invalid distance"
+    )
+    .nullable(),
+  notes: nullableTextSchema(500),
+  setType: z.enum(SET_TYPES),
+  rpe: z
+    .string()
+    .regex(/^(10|[1-9])(\.[05])?$/, "Invalid RPE")
+    .refine((rpe) => Number(rpe) <= 10, "Invalid RPE")
+    .nullable(),
+  rir: z.number().int().min(0).max(MAX_RIR).nullable(),
+  tempo: nullableTextSchema(MAX_TEMPO_LENGTH),
+});
+
+const backupWorkoutExerciseSchema = z.object({
+  id: z.string(),
+  order: z.number().int(),
+  groupId: z.string().nullable(),
+  exercise: backupExerciseReferenceSchema,
+  sets: z.array(backupSetSchema),
+});
+
+const backupWorkoutSchema = z.object({
+  id: z.string(),
+  name: nullableTextSchema(100),
+  date: dateSchema,
+  notes: nullableTextSchema(1000),
+  startedAt: z.iso.datetime().nullable(),
+  completedAt: z.iso.datetime().nullable(),
+  exercises: z.array(backupWorkoutExerciseSchema),
+});
+
+const backupTemplateSchema = z.object({
+  id: z.string(),
+  name: nameSchema,
+  notes: nullableTextSchema(1000),
+  exercises: z.array(
+    z.object({
+      order: z.number().int(),
+      exercise: backupExerciseReferenceSchema,
+      targetSets: z.number().int().min(1).max(20),
+      targetReps: z.number().int().positive().max(999),
+      targetWeight: weightSchema.nullable(),
+      targetWeightUnit: z.enum(WEIGHT_UNITS),
+    })
+  ),
+});
+
+const backupProgramSchema = z.object({
+  id: z.string(),
+  name: nameSchema,
+  notes: nullableTextSchema(1000),
+  startDate: dateSchema,
+  deloadPercentage: z.number().int().min(10).max(100),
+  weeks: z
+    .array(
+      z.object({
+        weekNumber: z.number().int().min(1).max(MAX_PROGRAM_WEEKS),
+        isDeload: z.boolean(),
+      })
+    )
+    .min(1)
+    .max(MAX_PROGRAM_WEEKS),
+  days: z.array(
+    z.object({
+      name: nameSchema,
+      dayOffset: z.number().int().min(0).max(6),
+      exercises: z.array(
+        z.object({
+          order: z.number().int(),
+          exercise: backupExerciseReferenceSchema,
+          sets: z.number().int().min(1).max(20),
+          reps: z.number().int().positive().max(999),
+          prescriptionType: z.enum(PRESCRIPTION_TYPES),
+          percentage: z
+            .string()
+            .regex(/^\d{1,3}(\.\d{1,2})?$/, "Invalid percentage")
+            .nullable(),
+          weight: weightSchema.nullable(),
+          weightUnit: z.enum(WEIGHT_UNITS),
+          progressionPerWeek: z
+            .string()
+            .regex(/^\d{1,4}(\.\d{1,2})?$/, "Invalid progression"),
+        })
+      ),
+    })
+  ),
+});
+
+const circumferenceSchema = z
+  .string()
+  .regex(/^\d{1,3}(\.\d{1,2})?$/, "Invalid measurement")
+  .refine((length) => Number(length) > 0, "Invalid measurement")
+  .nullable();
+
+const backupBodyMeasurementSchema = z.object({
+  date: dateSchema,
+  bodyweight: z
+    .string()
+    .regex(/^\d{1,4}(\.\d{1,2})?$/, "Invalid bodyweight")
+    .refine((bodyweight) => Number(bodyweight) > 0, "Invalid bodyweight")
+    .nullable(),
+  bodyweightUnit: z.enum(WEIGHT_UNITS),
+  bodyFatPercentage: z
+    .string()
+    .regex(/^\d{1,2}(\.\d)?$/, "Invalid body fat")
+    .refine((percentage) => Number(percentage) > 0, "Invalid body fat")
+    .nullable(),
+  neck: circumferenceSchema,
+  chest: circumferenceSchema,
+  waist: circumferenceSchema,
+  hips: circumferenceSchema,
+  arms: circumferenceSchema,
+  thighs: circumferenceSchema,
+  lengthUnit: z.enum(LENGTH_UNITS),
+  notes: nullableTextSchema(1000),
+});
+
+const backupSchema = z.object({
+  version: z.literal(BACKUP_VERSION),
+  exportedAt: z.string(),
+  settings: updateSettingsSchema,
+  exercises: z.array(backupCustomExerciseSchema),
+  workouts: z.array(backupWorkoutSchema),
+  templates: z.array(backupTemplateSchema),
+  programs: z.array(backupProgramSchema),
+  bodyMeasurements: z.array(backupBodyMeasurementSchema),
+});
+
+// Version 2 backups have no body measurements
+const backupV2Schema = backupSchema
+  .omit({ bodyMeasurements: true })
+  .extend({ version: z.literal(2) });
+
+// Version 1 backups picked up sessions, supersets, set details and
+// progression settings without a version bump, so any of those may be
+// missing. They have no templates or programs.
+const backupV1Schema = z.object({
+  version: z.literal(1),
+  exportedAt: z.string(),
+  settings: settingsFieldsSchema
+    .partial({ progressionRule: true, repRangeMin: true, repRangeMax: true })
+    .refine(
+      (settings) =>
+        hasValidRepRange({
+          repRangeMin: settings.repRangeMin ?? DEFAULT_REP_RANGE.min,
+          repRangeMax: settings.repRangeMax ?? DEFAULT_REP_RANGE.max,
+        }),
+      repRangeError
+    ),
+  exercises: z.array(
+    backupCustomExerciseSchema.partial({ measurementType: true })
+  ),
+  workouts: z.array(
+    backupWorkoutSchema.partial({ startedAt: true, completedAt: true }).extend({
+      exercises: z.array(
+        backupWorkoutExerciseSchema.partial({ groupId: true }).extend({
+          sets: z.array(
+            backupSetSchema.partial({
+              durationSeconds: true,
+              distance: true,
+              setType: true,
+              rpe: true,
+              rir: true,
+              tempo: true,
+            })
+          ),
+        })
+      ),
+    })
+  ),
+});
+
+const restoreBackupSchema = z.object({
+  mode: z.enum(RESTORE_MODES),
+  backup: z.discriminatedUnion(
+    "version",
+    [backupSchema, backupV2Schema, backupV1Schema],
+    { error: "This backup was made by a different version of the app" }
+  ),
+});
+
+type BackupDocument = z.infer<typeof backupSchema>;
+
+// Brings a version 1 backup up to version 2, filling in what it's missing
+// with what the app assumed before those fields existed
+function migrateBackupV1(
+  backup: z.infer<typeof backupV1Schema>
+): z.infer<typeof backupV2Schema> {
+  const { settings } = backup;
+
+  return {
+    ...backup,
+    version: 2,
+    settings: {
+      ...settings,
+      progressionRule: settings.progressionRule ?? DEFAULT_PROGRESSION_RULE,
+      repRangeMin: settings.repRangeMin ?? DEFAULT_REP_RANGE.min,
+      repRangeMax: settings.repRangeMax ?? DEFAULT_REP_RANGE.max,
+    },
+    exercises: backup.exercises.map((exercise) => ({
+      ...exercise,
+      measurementType: exercise.measurementType ?? DEFAULT_MEASUREMENT_TYPE,
+    })),
+    workouts: backup.workouts.map((workout) => ({
+      ...workout,
+      startedAt: workout.startedAt ?? null,
+      completedAt: workout.completedAt ?? null,
+      exercises: workout.exercises.map((entry) => ({
+        ...entry,
+        groupId: entry.groupId ?? null,
+        sets: entry.sets.map((set) => ({
+          ...set,
+          durationSeconds: set.durationSeconds ?? null,
+          distance: set.distance ?? null,
+          setType: set.setType ?? DEFAULT_SET_TYPE,
+          rpe: set.rpe ?? null,
+          rir: set.rir ?? null,
+          tempo: set.tempo ?? null,
+        })),
+      })),
+    })),
+    templates: [],
+    programs: [],
+  };
+}
+
+function migrateBackupV2(
+  backup: z.infer<typeof backupV2Schema>
+): BackupDocument {
+  return { ...backup, version: BACKUP_VERSION, bodyMeasurements: [] };
+}
+
+// Reads a backup of any version as the current one, one version at a time
+function migrateBackup(
+  backup: z.infer<typeof restoreBackupSchema>["backup"]
+): BackupDocument {
+  switch (backup.version) {
+    case 1:
+      return migrateBackupV2(migrateBackupV1(backup));
+    case 2:
+      return migrateBackupV2(backup);
+    default:
+      return backup;
+  }
+}
+
+type UpdateSettingsInput = z.infer<typeof updateSettingsSchema>;
+// The backup comes straight from a user's file, so only the schema vouches
+// for its shape
+type RestoreBackupInput = {
+  mode: RestoreMode;
+  backup: unknown;
+};
+
+export async function updateSettingsAction(
+  input: UpdateSettingsInput
+): Promise<ActionResult<UserSettings>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateSettingsSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const settings = await updateUserSettings(userId, result.data);
+
+    // Units, formula and "today" affect what every page shows
+    revalidatePath("/", "layout");
+    return { data: settings };
+  } catch (error) {
+    console.error("Failed to update settings:", error);
+    return { error: "Failed to update settings" };
+  }
+}
+
+export async function restoreBackupAction(
+  input: RestoreBackupInput
+): Promise<ActionResult<ImportSummary>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = restoreBackupSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { mode, backup } = result.data;
+    const summary = await restoreBackup(userId, migrateBackup(backup), mode);
+
+    if (!summary) {
+      return {
+        error: "The backup refers to an exercise that no longer exists",
+      };
+    }
+
+    revalidatePath("/", "layout");
+    return { data: summary };
+  } catch (error) {
+    console.error("Failed to restore backup:", error);
+    return { error: "Failed to restore backup" };
+  }
+}
@@ -0,0 +1,181 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  RESTORE_MODES,
+  RESTORE_MODE_LABELS,
+  isRestoreMode,
+  type RestoreMode,
+} from "@/lib/backup";
+import type { ImportSummary } from "@/data/types";
+import { restoreBackupAction } from "./actions";
+
+export function BackupForm() {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [backup, setBackup] = useState<unknown>(null);
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+
+    setError(null);
+    setSummary(null);
+    setBackup(null);
+
+    if (!file) {
+      return;
+    }
+
+    try {
+      setBackup(JSON.parse(await file.text()));
+    } catch {
+      setError("This file isn't a backup. Choose a .json file downloaded here.");
+    }
+  };
+
+  const handleRestore = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await restoreBackupAction({ mode, backup });
+
+      if (result.error !== undefined) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setSummary(result.data);
+      setBackup(null);
+      setFileInputKey((key) => key + 1);
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          A backup holds your workouts, custom exercises, templates, programs,
+          body measurements and settings exactly as logged. Keep one somewhere safe before deleting anything.
+        </p>
+        <Button variant="outline" asChild>
+          <a href="/export/backup" download>
+            <Download />
+            Download backup
+          </a>
+        </Button>
+      </div>
+
+      <div className="border-t pt-6 space-y-4">
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="restore-file">Backup file</Label>
+            <Input
+              key={fileInputKey}
+              id="restore-file"
+              type="file"
+              accept=".json,application/json"
+              onChange={handleFileChange}
+              disabled={isPending}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="restore-mode">Restore by</Label>
+            <Select
+              value={mode}
+              onValueChange={(value) => {
+                if (isRestoreMode(value)) {
+                  setMode(value);
+                }
+              }}
+            >
+              <SelectTrigger id="restore-mode" className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {RESTORE_MODES.map((restoreMode) => (
+                  <SelectItem key={restoreMode} value={restoreMode}>
+                    {RESTORE_MODE_LABELS[restoreMode]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {mode === "merge"
+            ? "Adds the backup's workouts, skipping exercises already logged on the same date, its templates and programs, skipping names you already use, and its body measurements for days you haven't measured. Your settings are kept."
+            : "Deletes all of your workouts, templates, programs and body measurements, then restores the backup's along with its settings."}
+        </p>
+        {error && (
+          <Alert variant="destructive">
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+        {summary && (
+          <p className="text-sm text-muted-foreground" role="status">
+            Restored {summary.workoutCount}{" "}
+            {summary.workoutCount === 1 ? "workout" : "workouts"} and{" "}
+            {summary.setCount} {summary.setCount === 1 ? "set" : "sets"}
+            {summary.skippedExerciseCount > 0 &&
+              `, skipping ${summary.skippedExerciseCount} ${summary.skippedExerciseCount === 1 ? "exercise" : "exercises"} already logged`}
+            .
+          </p>
+        )}
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button disabled={isPending || backup === null}>
+              {isPending ? "Restoring..." : "Restore backup"}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                {mode === "replace"
+                  ? "Replace your data with this backup?"
+                  : "Merge this backup?"}
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {mode === "replace"
+                  ? "Every workout, template, program and body measurement you have will be permanently deleted and replaced with the backup's, and your settings will be overwritten."
+                  : "The backup's workouts, templates, programs and body measurements will be added to the ones you already have."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={handleRestore}>
+                {mode === "replace" ? "Replace" : "Merge"}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </div>
+  );
+}
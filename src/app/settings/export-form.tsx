@@ -0,0 +1,62 @@
+"use client";
+
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ExerciseSelect } from "@/components/exercise-select";
+import type { Exercise } from "@/data/types";
+
+interface ExportFormProps {
+  exercises: Exercise[];
+}
+
+// Plain GET form so the browser handles the download from the export route
+export function ExportForm({ exercises }: ExportFormProps) {
+  const [exerciseId, setExerciseId] = useState("");
+
+  return (
+    <form action="/export/workouts" className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Download every logged set as a CSV file. Leave the filters empty to
+        export your whole history.
+      </p>
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="export-from">From</Label>
+          <Input id="export-from" name="from" type="date" />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="export-to">To</Label>
+          <Input id="export-to" name="to" type="date" />
+        </div>
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="export-exercise">Exercise</Label>
+        <div className="flex gap-2">
+          <ExerciseSelect
+            id="export-exercise"
+            exercises={exercises}
+            value={exerciseId}
+            onValueChange={setExerciseId}
+          />
+          {exerciseId && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => setExerciseId("")}
+            >
+              Clear
+            </Button>
+          )}
+        </div>
+        <input type="hidden" name="exerciseId" value={exerciseId} />
+      </div>
+      <Button type="submit">
+        <Download />
+        Download CSV
+      </Button>
+    </form>
+  );
+}
@@ -0,0 +1,92 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import Link from "next/link";
+import { Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getExercises } from "@/data/exercises";
+import { getUserSettings } from "@/data/user-settings";
+import { getTimeZones } from "@/lib/dates";
+import { SettingsForm } from "./settings-form";
+import { ExportForm } from "./export-form";
+import { BackupForm } from "./backup-form";
+
+export default async function SettingsPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const [settings, exercises] = await Promise.all([
+    getUserSettings(userId),
+    getExercises(userId),
+  ]);
+  const timeZones = getTimeZones();
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Settings</h1>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            <h2>Preferences</h2>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <SettingsForm
+            settings={settings}
+            timeZones={
+              timeZones.includes(settings.timeZone)
+                ? timeZones
+                : [settings.timeZone, ...timeZones]
+            }
+          />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>
+            <h2>Export</h2>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ExportForm exercises={exercises} />
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>
+            <h2>Import</h2>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Bring your history over from Strong, Hevy or FitNotes using their
+            CSV exports.
+          </p>
+          <Button variant="outline" asChild>
+            <Link href="/import">
+              <Upload />
+              Import workouts
+            </Link>
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="mt-6">
+        <CardHeader>
+          <CardTitle>
+            <h2>Backup &amp; Restore</h2>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <BackupForm />
+        </CardContent>
+      </Card>
+    </main>
+  );
+}
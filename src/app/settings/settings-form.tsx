@@ -0,0 +1,330 @@
+"use client";
+
+import { useState, useSyncExternalStore, useTransition } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import {
+  WEEK_START_DAYS,
+  WEEK_START_DAY_LABELS,
+  isWeekStartDay,
+} from "@/lib/dates";
+import {
+  ONE_REP_MAX_FORMULAS,
+  ONE_REP_MAX_FORMULA_LABELS,
+  isOneRepMaxFormula,
+} from "@/lib/one-rep-max";
+import {
+  MAX_TARGET_REPS,
+  PROGRESSION_RULES,
+  PROGRESSION_RULE_LABELS,
+  isProgressionRule,
+} from "@/lib/progression";
+import {
+  WEIGHT_UNITS,
+  WEIGHT_UNIT_ABBREVIATIONS,
+  WEIGHT_UNIT_LABELS,
+  isWeightUnit,
+} from "@/lib/units";
+import type { UserSettings } from "@/data/types";
+import { updateSettingsAction } from "./actions";
+
+const subscribeToNothing = () => () => {};
+
+// The device's zone is only known in the browser; null while server rendering
+function useBrowserTimeZone() {
+  return useSyncExternalStore(
+    subscribeToNothing,
+    () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    () => null
+  );
+}
+
+interface SettingsFormProps {
+  settings: UserSettings;
+  timeZones: string[];
+}
+
+export function SettingsForm({ settings, timeZones }: SettingsFormProps) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+  const [values, setValues] = useState(settings);
+  const [restTimer, setRestTimer] = useState(String(settings.restTimerSeconds));
+  const [bodyweight, setBodyweight] = useState(
+    settings.bodyweight !== null ? String(settings.bodyweight) : ""
+  );
+  const [repRangeMin, setRepRangeMin] = useState(String(settings.repRangeMin));
+  const [repRangeMax, setRepRangeMax] = useState(String(settings.repRangeMax));
+
+  const update = (changes: Partial<UserSettings>) => {
+    setSaved(false);
+    setValues((current) => ({ ...current, ...changes }));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+    setSaved(false);
+
+    startTransition(async () => {
+      const result = await updateSettingsAction({
+        ...values,
+        restTimerSeconds: Number(restTimer),
+        bodyweight: bodyweight === "" ? null : Number(bodyweight),
+        repRangeMin: Number(repRangeMin),
+        repRangeMax: Number(repRangeMax),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      setSaved(true);
+    });
+  };
+
+  const browserTimeZone = useBrowserTimeZone();
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div className="grid gap-4 sm:grid-cols-2">
+        <div className="space-y-2">
+          <Label htmlFor="settings-weight-unit">Weight unit</Label>
+          <Select
+            value={values.weightUnit}
+            onValueChange={(value) => {
+              if (isWeightUnit(value)) {
+                update({ weightUnit: value });
+              }
+            }}
+          >
+            <SelectTrigger id="settings-weight-unit" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEIGHT_UNITS.map((unit) => (
+                <SelectItem key={unit} value={unit}>
+                  {WEIGHT_UNIT_LABELS[unit]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-bodyweight">
+            Bodyweight ({WEIGHT_UNIT_ABBREVIATIONS[values.weightUnit]})
+          </Label>
+          <Input
+            id="settings-bodyweight"
+            type="number"
+            inputMode="decimal"
+            step="any"
+            min="0"
+            value={bodyweight}
+            onChange={(e) => {
+              setSaved(false);
+              setBodyweight(e.target.value);
+            }}
+            placeholder="Optional"
+          />
+          <p className="text-xs text-muted-foreground">
+            Used for bodyweight exercises until you log your bodyweight on the{" "}
+            <Link href="/body" className="underline underline-offset-4">
+              Body
+            </Link>{" "}
+            page.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-formula">1RM formula</Label>
+          <Select
+            value={values.oneRepMaxFormula}
+            onValueChange={(value) => {
+              if (isOneRepMaxFormula(value)) {
+                update({ oneRepMaxFormula: value });
+              }
+            }}
+          >
+            <SelectTrigger id="settings-formula" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ONE_REP_MAX_FORMULAS.map((formula) => (
+                <SelectItem key={formula} value={formula}>
+                  {ONE_REP_MAX_FORMULA_LABELS[formula]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-rest-timer">Default rest timer (seconds)</Label>
+          <Input
+            id="settings-rest-timer"
+            type="number"
+            inputMode="numeric"
+            min="0"
+            max="3600"
+            step="1"
+            value={restTimer}
+            onChange={(e) => {
+              setSaved(false);
+              setRestTimer(e.target.value);
+            }}
+            required
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-week-start">Week starts on</Label>
+          <Select
+            value={String(values.weekStartsOn)}
+            onValueChange={(value) => {
+              const day = Number(value);
+              if (isWeekStartDay(day)) {
+                update({ weekStartsOn: day });
+              }
+            }}
+          >
+            <SelectTrigger id="settings-week-start" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {WEEK_START_DAYS.map((day) => (
+                <SelectItem key={day} value={String(day)}>
+                  {WEEK_START_DAY_LABELS[day]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-time-zone">Timezone</Label>
+          <Select
+            value={values.timeZone}
+            onValueChange={(value) => update({ timeZone: value })}
+          >
+            <SelectTrigger id="settings-time-zone" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {timeZones.map((timeZone) => (
+                <SelectItem key={timeZone} value={timeZone}>
+                  {timeZone.replaceAll("_", " ")}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {browserTimeZone &&
+            browserTimeZone !== values.timeZone &&
+            timeZones.includes(browserTimeZone) && (
+              <Button
+                type="button"
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => update({ timeZone: browserTimeZone })}
+              >
+                Use this device&apos;s timezone ({browserTimeZone.replaceAll("_", " ")})
+              </Button>
+            )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="settings-progression-rule">Progression</Label>
+          <Select
+            value={values.progressionRule}
+            onValueChange={(value) => {
+              if (isProgressionRule(value)) {
+                update({ progressionRule: value });
+              }
+            }}
+          >
+            <SelectTrigger id="settings-progression-rule" className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PROGRESSION_RULES.map((rule) => (
+                <SelectItem key={rule} value={rule}>
+                  {PROGRESSION_RULE_LABELS[rule]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Used to suggest the weight and reps for an exercise&apos;s next
+            session.
+          </p>
+        </div>
+
+        <fieldset className="space-y-2">
+          <legend className="text-sm font-medium mb-2">Target rep range</legend>
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              inputMode="numeric"
+              min="1"
+              max={MAX_TARGET_REPS}
+              step="1"
+              value={repRangeMin}
+              onChange={(e) => {
+                setSaved(false);
+                setRepRangeMin(e.target.value);
+              }}
+              aria-label="Fewest target reps"
+              required
+            />
+            <span className="text-muted-foreground">to</span>
+            <Input
+              type="number"
+              inputMode="numeric"
+              min="1"
+              max={MAX_TARGET_REPS}
+              step="1"
+              value={repRangeMax}
+              onChange={(e) => {
+                setSaved(false);
+                setRepRangeMax(e.target.value);
+              }}
+              aria-label="Most target reps"
+              required
+            />
+          </div>
+        </fieldset>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex items-center gap-4">
+        <Button type="submit" disabled={isPending}>
+          {isPending ? "Saving..." : "Save settings"}
+        </Button>
+        {saved && (
+          <p className="text-sm text-muted-foreground" role="status">
+            Settings saved.
+          </p>
+        )}
+      </div>
+    </form>
+  );
+}
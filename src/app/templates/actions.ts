@@ -0,0 +1,262 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import {
+  createTemplate,
+  updateTemplate,
+  deleteTemplate,
+  addTemplateExercise,
+  updateTemplateExercise,
+  removeTemplateExercise,
+} from "@/data/templates";
+import type { ActionResult } from "@/lib/action-types";
+import { WEIGHT_UNITS } from "@/lib/units";
+import type { TemplateExercise, WorkoutTemplate } from "@/data/types";
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, "Name is required")
+  .max(100, "Name must be 100 characters or less");
+const notesSchema = z.string().max(1000, "Notes must be 1000 characters or less");
+
+const targetsSchema = z.object({
+  targetSets: z
+    .number()
+    .int("Sets must be a whole number")
+    .min(1, "Plan at least 1 set")
+    .max(20, "Plan 20 sets or fewer"),
+  targetReps: z
+    .number()
+    .int("Reps must be a whole number")
+    .positive("Reps must be at least 1")
+    .max(999),
+  targetWeight: z
+    .number()
+    .positive("Weight must be positive")
+    .max(9999.99, "Weight is too large")
+    .nullable(),
+  weightUnit: z.enum(WEIGHT_UNITS),
+});
+
+const createTemplateSchema = z.object({
+  name: nameSchema,
+  notes: notesSchema.optional(),
+});
+
+const updateTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+  name: nameSchema,
+  notes: notesSchema.nullable(),
+});
+
+const deleteTemplateSchema = z.object({
+  templateId: z.string().uuid(),
+});
+
+const addTemplateExerciseSchema = targetsSchema.extend({
+  templateId: z.string().uuid(),
+  exerciseId: z.string().uuid("Select an exercise"),
+});
+
+const updateTemplateExerciseSchema = targetsSchema.extend({
+  templateExerciseId: z.string().uuid(),
+});
+
+const removeTemplateExerciseSchema = z.object({
+  templateExerciseId: z.string().uuid(),
+});
+
+type CreateTemplateInput = z.infer<typeof createTemplateSchema>;
+type UpdateTemplateInput = z.infer<typeof updateTemplateSchema>;
+type DeleteTemplateInput = z.infer<typeof deleteTemplateSchema>;
+type AddTemplateExerciseInput = z.infer<typeof addTemplateExerciseSchema>;
+type UpdateTemplateExerciseInput = z.infer<typeof updateTemplateExerciseSchema>;
+type RemoveTemplateExerciseInput = z.infer<typeof removeTemplateExerciseSchema>;
+
+type TemplateDetails = Omit<WorkoutTemplate, "exercises">;
+
+export async function createTemplateAction(
+  input: CreateTemplateInput
+): Promise<ActionResult<TemplateDetails>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = createTemplateSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const template = await createTemplate(userId, {
+      ...result.data,
+      notes: result.data.notes || undefined,
+    });
+
+    revalidatePath("/templates");
+    revalidatePath("/dashboard");
+    return { data: template };
+  } catch (error) {
+    console.error("Failed to create template:", error);
+    return { error: "Failed to create template" };
+  }
+}
+
+export async function updateTemplateAction(
+  input: UpdateTemplateInput
+): Promise<ActionResult<TemplateDetails>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateTemplateSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { templateId, ...data } = result.data;
+    const template = await updateTemplate(userId, templateId, {
+      ...data,
+      notes: data.notes || null,
+    });
+
+    if (!template) {
+      return { error: "Template not found" };
+    }
+
+    revalidatePath("/templates");
+    revalidatePath("/dashboard");
+    return { data: template };
+  } catch (error) {
+    console.error("Failed to update template:", error);
+    return { error: "Failed to update template" };
+  }
+}
+
+export async function deleteTemplateAction(
+  input: DeleteTemplateInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = deleteTemplateSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const deleted = await deleteTemplate(userId, result.data.templateId);
+
+    if (!deleted) {
+      return { error: "Template not found" };
+    }
+
+    revalidatePath("/templates");
+    revalidatePath("/dashboard");
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to delete template:", error);
+    return { error: "Failed to delete template" };
+  }
+}
+
+export async function addTemplateExerciseAction(
+  input: AddTemplateExerciseInput
+): Promise<ActionResult<TemplateExercise>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = addTemplateExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { templateId, ...data } = result.data;
+    const templateExercise = await addTemplateExercise(userId, templateId, data);
+
+    if (!templateExercise) {
+      return { error: "Template or exercise not found" };
+    }
+
+    revalidatePath("/templates");
+    return { data: templateExercise };
+  } catch (error) {
+    console.error("Failed to add exercise to template:", error);
+    return { error: "Failed to add exercise to template" };
+  }
+}
+
+export async function updateTemplateExerciseAction(
+  input: UpdateTemplateExerciseInput
+): Promise<ActionResult<TemplateExercise>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = updateTemplateExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const { templateExerciseId, ...targets } = result.data;
+    const templateExercise = await updateTemplateExercise(
+      userId,
+      templateExerciseId,
+      targets
+    );
+
+    if (!templateExercise) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidatePath("/templates");
+    return { data: templateExercise };
+  } catch (error) {
+    console.error("Failed to update template exercise:", error);
+    return { error: "Failed to update template exercise" };
+  }
+}
+
+export async function removeTemplateExerciseAction(
+  input: RemoveTemplateExerciseInput
+): Promise<ActionResult<{ success: true }>> {
+  const { userId } = await auth();
+  if (!userId) {
+    return { error: "Unauthorized" };
+  }
+
+  const result = removeTemplateExerciseSchema.safeParse(input);
+  if (!result.success) {
+    return { error: result.error.flatten().fieldErrors };
+  }
+
+  try {
+    const removed = await removeTemplateExercise(
+      userId,
+      result.data.templateExerciseId
+    );
+
+    if (!removed) {
+      return { error: "Exercise not found" };
+    }
+
+    revalidatePath("/templates");
+    return { data: { success: true } };
+  } catch (error) {
+    console.error("Failed to remove exercise from template:", error);
+    return { error: "Failed to remove exercise from template" };
+  }
+}
@@ -0,0 +1,52 @@
+import { auth } from "@clerk/nextjs/server";
+import { redirect } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { getExercises } from "@/data/exercises";
+import { getTemplates } from "@/data/templates";
+import { getUserSettings } from "@/data/user-settings";
+import { CreateTemplateForm } from "./template-forms";
+import { TemplateList } from "./template-list";
+
+export default async function TemplatesPage() {
+  const { userId } = await auth();
+
+  if (!userId) {
+    redirect("/");
+  }
+
+  const { weightUnit } = await getUserSettings(userId);
+  const [templates, exercises] = await Promise.all([
+    getTemplates(userId, weightUnit),
+    getExercises(userId),
+  ]);
+
+  return (
+    <main className="container mx-auto px-4 py-8 max-w-4xl">
+      <h1 className="text-2xl font-bold mb-6">Templates</h1>
+
+      <div className="space-y-8">
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              <h2>Create Template</h2>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <CreateTemplateForm />
+          </CardContent>
+        </Card>
+
+        <section aria-labelledby="templates-heading" className="border-t pt-6">
+          <h2 id="templates-heading" className="text-lg font-semibold mb-4">
+            My Templates
+          </h2>
+          <TemplateList
+            templates={templates}
+            exercises={exercises}
+            unit={weightUnit}
+          />
+        </section>
+      </div>
+    </main>
+  );
+}
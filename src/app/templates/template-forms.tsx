@@ -0,0 +1,424 @@
+"use client";
+
+import { useState, useTransition } from "react";
+import Link from "next/link";
+import { Check, Plus, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { ExerciseSelect } from "@/components/exercise-select";
+import { getActionErrorMessage } from "@/lib/action-types";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+import type { Exercise, WorkoutTemplate } from "@/data/types";
+import {
+  createTemplateAction,
+  updateTemplateAction,
+  deleteTemplateAction,
+  addTemplateExerciseAction,
+  updateTemplateExerciseAction,
+  removeTemplateExerciseAction,
+} from "./actions";
+
+type TemplateExerciseRow = WorkoutTemplate["exercises"][number];
+
+function parseOptionalNumber(value: FormDataEntryValue | null) {
+  return value === null || value === "" ? null : Number(value);
+}
+
+function parseTargets(formData: FormData, unit: WeightUnit) {
+  return {
+    targetSets: Number(formData.get("targetSets")),
+    targetReps: Number(formData.get("targetReps")),
+    targetWeight: parseOptionalNumber(formData.get("targetWeight")),
+    weightUnit: unit,
+  };
+}
+
+function FormError({ message }: { message: string | null }) {
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Alert variant="destructive" className="py-2">
+      <AlertDescription>{message}</AlertDescription>
+    </Alert>
+  );
+}
+
+// Sets, reps and weight inputs shared by the add and edit rows
+function TargetInputs({
+  label,
+  unit,
+  defaults,
+}: {
+  label: string;
+  unit: WeightUnit;
+  defaults?: Pick<TemplateExerciseRow, "targetSets" | "targetReps" | "targetWeight">;
+}) {
+  return (
+    <>
+      <Input
+        name="targetSets"
+        type="number"
+        inputMode="numeric"
+        min="1"
+        max="20"
+        required
+        defaultValue={defaults?.targetSets ?? 3}
+        placeholder="Sets"
+        aria-label={`${label} sets`}
+      />
+      <Input
+        name="targetReps"
+        type="number"
+        inputMode="numeric"
+        min="1"
+        required
+        defaultValue={defaults?.targetReps ?? 10}
+        placeholder="Reps"
+        aria-label={`${label} reps`}
+      />
+      <Input
+        name="targetWeight"
+        type="number"
+        inputMode="decimal"
+        step="any"
+        min="0"
+        defaultValue={defaults?.targetWeight ?? ""}
+        placeholder={`Weight (${WEIGHT_UNIT_ABBREVIATIONS[unit]})`}
+        aria-label={`${label} weight in ${WEIGHT_UNIT_ABBREVIATIONS[unit]}`}
+      />
+    </>
+  );
+}
+
+export function CreateTemplateForm() {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    startTransition(async () => {
+      const result = await createTemplateAction({
+        name: formData.get("name") as string,
+        notes: (formData.get("notes") as string) || undefined,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      form.reset();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="new-template-name">Name</Label>
+        <Input
+          id="new-template-name"
+          name="name"
+          placeholder="e.g. Push Day"
+          maxLength={100}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="new-template-notes">Notes</Label>
+        <Textarea
+          id="new-template-notes"
+          name="notes"
+          placeholder="Optional"
+          maxLength={1000}
+        />
+      </div>
+      <FormError message={error} />
+      <Button type="submit" disabled={isPending}>
+        <Plus />
+        {isPending ? "Creating..." : "Create template"}
+      </Button>
+    </form>
+  );
+}
+
+export function TemplateDetailsForm({
+  template,
+  onDone,
+}: {
+  template: WorkoutTemplate;
+  onDone: () => void;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await updateTemplateAction({
+        templateId: template.id,
+        name: formData.get("name") as string,
+        notes: (formData.get("notes") as string) || null,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      onDone();
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`template-name-${template.id}`}>Name</Label>
+        <Input
+          id={`template-name-${template.id}`}
+          name="name"
+          defaultValue={template.name}
+          maxLength={100}
+          required
+        />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor={`template-notes-${template.id}`}>Notes</Label>
+        <Textarea
+          id={`template-notes-${template.id}`}
+          name="notes"
+          defaultValue={template.notes ?? ""}
+          maxLength={1000}
+        />
+      </div>
+      <FormError message={error} />
+      <Button type="submit" size="sm" disabled={isPending}>
+        {isPending ? "Saving..." : "Save details"}
+      </Button>
+    </form>
+  );
+}
+
+export function DeleteTemplateButton({
+  template,
+}: {
+  template: WorkoutTemplate;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDelete = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await deleteTemplateAction({ templateId: template.id });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <div className="space-y-2">
+      <AlertDialog>
+        <AlertDialogTrigger asChild>
+          <Button variant="destructive" size="sm" disabled={isPending}>
+            <Trash2 />
+            {isPending ? "Deleting..." : "Delete template"}
+          </Button>
+        </AlertDialogTrigger>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this template?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {template.name} will be permanently deleted. Workouts already
+              started from it are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <FormError message={error} />
+    </div>
+  );
+}
+
+export function TemplateExerciseEditorRow({
+  templateExercise,
+  unit,
+}: {
+  templateExercise: TemplateExerciseRow;
+  unit: WeightUnit;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const name = templateExercise.exercise.name;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const formData = new FormData(e.currentTarget);
+
+    startTransition(async () => {
+      const result = await updateTemplateExerciseAction({
+        templateExerciseId: templateExercise.id,
+        ...parseTargets(formData, unit),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  const handleRemove = () => {
+    setError(null);
+
+    startTransition(async () => {
+      const result = await removeTemplateExerciseAction({
+        templateExerciseId: templateExercise.id,
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="text-sm font-medium text-muted-foreground">
+          {templateExercise.order}.
+        </span>
+        <span className="font-medium">{name}</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon-sm"
+          className="ml-auto"
+          onClick={handleRemove}
+          disabled={isPending}
+          aria-label={`Remove ${name} from template`}
+        >
+          <X />
+        </Button>
+      </div>
+      <div className="grid grid-cols-[1fr_1fr_1fr_auto] items-center gap-2 sm:grid-cols-[5rem_5rem_8rem_auto]">
+        <TargetInputs label={name} unit={unit} defaults={templateExercise} />
+        <Button
+          type="submit"
+          variant="ghost"
+          size="icon-sm"
+          disabled={isPending}
+          aria-label={`Save ${name} targets`}
+        >
+          <Check />
+        </Button>
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
+
+export function AddTemplateExerciseForm({
+  templateId,
+  exercises,
+  unit,
+}: {
+  templateId: string;
+  exercises: Exercise[];
+  unit: WeightUnit;
+}) {
+  const [isPending, startTransition] = useTransition();
+  const [error, setError] = useState<string | null>(null);
+  const [exerciseId, setExerciseId] = useState("");
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    setError(null);
+
+    const form = e.currentTarget;
+    const formData = new FormData(form);
+
+    startTransition(async () => {
+      const result = await addTemplateExerciseAction({
+        templateId,
+        exerciseId,
+        ...parseTargets(formData, unit),
+      });
+
+      if (result.error) {
+        setError(getActionErrorMessage(result.error));
+        return;
+      }
+
+      form.reset();
+      setExerciseId("");
+    });
+  };
+
+  if (exercises.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        No exercises available.{" "}
+        <Link href="/exercises" className="underline underline-offset-4">
+          Create one
+        </Link>
+      </p>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <ExerciseSelect
+        exercises={exercises}
+        value={exerciseId}
+        onValueChange={setExerciseId}
+        label="Exercise to add"
+      />
+      <div className="grid grid-cols-3 items-center gap-2 sm:grid-cols-[5rem_5rem_8rem_auto]">
+        <TargetInputs label="New exercise" unit={unit} />
+        <Button
+          type="submit"
+          variant="outline"
+          className="col-span-3 sm:col-span-1"
+          disabled={isPending || !exerciseId}
+        >
+          <Plus />
+          {isPending ? "Adding..." : "Add exercise"}
+        </Button>
+      </div>
+      <FormError message={error} />
+    </form>
+  );
+}
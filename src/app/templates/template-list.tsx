@@ -0,0 +1,155 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Pencil } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardAction,
+  CardContent,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatMuscle } from "@/lib/muscles";
+import { formatWeight, type WeightUnit } from "@/lib/units";
+import type { Exercise, WorkoutTemplate } from "@/data/types";
+import {
+  AddTemplateExerciseForm,
+  DeleteTemplateButton,
+  TemplateDetailsForm,
+  TemplateExerciseEditorRow,
+} from "./template-forms";
+
+interface TemplateListProps {
+  templates: WorkoutTemplate[];
+  exercises: Exercise[];
+  unit: WeightUnit;
+}
+
+export function TemplateList({ templates, exercises, unit }: TemplateListProps) {
+  if (templates.length === 0) {
+    return (
+      <p className="text-neutral-500 bg-neutral-50 rounded-lg p-6 text-center">
+        You haven&apos;t created any templates yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {templates.map((template) => (
+        <TemplateCard
+          key={template.id}
+          template={template}
+          exercises={exercises}
+          unit={unit}
+        />
+      ))}
+    </div>
+  );
+}
+
+function TemplateCard({
+  template,
+  exercises,
+  unit,
+}: {
+  template: WorkoutTemplate;
+  exercises: Exercise[];
+  unit: WeightUnit;
+}) {
+  const [isEditing, setIsEditing] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{template.name}</CardTitle>
+        {template.notes && !isEditing && (
+          <p className="text-sm text-muted-foreground">{template.notes}</p>
+        )}
+        <CardAction>
+          <Button
+            variant={isEditing ? "default" : "outline"}
+            size="sm"
+            onClick={() => setIsEditing(!isEditing)}
+            aria-pressed={isEditing}
+          >
+            <Pencil />
+            {isEditing ? "Done" : "Edit"}
+          </Button>
+        </CardAction>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isEditing && (
+          <TemplateDetailsForm
+            template={template}
+            onDone={() => setIsEditing(false)}
+          />
+        )}
+
+        {isEditing ? (
+          <div className="space-y-4">
+            {template.exercises.map((templateExercise) => (
+              <div
+                key={`${templateExercise.id}-${unit}`}
+                className="border-t pt-4 first:border-t-0 first:pt-0"
+              >
+                <TemplateExerciseEditorRow
+                  templateExercise={templateExercise}
+                  unit={unit}
+                />
+              </div>
+            ))}
+            <div className="border-t pt-4">
+              <AddTemplateExerciseForm
+                templateId={template.id}
+                exercises={exercises}
+                unit={unit}
+              />
+            </div>
+          </div>
+        ) : template.exercises.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No exercises planned. Edit the template to add some.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {template.exercises.map((templateExercise) => (
+              <li
+                key={templateExercise.id}
+                className="flex flex-wrap items-center gap-2"
+              >
+                <span className="text-sm font-medium text-muted-foreground">
+                  {templateExercise.order}.
+                </span>
+                <Link
+                  href={`/exercises/${templateExercise.exercise.id}`}
+                  className="font-medium underline-offset-4 hover:underline"
+                >
+                  {templateExercise.exercise.name}
+                </Link>
+                {templateExercise.exercise.primaryMuscle && (
+                  <span className="text-xs bg-muted px-2 py-0.5 rounded">
+                    {formatMuscle(templateExercise.exercise.primaryMuscle)}
+                  </span>
+                )}
+                <span className="text-sm text-muted-foreground">
+                  {templateExercise.targetSets} × {templateExercise.targetReps}
+                  {templateExercise.targetWeight !== null &&
+                    ` @ ${formatWeight(templateExercise.targetWeight, unit)}`}
+                </span>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {isEditing && (
+          <div className="border-t pt-4">
+            <DeleteTemplateButton template={template} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { format, parse } from "date-fns";
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import type { WorkoutSummary } from "@/data/types";
+import { WEIGHT_UNIT_ABBREVIATIONS, type WeightUnit } from "@/lib/units";
+
+function getChartConfig(unit: WeightUnit) {
+  return {
+    sessions: {
+      label: "Sessions",
+      color: "var(--chart-2)",
+    },
+    volume: {
+      label: `Volume (${WEIGHT_UNIT_ABBREVIATIONS[unit]})`,
+      color: "var(--chart-1)",
+    },
+  } satisfies ChartConfig;
+}
+
+interface WeeklyTrendChartProps {
+  weeks: WorkoutSummary["weeklyTrend"];
+  unit: WeightUnit;
+}
+
+// Sessions per week as bars with that week's tonnage as a line on its own axis
+export function WeeklyTrendChart({ weeks, unit }: WeeklyTrendChartProps) {
+  const data = weeks.map((week) => ({
+    ...week,
+    volume: Math.round(week.volume),
+  }));
+
+  return (
+    <ChartContainer
+      config={getChartConfig(unit)}
+      className="min-h-[220px] w-full"
+      role="img"
+      aria-label={`Sessions and volume in ${WEIGHT_UNIT_ABBREVIATIONS[unit]} per week over the last ${weeks.length} weeks`}
+    >
+      <ComposedChart data={data} margin={{ left: 0, right: 0 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="weekStart"
+          tickLine={false}
+          axisLine={false}
+          tickMargin={8}
+          minTickGap={16}
+          tickFormatter={(value: string) =>
+            format(parse(value, "yyyy-MM-dd", new Date()), "MMM d")
+          }
+        />
+        <YAxis
+          yAxisId="sessions"
+          tickLine={false}
+          axisLine={false}
+          width={32}
+          allowDecimals={false}
+        />
+        <YAxis
+          yAxisId="volume"
+          orientation="right"
+          tickLine={false}
+          axisLine={false}
+          width={56}
+        />
+        <ChartTooltip
+          content={
+            <ChartTooltipContent
+              labelFormatter={(_, payload) =>
+                `Week of ${format(
+                  parse(payload[0]?.payload.weekStart, "yyyy-MM-dd", new Date()),
+                  "do MMM yyyy"
+                )}`
+              }
+            />
+          }
+        />
+        <ChartLegend content={<ChartLegendContent />} />
+        <Bar
+          yAxisId="sessions"
+          dataKey="sessions"
+          fill="var(--color-sessions)"
+          radius={4}
+        />
+        <Line
+          yAxisId="volume"
+          dataKey="volume"
+          type="monotone"
+          stroke="var(--color-volume)"
+          strokeWidth={2}
+          dot={false}
+        />
+      </ComposedChart>
+    </ChartContainer>
+  );
+}
@@ -0,0 +1,69 @@
+"use client";
+
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { cn } from "@/lib/utils";
+import type { Exercise } from "@/data/types";
+
+interface ExerciseSelectProps {
+  exercises: Exercise[];
+  value: string;
+  onValueChange: (exerciseId: string) => void;
+  id?: string;
+  label?: string;
+  className?: string;
+}
+
+// Catalog picker with the user's own exercises listed before the library
+export function ExerciseSelect({
+  exercises,
+  value,
+  onValueChange,
+  id,
+  label,
+  className,
+}: ExerciseSelectProps) {
+  const customExercises = exercises.filter((exercise) => exercise.isCustom);
+  const systemExercises = exercises.filter((exercise) => !exercise.isCustom);
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger
+        id={id}
+        className={cn("w-full", className)}
+        aria-label={label}
+      >
+        <SelectValue placeholder="Choose an exercise" />
+      </SelectTrigger>
+      <SelectContent>
+        {customExercises.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>My exercises</SelectLabel>
+            {customExercises.map((exercise) => (
+              <SelectItem key={exercise.id} value={exercise.id}>
+                {exercise.name}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {systemExercises.length > 0 && (
+          <SelectGroup>
+            <SelectLabel>Library</SelectLabel>
+            {systemExercises.map((exercise) => (
+              <SelectItem key={exercise.id} value={exercise.id}>
+                {exercise.name}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+}
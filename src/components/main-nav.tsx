@@ -0,0 +1,68 @@
+"use client"
+
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+import { Menu } from "lucide-react"
+
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
+
+const links = [
+  { href: "/dashboard", label: "Dashboard" },
+  { href: "/history", label: "History" },
+  { href: "/analytics", label: "Analytics" },
+  { href: "/body", label: "Body" },
+  { href: "/templates", label: "Templates" },
+  { href: "/programs", label: "Programs" },
+  { href: "/exercises", label: "Exercises" },
+  { href: "/settings", label: "Settings" },
+]
+
+export function MainNav() {
+  const pathname = usePathname()
+
+  return (
+    <>
+      <div className="hidden md:flex items-center gap-1">
+        {links.map((link) => (
+          <Button
+            key={link.href}
+            variant="ghost"
+            size="sm"
+            className={cn(pathname.startsWith(link.href) && "bg-accent")}
+            asChild
+          >
+            <Link
+              href={link.href}
+              aria-current={pathname.startsWith(link.href) ? "page" : undefined}
+            >
+              {link.label}
+            </Link>
+          </Button>
+        ))}
+      </div>
+      <div className="md:hidden">
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="icon" aria-label="Open navigation">
+              <Menu />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            {links.map((link) => (
+              <DropdownMenuItem key={link.href} asChild>
+                <Link href={link.href}>{link.label}</Link>
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,28 @@
+import { Trophy } from "lucide-react"
+
+import { Badge } from "@/components/ui/badge"
+import {
+  PERSONAL_RECORD_LABELS,
+  type PersonalRecordType,
+} from "@/lib/personal-records"
+
+export function PersonalRecordBadges({
+  types,
+}: {
+  types: PersonalRecordType[] | undefined
+}) {
+  if (!types || types.length === 0) {
+    return null
+  }
+
+  return (
+    <span className="inline-flex flex-wrap gap-1">
+      {types.map((type) => (
+        <Badge key={type} variant="secondary">
+          <Trophy aria-hidden="true" />
+          {PERSONAL_RECORD_LABELS[type]}
+        </Badge>
+      ))}
+    </span>
+  )
+}
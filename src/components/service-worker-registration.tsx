@@ -0,0 +1,65 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { useAuth } from "@clerk/nextjs";
+import { clearStoredMutations } from "@/app/dashboard/offline-queue-store";
+
+const isServiceWorkerEnabled = () =>
+  process.env.NODE_ENV === "production" && "serviceWorker" in navigator;
+
+// Tells public/sw.js who's signed in, so it caches pages per user and drops
+// them on sign-out
+async function postToServiceWorker(
+  message: { type: "setUser"; userId: string } | { type: "signOut" }
+) {
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+}
+
+// Registers public/sw.js, which keeps the dashboard available offline. Dev
+// builds skip it so a cached page never hides a code change. Pages cached
+// and changes queued offline are forgotten once the user signs out, so the
+// next person to sign in on the device never sees or sends them.
+export function ServiceWorkerRegistration() {
+  const { isLoaded, userId } = useAuth();
+  // Who was signed in when this page last heard from Clerk
+  const signedInUserId = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!isServiceWorkerEnabled()) {
+      return;
+    }
+
+    navigator.serviceWorker
+      .register("/sw.js", { scope: "/", updateViaCache: "none" })
+      .catch((error) => {
+        console.error("Failed to register service worker:", error);
+      });
+  }, []);
+
+  useEffect(() => {
+    // Offline, Clerk may never load; that isn't signing out
+    if (!isLoaded) {
+      return;
+    }
+
+    // Only signing out here clears the queue. Loading signed out, e.g.
+    // after a session expired offline, keeps it for when they sign back in.
+    if (signedInUserId.current && !userId) {
+      clearStoredMutations().catch((error) => {
+        console.error("Failed to clear offline queue:", error);
+      });
+    }
+    signedInUserId.current = userId ?? null;
+
+    if (isServiceWorkerEnabled()) {
+      postToServiceWorker(
+        userId ? { type: "setUser", userId } : { type: "signOut" }
+      ).catch((error) => {
+        console.error("Failed to update service worker:", error);
+      });
+    }
+  }, [isLoaded, userId]);
+
+  return null;
+}
@@ -0,0 +1,15 @@
+import { Badge } from "@/components/ui/badge"
+import { SET_TYPE_LABELS, type SetType } from "@/lib/set-types"
+
+// Marks sets that aren't plain working sets
+export function SetTypeBadge({ type }: { type: SetType }) {
+  if (type === "working") {
+    return null
+  }
+
+  return (
+    <Badge variant={type === "warmup" ? "outline" : "secondary"}>
+      {SET_TYPE_LABELS[type]}
+    </Badge>
+  )
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import * as React from "react";
-import { format } from "date-fns";
+import { format, type Day } from "date-fns";
 import { CalendarIcon } from "lucide-react";
+import { labelDayButton } from "react-day-picker";
 
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -16,10 +17,21 @@ import {
 interface DatePickerProps {
   date: Date | undefined;
   onDateChange: (date: Date | undefined) => void;
+  weekStartsOn?: Day;
+  // Days to mark with a dot, e.g. days that have workouts
+  markedDates?: Date[];
+  markedLabel?: string;
   className?: string;
 }
 
-export function DatePicker({ date, onDateChange, className }: DatePickerProps) {
+export function DatePicker({
+  date,
+  onDateChange,
+  weekStartsOn,
+  markedDates,
+  markedLabel = "marked",
+  className,
+}: DatePickerProps) {
   const [open, setOpen] = React.useState(false);
 
   return (
@@ -42,6 +54,19 @@ export function DatePicker({ date, onDateChange, className }: DatePickerProps) {
         <Calendar
           mode="single"
           selected={date}
+          defaultMonth={date}
+          weekStartsOn={weekStartsOn}
+          modifiers={{ marked: markedDates ?? [] }}
+          modifiersClassNames={{
+            marked:
+              "after:pointer-events-none after:absolute after:bottom-1 after:left-1/2 after:size-1 after:-translate-x-1/2 after:rounded-full after:bg-primary data-[selected=true]:after:bg-primary-foreground",
+          }}
+          labels={{
+            labelDayButton: (day, modifiers, options, dateLib) => {
+              const label = labelDayButton(day, modifiers, options, dateLib);
+              return modifiers.marked ? `${label}, ${markedLabel}` : label;
+            },
+          }}
           onSelect={(newDate) => {
             onDateChange(newDate);
             setOpen(false);
@@ -0,0 +1,230 @@
+import { db } from "@/db";
+import { workouts, workoutExercises, exercises, sets } from "@/db/schema";
+import { eq, and, gte, lte, ne, asc, inArray, isNotNull } from "drizzle-orm";
+import { addWeeks, format, parse, startOfWeek } from "date-fns";
+import {
+  getBodyweightOn,
+  hasBodyweight,
+  type BodyweightHistory,
+} from "@/lib/body-measurements";
+import type { WeekStartDay } from "@/lib/dates";
+import {
+  MEASUREMENT_TYPES,
+  getEffectiveLoad,
+  toMeasurementType,
+  tracksLoadRecords,
+} from "@/lib/measurement-types";
+import { MUSCLE_GROUPS, isMuscleGroup, type MuscleGroup } from "@/lib/muscles";
+import { isHardSet } from "@/lib/muscle-volume";
+import { estimateOneRepMax, type OneRepMaxFormula } from "@/lib/one-rep-max";
+import { toDisplaySetWeight, type WeightUnit } from "@/lib/units";
+import type { MuscleVolumeWeek, RelativeStrength } from "./types";
+
+function emptyMuscles(): MuscleVolumeWeek["muscles"] {
+  return Object.fromEntries(
+    MUSCLE_GROUPS.map((muscle) => [muscle, { hardSets: 0, tonnage: 0 }])
+  ) as MuscleVolumeWeek["muscles"];
+}
+
+// One entry per week from the week containing fromDate to the one containing
+// toDate, empty weeks included. Warm-up sets don't count, whether marked as
+// such or just light (see isHardSet), and exercises without a known primary
+// muscle are left out. Sets are judged by the load actually moved, so the
+// bodyweight on the day counts for bodyweight and assisted exercises; timed
+// and distance sets count as hard sets with no tonnage.
+export async function getWeeklyMuscleVolume(
+  userId: string,
+  options: {
+    fromDate: string;
+    toDate: string;
+    weekStartsOn: WeekStartDay;
+    unit: WeightUnit;
+    bodyweights: BodyweightHistory;
+    secondaryFraction: number;
+  }
+): Promise<MuscleVolumeWeek[]> {
+  const {
+    fromDate,
+    toDate,
+    weekStartsOn,
+    unit,
+    bodyweights,
+    secondaryFraction,
+  } = options;
+  const toWeekStart = (date: string) =>
+    format(
+      startOfWeek(parse(date, "yyyy-MM-dd", new Date()), { weekStartsOn }),
+      "yyyy-MM-dd"
+    );
+
+  const rows = await db
+    .select({
+      date: workouts.date,
+      workoutExerciseId: workoutExercises.id,
+      primaryMuscle: exercises.primaryMuscle,
+      secondaryMuscles: exercises.secondaryMuscles,
+      measurementType: exercises.measurementType,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate),
+        ne(sets.setType, "warmup")
+      )
+    )
+    .orderBy(asc(workouts.date));
+
+  const weeks = new Map<string, MuscleVolumeWeek>();
+  const lastWeekStart = parse(toWeekStart(toDate), "yyyy-MM-dd", new Date());
+
+  for (
+    let week = parse(toWeekStart(fromDate), "yyyy-MM-dd", new Date());
+    week <= lastWeekStart;
+    week = addWeeks(week, 1)
+  ) {
+    const weekStart = format(week, "yyyy-MM-dd");
+    weeks.set(weekStart, { weekStart, muscles: emptyMuscles() });
+  }
+
+  const setsWithLoad = rows.map((row) => ({
+    ...row,
+    load: getEffectiveLoad(
+      toMeasurementType(row.measurementType),
+      toDisplaySetWeight(row.weight, row.weightUnit, unit),
+      getBodyweightOn(bodyweights, row.date)
+    ),
+  }));
+
+  // Heaviest set of each exercise in each workout, for spotting warm-ups
+  const heaviestLoads = new Map<string, number>();
+
+  for (const set of setsWithLoad) {
+    if (set.load !== null) {
+      heaviestLoads.set(
+        set.workoutExerciseId,
+        Math.max(heaviestLoads.get(set.workoutExerciseId) ?? 0, set.load)
+      );
+    }
+  }
+
+  for (const set of setsWithLoad) {
+    const week = weeks.get(toWeekStart(set.date));
+
+    if (
+      !week ||
+      !isMuscleGroup(set.primaryMuscle) ||
+      !isHardSet(set.load, heaviestLoads.get(set.workoutExerciseId) ?? null)
+    ) {
+      continue;
+    }
+
+    const tonnage = (set.load ?? 0) * (set.reps ?? 0);
+    const credit = (muscle: MuscleGroup, fraction: number) => {
+      week.muscles[muscle].hardSets += fraction;
+      week.muscles[muscle].tonnage += tonnage * fraction;
+    };
+
+    credit(set.primaryMuscle, 1);
+
+    if (secondaryFraction > 0) {
+      for (const muscle of set.secondaryMuscles ?? []) {
+        if (isMuscleGroup(muscle) && muscle !== set.primaryMuscle) {
+          credit(muscle, secondaryFraction);
+        }
+      }
+    }
+  }
+
+  return [...weeks.values()];
+}
+
+// Best estimated 1RM of each exercise judged by load between two dates,
+// divided by the bodyweight on the day it was lifted, strongest relative to
+// bodyweight first. Bodyweight exercises count the lifter along with any
+// added weight. Empty until the user has a bodyweight to compare against.
+export async function getRelativeStrength(
+  userId: string,
+  options: {
+    fromDate: string;
+    toDate: string;
+    unit: WeightUnit;
+    formula: OneRepMaxFormula;
+    bodyweights: BodyweightHistory;
+  }
+): Promise<RelativeStrength[]> {
+  const { fromDate, toDate, unit, formula, bodyweights } = options;
+
+  if (!hasBodyweight(bodyweights)) {
+    return [];
+  }
+
+  const rows = await db
+    .select({
+      date: workouts.date,
+      exerciseId: exercises.id,
+      exerciseName: exercises.name,
+      measurementType: exercises.measurementType,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate),
+        isNotNull(sets.reps),
+        ne(sets.setType, "warmup"),
+        inArray(
+          exercises.measurementType,
+          MEASUREMENT_TYPES.filter(tracksLoadRecords)
+        )
+      )
+    );
+
+  const best = new Map<string, RelativeStrength>();
+
+  for (const row of rows) {
+    const bodyweight = getBodyweightOn(bodyweights, row.date);
+    const load = getEffectiveLoad(
+      toMeasurementType(row.measurementType),
+      toDisplaySetWeight(row.weight, row.weightUnit, unit),
+      bodyweight
+    );
+    const estimate =
+      load !== null && row.reps !== null
+        ? estimateOneRepMax(load, row.reps, formula)
+        : null;
+
+    if (estimate === null || !bodyweight) {
+      continue;
+    }
+
+    const ratio = estimate / bodyweight;
+
+    if (ratio > (best.get(row.exerciseId)?.ratio ?? 0)) {
+      best.set(row.exerciseId, {
+        exerciseId: row.exerciseId,
+        exerciseName: row.exerciseName,
+        date: row.date,
+        estimatedOneRepMax: estimate,
+        bodyweight,
+        ratio,
+      });
+    }
+  }
+
+  return [...best.values()].sort((a, b) => b.ratio - a.ratio);
+}
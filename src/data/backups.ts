@@ -0,0 +1,672 @@
+import { db } from "@/db";
+import {
+  bodyMeasurements,
+  exercises,
+  workouts,
+  workoutExercises,
+  sets,
+  workoutTemplates,
+  templateExercises,
+  programs,
+  programWeeks,
+  programDays,
+  programExercises,
+} from "@/db/schema";
+import { eq, and, or, gte, lte, asc, isNull } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { BACKUP_VERSION, type RestoreMode } from "@/lib/backup";
+import { getLengthUnit, isLengthUnit } from "@/lib/body-measurements";
+import { toMeasurementType } from "@/lib/measurement-types";
+import { isPrescriptionType } from "@/lib/programs";
+import { toSetType } from "@/lib/set-types";
+import { DEFAULT_WEIGHT_UNIT, isWeightUnit } from "@/lib/units";
+import { chunkRows, getLoggedExerciseDates } from "./imports";
+import { getUserSettings, replaceUserSettings } from "./user-settings";
+import type { Backup, ImportSummary } from "./types";
+
+type BackupWorkout = Backup["workouts"][number];
+type BackupSet = BackupWorkout["exercises"][number]["sets"][number];
+type BackupExerciseReference = BackupWorkout["exercises"][number]["exercise"];
+type BackupTemplate = Backup["templates"][number];
+type BackupProgram = Backup["programs"][number];
+type BackupProgramDay = BackupProgram["days"][number];
+
+const exerciseReferenceColumns = {
+  id: exercises.id,
+  name: exercises.name,
+  slug: exercises.slug,
+};
+
+function toWeightUnit(value: string) {
+  return isWeightUnit(value) ? value : DEFAULT_WEIGHT_UNIT;
+}
+
+// Templates and programs with their exercises, in the shape of a backup
+async function getBackupPlans(
+  userId: string
+): Promise<Pick<Backup, "templates" | "programs">> {
+  const [
+    templateRows,
+    templateExerciseRows,
+    programRows,
+    weekRows,
+    dayRows,
+    programExerciseRows,
+  ] = await Promise.all([
+    db
+      .select({
+        id: workoutTemplates.id,
+        name: workoutTemplates.name,
+        notes: workoutTemplates.notes,
+      })
+      .from(workoutTemplates)
+      .where(eq(workoutTemplates.userId, userId))
+      .orderBy(asc(workoutTemplates.name), asc(workoutTemplates.id)),
+    db
+      .select({
+        templateId: templateExercises.templateId,
+        order: templateExercises.order,
+        exercise: exerciseReferenceColumns,
+        targetSets: templateExercises.targetSets,
+        targetReps: templateExercises.targetReps,
+        targetWeight: templateExercises.targetWeight,
+        targetWeightUnit: templateExercises.targetWeightUnit,
+      })
+      .from(templateExercises)
+      .innerJoin(
+        workoutTemplates,
+        eq(templateExercises.templateId, workoutTemplates.id)
+      )
+      .innerJoin(exercises, eq(templateExercises.exerciseId, exercises.id))
+      .where(eq(workoutTemplates.userId, userId))
+      .orderBy(asc(templateExercises.order)),
+    db
+      .select({
+        id: programs.id,
+        name: programs.name,
+        notes: programs.notes,
+        startDate: programs.startDate,
+        deloadPercentage: programs.deloadPercentage,
+      })
+      .from(programs)
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programs.startDate), asc(programs.id)),
+    db
+      .select({
+        programId: programWeeks.programId,
+        weekNumber: programWeeks.weekNumber,
+        isDeload: programWeeks.isDeload,
+      })
+      .from(programWeeks)
+      .innerJoin(programs, eq(programWeeks.programId, programs.id))
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programWeeks.weekNumber)),
+    db
+      .select({
+        id: programDays.id,
+        programId: programDays.programId,
+        name: programDays.name,
+        dayOffset: programDays.dayOffset,
+      })
+      .from(programDays)
+      .innerJoin(programs, eq(programDays.programId, programs.id))
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programDays.dayOffset), asc(programDays.createdAt)),
+    db
+      .select({
+        programDayId: programExercises.programDayId,
+        order: programExercises.order,
+        exercise: exerciseReferenceColumns,
+        sets: programExercises.sets,
+        reps: programExercises.reps,
+        prescriptionType: programExercises.prescriptionType,
+        percentage: programExercises.percentage,
+        weight: programExercises.weight,
+        weightUnit: programExercises.weightUnit,
+        progressionPerWeek: programExercises.progressionPerWeek,
+      })
+      .from(programExercises)
+      .innerJoin(programDays, eq(programExercises.programDayId, programDays.id))
+      .innerJoin(programs, eq(programDays.programId, programs.id))
+      .innerJoin(exercises, eq(programExercises.exerciseId, exercises.id))
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programExercises.order)),
+  ]);
+
+  const exercisesByTemplate = new Map<string, BackupTemplate["exercises"]>();
+
+  for (const { templateId, targetWeightUnit, ...entry } of templateExerciseRows) {
+    const entries = exercisesByTemplate.get(templateId) ?? [];
+    entries.push({ ...entry, targetWeightUnit: toWeightUnit(targetWeightUnit) });
+    exercisesByTemplate.set(templateId, entries);
+  }
+
+  const weeksByProgram = new Map<string, BackupProgram["weeks"]>();
+
+  for (const { programId, ...week } of weekRows) {
+    weeksByProgram.set(programId, [
+      ...(weeksByProgram.get(programId) ?? []),
+      week,
+    ]);
+  }
+
+  const exercisesByDay = new Map<string, BackupProgramDay["exercises"]>();
+
+  for (const {
+    programDayId,
+    prescriptionType,
+    weightUnit,
+    ...entry
+  } of programExerciseRows) {
+    const entries = exercisesByDay.get(programDayId) ?? [];
+    entries.push({
+      ...entry,
+      prescriptionType: isPrescriptionType(prescriptionType)
+        ? prescriptionType
+        : "weight",
+      weightUnit: toWeightUnit(weightUnit),
+    });
+    exercisesByDay.set(programDayId, entries);
+  }
+
+  const daysByProgram = new Map<string, BackupProgram["days"]>();
+
+  for (const { id, programId, ...day } of dayRows) {
+    daysByProgram.set(programId, [
+      ...(daysByProgram.get(programId) ?? []),
+      { ...day, exercises: exercisesByDay.get(id) ?? [] },
+    ]);
+  }
+
+  return {
+    templates: templateRows.map((template) => ({
+      ...template,
+      exercises: exercisesByTemplate.get(template.id) ?? [],
+    })),
+    programs: programRows.map((program) => ({
+      ...program,
+      weeks: weeksByProgram.get(program.id) ?? [],
+      days: daysByProgram.get(program.id) ?? [],
+    })),
+  };
+}
+
+export async function getBackup(userId: string): Promise<Backup> {
+  const [
+    settings,
+    customExercises,
+    workoutRows,
+    exerciseRows,
+    setRows,
+    plans,
+    measurementRows,
+  ] = await Promise.all([
+      getUserSettings(userId),
+      db
+        .select({
+          id: exercises.id,
+          name: exercises.name,
+          primaryMuscle: exercises.primaryMuscle,
+          secondaryMuscles: exercises.secondaryMuscles,
+          measurementType: exercises.measurementType,
+        })
+        .from(exercises)
+        .where(eq(exercises.userId, userId))
+        .orderBy(asc(exercises.name)),
+      db
+        .select({
+          id: workouts.id,
+          name: workouts.name,
+          date: workouts.date,
+          notes: workouts.notes,
+          startedAt: workouts.startedAt,
+          completedAt: workouts.completedAt,
+        })
+        .from(workouts)
+        .where(eq(workouts.userId, userId))
+        .orderBy(asc(workouts.date), asc(workouts.id)),
+      db
+        .select({
+          id: workoutExercises.id,
+          workoutId: workoutExercises.workoutId,
+          order: workoutExercises.order,
+          groupId: workoutExercises.groupId,
+          exercise: exerciseReferenceColumns,
+        })
+        .from(workoutExercises)
+        .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+        .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+        .where(eq(workouts.userId, userId))
+        .orderBy(asc(workoutExercises.order)),
+      db
+        .select({
+          id: sets.id,
+          workoutExerciseId: sets.workoutExerciseId,
+          setNumber: sets.setNumber,
+          weight: sets.weight,
+          weightUnit: sets.weightUnit,
+          reps: sets.reps,
+          durationSeconds: sets.durationSeconds,
+          distance: sets.distance,
+          notes: sets.notes,
+          setType: sets.setType,
+          rpe: sets.rpe,
+          rir: sets.rir,
+          tempo: sets.tempo,
+        })
+        .from(sets)
+        .innerJoin(
+          workoutExercises,
+          eq(sets.workoutExerciseId, workoutExercises.id)
+        )
+        .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+        .where(eq(workouts.userId, userId))
+        .orderBy(asc(sets.setNumber)),
+      getBackupPlans(userId),
+      db
+        .select({
+          date: bodyMeasurements.date,
+          bodyweight: bodyMeasurements.bodyweight,
+          bodyweightUnit: bodyMeasurements.bodyweightUnit,
+          bodyFatPercentage: bodyMeasurements.bodyFatPercentage,
+          neck: bodyMeasurements.neck,
+          chest: bodyMeasurements.chest,
+          waist: bodyMeasurements.waist,
+          hips: bodyMeasurements.hips,
+          arms: bodyMeasurements.arms,
+          thighs: bodyMeasurements.thighs,
+          lengthUnit: bodyMeasurements.lengthUnit,
+          notes: bodyMeasurements.notes,
+        })
+        .from(bodyMeasurements)
+        .where(eq(bodyMeasurements.userId, userId))
+        .orderBy(asc(bodyMeasurements.date)),
+    ]);
+
+  const setsByExercise = new Map<string, BackupSet[]>();
+
+  for (const { workoutExerciseId, weightUnit, setType, ...set } of setRows) {
+    const exerciseSets = setsByExercise.get(workoutExerciseId) ?? [];
+    exerciseSets.push({
+      ...set,
+      weightUnit: toWeightUnit(weightUnit),
+      setType: toSetType(setType),
+    });
+    setsByExercise.set(workoutExerciseId, exerciseSets);
+  }
+
+  const exercisesByWorkout = new Map<string, BackupWorkout["exercises"]>();
+
+  for (const { workoutId, ...workoutExercise } of exerciseRows) {
+    const entries = exercisesByWorkout.get(workoutId) ?? [];
+    entries.push({
+      ...workoutExercise,
+      sets: setsByExercise.get(workoutExercise.id) ?? [],
+    });
+    exercisesByWorkout.set(workoutId, entries);
+  }
+
+  return {
+    version: BACKUP_VERSION,
+    exportedAt: new Date().toISOString(),
+    settings,
+    exercises: customExercises.map((exercise) => ({
+      ...exercise,
+      secondaryMuscles: exercise.secondaryMuscles ?? [],
+      measurementType: toMeasurementType(exercise.measurementType),
+    })),
+    workouts: workoutRows.map((workout) => ({
+      ...workout,
+      startedAt: workout.startedAt?.toISOString() ?? null,
+      completedAt: workout.completedAt?.toISOString() ?? null,
+      exercises: exercisesByWorkout.get(workout.id) ?? [],
+    })),
+    ...plans,
+    bodyMeasurements: measurementRows.map((measurement) => {
+      const bodyweightUnit = toWeightUnit(measurement.bodyweightUnit);
+
+      return {
+        ...measurement,
+        bodyweightUnit,
+        lengthUnit: isLengthUnit(measurement.lengthUnit)
+          ? measurement.lengthUnit
+          : getLengthUnit(bodyweightUnit),
+      };
+    }),
+  };
+}
+
+// Date and name of each workout in the range, for spotting empty duplicates
+async function getWorkoutKeys(
+  userId: string,
+  fromDate: string,
+  toDate: string
+): Promise<Set<string>> {
+  const rows = await db
+    .select({ date: workouts.date, name: workouts.name })
+    .from(workouts)
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate)
+      )
+    );
+
+  return new Set(rows.map((row) => `${row.date}|${row.name ?? ""}`));
+}
+
+// Lowercase names of the user's templates and programs
+async function getPlanNames(userId: string) {
+  const [templateRows, programRows] = await Promise.all([
+    db
+      .select({ name: workoutTemplates.name })
+      .from(workoutTemplates)
+      .where(eq(workoutTemplates.userId, userId)),
+    db
+      .select({ name: programs.name })
+      .from(programs)
+      .where(eq(programs.userId, userId)),
+  ]);
+
+  return {
+    templates: new Set(templateRows.map((row) => row.name.toLowerCase())),
+    programs: new Set(programRows.map((row) => row.name.toLowerCase())),
+  };
+}
+
+// Writes a backup back with fresh ids, in one atomic batch.
+//
+// "replace" deletes every workout, template, program and body measurement
+// first and restores the settings. "merge" keeps both, skipping exercises
+// already logged on the same date, empty workouts whose date and name already
+// exist, templates and programs whose name is taken and body measurements for
+// dates that already have some, so restoring twice is safe.
+// Custom exercises are matched by name to ones the user can already see and
+// only created when missing, so existing templates and programs keep their
+// exercises. Returns null if the backup refers to an exercise that can't be
+// found.
+export async function restoreBackup(
+  userId: string,
+  backup: Omit<Backup, "version" | "exportedAt">,
+  mode: RestoreMode
+): Promise<ImportSummary | null> {
+  const visibleExercises = await db
+    .select({ id: exercises.id, name: exercises.name, slug: exercises.slug })
+    .from(exercises)
+    .where(or(isNull(exercises.userId), eq(exercises.userId, userId)));
+
+  const idsBySlug = new Map(
+    visibleExercises.flatMap((exercise) =>
+      exercise.slug ? [[exercise.slug, exercise.id] as const] : []
+    )
+  );
+  const idsByName = new Map(
+    visibleExercises.map((exercise) => [
+      exercise.name.toLowerCase(),
+      exercise.id,
+    ])
+  );
+  const visibleIds = new Set(visibleExercises.map((exercise) => exercise.id));
+
+  // Backup ids of custom exercises mapped to the ids they restore to
+  const customExerciseIds = new Map<string, string>();
+  const newExerciseRows: (typeof exercises.$inferInsert)[] = [];
+
+  for (const exercise of backup.exercises) {
+    const key = exercise.name.toLowerCase();
+    let exerciseId = idsByName.get(key);
+
+    if (!exerciseId) {
+      exerciseId = crypto.randomUUID();
+      idsByName.set(key, exerciseId);
+      newExerciseRows.push({
+        id: exerciseId,
+        userId,
+        name: exercise.name,
+        primaryMuscle: exercise.primaryMuscle,
+        secondaryMuscles: exercise.secondaryMuscles,
+        measurementType: exercise.measurementType,
+      });
+    }
+
+    customExerciseIds.set(exercise.id, exerciseId);
+  }
+
+  // Library exercises by slug, then custom ones, then anything visible with
+  // the same id (a backup restored into the database it came from) or name
+  const resolveExercise = ({
+    id,
+    name,
+    slug,
+  }: BackupExerciseReference) =>
+    (slug ? idsBySlug.get(slug) : undefined) ??
+    customExerciseIds.get(id) ??
+    (visibleIds.has(id) ? id : undefined) ??
+    idsByName.get(name.toLowerCase());
+
+  const dates = backup.workouts.map((workout) => workout.date).sort();
+  const [fromDate, toDate] = [dates[0], dates.at(-1)];
+  const [[loggedExerciseDates, existingWorkoutKeys], existingPlanNames] =
+    await Promise.all([
+      mode === "merge" && fromDate && toDate
+        ? Promise.all([
+            getLoggedExerciseDates(
+              userId,
+              [...new Set(idsByName.values())],
+              fromDate,
+              toDate
+            ),
+            getWorkoutKeys(userId, fromDate, toDate),
+          ])
+        : [new Set<string>(), new Set<string>()],
+      mode === "merge"
+        ? getPlanNames(userId)
+        : { templates: new Set<string>(), programs: new Set<string>() },
+    ]);
+
+  const workoutRows: (typeof workouts.$inferInsert)[] = [];
+  const exerciseRows: (typeof workoutExercises.$inferInsert)[] = [];
+  const setRows: (typeof sets.$inferInsert)[] = [];
+  let skippedExerciseCount = 0;
+
+  for (const workout of backup.workouts) {
+    const entries: {
+      exerciseId: string;
+      groupId: string | null;
+      sets: BackupSet[];
+    }[] = [];
+
+    for (const workoutExercise of [...workout.exercises].sort(
+      (a, b) => a.order - b.order
+    )) {
+      const exerciseId = resolveExercise(workoutExercise.exercise);
+
+      if (!exerciseId) {
+        return null;
+      }
+
+      if (loggedExerciseDates.has(`${workout.date}|${exerciseId}`)) {
+        skippedExerciseCount++;
+        continue;
+      }
+
+      entries.push({
+        exerciseId,
+        groupId: workoutExercise.groupId,
+        sets: workoutExercise.sets,
+      });
+    }
+
+    const isDuplicate =
+      workout.exercises.length > 0
+        ? entries.length === 0
+        : existingWorkoutKeys.has(`${workout.date}|${workout.name ?? ""}`);
+
+    if (isDuplicate) {
+      continue;
+    }
+
+    const workoutId = crypto.randomUUID();
+    workoutRows.push({
+      id: workoutId,
+      userId,
+      name: workout.name,
+      date: workout.date,
+      notes: workout.notes,
+      startedAt: workout.startedAt ? new Date(workout.startedAt) : null,
+      completedAt: workout.completedAt ? new Date(workout.completedAt) : null,
+    });
+
+    // Supersets get fresh group ids too
+    const groupIds = new Map(
+      entries.flatMap((entry) =>
+        entry.groupId !== null
+          ? [[entry.groupId, crypto.randomUUID()] as const]
+          : []
+      )
+    );
+
+    entries.forEach((entry, index) => {
+      const workoutExerciseId = crypto.randomUUID();
+      exerciseRows.push({
+        id: workoutExerciseId,
+        workoutId,
+        exerciseId: entry.exerciseId,
+        order: index + 1,
+        groupId:
+          entry.groupId !== null ? groupIds.get(entry.groupId)! : null,
+      });
+      setRows.push(
+        ...entry.sets.map((set) => ({
+          workoutExerciseId,
+          setNumber: set.setNumber,
+          weight: set.weight,
+          weightUnit: set.weightUnit,
+          reps: set.reps,
+          durationSeconds: set.durationSeconds,
+          distance: set.distance,
+          notes: set.notes,
+          setType: set.setType,
+          rpe: set.rpe,
+          rir: set.rir,
+          tempo: set.tempo,
+        }))
+      );
+    });
+  }
+
+  const templateRows: (typeof workoutTemplates.$inferInsert)[] = [];
+  const templateExerciseRows: (typeof templateExercises.$inferInsert)[] = [];
+
+  for (const template of backup.templates) {
+    if (existingPlanNames.templates.has(template.name.toLowerCase())) {
+      continue;
+    }
+
+    const templateId = crypto.randomUUID();
+    templateRows.push({
+      id: templateId,
+      userId,
+      name: template.name,
+      notes: template.notes,
+    });
+
+    for (const { exercise, ...entry } of template.exercises) {
+      const exerciseId = resolveExercise(exercise);
+
+      if (!exerciseId) {
+        return null;
+      }
+
+      templateExerciseRows.push({ ...entry, templateId, exerciseId });
+    }
+  }
+
+  const programRows: (typeof programs.$inferInsert)[] = [];
+  const weekRows: (typeof programWeeks.$inferInsert)[] = [];
+  const dayRows: (typeof programDays.$inferInsert)[] = [];
+  const programExerciseRows: (typeof programExercises.$inferInsert)[] = [];
+
+  for (const { weeks, days, ...program } of backup.programs) {
+    if (existingPlanNames.programs.has(program.name.toLowerCase())) {
+      continue;
+    }
+
+    const programId = crypto.randomUUID();
+    programRows.push({ ...program, id: programId, userId });
+    weekRows.push(...weeks.map((week) => ({ ...week, programId })));
+
+    for (const { exercises: dayExercises, ...day } of days) {
+      const programDayId = crypto.randomUUID();
+      dayRows.push({ ...day, id: programDayId, programId });
+
+      for (const { exercise, ...entry } of dayExercises) {
+        const exerciseId = resolveExercise(exercise);
+
+        if (!exerciseId) {
+          return null;
+        }
+
+        programExerciseRows.push({ ...entry, programDayId, exerciseId });
+      }
+    }
+  }
+
+  const statements: BatchItem<"pg">[] = [
+    ...(mode === "replace"
+      ? [
+          db.delete(workouts).where(eq(workouts.userId, userId)),
+          db
+            .delete(workoutTemplates)
+            .where(eq(workoutTemplates.userId, userId)),
+          db.delete(programs).where(eq(programs.userId, userId)),
+          db
+            .delete(bodyMeasurements)
+            .where(eq(bodyMeasurements.userId, userId)),
+          replaceUserSettings(userId, backup.settings),
+        ]
+      : []),
+    ...(newExerciseRows.length > 0
+      ? [db.insert(exercises).values(newExerciseRows)]
+      : []),
+    ...chunkRows(workoutRows).map((rows) =>
+      db.insert(workouts).values(rows)
+    ),
+    ...chunkRows(exerciseRows).map((rows) =>
+      db.insert(workoutExercises).values(rows)
+    ),
+    ...chunkRows(setRows).map((rows) => db.insert(sets).values(rows)),
+    ...chunkRows(templateRows).map((rows) =>
+      db.insert(workoutTemplates).values(rows)
+    ),
+    ...chunkRows(templateExerciseRows).map((rows) =>
+      db.insert(templateExercises).values(rows)
+    ),
+    ...chunkRows(programRows).map((rows) => db.insert(programs).values(rows)),
+    ...chunkRows(weekRows).map((rows) => db.insert(programWeeks).values(rows)),
+    ...chunkRows(dayRows).map((rows) => db.insert(programDays).values(rows)),
+    ...chunkRows(programExerciseRows).map((rows) =>
+      db.insert(programExercises).values(rows)
+    ),
+    ...chunkRows(
+      backup.bodyMeasurements.map((measurement) => ({ ...measurement, userId }))
+    ).map((rows) =>
+      db.insert(bodyMeasurements).values(rows).onConflictDoNothing({
+        target: [bodyMeasurements.userId, bodyMeasurements.date],
+      })
+    ),
+  ];
+  const [first, ...rest] = statements;
+
+  if (first) {
+    await db.batch([first, ...rest]);
+  }
+
+  return {
+    workoutCount: workoutRows.length,
+    setCount: setRows.length,
+    createdExerciseCount: newExerciseRows.length,
+    skippedExerciseCount,
+  };
+}
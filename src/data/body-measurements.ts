@@ -0,0 +1,153 @@
+import { db } from "@/db";
+import { bodyMeasurements } from "@/db/schema";
+import { eq, and, asc, isNotNull } from "drizzle-orm";
+import {
+  convertLength,
+  getLengthUnit,
+  isLengthUnit,
+  toDisplayBodyweight,
+  type BodyweightHistory,
+} from "@/lib/body-measurements";
+import { isWeightUnit, type WeightUnit } from "@/lib/units";
+import type { BodyMeasurement, UserSettings } from "./types";
+
+type BodyMeasurementRow = typeof bodyMeasurements.$inferSelect;
+
+// Converts what was logged into the display unit and its length unit
+function toBodyMeasurement(
+  row: BodyMeasurementRow,
+  unit: WeightUnit
+): BodyMeasurement {
+  const lengthUnit = getLengthUnit(unit);
+  const loggedLengthUnit = isLengthUnit(row.lengthUnit)
+    ? row.lengthUnit
+    : lengthUnit;
+  const toLength = (length: string | null) =>
+    length !== null
+      ? Math.round(
+          convertLength(Number(length), loggedLengthUnit, lengthUnit) * 10
+        ) / 10
+      : null;
+
+  return {
+    id: row.id,
+    date: row.date,
+    bodyweight:
+      row.bodyweight !== null
+        ? toDisplayBodyweight(
+            Number(row.bodyweight),
+            isWeightUnit(row.bodyweightUnit) ? row.bodyweightUnit : unit,
+            unit
+          )
+        : null,
+    bodyFatPercentage:
+      row.bodyFatPercentage !== null ? Number(row.bodyFatPercentage) : null,
+    neck: toLength(row.neck),
+    chest: toLength(row.chest),
+    waist: toLength(row.waist),
+    hips: toLength(row.hips),
+    arms: toLength(row.arms),
+    thighs: toLength(row.thighs),
+    notes: row.notes,
+  };
+}
+
+// Every entry the user has logged, oldest first
+export async function getBodyMeasurements(
+  userId: string,
+  unit: WeightUnit
+): Promise<BodyMeasurement[]> {
+  const rows = await db
+    .select()
+    .from(bodyMeasurements)
+    .where(eq(bodyMeasurements.userId, userId))
+    .orderBy(asc(bodyMeasurements.date));
+
+  return rows.map((row) => toBodyMeasurement(row, unit));
+}
+
+// Logged bodyweights for working out the load of bodyweight exercises and
+// relative strength on any date, see getBodyweightOn
+export async function getBodyweightHistory(
+  userId: string,
+  { weightUnit, bodyweight }: Pick<UserSettings, "weightUnit" | "bodyweight">
+): Promise<BodyweightHistory> {
+  const rows = await db
+    .select({
+      date: bodyMeasurements.date,
+      bodyweight: bodyMeasurements.bodyweight,
+      bodyweightUnit: bodyMeasurements.bodyweightUnit,
+    })
+    .from(bodyMeasurements)
+    .where(
+      and(
+        eq(bodyMeasurements.userId, userId),
+        isNotNull(bodyMeasurements.bodyweight)
+      )
+    )
+    .orderBy(asc(bodyMeasurements.date));
+
+  return {
+    entries: rows.map((row) => ({
+      date: row.date,
+      bodyweight: toDisplayBodyweight(
+        Number(row.bodyweight),
+        isWeightUnit(row.bodyweightUnit) ? row.bodyweightUnit : weightUnit,
+        weightUnit
+      ),
+    })),
+    fallback: bodyweight,
+  };
+}
+
+// Logging a date that already has an entry replaces it. Measurements are
+// taken to be in the display unit and its length unit.
+export async function saveBodyMeasurement(
+  userId: string,
+  data: Omit<BodyMeasurement, "id">,
+  unit: WeightUnit
+): Promise<BodyMeasurement> {
+  const toColumn = (value: number | null) =>
+    value !== null ? value.toString() : null;
+  const values = {
+    bodyweight: toColumn(data.bodyweight),
+    bodyweightUnit: unit,
+    bodyFatPercentage: toColumn(data.bodyFatPercentage),
+    neck: toColumn(data.neck),
+    chest: toColumn(data.chest),
+    waist: toColumn(data.waist),
+    hips: toColumn(data.hips),
+    arms: toColumn(data.arms),
+    thighs: toColumn(data.thighs),
+    lengthUnit: getLengthUnit(unit),
+    notes: data.notes,
+  };
+
+  const [row] = await db
+    .insert(bodyMeasurements)
+    .values({ ...values, userId, date: data.date })
+    .onConflictDoUpdate({
+      target: [bodyMeasurements.userId, bodyMeasurements.date],
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  return toBodyMeasurement(row, unit);
+}
+
+export async function deleteBodyMeasurement(
+  userId: string,
+  measurementId: string
+) {
+  const [deleted] = await db
+    .delete(bodyMeasurements)
+    .where(
+      and(
+        eq(bodyMeasurements.id, measurementId),
+        eq(bodyMeasurements.userId, userId)
+      )
+    )
+    .returning({ id: bodyMeasurements.id });
+
+  return deleted ?? null;
+}
@@ -0,0 +1,341 @@
+import { db } from "@/db";
+import {
+  exercises,
+  workouts,
+  workoutExercises,
+  workoutTemplates,
+  templateExercises,
+  programs,
+  programDays,
+  programExercises,
+} from "@/db/schema";
+import { eq, and, or, ne, isNull, asc, inArray, sql } from "drizzle-orm";
+import {
+  toMeasurementType,
+  type MeasurementType,
+} from "@/lib/measurement-types";
+import type { Exercise } from "./types";
+
+const exerciseColumns = {
+  id: exercises.id,
+  name: exercises.name,
+  primaryMuscle: exercises.primaryMuscle,
+  secondaryMuscles: exercises.secondaryMuscles,
+  measurementType: exercises.measurementType,
+  userId: exercises.userId,
+};
+
+function toExercise({
+  userId: ownerId,
+  measurementType,
+  ...exercise
+}: {
+  id: string;
+  name: string;
+  primaryMuscle: string | null;
+  secondaryMuscles: string[] | null;
+  measurementType: string;
+  userId: string | null;
+}): Exercise {
+  return {
+    ...exercise,
+    measurementType: toMeasurementType(measurementType),
+    isCustom: ownerId !== null,
+  };
+}
+
+// Exercises visible to a user: system defaults plus their own custom ones
+function visibleTo(userId: string) {
+  return or(isNull(exercises.userId), eq(exercises.userId, userId));
+}
+
+export async function getExercises(userId: string): Promise<Exercise[]> {
+  const rows = await db
+    .select(exerciseColumns)
+    .from(exercises)
+    .where(visibleTo(userId))
+    .orderBy(asc(exercises.name));
+
+  return rows.map(toExercise);
+}
+
+export async function getExerciseById(
+  userId: string,
+  exerciseId: string
+): Promise<Exercise | null> {
+  const [row] = await db
+    .select(exerciseColumns)
+    .from(exercises)
+    .where(and(eq(exercises.id, exerciseId), visibleTo(userId)));
+
+  return row ? toExercise(row) : null;
+}
+
+// Number of the user's workouts each exercise appears in, keyed by exercise id
+export async function getExerciseUsageCounts(
+  userId: string
+): Promise<Record<string, number>> {
+  const rows = await db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      count: sql<number>`count(distinct ${workoutExercises.workoutId})`,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(eq(workouts.userId, userId))
+    .groupBy(workoutExercises.exerciseId);
+
+  return Object.fromEntries(
+    rows.map((row) => [row.exerciseId, Number(row.count)])
+  );
+}
+
+// Number of the user's templates and programs each exercise is planned in,
+// keyed by exercise id
+export async function getExercisePlanUsageCounts(
+  userId: string
+): Promise<Record<string, number>> {
+  const [templateRows, programRows] = await Promise.all([
+    db
+      .select({
+        exerciseId: templateExercises.exerciseId,
+        count: sql<number>`count(distinct ${templateExercises.templateId})`,
+      })
+      .from(templateExercises)
+      .innerJoin(
+        workoutTemplates,
+        eq(templateExercises.templateId, workoutTemplates.id)
+      )
+      .where(eq(workoutTemplates.userId, userId))
+      .groupBy(templateExercises.exerciseId),
+    db
+      .select({
+        exerciseId: programExercises.exerciseId,
+        count: sql<number>`count(distinct ${programDays.programId})`,
+      })
+      .from(programExercises)
+      .innerJoin(programDays, eq(programExercises.programDayId, programDays.id))
+      .innerJoin(programs, eq(programDays.programId, programs.id))
+      .where(eq(programs.userId, userId))
+      .groupBy(programExercises.exerciseId),
+  ]);
+
+  const counts: Record<string, number> = {};
+
+  for (const row of [...templateRows, ...programRows]) {
+    counts[row.exerciseId] = (counts[row.exerciseId] ?? 0) + Number(row.count);
+  }
+
+  return counts;
+}
+
+// Case-insensitive name check against every exercise the user can see
+export async function isExerciseNameTaken(
+  userId: string,
+  name: string,
+  excludeExerciseId?: string
+): Promise<boolean> {
+  const [row] = await db
+    .select({ id: exercises.id })
+    .from(exercises)
+    .where(
+      and(
+        visibleTo(userId),
+        eq(sql`lower(${exercises.name})`, name.toLowerCase()),
+        excludeExerciseId ? ne(exercises.id, excludeExerciseId) : undefined
+      )
+    )
+    .limit(1);
+
+  return Boolean(row);
+}
+
+// The names from the list that clash with an exercise the user can see,
+// compared case-insensitively
+export async function getTakenExerciseNames(
+  userId: string,
+  names: string[]
+): Promise<string[]> {
+  if (names.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ name: sql<string>`lower(${exercises.name})` })
+    .from(exercises)
+    .where(
+      and(
+        visibleTo(userId),
+        inArray(
+          sql`lower(${exercises.name})`,
+          names.map((name) => name.toLowerCase())
+        )
+      )
+    );
+  const taken = new Set(rows.map((row) => row.name));
+
+  return names.filter((name) => taken.has(name.toLowerCase()));
+}
+
+// Which of the ids belong to exercises the user can see
+export async function getVisibleExerciseIds(
+  userId: string,
+  exerciseIds: string[]
+): Promise<string[]> {
+  if (exerciseIds.length === 0) {
+    return [];
+  }
+
+  const rows = await db
+    .select({ id: exercises.id })
+    .from(exercises)
+    .where(and(inArray(exercises.id, exerciseIds), visibleTo(userId)));
+
+  return rows.map((row) => row.id);
+}
+
+export async function createExercise(
+  userId: string,
+  data: {
+    name: string;
+    primaryMuscle?: string;
+    secondaryMuscles?: string[];
+    measurementType?: MeasurementType;
+  }
+): Promise<Exercise> {
+  const [row] = await db
+    .insert(exercises)
+    .values({
+      userId,
+      name: data.name,
+      primaryMuscle: data.primaryMuscle ?? null,
+      secondaryMuscles: data.secondaryMuscles ?? [],
+      measurementType: data.measurementType,
+    })
+    .returning(exerciseColumns);
+
+  return toExercise(row);
+}
+
+// Only the user's own exercises can be edited; system defaults are shared
+export async function updateExercise(
+  userId: string,
+  exerciseId: string,
+  data: {
+    name?: string;
+    primaryMuscle?: string | null;
+    secondaryMuscles?: string[];
+    measurementType?: MeasurementType;
+  }
+): Promise<Exercise | null> {
+  const [row] = await db
+    .update(exercises)
+    .set(data)
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.userId, userId)))
+    .returning(exerciseColumns);
+
+  return row ? toExercise(row) : null;
+}
+
+// Fails with a foreign key error if the exercise is still used in a workout,
+// template or program (`onDelete: "restrict"`); use mergeExercise to reassign
+// those first.
+export async function deleteExercise(userId: string, exerciseId: string) {
+  const [deleted] = await db
+    .delete(exercises)
+    .where(and(eq(exercises.id, exerciseId), eq(exercises.userId, userId)))
+    .returning({ id: exercises.id });
+
+  return deleted ?? null;
+}
+
+// Reassigns every workout, template and program entry of a custom exercise
+// to another visible exercise measured the same way, then deletes the
+// custom one. Sets of a different measurement type wouldn't show under it.
+export async function mergeExercise(
+  userId: string,
+  sourceExerciseId: string,
+  targetExerciseId: string
+) {
+  if (sourceExerciseId === targetExerciseId) {
+    return null;
+  }
+
+  const [[source], [target]] = await Promise.all([
+    db
+      .select({ measurementType: exercises.measurementType })
+      .from(exercises)
+      .where(
+        and(eq(exercises.id, sourceExerciseId), eq(exercises.userId, userId))
+      ),
+    db
+      .select({ measurementType: exercises.measurementType })
+      .from(exercises)
+      .where(and(eq(exercises.id, targetExerciseId), visibleTo(userId))),
+  ]);
+
+  if (
+    !source ||
+    !target ||
+    source.measurementType !== target.measurementType
+  ) {
+    return null;
+  }
+
+  const [, , , [deleted]] = await db.batch([
+    db
+      .update(programExercises)
+      .set({ exerciseId: targetExerciseId })
+      .where(
+        and(
+          eq(programExercises.exerciseId, sourceExerciseId),
+          inArray(
+            programExercises.programDayId,
+            db
+              .select({ id: programDays.id })
+              .from(programDays)
+              .innerJoin(programs, eq(programDays.programId, programs.id))
+              .where(eq(programs.userId, userId))
+          )
+        )
+      ),
+    db
+      .update(templateExercises)
+      .set({ exerciseId: targetExerciseId })
+      .where(
+        and(
+          eq(templateExercises.exerciseId, sourceExerciseId),
+          inArray(
+            templateExercises.templateId,
+            db
+              .select({ id: workoutTemplates.id })
+              .from(workoutTemplates)
+              .where(eq(workoutTemplates.userId, userId))
+          )
+        )
+      ),
+    db
+      .update(workoutExercises)
+      .set({ exerciseId: targetExerciseId })
+      .where(
+        and(
+          eq(workoutExercises.exerciseId, sourceExerciseId),
+          inArray(
+            workoutExercises.workoutId,
+            db
+              .select({ id: workouts.id })
+              .from(workouts)
+              .where(eq(workouts.userId, userId))
+          )
+        )
+      ),
+    db
+      .delete(exercises)
+      .where(
+        and(eq(exercises.id, sourceExerciseId), eq(exercises.userId, userId))
+      )
+      .returning({ id: exercises.id }),
+  ]);
+
+  return deleted ?? null;
+}
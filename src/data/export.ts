@@ -0,0 +1,113 @@
+import { db } from "@/db";
+import { workouts, workoutExercises, exercises, sets } from "@/db/schema";
+import { eq, and, or, asc, gt, gte, lte, inArray } from "drizzle-orm";
+import type { SetExportRow } from "./types";
+
+export type ExportFilters = {
+  fromDate?: string;
+  toDate?: string;
+  exerciseId?: string;
+};
+
+// Position after the last workout of a page, in (date, id) order
+export type ExportCursor = {
+  date: string;
+  workoutId: string;
+};
+
+// One page of the training log flattened to a row per set, oldest first.
+// Pages are whole workouts so a workout's sets are never split, and the
+// cursor keeps each page a range scan of the (user_id, date, id) index
+// however long the history is.
+export async function getSetExportPage(
+  userId: string,
+  filters: ExportFilters,
+  cursor: ExportCursor | null,
+  workoutLimit: number
+): Promise<{ rows: SetExportRow[]; nextCursor: ExportCursor | null }> {
+  const { fromDate, toDate, exerciseId } = filters;
+
+  const workoutPage = await db
+    .select({ id: workouts.id, date: workouts.date })
+    .from(workouts)
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        fromDate ? gte(workouts.date, fromDate) : undefined,
+        toDate ? lte(workouts.date, toDate) : undefined,
+        exerciseId
+          ? inArray(
+              workouts.id,
+              db
+                .select({ id: workoutExercises.workoutId })
+                .from(workoutExercises)
+                .where(eq(workoutExercises.exerciseId, exerciseId))
+            )
+          : undefined,
+        cursor
+          ? or(
+              gt(workouts.date, cursor.date),
+              and(
+                eq(workouts.date, cursor.date),
+                gt(workouts.id, cursor.workoutId)
+              )
+            )
+          : undefined
+      )
+    )
+    .orderBy(asc(workouts.date), asc(workouts.id))
+    .limit(workoutLimit);
+
+  const lastWorkout = workoutPage.at(-1);
+
+  if (!lastWorkout) {
+    return { rows: [], nextCursor: null };
+  }
+
+  const rows = await db
+    .select({
+      date: workouts.date,
+      workoutName: workouts.name,
+      exerciseName: exercises.name,
+      primaryMuscle: exercises.primaryMuscle,
+      setNumber: sets.setNumber,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+      durationSeconds: sets.durationSeconds,
+      distance: sets.distance,
+      notes: sets.notes,
+      setType: sets.setType,
+      rpe: sets.rpe,
+      rir: sets.rir,
+      tempo: sets.tempo,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(
+          workouts.id,
+          workoutPage.map((workout) => workout.id)
+        ),
+        exerciseId ? eq(workoutExercises.exerciseId, exerciseId) : undefined
+      )
+    )
+    .orderBy(
+      asc(workouts.date),
+      asc(workouts.id),
+      asc(workoutExercises.order),
+      asc(sets.setNumber)
+    );
+
+  return {
+    rows,
+    nextCursor:
+      workoutPage.length === workoutLimit
+        ? { date: lastWorkout.date, workoutId: lastWorkout.id }
+        : null,
+  };
+}
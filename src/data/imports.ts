@@ -0,0 +1,213 @@
+import { db } from "@/db";
+import { exercises, workouts, workoutExercises, sets } from "@/db/schema";
+import { eq, and, gte, lte, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type {
+  ExerciseMapping,
+  ImportedSet,
+  ImportedWorkout,
+} from "@/lib/workout-import";
+import type { WeightUnit } from "@/lib/units";
+import { getVisibleExerciseIds } from "./exercises";
+import type { ImportSummary } from "./types";
+
+// Rows per insert statement, well under Postgres' bind parameter limit
+const ROWS_PER_INSERT = 1000;
+
+// Splits rows into insert-sized groups for a batch
+export function chunkRows<T>(rows: T[]): T[][] {
+  return Array.from(
+    { length: Math.ceil(rows.length / ROWS_PER_INSERT) },
+    (_, index) =>
+      rows.slice(index * ROWS_PER_INSERT, (index + 1) * ROWS_PER_INSERT)
+  );
+}
+
+// (date, exercise) pairs the user has already logged, for duplicate checks
+export async function getLoggedExerciseDates(
+  userId: string,
+  exerciseIds: string[],
+  fromDate: string,
+  toDate: string
+): Promise<Set<string>> {
+  if (exerciseIds.length === 0) {
+    return new Set();
+  }
+
+  const rows = await db
+    .selectDistinct({
+      date: workouts.date,
+      exerciseId: workoutExercises.exerciseId,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate),
+        inArray(workoutExercises.exerciseId, exerciseIds)
+      )
+    );
+
+  return new Set(rows.map((row) => `${row.date}|${row.exerciseId}`));
+}
+
+// Writes imported workouts in one atomic batch, creating the custom exercises
+// the mappings ask for. An exercise already logged on the same date is
+// skipped, so importing the same file twice adds nothing the second time.
+// Returns null if a mapping points at an exercise the user can't see or an
+// imported exercise has no mapping.
+export async function importWorkouts(
+  userId: string,
+  data: {
+    weightUnit: WeightUnit;
+    mappings: ExerciseMapping[];
+    workouts: ImportedWorkout[];
+  }
+): Promise<ImportSummary | null> {
+  const existingIds = [
+    ...new Set(
+      data.mappings.flatMap((mapping) =>
+        "exerciseId" in mapping ? [mapping.exerciseId] : []
+      )
+    ),
+  ];
+  const visibleIds = await getVisibleExerciseIds(userId, existingIds);
+
+  if (visibleIds.length !== existingIds.length) {
+    return null;
+  }
+
+  // New exercises are keyed by lowercase name so two imported names can
+  // share one
+  const newExerciseRows = new Map<string, { id: string; name: string }>();
+  const exerciseIdsByName = new Map<string, string>();
+
+  for (const mapping of data.mappings) {
+    if ("exerciseId" in mapping) {
+      exerciseIdsByName.set(mapping.name, mapping.exerciseId);
+      continue;
+    }
+
+    const key = mapping.newExerciseName.toLowerCase();
+    const row = newExerciseRows.get(key) ?? {
+      id: crypto.randomUUID(),
+      name: mapping.newExerciseName,
+    };
+    newExerciseRows.set(key, row);
+    exerciseIdsByName.set(mapping.name, row.id);
+  }
+
+  const dates = data.workouts.map((workout) => workout.date).sort();
+  const loggedExerciseDates =
+    dates.length > 0
+      ? await getLoggedExerciseDates(
+          userId,
+          existingIds,
+          dates[0],
+          dates.at(-1)!
+        )
+      : new Set<string>();
+
+  const workoutRows: (typeof workouts.$inferInsert)[] = [];
+  const exerciseRows: (typeof workoutExercises.$inferInsert)[] = [];
+  const setRows: (typeof sets.$inferInsert)[] = [];
+  let skippedExerciseCount = 0;
+
+  for (const workout of data.workouts) {
+    // Imported names mapped onto the same exercise share one entry
+    const setsByExercise = new Map<string, ImportedSet[]>();
+
+    for (const exercise of workout.exercises) {
+      const exerciseId = exerciseIdsByName.get(exercise.name);
+
+      if (!exerciseId) {
+        return null;
+      }
+
+      setsByExercise.set(exerciseId, [
+        ...(setsByExercise.get(exerciseId) ?? []),
+        ...exercise.sets,
+      ]);
+    }
+
+    const entries = [...setsByExercise].filter(([exerciseId]) => {
+      const isLogged = loggedExerciseDates.has(
+        `${workout.date}|${exerciseId}`
+      );
+      if (isLogged) {
+        skippedExerciseCount++;
+      }
+      return !isLogged;
+    });
+
+    if (entries.length === 0) {
+      continue;
+    }
+
+    const workoutId = crypto.randomUUID();
+    workoutRows.push({
+      id: workoutId,
+      userId,
+      name: workout.name,
+      date: workout.date,
+    });
+
+    entries.forEach(([exerciseId, exerciseSets], index) => {
+      const workoutExerciseId = crypto.randomUUID();
+      exerciseRows.push({
+        id: workoutExerciseId,
+        workoutId,
+        exerciseId,
+        order: index + 1,
+      });
+      setRows.push(
+        ...exerciseSets.map((set, setIndex) => ({
+          workoutExerciseId,
+          setNumber: setIndex + 1,
+          weight: set.weight !== null ? set.weight.toString() : null,
+          weightUnit: data.weightUnit,
+          reps: set.reps,
+          setType: set.setType,
+          notes: set.notes,
+        }))
+      );
+    });
+  }
+
+  // Only create exercises that something is imported into
+  const usedExerciseIds = new Set(exerciseRows.map((row) => row.exerciseId));
+  const createdExercises = [...newExerciseRows.values()].filter((row) =>
+    usedExerciseIds.has(row.id)
+  );
+
+  const statements: BatchItem<"pg">[] = [
+    ...(createdExercises.length > 0
+      ? [
+          db
+            .insert(exercises)
+            .values(createdExercises.map((row) => ({ ...row, userId }))),
+        ]
+      : []),
+    ...chunkRows(workoutRows).map((rows) =>
+      db.insert(workouts).values(rows)
+    ),
+    ...chunkRows(exerciseRows).map((rows) =>
+      db.insert(workoutExercises).values(rows)
+    ),
+    ...chunkRows(setRows).map((rows) => db.insert(sets).values(rows)),
+  ];
+  const [first, ...rest] = statements;
+
+  if (first) {
+    await db.batch([first, ...rest]);
+  }
+
+  return {
+    workoutCount: workoutRows.length,
+    setCount: setRows.length,
+    createdExerciseCount: createdExercises.length,
+    skippedExerciseCount,
+  };
+}
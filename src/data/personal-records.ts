@@ -0,0 +1,222 @@
+import { db } from "@/db";
+import { workouts, workoutExercises, exercises, sets } from "@/db/schema";
+import {
+  eq,
+  and,
+  asc,
+  desc,
+  lte,
+  max,
+  ne,
+  inArray,
+  type SQL,
+} from "drizzle-orm";
+import { MEASUREMENT_TYPES, tracksLoadRecords } from "@/lib/measurement-types";
+import {
+  detectPersonalRecords,
+  type PersonalRecordSet,
+} from "@/lib/personal-records";
+import type { OneRepMaxFormula } from "@/lib/one-rep-max";
+import { toDisplaySetWeight, type WeightUnit } from "@/lib/units";
+import type {
+  PersonalRecordFlags,
+  RecentPersonalRecord,
+  WorkoutWithExercises,
+} from "./types";
+
+// The user's sets in the order they were lifted, optionally narrowed further.
+// Warm-ups and exercises that aren't judged by load (see tracksLoadRecords)
+// are left out.
+async function getChronologicalSets(
+  userId: string,
+  unit: WeightUnit,
+  filter?: SQL
+) {
+  const rows = await db
+    .select({
+      setId: sets.id,
+      workoutExerciseId: workoutExercises.id,
+      workoutId: workouts.id,
+      exerciseId: workoutExercises.exerciseId,
+      exerciseName: exercises.name,
+      date: workouts.date,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        ne(sets.setType, "warmup"),
+        inArray(
+          exercises.measurementType,
+          MEASUREMENT_TYPES.filter(tracksLoadRecords)
+        ),
+        filter
+      )
+    )
+    // Ids last, so workouts created in the same instant always replay in
+    // the same order
+    .orderBy(
+      asc(workouts.date),
+      asc(workouts.createdAt),
+      asc(workouts.id),
+      asc(workoutExercises.order),
+      asc(sets.setNumber),
+      asc(sets.id)
+    );
+
+  return rows.flatMap(({ weightUnit, reps, ...row }) =>
+    reps !== null
+      ? [
+          {
+            ...row,
+            reps,
+            weight: toDisplaySetWeight(row.weight, weightUnit, unit),
+          },
+        ]
+      : []
+  ) satisfies PersonalRecordSet[];
+}
+
+// PRs set in the given workouts, judged against all earlier history
+export async function getPersonalRecordFlags(
+  userId: string,
+  workoutList: WorkoutWithExercises[],
+  formula: OneRepMaxFormula,
+  unit: WeightUnit
+): Promise<PersonalRecordFlags> {
+  const flags: PersonalRecordFlags = { sets: {}, exercises: {} };
+  const exerciseIds = Array.from(
+    new Set(
+      workoutList.flatMap((workout) =>
+        workout.exercises.map((we) => we.exercise.id)
+      )
+    )
+  );
+
+  if (exerciseIds.length === 0) {
+    return flags;
+  }
+
+  const latestDate = workoutList
+    .map((workout) => workout.date)
+    .reduce((latest, date) => (date > latest ? date : latest));
+  const workoutIds = new Set(workoutList.map((workout) => workout.id));
+
+  const history = await getChronologicalSets(
+    userId,
+    unit,
+    and(
+      inArray(workoutExercises.exerciseId, exerciseIds),
+      lte(workouts.date, latestDate)
+    )
+  );
+
+  for (const event of detectPersonalRecords(history, formula)) {
+    if (!workoutIds.has(event.workoutId)) {
+      continue;
+    }
+
+    if (event.setId) {
+      (flags.sets[event.setId] ??= []).push(event.type);
+    } else {
+      for (const workoutExerciseId of event.workoutExerciseIds) {
+        (flags.exercises[workoutExerciseId] ??= []).push(event.type);
+      }
+    }
+  }
+
+  return flags;
+}
+
+// Exercises that count towards PRs, most recently trained first, with the
+// last date each was trained
+async function getTrainedExercises(userId: string) {
+  return db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      lastDate: max(workouts.date),
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(
+          exercises.measurementType,
+          MEASUREMENT_TYPES.filter(tracksLoadRecords)
+        )
+      )
+    )
+    .groupBy(workoutExercises.exerciseId)
+    .orderBy(desc(max(workouts.date)));
+}
+
+// Most recent PRs across all exercises, newest first. Exercises are replayed
+// a few at a time from the most recently trained, stopping once none of the
+// rest were trained late enough to have set one of them.
+export async function getRecentPersonalRecords(
+  userId: string,
+  formula: OneRepMaxFormula,
+  unit: WeightUnit,
+  limit = 5
+): Promise<RecentPersonalRecord[]> {
+  const trainedExercises = await getTrainedExercises(userId);
+  const records = new Map<string, RecentPersonalRecord>();
+  let recent: RecentPersonalRecord[] = [];
+
+  for (let start = 0; start < trainedExercises.length; start += limit) {
+    const batch = trainedExercises.slice(start, start + limit);
+    const oldestKept = recent.at(limit - 1);
+
+    if (oldestKept && batch[0].lastDate && oldestKept.date > batch[0].lastDate) {
+      break;
+    }
+
+    const history = await getChronologicalSets(
+      userId,
+      unit,
+      inArray(
+        workoutExercises.exerciseId,
+        batch.map((exercise) => exercise.exerciseId)
+      )
+    );
+    const exerciseNames = new Map(
+      history.map((set) => [set.exerciseId, set.exerciseName])
+    );
+
+    for (const event of detectPersonalRecords(history, formula)) {
+      const key = event.setId ?? `${event.workoutId}:${event.exerciseId}`;
+      const record = records.get(key);
+
+      if (record) {
+        record.types.push(event.type);
+        continue;
+      }
+
+      records.set(key, {
+        id: key,
+        types: [event.type],
+        exerciseId: event.exerciseId,
+        exerciseName: exerciseNames.get(event.exerciseId) ?? "Exercise",
+        workoutId: event.workoutId,
+        date: event.date,
+        weight: event.weight,
+        reps: event.reps,
+        volume: event.type === "volume" ? event.value : null,
+      });
+    }
+
+    recent = Array.from(records.values()).sort((a, b) =>
+      a.date < b.date ? 1 : a.date > b.date ? -1 : 0
+    );
+  }
+
+  return recent.slice(0, limit);
+}
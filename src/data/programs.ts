@@ -0,0 +1,815 @@
+import { db } from "@/db";
+import {
+  programs,
+  programWeeks,
+  programDays,
+  programExercises,
+  exercises,
+  workouts,
+  workoutExercises,
+  sets,
+} from "@/db/schema";
+import {
+  eq,
+  and,
+  or,
+  asc,
+  max,
+  ne,
+  gte,
+  lte,
+  inArray,
+  isNull,
+} from "drizzle-orm";
+import type { OneRepMaxFormula } from "@/lib/one-rep-max";
+import {
+  countCompletedSets,
+  getProgramPosition,
+  getScheduledDate,
+  isPrescriptionType,
+  resolvePrescribedLoad,
+  type PrescriptionType,
+} from "@/lib/programs";
+import {
+  convertWeight,
+  isWeightUnit,
+  roundToPlateIncrement,
+  type WeightUnit,
+} from "@/lib/units";
+import { getBestEstimatedOneRepMaxes } from "./progress";
+import type {
+  PlannedSession,
+  Program,
+  ProgramAdherence,
+  ProgramExercise,
+  Workout,
+} from "./types";
+
+type ProgramDetails = Omit<Program, "weeks" | "days">;
+
+const programColumns = {
+  id: programs.id,
+  name: programs.name,
+  notes: programs.notes,
+  startDate: programs.startDate,
+  deloadPercentage: programs.deloadPercentage,
+};
+
+// Either a percentage of 1RM or a weight, in the unit the user entered it in
+export type Prescription = {
+  sets: number;
+  reps: number;
+  prescriptionType: PrescriptionType;
+  percentage: number | null;
+  weight: number | null;
+  progressionPerWeek: number;
+  weightUnit: WeightUnit;
+};
+
+function toPrescriptionColumns({ weightUnit, ...prescription }: Prescription) {
+  const isPercentage = prescription.prescriptionType === "percentage";
+
+  return {
+    sets: prescription.sets,
+    reps: prescription.reps,
+    prescriptionType: prescription.prescriptionType,
+    percentage:
+      isPercentage && prescription.percentage !== null
+        ? prescription.percentage.toString()
+        : null,
+    weight:
+      !isPercentage && prescription.weight !== null
+        ? prescription.weight.toString()
+        : null,
+    weightUnit,
+    progressionPerWeek: prescription.progressionPerWeek.toString(),
+  };
+}
+
+async function getOwnedProgram(userId: string, programId: string) {
+  const [program] = await db
+    .select(programColumns)
+    .from(programs)
+    .where(and(eq(programs.id, programId), eq(programs.userId, userId)));
+
+  return program ?? null;
+}
+
+// Looks up a program day only if its program belongs to the user
+async function getOwnedProgramDay(userId: string, programDayId: string) {
+  const [day] = await db
+    .select({ id: programDays.id, programId: programDays.programId })
+    .from(programDays)
+    .innerJoin(programs, eq(programDays.programId, programs.id))
+    .where(and(eq(programDays.id, programDayId), eq(programs.userId, userId)));
+
+  return day ?? null;
+}
+
+async function getOwnedProgramExercise(
+  userId: string,
+  programExerciseId: string
+) {
+  const [programExercise] = await db
+    .select({
+      id: programExercises.id,
+      programDayId: programExercises.programDayId,
+    })
+    .from(programExercises)
+    .innerJoin(programDays, eq(programExercises.programDayId, programDays.id))
+    .innerJoin(programs, eq(programDays.programId, programs.id))
+    .where(
+      and(
+        eq(programExercises.id, programExerciseId),
+        eq(programs.userId, userId)
+      )
+    );
+
+  return programExercise ?? null;
+}
+
+export async function getPrograms(
+  userId: string,
+  unit: WeightUnit
+): Promise<Program[]> {
+  const [programRows, weekRows, dayRows, exerciseRows] = await Promise.all([
+    db
+      .select(programColumns)
+      .from(programs)
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programs.startDate), asc(programs.name)),
+    db
+      .select({
+        id: programWeeks.id,
+        programId: programWeeks.programId,
+        weekNumber: programWeeks.weekNumber,
+        isDeload: programWeeks.isDeload,
+      })
+      .from(programWeeks)
+      .innerJoin(programs, eq(programWeeks.programId, programs.id))
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programWeeks.weekNumber)),
+    db
+      .select({
+        id: programDays.id,
+        programId: programDays.programId,
+        name: programDays.name,
+        dayOffset: programDays.dayOffset,
+      })
+      .from(programDays)
+      .innerJoin(programs, eq(programDays.programId, programs.id))
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programDays.dayOffset), asc(programDays.createdAt)),
+    db
+      .select({
+        id: programExercises.id,
+        programDayId: programExercises.programDayId,
+        order: programExercises.order,
+        sets: programExercises.sets,
+        reps: programExercises.reps,
+        prescriptionType: programExercises.prescriptionType,
+        percentage: programExercises.percentage,
+        weight: programExercises.weight,
+        weightUnit: programExercises.weightUnit,
+        progressionPerWeek: programExercises.progressionPerWeek,
+        exercise: {
+          id: exercises.id,
+          name: exercises.name,
+          primaryMuscle: exercises.primaryMuscle,
+        },
+      })
+      .from(programExercises)
+      .innerJoin(programDays, eq(programExercises.programDayId, programDays.id))
+      .innerJoin(programs, eq(programDays.programId, programs.id))
+      .innerJoin(exercises, eq(programExercises.exerciseId, exercises.id))
+      .where(eq(programs.userId, userId))
+      .orderBy(asc(programExercises.order)),
+  ]);
+
+  const exercisesByDay = new Map<string, ProgramExercise[]>();
+
+  for (const row of exerciseRows) {
+    const { programDayId, weightUnit, ...programExercise } = row;
+    const storedUnit = isWeightUnit(weightUnit) ? weightUnit : unit;
+    const isPercentage = programExercise.prescriptionType === "percentage";
+    const progressionPerWeek = Number(programExercise.progressionPerWeek);
+
+    exercisesByDay.set(programDayId, [
+      ...(exercisesByDay.get(programDayId) ?? []),
+      {
+        ...programExercise,
+        prescriptionType: isPrescriptionType(programExercise.prescriptionType)
+          ? programExercise.prescriptionType
+          : "weight",
+        percentage:
+          programExercise.percentage !== null
+            ? Number(programExercise.percentage)
+            : null,
+        weight:
+          programExercise.weight !== null
+            ? Math.round(
+                convertWeight(Number(programExercise.weight), storedUnit, unit) *
+                  100
+              ) / 100
+            : null,
+        progressionPerWeek: isPercentage
+          ? progressionPerWeek
+          : Math.round(convertWeight(progressionPerWeek, storedUnit, unit) * 100) /
+            100,
+      },
+    ]);
+  }
+
+  return programRows.map((program) => ({
+    ...program,
+    weeks: weekRows
+      .filter((week) => week.programId === program.id)
+      .map((week) => ({
+        id: week.id,
+        weekNumber: week.weekNumber,
+        isDeload: week.isDeload,
+      })),
+    days: dayRows
+      .filter((day) => day.programId === program.id)
+      .map((day) => ({
+        id: day.id,
+        name: day.name,
+        dayOffset: day.dayOffset,
+        exercises: exercisesByDay.get(day.id) ?? [],
+      })),
+  }));
+}
+
+// Creates a program with its weeks numbered 1..weekCount
+export async function createProgram(
+  userId: string,
+  data: {
+    name: string;
+    notes?: string;
+    startDate: string;
+    weekCount: number;
+    deloadPercentage: number;
+  }
+): Promise<ProgramDetails> {
+  const { weekCount, ...details } = data;
+  const programId = crypto.randomUUID();
+
+  const [[program]] = await db.batch([
+    db
+      .insert(programs)
+      .values({ ...details, id: programId, userId, notes: details.notes ?? null })
+      .returning(programColumns),
+    db.insert(programWeeks).values(
+      Array.from({ length: weekCount }, (_, index) => ({
+        programId,
+        weekNumber: index + 1,
+      }))
+    ),
+  ]);
+
+  return program;
+}
+
+export async function updateProgram(
+  userId: string,
+  programId: string,
+  data: {
+    name?: string;
+    notes?: string | null;
+    startDate?: string;
+    deloadPercentage?: number;
+  }
+): Promise<ProgramDetails | null> {
+  const [program] = await db
+    .update(programs)
+    .set({ ...data, updatedAt: new Date() })
+    .where(and(eq(programs.id, programId), eq(programs.userId, userId)))
+    .returning(programColumns);
+
+  return program ?? null;
+}
+
+export async function deleteProgram(userId: string, programId: string) {
+  const [deleted] = await db
+    .delete(programs)
+    .where(and(eq(programs.id, programId), eq(programs.userId, userId)))
+    .returning({ id: programs.id });
+
+  return deleted ?? null;
+}
+
+// Appends a week after the program's current last week
+export async function addProgramWeek(userId: string, programId: string) {
+  const program = await getOwnedProgram(userId, programId);
+
+  if (!program) {
+    return null;
+  }
+
+  const [{ maxWeek }] = await db
+    .select({ maxWeek: max(programWeeks.weekNumber) })
+    .from(programWeeks)
+    .where(eq(programWeeks.programId, programId));
+
+  const [week] = await db
+    .insert(programWeeks)
+    .values({ programId, weekNumber: (maxWeek ?? 0) + 1 })
+    .returning({ id: programWeeks.id });
+
+  return week;
+}
+
+// Removes the program's last week; a program always keeps at least one
+export async function removeLastProgramWeek(userId: string, programId: string) {
+  const program = await getOwnedProgram(userId, programId);
+
+  if (!program) {
+    return null;
+  }
+
+  const weeks = await db
+    .select({ id: programWeeks.id })
+    .from(programWeeks)
+    .where(eq(programWeeks.programId, programId))
+    .orderBy(asc(programWeeks.weekNumber));
+
+  const lastWeek = weeks.at(-1);
+
+  if (weeks.length <= 1 || !lastWeek) {
+    return null;
+  }
+
+  const [deleted] = await db
+    .delete(programWeeks)
+    .where(eq(programWeeks.id, lastWeek.id))
+    .returning({ id: programWeeks.id });
+
+  return deleted ?? null;
+}
+
+export async function setProgramWeekDeload(
+  userId: string,
+  programWeekId: string,
+  isDeload: boolean
+) {
+  const [owned] = await db
+    .select({ id: programWeeks.id })
+    .from(programWeeks)
+    .innerJoin(programs, eq(programWeeks.programId, programs.id))
+    .where(and(eq(programWeeks.id, programWeekId), eq(programs.userId, userId)));
+
+  if (!owned) {
+    return null;
+  }
+
+  const [week] = await db
+    .update(programWeeks)
+    .set({ isDeload })
+    .where(eq(programWeeks.id, programWeekId))
+    .returning({ id: programWeeks.id, isDeload: programWeeks.isDeload });
+
+  return week ?? null;
+}
+
+export async function addProgramDay(
+  userId: string,
+  programId: string,
+  data: { name: string; dayOffset: number }
+) {
+  const program = await getOwnedProgram(userId, programId);
+
+  if (!program) {
+    return null;
+  }
+
+  const [day] = await db
+    .insert(programDays)
+    .values({ programId, ...data })
+    .returning({
+      id: programDays.id,
+      name: programDays.name,
+      dayOffset: programDays.dayOffset,
+    });
+
+  return day;
+}
+
+export async function updateProgramDay(
+  userId: string,
+  programDayId: string,
+  data: { name: string; dayOffset: number }
+) {
+  const owned = await getOwnedProgramDay(userId, programDayId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const [day] = await db
+    .update(programDays)
+    .set(data)
+    .where(eq(programDays.id, programDayId))
+    .returning({
+      id: programDays.id,
+      name: programDays.name,
+      dayOffset: programDays.dayOffset,
+    });
+
+  return day ?? null;
+}
+
+export async function removeProgramDay(userId: string, programDayId: string) {
+  const owned = await getOwnedProgramDay(userId, programDayId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const [deleted] = await db
+    .delete(programDays)
+    .where(eq(programDays.id, programDayId))
+    .returning({ id: programDays.id });
+
+  return deleted ?? null;
+}
+
+// Appends a prescribed exercise to the end of a program day
+export async function addProgramExercise(
+  userId: string,
+  programDayId: string,
+  data: { exerciseId: string } & Prescription
+) {
+  const { exerciseId, ...prescription } = data;
+  const [day, [exercise]] = await Promise.all([
+    getOwnedProgramDay(userId, programDayId),
+    db
+      .select({ id: exercises.id })
+      .from(exercises)
+      .where(
+        and(
+          eq(exercises.id, exerciseId),
+          or(isNull(exercises.userId), eq(exercises.userId, userId))
+        )
+      ),
+  ]);
+
+  if (!day || !exercise) {
+    return null;
+  }
+
+  const [{ maxOrder }] = await db
+    .select({ maxOrder: max(programExercises.order) })
+    .from(programExercises)
+    .where(eq(programExercises.programDayId, programDayId));
+
+  const [programExercise] = await db
+    .insert(programExercises)
+    .values({
+      programDayId,
+      exerciseId,
+      order: (maxOrder ?? 0) + 1,
+      ...toPrescriptionColumns(prescription),
+    })
+    .returning({ id: programExercises.id });
+
+  return programExercise;
+}
+
+export async function updateProgramExercise(
+  userId: string,
+  programExerciseId: string,
+  prescription: Prescription
+) {
+  const owned = await getOwnedProgramExercise(userId, programExerciseId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const [programExercise] = await db
+    .update(programExercises)
+    .set(toPrescriptionColumns(prescription))
+    .where(eq(programExercises.id, programExerciseId))
+    .returning({ id: programExercises.id });
+
+  return programExercise ?? null;
+}
+
+// Removes a prescribed exercise and closes the gap in the ordering
+export async function removeProgramExercise(
+  userId: string,
+  programExerciseId: string
+) {
+  const owned = await getOwnedProgramExercise(userId, programExerciseId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const siblings = await db
+    .select({ id: programExercises.id, order: programExercises.order })
+    .from(programExercises)
+    .where(eq(programExercises.programDayId, owned.programDayId))
+    .orderBy(asc(programExercises.order));
+
+  const reorders = siblings
+    .filter((sibling) => sibling.id !== programExerciseId)
+    .flatMap((sibling, index) =>
+      sibling.order === index + 1
+        ? []
+        : [
+            db
+              .update(programExercises)
+              .set({ order: index + 1 })
+              .where(eq(programExercises.id, sibling.id)),
+          ]
+    );
+
+  const [[deleted]] = await db.batch([
+    db
+      .delete(programExercises)
+      .where(eq(programExercises.id, programExerciseId))
+      .returning({ id: programExercises.id }),
+    ...reorders,
+  ]);
+
+  return deleted ?? null;
+}
+
+// Reps of every set the user logged for the given exercises between two
+// dates, grouped by date. Warm-ups don't count toward the prescription.
+async function getLoggedSetsByDate(
+  userId: string,
+  exerciseIds: string[],
+  fromDate: string,
+  toDate: string
+) {
+  const loggedByDate = new Map<
+    string,
+    { exerciseId: string; reps: number | null }[]
+  >();
+
+  if (exerciseIds.length === 0 || fromDate > toDate) {
+    return loggedByDate;
+  }
+
+  const rows = await db
+    .select({
+      date: workouts.date,
+      exerciseId: workoutExercises.exerciseId,
+      reps: sets.reps,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(workoutExercises.exerciseId, exerciseIds),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate),
+        ne(sets.setType, "warmup")
+      )
+    );
+
+  for (const { date, ...set } of rows) {
+    loggedByDate.set(date, [...(loggedByDate.get(date) ?? []), set]);
+  }
+
+  return loggedByDate;
+}
+
+// Sets completed against sets prescribed over every session scheduled so far
+export async function getProgramAdherence(
+  userId: string,
+  programList: Program[],
+  today: string
+): Promise<Record<string, ProgramAdherence>> {
+  const scheduled = programList.flatMap((program) =>
+    program.weeks.flatMap((week) =>
+      program.days.map((day) => ({
+        programId: program.id,
+        date: getScheduledDate(program.startDate, week.weekNumber, day.dayOffset),
+        prescriptions: day.exercises.map((programExercise) => ({
+          exerciseId: programExercise.exercise.id,
+          sets: programExercise.sets,
+          reps: programExercise.reps,
+        })),
+      }))
+    )
+  ).filter((session) => session.date <= today);
+
+  const adherence: Record<string, ProgramAdherence> = Object.fromEntries(
+    programList.map((program) => [
+      program.id,
+      { scheduledSessions: 0, prescribedSets: 0, completedSets: 0 },
+    ])
+  );
+
+  if (scheduled.length === 0) {
+    return adherence;
+  }
+
+  const loggedByDate = await getLoggedSetsByDate(
+    userId,
+    Array.from(
+      new Set(
+        scheduled.flatMap((session) =>
+          session.prescriptions.map((prescription) => prescription.exerciseId)
+        )
+      )
+    ),
+    scheduled.map((session) => session.date).reduce((a, b) => (a < b ? a : b)),
+    today
+  );
+
+  for (const session of scheduled) {
+    const completed = countCompletedSets(
+      session.prescriptions,
+      loggedByDate.get(session.date) ?? []
+    );
+    const programAdherence = adherence[session.programId];
+
+    programAdherence.scheduledSessions++;
+    programAdherence.prescribedSets += session.prescriptions.reduce(
+      (total, prescription) => total + prescription.sets,
+      0
+    );
+    programAdherence.completedSets += completed.reduce((a, b) => a + b, 0);
+  }
+
+  return adherence;
+}
+
+// Program days that fall on a date, with this week's loads worked out: % of
+// 1RM prescriptions use the best estimated 1RM logged so far, and weights are
+// rounded to the nearest plate increment
+export async function getPlannedSessions(
+  userId: string,
+  date: string,
+  unit: WeightUnit,
+  formula: OneRepMaxFormula
+): Promise<PlannedSession[]> {
+  const programList = await getPrograms(userId, unit);
+
+  const scheduled = programList.flatMap((program) => {
+    const position = getProgramPosition(
+      program.startDate,
+      program.weeks.length,
+      date
+    );
+
+    if (!position) {
+      return [];
+    }
+
+    return program.days
+      .filter((day) => day.dayOffset === position.dayOffset)
+      .map((day) => ({ program, day, weekNumber: position.weekNumber }));
+  });
+
+  if (scheduled.length === 0) {
+    return [];
+  }
+
+  const exerciseIds = Array.from(
+    new Set(
+      scheduled.flatMap(({ day }) =>
+        day.exercises.map((programExercise) => programExercise.exercise.id)
+      )
+    )
+  );
+  const [oneRepMaxes, loggedByDate] = await Promise.all([
+    getBestEstimatedOneRepMaxes(userId, exerciseIds, formula, unit),
+    getLoggedSetsByDate(userId, exerciseIds, date, date),
+  ]);
+  const loggedSets = loggedByDate.get(date) ?? [];
+
+  return scheduled.map(({ program, day, weekNumber }) => {
+    const resolveLoad = (base: number, progressionPerWeek: number) =>
+      resolvePrescribedLoad(
+        base,
+        progressionPerWeek,
+        program.weeks,
+        weekNumber,
+        program.deloadPercentage
+      );
+
+    const prescribed = day.exercises.map((programExercise) => {
+      const oneRepMax = oneRepMaxes[programExercise.exercise.id];
+      let percentage: number | null = null;
+      let weight: number | null = null;
+
+      if (programExercise.prescriptionType === "percentage") {
+        percentage =
+          programExercise.percentage !== null
+            ? Math.round(
+                resolveLoad(
+                  programExercise.percentage,
+                  programExercise.progressionPerWeek
+                ) * 10
+              ) / 10
+            : null;
+        weight =
+          percentage !== null && oneRepMax !== undefined
+            ? roundToPlateIncrement((oneRepMax * percentage) / 100, unit)
+            : null;
+      } else if (programExercise.weight !== null) {
+        weight = roundToPlateIncrement(
+          resolveLoad(programExercise.weight, programExercise.progressionPerWeek),
+          unit
+        );
+      }
+
+      return {
+        programExerciseId: programExercise.id,
+        exercise: {
+          id: programExercise.exercise.id,
+          name: programExercise.exercise.name,
+        },
+        sets: programExercise.sets,
+        reps: programExercise.reps,
+        percentage,
+        weight,
+      };
+    });
+
+    const completed = countCompletedSets(
+      prescribed.map((prescription) => ({
+        exerciseId: prescription.exercise.id,
+        sets: prescription.sets,
+        reps: prescription.reps,
+      })),
+      loggedSets
+    );
+
+    return {
+      programId: program.id,
+      programName: program.name,
+      programDayId: day.id,
+      dayName: day.name,
+      date,
+      weekNumber,
+      isDeload: program.weeks.some(
+        (week) => week.weekNumber === weekNumber && week.isDeload
+      ),
+      exercises: prescribed.map((prescription, index) => ({
+        ...prescription,
+        completedSets: completed[index],
+      })),
+      prescribedSets: prescribed.reduce(
+        (total, prescription) => total + prescription.sets,
+        0
+      ),
+      completedSets: completed.reduce((a, b) => a + b, 0),
+    };
+  });
+}
+
+// Starts a workout for a planned session with the day's exercises in order.
+// Sets are left for the user to log so adherence reflects what was lifted.
+export async function startPlannedSession(
+  userId: string,
+  programDayId: string,
+  date: string,
+  unit: WeightUnit,
+  formula: OneRepMaxFormula
+): Promise<Workout | null> {
+  const sessions = await getPlannedSessions(userId, date, unit, formula);
+  const session = sessions.find((planned) => planned.programDayId === programDayId);
+
+  if (!session) {
+    return null;
+  }
+
+  const workoutId = crypto.randomUUID();
+  const exerciseRows = session.exercises.map((prescription, index) => ({
+    id: crypto.randomUUID(),
+    workoutId,
+    exerciseId: prescription.exercise.id,
+    order: index + 1,
+  }));
+
+  const [[workout]] = await db.batch([
+    db
+      .insert(workouts)
+      .values({
+        id: workoutId,
+        userId,
+        name: `${session.programName}: ${session.dayName}`,
+        date,
+      })
+      .returning({
+        id: workouts.id,
+        name: workouts.name,
+        date: workouts.date,
+        notes: workouts.notes,
+        updatedAt: workouts.updatedAt,
+      }),
+    ...(exerciseRows.length > 0
+      ? [db.insert(workoutExercises).values(exerciseRows)]
+      : []),
+  ]);
+
+  return workout;
+}
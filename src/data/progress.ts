@@ -0,0 +1,536 @@
+import { db } from "@/db";
+import { workouts, workoutExercises, exercises, sets } from "@/db/schema";
+import {
+  eq,
+  and,
+  asc,
+  desc,
+  ne,
+  lt,
+  max,
+  inArray,
+  isNotNull,
+} from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
+import {
+  getBodyweightOn,
+  type BodyweightHistory,
+} from "@/lib/body-measurements";
+import {
+  MEASUREMENT_TYPES,
+  getEffectiveLoad,
+  toMeasurementType,
+  tracksLoadRecords,
+  type MeasurementType,
+} from "@/lib/measurement-types";
+import { estimateOneRepMax, type OneRepMaxFormula } from "@/lib/one-rep-max";
+import {
+  suggestNextSession,
+  type ProgressionSuggestion,
+} from "@/lib/progression";
+import { isWarmUpSet, toSetType } from "@/lib/set-types";
+import { toDisplaySetWeight, type WeightUnit } from "@/lib/units";
+import type {
+  ExerciseSession,
+  PreviousSession,
+  UserSettings,
+  WorkoutWithExercises,
+} from "./types";
+
+type SessionSet = ExerciseSession["sets"][number];
+
+// Top set (heaviest, then most reps), tonnage and best estimated 1RM, from
+// weighted sets with reps other than warm-ups. Only exercises judged by load
+// (see tracksLoadRecords) call this.
+function summarizeSets(
+  sessionSets: SessionSet[],
+  formula: OneRepMaxFormula
+): Pick<ExerciseSession, "topSet" | "volume" | "estimatedOneRepMax"> {
+  let topSet: ExerciseSession["topSet"] = null;
+  let volume = 0;
+  let estimatedOneRepMax: number | null = null;
+
+  for (const set of sessionSets) {
+    if (set.weight === null || set.reps === null || isWarmUpSet(set.setType)) {
+      continue;
+    }
+
+    volume += set.weight * set.reps;
+
+    if (
+      !topSet ||
+      set.weight > topSet.weight ||
+      (set.weight === topSet.weight && set.reps > topSet.reps)
+    ) {
+      topSet = { weight: set.weight, reps: set.reps };
+    }
+
+    const estimate = estimateOneRepMax(set.weight, set.reps, formula);
+    if (estimate !== null && (estimatedOneRepMax === null || estimate > estimatedOneRepMax)) {
+      estimatedOneRepMax = estimate;
+    }
+  }
+
+  return { topSet, volume, estimatedOneRepMax };
+}
+
+const noSummary = { topSet: null, volume: 0, estimatedOneRepMax: null };
+
+// Best estimated 1RM of the load actually moved, as a multiple of bodyweight
+function getBestRelativeStrength(
+  type: MeasurementType,
+  sessionSets: SessionSet[],
+  bodyweight: number | null,
+  formula: OneRepMaxFormula
+) {
+  if (!bodyweight) {
+    return null;
+  }
+
+  let best: number | null = null;
+
+  for (const set of sessionSets) {
+    const load = getEffectiveLoad(type, set.weight, bodyweight);
+    const estimate =
+      load !== null && set.reps !== null && !isWarmUpSet(set.setType)
+        ? estimateOneRepMax(load, set.reps, formula)
+        : null;
+
+    if (estimate !== null && (best === null || estimate > best)) {
+      best = estimate;
+    }
+  }
+
+  return best !== null ? best / bodyweight : null;
+}
+
+// Every session in which the user performed an exercise, oldest first, with
+// the bodyweight logged for that day
+export async function getExerciseHistory(
+  userId: string,
+  exerciseId: string,
+  formula: OneRepMaxFormula,
+  unit: WeightUnit,
+  bodyweights: BodyweightHistory
+): Promise<ExerciseSession[]> {
+  const rows = await db
+    .select({
+      workoutId: workouts.id,
+      workoutName: workouts.name,
+      date: workouts.date,
+      measurementType: exercises.measurementType,
+      set: {
+        id: sets.id,
+        setNumber: sets.setNumber,
+        weight: sets.weight,
+        weightUnit: sets.weightUnit,
+        reps: sets.reps,
+        setType: sets.setType,
+      },
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        eq(workoutExercises.exerciseId, exerciseId)
+      )
+    )
+    .orderBy(
+      asc(workouts.date),
+      asc(workouts.createdAt),
+      asc(workoutExercises.order),
+      asc(sets.setNumber)
+    );
+
+  const sessionsMap = new Map<
+    string,
+    Pick<ExerciseSession, "workoutId" | "workoutName" | "date" | "sets">
+  >();
+
+  for (const row of rows) {
+    if (!sessionsMap.has(row.workoutId)) {
+      sessionsMap.set(row.workoutId, {
+        workoutId: row.workoutId,
+        workoutName: row.workoutName,
+        date: row.date,
+        sets: [],
+      });
+    }
+
+    const { weight, weightUnit, setType, ...set } = row.set;
+    sessionsMap.get(row.workoutId)!.sets.push({
+      ...set,
+      weight: toDisplaySetWeight(weight, weightUnit, unit),
+      setType: toSetType(setType),
+    });
+  }
+
+  const type = toMeasurementType(rows[0]?.measurementType ?? "");
+  const isJudgedByLoad = rows.length > 0 && tracksLoadRecords(type);
+
+  return Array.from(sessionsMap.values()).map((session) => {
+    const bodyweight = getBodyweightOn(bodyweights, session.date);
+
+    return {
+      ...session,
+      ...(isJudgedByLoad ? summarizeSets(session.sets, formula) : noSummary),
+      bodyweight,
+      relativeStrength: isJudgedByLoad
+        ? getBestRelativeStrength(type, session.sets, bodyweight, formula)
+        : null,
+    };
+  });
+}
+
+// Best estimated 1RM the user has ever logged for each exercise, in the
+// display unit. Exercises without a weighted working set, or that aren't
+// judged by load, are left out.
+export async function getBestEstimatedOneRepMaxes(
+  userId: string,
+  exerciseIds: string[],
+  formula: OneRepMaxFormula,
+  unit: WeightUnit
+): Promise<Record<string, number>> {
+  if (exerciseIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(workoutExercises.exerciseId, exerciseIds),
+        isNotNull(sets.weight),
+        isNotNull(sets.reps),
+        ne(sets.setType, "warmup"),
+        inArray(
+          exercises.measurementType,
+          MEASUREMENT_TYPES.filter(tracksLoadRecords)
+        )
+      )
+    );
+
+  const best: Record<string, number> = {};
+
+  for (const row of rows) {
+    const weight = toDisplaySetWeight(row.weight, row.weightUnit, unit);
+    const estimate =
+      weight !== null && row.reps !== null
+        ? estimateOneRepMax(weight, row.reps, formula)
+        : null;
+
+    if (estimate !== null && estimate > (best[row.exerciseId] ?? 0)) {
+      best[row.exerciseId] = estimate;
+    }
+  }
+
+  return best;
+}
+
+const previousSetColumns = {
+  workoutId: workouts.id,
+  date: workouts.date,
+  set: {
+    setNumber: sets.setNumber,
+    weight: sets.weight,
+    weightUnit: sets.weightUnit,
+    reps: sets.reps,
+    durationSeconds: sets.durationSeconds,
+    distance: sets.distance,
+    setType: sets.setType,
+    rpe: sets.rpe,
+  },
+};
+
+type PreviousSetRow = {
+  key: string;
+  workoutId: string;
+  date: string;
+  set: {
+    setNumber: number;
+    weight: string | null;
+    weightUnit: string;
+    reps: number | null;
+    durationSeconds: number | null;
+    distance: string | null;
+    setType: string;
+    rpe: string | null;
+  };
+};
+
+function toPreviousSet(
+  { weight, weightUnit, distance, setType, rpe, ...rest }: PreviousSetRow["set"],
+  unit: WeightUnit
+): PreviousSession["sets"][number] {
+  return {
+    ...rest,
+    weight: toDisplaySetWeight(weight, weightUnit, unit),
+    distance: distance !== null ? Number(distance) : null,
+    setType: toSetType(setType),
+    rpe: rpe !== null ? Number(rpe) : null,
+  };
+}
+
+// Gathers sets (ordered by workout, then set number) into one session per
+// key
+function toPreviousSessions(rows: PreviousSetRow[], unit: WeightUnit) {
+  const sessions: Record<string, PreviousSession> = {};
+
+  for (const { key, workoutId, date, set } of rows) {
+    // With two workouts of the exercise on that day, the later one wins
+    if (sessions[key]?.workoutId !== workoutId) {
+      sessions[key] = { workoutId, date, sets: [] };
+    }
+
+    sessions[key].sets.push(toPreviousSet(set, unit));
+  }
+
+  return sessions;
+}
+
+// The last session before a date in which the user did each exercise, keyed
+// by exercise id. Exercises never done before that date are left out.
+export async function getPreviousSessions(
+  userId: string,
+  exerciseIds: string[],
+  beforeDate: string,
+  unit: WeightUnit
+): Promise<Record<string, PreviousSession>> {
+  if (exerciseIds.length === 0) {
+    return {};
+  }
+
+  const latest = db
+    .select({
+      exerciseId: workoutExercises.exerciseId,
+      date: max(workouts.date).as("latest_date"),
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(workoutExercises.exerciseId, exerciseIds),
+        lt(workouts.date, beforeDate)
+      )
+    )
+    .groupBy(workoutExercises.exerciseId)
+    .as("latest");
+
+  const rows = await db
+    .select({ key: workoutExercises.exerciseId, ...previousSetColumns })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(
+      latest,
+      and(
+        eq(workoutExercises.exerciseId, latest.exerciseId),
+        eq(workouts.date, latest.date)
+      )
+    )
+    .where(eq(workouts.userId, userId))
+    .orderBy(asc(workouts.createdAt), asc(workouts.id), asc(sets.setNumber));
+
+  return toPreviousSessions(rows, unit);
+}
+
+// For every exercise in the given workouts, the last session of it before
+// that workout's date, keyed by workout exercise id. Unlike
+// getPreviousSessions the workouts can fall on different days, and it's
+// still one query.
+export async function getPreviousPerformance(
+  userId: string,
+  workoutList: WorkoutWithExercises[],
+  unit: WeightUnit
+): Promise<Record<string, PreviousSession>> {
+  const workoutExerciseIds = workoutList.flatMap((workout) =>
+    workout.exercises.map((we) => we.id)
+  );
+
+  if (workoutExerciseIds.length === 0) {
+    return {};
+  }
+
+  const earlierExercises = alias(workoutExercises, "earlier_exercises");
+  const earlierWorkouts = alias(workouts, "earlier_workouts");
+
+  const latest = db
+    .select({
+      workoutExerciseId: workoutExercises.id,
+      exerciseId: workoutExercises.exerciseId,
+      date: max(earlierWorkouts.date).as("latest_date"),
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(
+      earlierExercises,
+      eq(earlierExercises.exerciseId, workoutExercises.exerciseId)
+    )
+    .innerJoin(
+      earlierWorkouts,
+      and(
+        eq(earlierExercises.workoutId, earlierWorkouts.id),
+        eq(earlierWorkouts.userId, userId),
+        lt(earlierWorkouts.date, workouts.date)
+      )
+    )
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(workoutExercises.id, workoutExerciseIds)
+      )
+    )
+    .groupBy(workoutExercises.id, workoutExercises.exerciseId)
+    .as("latest");
+
+  const rows = await db
+    .select({ key: latest.workoutExerciseId, ...previousSetColumns })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(
+      latest,
+      and(
+        eq(workoutExercises.exerciseId, latest.exerciseId),
+        eq(workouts.date, latest.date)
+      )
+    )
+    .where(eq(workouts.userId, userId))
+    .orderBy(asc(workouts.createdAt), asc(workouts.id), asc(sets.setNumber));
+
+  return toPreviousSessions(rows, unit);
+}
+
+export type ProgressionSettings = Pick<
+  UserSettings,
+  "weightUnit" | "progressionRule" | "repRangeMin" | "repRangeMax"
+>;
+
+// Sessions looked at per exercise when suggesting the next one; the linear
+// rule needs two to spot a stall
+const PROGRESSION_HISTORY_SESSIONS = 3;
+
+// What to lift next time for each of the exercises done before the date,
+// keyed by exercise id. See lib/progression for the rules.
+export async function getProgressionSuggestions(
+  userId: string,
+  beforeDate: string,
+  settings: ProgressionSettings,
+  exerciseIds: string[]
+): Promise<Record<string, ProgressionSuggestion>> {
+  // The latest few workouts of each exercise, most recent first, one small
+  // query per exercise so the rest of the history is never read
+  const sessionRows = await Promise.all(
+    exerciseIds.map((exerciseId) =>
+      db
+        .selectDistinct({
+          workoutId: workouts.id,
+          date: workouts.date,
+          createdAt: workouts.createdAt,
+        })
+        .from(workoutExercises)
+        .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+        .where(
+          and(
+            eq(workouts.userId, userId),
+            eq(workoutExercises.exerciseId, exerciseId),
+            lt(workouts.date, beforeDate)
+          )
+        )
+        .orderBy(desc(workouts.date), desc(workouts.createdAt), desc(workouts.id))
+        .limit(PROGRESSION_HISTORY_SESSIONS)
+    )
+  );
+
+  // Keyed by exercise id
+  const recentWorkoutIds = new Map(
+    exerciseIds.map((exerciseId, index) => [
+      exerciseId,
+      sessionRows[index].map((row) => row.workoutId),
+    ])
+  );
+  const workoutIds = [...new Set(sessionRows.flat().map((row) => row.workoutId))];
+
+  if (workoutIds.length === 0) {
+    return {};
+  }
+
+  const rows = await db
+    .select({
+      key: workoutExercises.exerciseId,
+      measurementType: exercises.measurementType,
+      ...previousSetColumns,
+    })
+    .from(sets)
+    .innerJoin(workoutExercises, eq(sets.workoutExerciseId, workoutExercises.id))
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        inArray(workouts.id, workoutIds),
+        inArray(workoutExercises.exerciseId, [...recentWorkoutIds.keys()])
+      )
+    )
+    .orderBy(
+      desc(workouts.date),
+      desc(workouts.createdAt),
+      desc(workouts.id),
+      asc(sets.setNumber)
+    );
+
+  const history: Record<
+    string,
+    { measurementType: string; sessions: PreviousSession[] }
+  > = {};
+
+  for (const { key, measurementType, workoutId, date, set } of rows) {
+    // A workout can be among the latest for one exercise but not another
+    if (!recentWorkoutIds.get(key)?.includes(workoutId)) {
+      continue;
+    }
+
+    history[key] ??= { measurementType, sessions: [] };
+    const { sessions } = history[key];
+
+    if (sessions.at(-1)?.workoutId !== workoutId) {
+      sessions.push({ workoutId, date, sets: [] });
+    }
+
+    sessions.at(-1)?.sets.push(toPreviousSet(set, settings.weightUnit));
+  }
+
+  const suggestions: Record<string, ProgressionSuggestion> = {};
+
+  for (const [exerciseId, { measurementType, sessions }] of Object.entries(
+    history
+  )) {
+    const suggestion = suggestNextSession(
+      toMeasurementType(measurementType),
+      sessions.map((session) => session.sets),
+      settings.progressionRule,
+      { min: settings.repRangeMin, max: settings.repRangeMax },
+      settings.weightUnit
+    );
+
+    if (suggestion) {
+      suggestions[exerciseId] = suggestion;
+    }
+  }
+
+  return suggestions;
+}
@@ -0,0 +1,214 @@
+import { db } from "@/db";
+import { workouts, workoutExercises, sets } from "@/db/schema";
+import { eq, and, asc, max } from "drizzle-orm";
+import type { SetType } from "@/lib/set-types";
+import type { WeightUnit } from "@/lib/units";
+import { getWorkoutExerciseById, isUnchangedSince } from "./workouts";
+import type { WorkoutSet } from "./types";
+
+const setColumns = {
+  id: sets.id,
+  workoutExerciseId: sets.workoutExerciseId,
+  setNumber: sets.setNumber,
+  weight: sets.weight,
+  weightUnit: sets.weightUnit,
+  reps: sets.reps,
+  durationSeconds: sets.durationSeconds,
+  distance: sets.distance,
+  notes: sets.notes,
+  setType: sets.setType,
+  rpe: sets.rpe,
+  rir: sets.rir,
+  tempo: sets.tempo,
+  updatedAt: sets.updatedAt,
+};
+
+// Looks up a set only if it belongs (via its workout) to the user
+export async function getSetById(
+  userId: string,
+  setId: string
+): Promise<WorkoutSet | null> {
+  const [set] = await db
+    .select(setColumns)
+    .from(sets)
+    .innerJoin(
+      workoutExercises,
+      eq(sets.workoutExerciseId, workoutExercises.id)
+    )
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(and(eq(sets.id, setId), eq(workouts.userId, userId)));
+
+  return set ?? null;
+}
+
+// Appends a set to the end of a workout exercise. A client-generated id
+// makes it idempotent: replaying the same create returns the set it made.
+export async function createSet(
+  userId: string,
+  workoutExerciseId: string,
+  data: {
+    id?: string;
+    weight?: number;
+    weightUnit: WeightUnit;
+    reps?: number;
+    durationSeconds?: number;
+    distance?: number;
+    notes?: string;
+    setType: SetType;
+    rpe?: number;
+    rir?: number;
+    tempo?: string;
+  }
+): Promise<WorkoutSet | null> {
+  if (data.id) {
+    const existing = await getSetById(userId, data.id);
+
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const workoutExercise = await getWorkoutExerciseById(userId, workoutExerciseId);
+
+  if (!workoutExercise) {
+    return null;
+  }
+
+  const [{ maxSetNumber }] = await db
+    .select({ maxSetNumber: max(sets.setNumber) })
+    .from(sets)
+    .where(eq(sets.workoutExerciseId, workoutExerciseId));
+
+  const [set] = await db
+    .insert(sets)
+    .values({
+      id: data.id,
+      workoutExerciseId,
+      setNumber: (maxSetNumber ?? 0) + 1,
+      weight: data.weight !== undefined ? data.weight.toString() : null,
+      weightUnit: data.weightUnit,
+      reps: data.reps ?? null,
+      durationSeconds: data.durationSeconds ?? null,
+      distance: data.distance !== undefined ? data.distance.toString() : null,
+      notes: data.notes ?? null,
+      setType: data.setType,
+      rpe: data.rpe !== undefined ? data.rpe.toString() : null,
+      rir: data.rir ?? null,
+      tempo: data.tempo ?? null,
+    })
+    .returning(setColumns);
+
+  return set;
+}
+
+type SetChanges = {
+  weight?: number | null;
+  weightUnit?: WeightUnit;
+  reps?: number | null;
+  durationSeconds?: number | null;
+  distance?: number | null;
+  notes?: string | null;
+  setType?: SetType;
+  rpe?: number | null;
+  rir?: number | null;
+  tempo?: string | null;
+};
+
+// Whether a set already holds everything an update would give it
+function isAlreadyApplied(set: WorkoutSet, data: SetChanges) {
+  const toNumber = (value: string | null) =>
+    value !== null ? Number(value) : null;
+  const current: Record<keyof SetChanges, unknown> = {
+    ...set,
+    weight: toNumber(set.weight),
+    distance: toNumber(set.distance),
+    rpe: toNumber(set.rpe),
+  };
+
+  return Object.entries(data).every(
+    ([key, value]) =>
+      value === undefined || current[key as keyof SetChanges] === value
+  );
+}
+
+// Given expectedUpdatedAt, only updates a set nobody has changed since it
+// was loaded. Returns null if it's gone or was changed, unless the change
+// is this very update: a replay whose first send went through but whose
+// response was lost.
+export async function updateSet(
+  userId: string,
+  setId: string,
+  data: SetChanges,
+  expectedUpdatedAt?: Date
+): Promise<WorkoutSet | null> {
+  const owned = await getSetById(userId, setId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const { weight, distance, rpe, ...rest } = data;
+  const [set] = await db
+    .update(sets)
+    .set({
+      ...rest,
+      ...(weight !== undefined && {
+        weight: weight !== null ? weight.toString() : null,
+      }),
+      ...(distance !== undefined && {
+        distance: distance !== null ? distance.toString() : null,
+      }),
+      ...(rpe !== undefined && {
+        rpe: rpe !== null ? rpe.toString() : null,
+      }),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(sets.id, setId),
+        expectedUpdatedAt && isUnchangedSince(sets.updatedAt, expectedUpdatedAt)
+      )
+    )
+    .returning(setColumns);
+
+  if (!set && expectedUpdatedAt && isAlreadyApplied(owned, data)) {
+    return owned;
+  }
+
+  return set ?? null;
+}
+
+// Deletes a set and renumbers the remaining sets of the same exercise
+export async function deleteSet(userId: string, setId: string) {
+  const owned = await getSetById(userId, setId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const siblings = await db
+    .select({ id: sets.id, setNumber: sets.setNumber })
+    .from(sets)
+    .where(eq(sets.workoutExerciseId, owned.workoutExerciseId))
+    .orderBy(asc(sets.setNumber));
+
+  const renumbers = siblings
+    .filter((sibling) => sibling.id !== setId)
+    .flatMap((sibling, index) =>
+      sibling.setNumber === index + 1
+        ? []
+        : [
+            db
+              .update(sets)
+              .set({ setNumber: index + 1 })
+              .where(eq(sets.id, sibling.id)),
+          ]
+    );
+
+  const [[deleted]] = await db.batch([
+    db.delete(sets).where(eq(sets.id, setId)).returning({ id: sets.id }),
+    ...renumbers,
+  ]);
+
+  return deleted ?? null;
+}
@@ -0,0 +1,373 @@
+import { db } from "@/db";
+import {
+  workoutTemplates,
+  templateExercises,
+  workouts,
+  workoutExercises,
+  exercises,
+  sets,
+} from "@/db/schema";
+import { eq, and, or, asc, max, isNull } from "drizzle-orm";
+import { toDisplaySetWeight, type WeightUnit } from "@/lib/units";
+import { getProgressionSuggestions, type ProgressionSettings } from "./progress";
+import type { TemplateExercise, Workout, WorkoutTemplate } from "./types";
+
+const templateColumns = {
+  id: workoutTemplates.id,
+  name: workoutTemplates.name,
+  notes: workoutTemplates.notes,
+};
+
+const templateExerciseColumns = {
+  id: templateExercises.id,
+  templateId: templateExercises.templateId,
+  exerciseId: templateExercises.exerciseId,
+  order: templateExercises.order,
+  targetSets: templateExercises.targetSets,
+  targetReps: templateExercises.targetReps,
+  targetWeight: templateExercises.targetWeight,
+  targetWeightUnit: templateExercises.targetWeightUnit,
+};
+
+type TemplateTargets = {
+  targetSets: number;
+  targetReps: number;
+  targetWeight: number | null;
+  weightUnit: WeightUnit;
+};
+
+function toTargetColumns({ weightUnit, ...targets }: TemplateTargets) {
+  return {
+    ...targets,
+    targetWeight:
+      targets.targetWeight !== null ? targets.targetWeight.toString() : null,
+    targetWeightUnit: weightUnit,
+  };
+}
+
+async function getOwnedTemplate(userId: string, templateId: string) {
+  const [template] = await db
+    .select({ id: workoutTemplates.id })
+    .from(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, userId)
+      )
+    );
+
+  return template ?? null;
+}
+
+// Looks up a template exercise only if its template belongs to the user
+async function getOwnedTemplateExercise(
+  userId: string,
+  templateExerciseId: string
+) {
+  const [templateExercise] = await db
+    .select(templateExerciseColumns)
+    .from(templateExercises)
+    .innerJoin(
+      workoutTemplates,
+      eq(templateExercises.templateId, workoutTemplates.id)
+    )
+    .where(
+      and(
+        eq(templateExercises.id, templateExerciseId),
+        eq(workoutTemplates.userId, userId)
+      )
+    );
+
+  return templateExercise ?? null;
+}
+
+export async function getTemplates(
+  userId: string,
+  unit: WeightUnit
+): Promise<WorkoutTemplate[]> {
+  const rows = await db
+    .select({
+      template: templateColumns,
+      templateExercise: {
+        id: templateExercises.id,
+        order: templateExercises.order,
+        targetSets: templateExercises.targetSets,
+        targetReps: templateExercises.targetReps,
+        targetWeight: templateExercises.targetWeight,
+        targetWeightUnit: templateExercises.targetWeightUnit,
+      },
+      exercise: {
+        id: exercises.id,
+        name: exercises.name,
+        primaryMuscle: exercises.primaryMuscle,
+      },
+    })
+    .from(workoutTemplates)
+    .leftJoin(
+      templateExercises,
+      eq(templateExercises.templateId, workoutTemplates.id)
+    )
+    .leftJoin(exercises, eq(exercises.id, templateExercises.exerciseId))
+    .where(eq(workoutTemplates.userId, userId))
+    .orderBy(asc(workoutTemplates.name), asc(templateExercises.order));
+
+  const templatesMap = new Map<string, WorkoutTemplate>();
+
+  for (const row of rows) {
+    if (!templatesMap.has(row.template.id)) {
+      templatesMap.set(row.template.id, { ...row.template, exercises: [] });
+    }
+
+    if (!row.templateExercise || !row.exercise) {
+      continue;
+    }
+
+    const { targetWeight, targetWeightUnit, ...templateExercise } =
+      row.templateExercise;
+    templatesMap.get(row.template.id)!.exercises.push({
+      ...templateExercise,
+      exercise: row.exercise,
+      targetWeight: toDisplaySetWeight(targetWeight, targetWeightUnit, unit),
+    });
+  }
+
+  return Array.from(templatesMap.values());
+}
+
+export async function createTemplate(
+  userId: string,
+  data: { name: string; notes?: string }
+): Promise<Omit<WorkoutTemplate, "exercises">> {
+  const [template] = await db
+    .insert(workoutTemplates)
+    .values({ userId, name: data.name, notes: data.notes ?? null })
+    .returning(templateColumns);
+
+  return template;
+}
+
+export async function updateTemplate(
+  userId: string,
+  templateId: string,
+  data: { name?: string; notes?: string | null }
+): Promise<Omit<WorkoutTemplate, "exercises"> | null> {
+  const [template] = await db
+    .update(workoutTemplates)
+    .set({ ...data, updatedAt: new Date() })
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, userId)
+      )
+    )
+    .returning(templateColumns);
+
+  return template ?? null;
+}
+
+export async function deleteTemplate(userId: string, templateId: string) {
+  const [deleted] = await db
+    .delete(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, userId)
+      )
+    )
+    .returning({ id: workoutTemplates.id });
+
+  return deleted ?? null;
+}
+
+// Appends an exercise from the catalog to the end of a template
+export async function addTemplateExercise(
+  userId: string,
+  templateId: string,
+  data: { exerciseId: string } & TemplateTargets
+): Promise<TemplateExercise | null> {
+  const { exerciseId, ...targets } = data;
+  const [template, [exercise]] = await Promise.all([
+    getOwnedTemplate(userId, templateId),
+    db
+      .select({ id: exercises.id })
+      .from(exercises)
+      .where(
+        and(
+          eq(exercises.id, exerciseId),
+          or(isNull(exercises.userId), eq(exercises.userId, userId))
+        )
+      ),
+  ]);
+
+  if (!template || !exercise) {
+    return null;
+  }
+
+  const [{ maxOrder }] = await db
+    .select({ maxOrder: max(templateExercises.order) })
+    .from(templateExercises)
+    .where(eq(templateExercises.templateId, templateId));
+
+  const [templateExercise] = await db
+    .insert(templateExercises)
+    .values({
+      templateId,
+      exerciseId,
+      order: (maxOrder ?? 0) + 1,
+      ...toTargetColumns(targets),
+    })
+    .returning(templateExerciseColumns);
+
+  return templateExercise;
+}
+
+export async function updateTemplateExercise(
+  userId: string,
+  templateExerciseId: string,
+  targets: TemplateTargets
+): Promise<TemplateExercise | null> {
+  const owned = await getOwnedTemplateExercise(userId, templateExerciseId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const [templateExercise] = await db
+    .update(templateExercises)
+    .set(toTargetColumns(targets))
+    .where(eq(templateExercises.id, templateExerciseId))
+    .returning(templateExerciseColumns);
+
+  return templateExercise ?? null;
+}
+
+// Removes an exercise from a template and closes the gap in the ordering
+export async function removeTemplateExercise(
+  userId: string,
+  templateExerciseId: string
+) {
+  const owned = await getOwnedTemplateExercise(userId, templateExerciseId);
+
+  if (!owned) {
+    return null;
+  }
+
+  const siblings = await db
+    .select({ id: templateExercises.id, order: templateExercises.order })
+    .from(templateExercises)
+    .where(eq(templateExercises.templateId, owned.templateId))
+    .orderBy(asc(templateExercises.order));
+
+  const reorders = siblings
+    .filter((sibling) => sibling.id !== templateExerciseId)
+    .flatMap((sibling, index) =>
+      sibling.order === index + 1
+        ? []
+        : [
+            db
+              .update(templateExercises)
+              .set({ order: index + 1 })
+              .where(eq(templateExercises.id, sibling.id)),
+          ]
+    );
+
+  const [[deleted]] = await db.batch([
+    db
+      .delete(templateExercises)
+      .where(eq(templateExercises.id, templateExerciseId))
+      .returning({ id: templateExercises.id }),
+    ...reorders,
+  ]);
+
+  return deleted ?? null;
+}
+
+// Creates a workout on the given date with the template's exercises and one
+// planned set per target set, pre-filled with the exercise's progression
+// suggestion or, without one, the target reps and weight. Ids are generated
+// up front so the whole workout is inserted in one batch.
+export async function startWorkoutFromTemplate(
+  userId: string,
+  templateId: string,
+  date: string,
+  settings: ProgressionSettings
+): Promise<Workout | null> {
+  const [template] = await db
+    .select(templateColumns)
+    .from(workoutTemplates)
+    .where(
+      and(
+        eq(workoutTemplates.id, templateId),
+        eq(workoutTemplates.userId, userId)
+      )
+    );
+
+  if (!template) {
+    return null;
+  }
+
+  const plannedExercises = await db
+    .select(templateExerciseColumns)
+    .from(templateExercises)
+    .where(eq(templateExercises.templateId, templateId))
+    .orderBy(asc(templateExercises.order));
+
+  const suggestions = await getProgressionSuggestions(
+    userId,
+    date,
+    settings,
+    plannedExercises.map((planned) => planned.exerciseId)
+  );
+
+  const workoutId = crypto.randomUUID();
+  const exerciseRows = plannedExercises.map((planned) => ({
+    id: crypto.randomUUID(),
+    workoutId,
+    exerciseId: planned.exerciseId,
+    order: planned.order,
+  }));
+  const setRows = plannedExercises.flatMap((planned, index) => {
+    const suggestion = suggestions[planned.exerciseId];
+
+    return Array.from({ length: planned.targetSets }, (_, setIndex) => ({
+      workoutExerciseId: exerciseRows[index].id,
+      setNumber: setIndex + 1,
+      ...(suggestion
+        ? {
+            weight: suggestion.weight?.toString() ?? null,
+            weightUnit: settings.weightUnit,
+            reps: suggestion.reps,
+          }
+        : {
+            weight: planned.targetWeight,
+            weightUnit: planned.targetWeightUnit,
+            reps: planned.targetReps,
+          }),
+    }));
+  });
+
+  const [[workout]] = await db.batch([
+    db
+      .insert(workouts)
+      .values({
+        id: workoutId,
+        userId,
+        name: template.name,
+        date,
+        notes: template.notes,
+      })
+      .returning({
+        id: workouts.id,
+        name: workouts.name,
+        date: workouts.date,
+        notes: workouts.notes,
+        updatedAt: workouts.updatedAt,
+      }),
+    ...(exerciseRows.length > 0
+      ? [db.insert(workoutExercises).values(exerciseRows)]
+      : []),
+    ...(setRows.length > 0 ? [db.insert(sets).values(setRows)] : []),
+  ]);
+
+  return workout;
+}
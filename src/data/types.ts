@@ -1,22 +1,51 @@
+import type { Circumference, LengthUnit } from "@/lib/body-measurements";
+import type { PersonalRecordType } from "@/lib/personal-records";
+import type { PrescriptionType } from "@/lib/programs";
+import type { WeekStartDay } from "@/lib/dates";
+import type { MeasurementType } from "@/lib/measurement-types";
+import type { MuscleGroup } from "@/lib/muscles";
+import type { OneRepMaxFormula } from "@/lib/one-rep-max";
+import type { ProgressionRule } from "@/lib/progression";
+import type { SetType } from "@/lib/set-types";
+import type { Streak } from "@/lib/streaks";
+import type { WeightUnit } from "@/lib/units";
+
 export type WorkoutWithExercises = {
   id: string;
   name: string | null;
   date: string;
   notes: string | null;
+  // When the workout was started and finished in session mode
+  startedAt: Date | null;
+  completedAt: Date | null;
+  // Sent back with edits, so one made on stale data is turned down
+  updatedAt: Date;
   exercises: {
     id: string;
     order: number;
+    // Shared by the exercises of a superset, see lib/supersets
+    groupId: string | null;
     exercise: {
       id: string;
       name: string;
       primaryMuscle: string | null;
+      measurementType: MeasurementType;
     };
     sets: {
       id: string;
       setNumber: number;
-      weight: string | null;
-      reps: number;
+      // In the user's display unit
+      weight: number | null;
+      reps: number | null;
+      durationSeconds: number | null;
+      // Metres
+      distance: number | null;
       notes: string | null;
+      setType: SetType;
+      rpe: number | null;
+      rir: number | null;
+      tempo: string | null;
+      updatedAt: Date;
     }[];
   }[];
 };
@@ -31,4 +60,403 @@ export type WorkoutSummary = {
     date: string;
   }[];
   lastWorkoutDate: string | null;
+  // Consecutive days and weeks trained, counted in the user's timezone
+  dayStreak: Streak;
+  weekStreak: Streak;
+  // Sessions and tonnage (display unit) for the last 12 weeks, oldest first,
+  // the current week included
+  weeklyTrend: { weekStart: string; sessions: number; volume: number }[];
+  // The last 30 days against the 30 days before them
+  currentPeriod: PeriodTotals;
+  previousPeriod: PeriodTotals;
+};
+
+export type PeriodTotals = {
+  workouts: number;
+  sets: number;
+  volume: number;
+};
+
+// Training logged on one date, with volume in the user's display unit
+export type TrainingDay = {
+  date: string;
+  workoutCount: number;
+  setCount: number;
+  volume: number;
+};
+
+// Hard sets and tonnage (in the display unit) per muscle group for one week.
+// Secondary muscles are credited with a fraction of each set.
+export type MuscleVolumeWeek = {
+  weekStart: string;
+  muscles: Record<MuscleGroup, { hardSets: number; tonnage: number }>;
+};
+
+// Each exercise's best estimated 1RM over a period against the bodyweight on
+// the day it was lifted
+export type RelativeStrength = {
+  exerciseId: string;
+  exerciseName: string;
+  date: string;
+  // Effective load, so bodyweight exercises include the lifter; both in the
+  // display unit
+  estimatedOneRepMax: number;
+  bodyweight: number;
+  ratio: number;
+};
+
+export type Workout = {
+  id: string;
+  name: string | null;
+  date: string;
+  notes: string | null;
+  updatedAt: Date;
+};
+
+export type WorkoutExercise = {
+  id: string;
+  workoutId: string;
+  exerciseId: string;
+  order: number;
+  groupId: string | null;
+};
+
+export type WorkoutSet = {
+  id: string;
+  workoutExerciseId: string;
+  setNumber: number;
+  weight: string | null;
+  weightUnit: string;
+  reps: number | null;
+  durationSeconds: number | null;
+  distance: string | null;
+  notes: string | null;
+  setType: string;
+  rpe: string | null;
+  rir: number | null;
+  tempo: string | null;
+  updatedAt: Date;
+};
+
+export type Exercise = {
+  id: string;
+  name: string;
+  primaryMuscle: string | null;
+  secondaryMuscles: string[] | null;
+  measurementType: MeasurementType;
+  isCustom: boolean;
+};
+
+export type WorkoutTemplate = {
+  id: string;
+  name: string;
+  notes: string | null;
+  exercises: {
+    id: string;
+    order: number;
+    exercise: {
+      id: string;
+      name: string;
+      primaryMuscle: string | null;
+    };
+    targetSets: number;
+    targetReps: number;
+    // In the user's display unit
+    targetWeight: number | null;
+  }[];
+};
+
+export type TemplateExercise = {
+  id: string;
+  templateId: string;
+  exerciseId: string;
+  order: number;
+  targetSets: number;
+  targetReps: number;
+  targetWeight: string | null;
+  targetWeightUnit: string;
+};
+
+export type ProgramExercise = {
+  id: string;
+  order: number;
+  exercise: {
+    id: string;
+    name: string;
+    primaryMuscle: string | null;
+  };
+  sets: number;
+  reps: number;
+  prescriptionType: PrescriptionType;
+  // Starting % of 1RM, for percentage prescriptions
+  percentage: number | null;
+  // Starting weight in the user's display unit, for weight prescriptions
+  weight: number | null;
+  // Percentage points or display-unit weight added each week
+  progressionPerWeek: number;
+};
+
+export type Program = {
+  id: string;
+  name: string;
+  notes: string | null;
+  startDate: string;
+  deloadPercentage: number;
+  weeks: {
+    id: string;
+    weekNumber: number;
+    isDeload: boolean;
+  }[];
+  days: {
+    id: string;
+    name: string;
+    dayOffset: number;
+    exercises: ProgramExercise[];
+  }[];
+};
+
+export type ProgramAdherence = {
+  // Sessions scheduled up to and including today
+  scheduledSessions: number;
+  prescribedSets: number;
+  completedSets: number;
+};
+
+// A program day resolved for one calendar date, with what was logged against it
+export type PlannedSession = {
+  programId: string;
+  programName: string;
+  programDayId: string;
+  dayName: string;
+  date: string;
+  weekNumber: number;
+  isDeload: boolean;
+  exercises: {
+    programExerciseId: string;
+    exercise: {
+      id: string;
+      name: string;
+    };
+    sets: number;
+    reps: number;
+    // This week's % of 1RM, for percentage prescriptions
+    percentage: number | null;
+    // In the user's display unit; null when no 1RM is known yet
+    weight: number | null;
+    completedSets: number;
+  }[];
+  prescribedSets: number;
+  completedSets: number;
+};
+
+export type ExerciseSession = {
+  workoutId: string;
+  workoutName: string | null;
+  date: string;
+  sets: {
+    id: string;
+    setNumber: number;
+    weight: number | null;
+    reps: number | null;
+    setType: SetType;
+  }[];
+  // Warm-up sets are left out of these
+  topSet: { weight: number; reps: number } | null;
+  volume: number;
+  estimatedOneRepMax: number | null;
+  // Bodyweight on the day, and the best estimated 1RM of the effective load
+  // as a multiple of it
+  bodyweight: number | null;
+  relativeStrength: number | null;
+};
+
+// The most recent earlier session of an exercise, for comparing against
+export type PreviousSession = {
+  workoutId: string;
+  date: string;
+  sets: {
+    setNumber: number;
+    // In the user's display unit
+    weight: number | null;
+    reps: number | null;
+    durationSeconds: number | null;
+    // Metres
+    distance: number | null;
+    setType: SetType;
+    rpe: number | null;
+  }[];
+};
+
+export type PersonalRecordFlags = {
+  // Record types broken by each set, keyed by set id
+  sets: Record<string, PersonalRecordType[]>;
+  // Session-level records (volume), keyed by workout exercise id
+  exercises: Record<string, PersonalRecordType[]>;
+};
+
+export type RecentPersonalRecord = {
+  // Set id, or workout and exercise ids for volume records
+  id: string;
+  // Every record a set (or session, for volume) broke at once
+  types: PersonalRecordType[];
+  exerciseId: string;
+  exerciseName: string;
+  workoutId: string;
+  date: string;
+  weight: number | null;
+  reps: number | null;
+  volume: number | null;
+};
+
+export type UserSettings = {
+  weightUnit: WeightUnit;
+  weekStartsOn: WeekStartDay;
+  restTimerSeconds: number;
+  // In weightUnit
+  bodyweight: number | null;
+  oneRepMaxFormula: OneRepMaxFormula;
+  // IANA zone used to decide what "today" is
+  timeZone: string;
+  // How next-session suggestions are worked out, see lib/progression
+  progressionRule: ProgressionRule;
+  repRangeMin: number;
+  repRangeMax: number;
+};
+
+// One day's body measurements. Bodyweight is in the user's display unit and
+// circumferences in the length unit that goes with it (see getLengthUnit).
+export type BodyMeasurement = {
+  id: string;
+  date: string;
+  bodyweight: number | null;
+  bodyFatPercentage: number | null;
+  notes: string | null;
+} & Record<Circumference, number | null>;
+
+// One logged set flattened for export, with the weight as stored
+export type SetExportRow = {
+  date: string;
+  workoutName: string | null;
+  exerciseName: string;
+  primaryMuscle: string | null;
+  setNumber: number;
+  weight: string | null;
+  weightUnit: string;
+  reps: number | null;
+  durationSeconds: number | null;
+  distance: string | null;
+  notes: string | null;
+  setType: string;
+  rpe: string | null;
+  rir: number | null;
+  tempo: string | null;
+};
+
+// What an import or backup restore wrote, and what it left out because it
+// was already logged
+export type ImportSummary = {
+  workoutCount: number;
+  setCount: number;
+  createdExerciseCount: number;
+  // Exercises skipped because the same exercise is logged on that date
+  skippedExerciseCount: number;
+};
+
+// An exercise as a backup refers to it
+type BackupExerciseReference = {
+  id: string;
+  name: string;
+  // Null for custom exercises
+  slug: string | null;
+};
+
+// Lossless copy of a user's training log, templates, programs and body
+// measurements, nested like WorkoutWithExercises but with weights and
+// measurements exactly as logged. Only custom
+// exercises are included; library exercises are referenced by slug so they
+// resolve in any database.
+export type Backup = {
+  version: number;
+  exportedAt: string;
+  settings: UserSettings;
+  exercises: {
+    id: string;
+    name: string;
+    primaryMuscle: string | null;
+    secondaryMuscles: string[];
+    measurementType: MeasurementType;
+  }[];
+  workouts: {
+    id: string;
+    name: string | null;
+    date: string;
+    notes: string | null;
+    // ISO timestamps
+    startedAt: string | null;
+    completedAt: string | null;
+    exercises: {
+      id: string;
+      order: number;
+      groupId: string | null;
+      exercise: BackupExerciseReference;
+      sets: {
+        id: string;
+        setNumber: number;
+        weight: string | null;
+        weightUnit: WeightUnit;
+        reps: number | null;
+        durationSeconds: number | null;
+        distance: string | null;
+        notes: string | null;
+        setType: SetType;
+        rpe: string | null;
+        rir: number | null;
+        tempo: string | null;
+      }[];
+    }[];
+  }[];
+  templates: {
+    id: string;
+    name: string;
+    notes: string | null;
+    exercises: {
+      order: number;
+      exercise: BackupExerciseReference;
+      targetSets: number;
+      targetReps: number;
+      targetWeight: string | null;
+      targetWeightUnit: WeightUnit;
+    }[];
+  }[];
+  programs: {
+    id: string;
+    name: string;
+    notes: string | null;
+    startDate: string;
+    deloadPercentage: number;
+    weeks: { weekNumber: number; isDeload: boolean }[];
+    days: {
+      name: string;
+      dayOffset: number;
+      exercises: {
+        order: number;
+        exercise: BackupExerciseReference;
+        sets: number;
+        reps: number;
+        prescriptionType: PrescriptionType;
+        percentage: string | null;
+        weight: string | null;
+        weightUnit: WeightUnit;
+        progressionPerWeek: string;
+      }[];
+    }[];
+  }[];
+  bodyMeasurements: ({
+    date: string;
+    bodyweight: string | null;
+    bodyweightUnit: WeightUnit;
+    bodyFatPercentage: string | null;
+    lengthUnit: LengthUnit;
+    notes: string | null;
+  } & Record<Circumference, string | null>)[];
 };
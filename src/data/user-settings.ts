@@ -0,0 +1,124 @@
+import { db } from "@/db";
+import { userSettings } from "@/db/schema";
+import { eq } from "drizzle-orm";
+import { isOneRepMaxFormula } from "@/lib/one-rep-max";
+import { toDisplayBodyweight } from "@/lib/body-measurements";
+import { isValidTimeZone, isWeekStartDay } from "@/lib/dates";
+import {
+  DEFAULT_PROGRESSION_RULE,
+  DEFAULT_REP_RANGE,
+  toProgressionRule,
+} from "@/lib/progression";
+import {
+  DEFAULT_WEIGHT_UNIT,
+  isWeightUnit,
+  type WeightUnit,
+} from "@/lib/units";
+import type { UserSettings } from "./types";
+
+// Settings for users who never saved any
+const defaultSettings: UserSettings = {
+  weightUnit: DEFAULT_WEIGHT_UNIT,
+  weekStartsOn: 1,
+  restTimerSeconds: 90,
+  bodyweight: null,
+  oneRepMaxFormula: "epley",
+  timeZone: "UTC",
+  progressionRule: DEFAULT_PROGRESSION_RULE,
+  repRangeMin: DEFAULT_REP_RANGE.min,
+  repRangeMax: DEFAULT_REP_RANGE.max,
+};
+
+type UserSettingsRow = typeof userSettings.$inferSelect;
+
+// Falls back to the default for any value the app no longer understands, and
+// reports bodyweight in the user's current weight unit
+function toUserSettings(row: UserSettingsRow): UserSettings {
+  const weightUnit = isWeightUnit(row.weightUnit)
+    ? row.weightUnit
+    : defaultSettings.weightUnit;
+  const bodyweightUnit: WeightUnit = isWeightUnit(row.bodyweightUnit)
+    ? row.bodyweightUnit
+    : weightUnit;
+
+  return {
+    weightUnit,
+    weekStartsOn: isWeekStartDay(row.weekStartsOn)
+      ? row.weekStartsOn
+      : defaultSettings.weekStartsOn,
+    restTimerSeconds: row.restTimerSeconds,
+    bodyweight:
+      row.bodyweight !== null
+        ? toDisplayBodyweight(Number(row.bodyweight), bodyweightUnit, weightUnit)
+        : null,
+    oneRepMaxFormula: isOneRepMaxFormula(row.oneRepMaxFormula)
+      ? row.oneRepMaxFormula
+      : defaultSettings.oneRepMaxFormula,
+    timeZone: isValidTimeZone(row.timeZone)
+      ? row.timeZone
+      : defaultSettings.timeZone,
+    progressionRule: toProgressionRule(row.progressionRule),
+    repRangeMin: row.repRangeMin,
+    repRangeMax: row.repRangeMax,
+  };
+}
+
+export async function getUserSettings(userId: string): Promise<UserSettings> {
+  const [row] = await db
+    .select()
+    .from(userSettings)
+    .where(eq(userSettings.userId, userId));
+
+  return row ? toUserSettings(row) : defaultSettings;
+}
+
+// Creates the user's settings row on first save. Bodyweight is taken to be in
+// the weight unit being saved alongside it, or the current one.
+export async function updateUserSettings(
+  userId: string,
+  data: Partial<UserSettings>
+): Promise<UserSettings> {
+  const { bodyweight, ...rest } = data;
+  const current = await getUserSettings(userId);
+  const values = {
+    ...rest,
+    ...(bodyweight !== undefined && {
+      bodyweight: bodyweight !== null ? bodyweight.toString() : null,
+      bodyweightUnit: data.weightUnit ?? current.weightUnit,
+    }),
+  };
+
+  const [row] = await db
+    .insert(userSettings)
+    .values({
+      ...defaultSettings,
+      bodyweight: null,
+      ...values,
+      userId,
+    })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: { ...values, updatedAt: new Date() },
+    })
+    .returning();
+
+  return toUserSettings(row);
+}
+
+// Overwrites every setting, unexecuted so it can run inside a batch
+export function replaceUserSettings(userId: string, settings: UserSettings) {
+  const values = {
+    ...settings,
+    bodyweight:
+      settings.bodyweight !== null ? settings.bodyweight.toString() : null,
+    bodyweightUnit: settings.weightUnit,
+  };
+
+  return db
+    .insert(userSettings)
+    .values({ ...values, userId })
+    .onConflictDoUpdate({
+      target: userSettings.userId,
+      set: { ...values, updatedAt: new Date() },
+    });
+}
@@ -1,7 +1,57 @@
 import { db } from "@/db";
 import { workouts, workoutExercises, exercises, sets } from "@/db/schema";
-import { eq, and, desc, sql, gte } from "drizzle-orm";
-import type { WorkoutWithExercises, WorkoutSummary } from "./types";
+import {
+  eq,
+  and,
+  or,
+  asc,
+  desc,
+  sql,
+  gte,
+  lt,
+  lte,
+  max,
+  ne,
+  isNull,
+  isNotNull,
+  type AnyColumn,
+} from "drizzle-orm";
+import {
+  addMilliseconds,
+  addWeeks,
+  format,
+  parse,
+  startOfWeek,
+  subDays,
+  subWeeks,
+} from "date-fns";
+import {
+  getBodyweightOn,
+  type BodyweightHistory,
+} from "@/lib/body-measurements";
+import { getTodayInTimeZone, type WeekStartDay } from "@/lib/dates";
+import { getSetVolume, toMeasurementType } from "@/lib/measurement-types";
+import { isWarmUpSet, toSetType } from "@/lib/set-types";
+import { getDayStreak, getWeekStreak } from "@/lib/streaks";
+import { getGroupIds, getSupersetLinks } from "@/lib/supersets";
+import {
+  convertWeight,
+  isWeightUnit,
+  toDisplaySetWeight,
+  type WeightUnit,
+} from "@/lib/units";
+import type { WorkoutCopyMode } from "@/lib/workout-copy";
+import type {
+  Workout,
+  WorkoutExercise,
+  WorkoutWithExercises,
+  WorkoutSummary,
+  TrainingDay,
+  PeriodTotals,
+} from "./types";
+
+// Weeks of history in the home page trend
+const TREND_WEEKS = 12;
 
 type WorkoutRow = {
   workout: {
@@ -9,27 +59,43 @@ type WorkoutRow = {
     name: string | null;
     date: string;
     notes: string | null;
+    startedAt: Date | null;
+    completedAt: Date | null;
+    updatedAt: Date;
   };
   workoutExercise: {
     id: string;
     order: number;
+    groupId: string | null;
   } | null;
   exercise: {
     id: string;
     name: string;
     primaryMuscle: string | null;
+    measurementType: string;
   } | null;
   set: {
     id: string;
     setNumber: number;
     weight: string | null;
-    reps: number;
+    weightUnit: string;
+    reps: number | null;
+    durationSeconds: number | null;
+    distance: string | null;
     notes: string | null;
+    setType: string;
+    rpe: string | null;
+    rir: number | null;
+    tempo: string | null;
+    updatedAt: Date;
   } | null;
 };
 
+type WorkoutSetEntry = WorkoutWithExercises["exercises"][number]["sets"][number];
+
 function transformToWorkoutWithExercises(
-  rows: WorkoutRow[]
+  rows: WorkoutRow[],
+  unit: WeightUnit
 ): WorkoutWithExercises[] {
   const workoutsMap = new Map<
     string,
@@ -40,7 +106,7 @@ function transformToWorkoutWithExercises(
         {
           workoutExercise: NonNullable<WorkoutRow["workoutExercise"]>;
           exercise: NonNullable<WorkoutRow["exercise"]>;
-          sets: NonNullable<WorkoutRow["set"]>[];
+          sets: WorkoutSetEntry[];
         }
       >;
     }
@@ -73,7 +139,14 @@ function transformToWorkoutWithExercises(
 
     // Add set if present
     if (row.set) {
-      exerciseEntry.sets.push(row.set);
+      const { weight, weightUnit, distance, setType, rpe, ...set } = row.set;
+      exerciseEntry.sets.push({
+        ...set,
+        weight: toDisplaySetWeight(weight, weightUnit, unit),
+        distance: distance !== null ? Number(distance) : null,
+        setType: toSetType(setType),
+        rpe: rpe !== null ? Number(rpe) : null,
+      });
     }
   }
 
@@ -83,15 +156,20 @@ function transformToWorkoutWithExercises(
     name: workout.name,
     date: workout.date,
     notes: workout.notes,
+    startedAt: workout.startedAt,
+    completedAt: workout.completedAt,
+    updatedAt: workout.updatedAt,
     exercises: Array.from(exercisesMap.values())
       .sort((a, b) => a.workoutExercise.order - b.workoutExercise.order)
       .map(({ workoutExercise, exercise, sets }) => ({
         id: workoutExercise.id,
         order: workoutExercise.order,
+        groupId: workoutExercise.groupId,
         exercise: {
           id: exercise.id,
           name: exercise.name,
           primaryMuscle: exercise.primaryMuscle,
+          measurementType: toMeasurementType(exercise.measurementType),
         },
         sets: sets.sort((a, b) => a.setNumber - b.setNumber),
       })),
@@ -100,88 +178,207 @@ function transformToWorkoutWithExercises(
 
 export async function getWorkoutsByDate(
   userId: string,
-  date: string
+  date: string,
+  unit: WeightUnit
+): Promise<WorkoutWithExercises[]> {
+  return getWorkoutsInRange(userId, date, date, unit);
+}
+
+const workoutRowColumns = {
+  workout: {
+    id: workouts.id,
+    name: workouts.name,
+    date: workouts.date,
+    notes: workouts.notes,
+    startedAt: workouts.startedAt,
+    completedAt: workouts.completedAt,
+    updatedAt: workouts.updatedAt,
+  },
+  workoutExercise: {
+    id: workoutExercises.id,
+    order: workoutExercises.order,
+    groupId: workoutExercises.groupId,
+  },
+  exercise: {
+    id: exercises.id,
+    name: exercises.name,
+    primaryMuscle: exercises.primaryMuscle,
+    measurementType: exercises.measurementType,
+  },
+  set: {
+    id: sets.id,
+    setNumber: sets.setNumber,
+    weight: sets.weight,
+    weightUnit: sets.weightUnit,
+    reps: sets.reps,
+    durationSeconds: sets.durationSeconds,
+    distance: sets.distance,
+    notes: sets.notes,
+    setType: sets.setType,
+    rpe: sets.rpe,
+    rir: sets.rir,
+    tempo: sets.tempo,
+    updatedAt: sets.updatedAt,
+  },
+};
+
+// Workouts from fromDate to toDate inclusive, oldest first
+export async function getWorkoutsInRange(
+  userId: string,
+  fromDate: string,
+  toDate: string,
+  unit: WeightUnit
 ): Promise<WorkoutWithExercises[]> {
   const rows = await db
-    .select({
-      workout: {
-        id: workouts.id,
-        name: workouts.name,
-        date: workouts.date,
-        notes: workouts.notes,
-      },
-      workoutExercise: {
-        id: workoutExercises.id,
-        order: workoutExercises.order,
-      },
-      exercise: {
-        id: exercises.id,
-        name: exercises.name,
-        primaryMuscle: exercises.primaryMuscle,
-      },
-      set: {
-        id: sets.id,
-        setNumber: sets.setNumber,
-        weight: sets.weight,
-        reps: sets.reps,
-        notes: sets.notes,
-      },
-    })
+    .select(workoutRowColumns)
     .from(workouts)
     .leftJoin(workoutExercises, eq(workoutExercises.workoutId, workouts.id))
     .leftJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
     .leftJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
-    .where(and(eq(workouts.userId, userId), eq(workouts.date, date)))
-    .orderBy(workouts.id, workoutExercises.order, sets.setNumber);
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate)
+      )
+    )
+    .orderBy(workouts.date, workouts.id, workoutExercises.order, sets.setNumber);
 
-  return transformToWorkoutWithExercises(rows);
+  return transformToWorkoutWithExercises(rows, unit);
 }
 
+export async function getWorkoutById(
+  userId: string,
+  workoutId: string,
+  unit: WeightUnit
+): Promise<WorkoutWithExercises | null> {
+  const rows = await db
+    .select(workoutRowColumns)
+    .from(workouts)
+    .leftJoin(workoutExercises, eq(workoutExercises.workoutId, workouts.id))
+    .leftJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
+    .leftJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
+    .where(and(eq(workouts.id, workoutId), eq(workouts.userId, userId)))
+    .orderBy(workoutExercises.order, sets.setNumber);
+
+  const [workout] = transformToWorkoutWithExercises(rows, unit);
+  return workout ?? null;
+}
+
+// Totals, streaks and trends for the home page. "Today", the 30-day periods
+// and week boundaries all follow the user's timezone and week start.
 export async function getWorkoutSummary(
-  userId: string
+  userId: string,
+  timeZone: string,
+  weekStartsOn: WeekStartDay,
+  unit: WeightUnit,
+  bodyweights: BodyweightHistory
 ): Promise<WorkoutSummary> {
-  const thirtyDaysAgo = new Date();
-  thirtyDaysAgo.setDate(thirtyDaysAgo.getDate() - 30);
-  const thirtyDaysAgoStr = thirtyDaysAgo.toISOString().split("T")[0];
-
-  const [totalWorkoutsResult, recentWorkouts, exercisesResult, setsResult] =
-    await Promise.all([
-      db
-        .select({ count: sql<number>`count(*)` })
-        .from(workouts)
-        .where(eq(workouts.userId, userId)),
-
-      db
-        .select({
-          id: workouts.id,
-          name: workouts.name,
-          date: workouts.date,
-        })
-        .from(workouts)
-        .where(eq(workouts.userId, userId))
-        .orderBy(desc(workouts.date))
-        .limit(5),
-
-      db
-        .select({ count: sql<number>`count(*)` })
-        .from(workoutExercises)
-        .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
-        .where(
-          and(eq(workouts.userId, userId), gte(workouts.date, thirtyDaysAgoStr))
-        ),
-
-      db
-        .select({ count: sql<number>`count(*)` })
-        .from(sets)
-        .innerJoin(
-          workoutExercises,
-          eq(sets.workoutExerciseId, workoutExercises.id)
+  const todayStr = getTodayInTimeZone(timeZone);
+  const today = parse(todayStr, "yyyy-MM-dd", new Date());
+  // Today and the 29 days before it, then the 30 days before that
+  const currentPeriodStart = format(subDays(today, 29), "yyyy-MM-dd");
+  const previousPeriodStart = format(subDays(today, 59), "yyyy-MM-dd");
+  const previousPeriodEnd = format(subDays(today, 30), "yyyy-MM-dd");
+  const trendStart = subWeeks(
+    startOfWeek(today, { weekStartsOn }),
+    TREND_WEEKS - 1
+  );
+  const trendStartStr = format(trendStart, "yyyy-MM-dd");
+
+  const [
+    totalWorkoutsResult,
+    recentWorkouts,
+    exercisesResult,
+    setsResult,
+    workoutDates,
+    trainingDays,
+  ] = await Promise.all([
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(workouts)
+      .where(eq(workouts.userId, userId)),
+
+    db
+      .select({
+        id: workouts.id,
+        name: workouts.name,
+        date: workouts.date,
+      })
+      .from(workouts)
+      .where(eq(workouts.userId, userId))
+      .orderBy(desc(workouts.date))
+      .limit(5),
+
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(workoutExercises)
+      .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+      .where(
+        and(
+          eq(workouts.userId, userId),
+          gte(workouts.date, currentPeriodStart)
         )
-        .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
-        .where(
-          and(eq(workouts.userId, userId), gte(workouts.date, thirtyDaysAgoStr))
-        ),
-    ]);
+      ),
+
+    db
+      .select({ count: sql<number>`count(*)` })
+      .from(sets)
+      .innerJoin(
+        workoutExercises,
+        eq(sets.workoutExerciseId, workoutExercises.id)
+      )
+      .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+      .where(
+        and(
+          eq(workouts.userId, userId),
+          gte(workouts.date, currentPeriodStart),
+          ne(sets.setType, "warmup")
+        )
+      ),
+
+    db
+      .selectDistinct({ date: workouts.date })
+      .from(workouts)
+      .where(and(eq(workouts.userId, userId), lte(workouts.date, todayStr)))
+      .orderBy(asc(workouts.date)),
+
+    getTrainingDays(
+      userId,
+      previousPeriodStart < trendStartStr ? previousPeriodStart : trendStartStr,
+      todayStr,
+      unit,
+      bodyweights
+    ),
+  ]);
+
+  const dates = workoutDates.map((row) => row.date);
+  const sumPeriod = (fromDate: string, toDate: string): PeriodTotals =>
+    trainingDays
+      .filter((day) => day.date >= fromDate && day.date <= toDate)
+      .reduce(
+        (totals, day) => ({
+          workouts: totals.workouts + day.workoutCount,
+          sets: totals.sets + day.setCount,
+          volume: totals.volume + day.volume,
+        }),
+        { workouts: 0, sets: 0, volume: 0 }
+      );
+
+  const weeklyTrend = Array.from({ length: TREND_WEEKS }, (_, index) => {
+    const weekStart = addWeeks(trendStart, index);
+    const fromDate = format(weekStart, "yyyy-MM-dd");
+    const toDate = format(addWeeks(weekStart, 1), "yyyy-MM-dd");
+    const days = trainingDays.filter(
+      (day) => day.date >= fromDate && day.date < toDate
+    );
+
+    return {
+      weekStart: fromDate,
+      sessions: days.reduce((total, day) => total + day.workoutCount, 0),
+      volume: days.reduce((total, day) => total + day.volume, 0),
+    };
+  });
 
   return {
     totalWorkouts: Number(totalWorkoutsResult[0]?.count ?? 0),
@@ -189,5 +386,534 @@ export async function getWorkoutSummary(
     totalSets: Number(setsResult[0]?.count ?? 0),
     recentWorkouts,
     lastWorkoutDate: recentWorkouts[0]?.date ?? null,
+    dayStreak: getDayStreak(dates, todayStr),
+    weekStreak: getWeekStreak(dates, todayStr, weekStartsOn),
+    weeklyTrend,
+    currentPeriod: sumPeriod(currentPeriodStart, todayStr),
+    previousPeriod: sumPeriod(previousPeriodStart, previousPeriodEnd),
   };
 }
+
+// Every date between fromDate and toDate with a workout logged, oldest first.
+// Warm-up sets are left out of the set count and volume. The bodyweight on
+// each day counts toward the volume of bodyweight and assisted sets.
+export async function getTrainingDays(
+  userId: string,
+  fromDate: string,
+  toDate: string,
+  unit: WeightUnit,
+  bodyweights: BodyweightHistory
+): Promise<TrainingDay[]> {
+  const rows = await db
+    .select({
+      date: workouts.date,
+      workoutId: workouts.id,
+      weight: sets.weight,
+      weightUnit: sets.weightUnit,
+      reps: sets.reps,
+      setType: sets.setType,
+      measurementType: exercises.measurementType,
+    })
+    .from(workouts)
+    .leftJoin(workoutExercises, eq(workoutExercises.workoutId, workouts.id))
+    .leftJoin(exercises, eq(exercises.id, workoutExercises.exerciseId))
+    .leftJoin(sets, eq(sets.workoutExerciseId, workoutExercises.id))
+    .where(
+      and(
+        eq(workouts.userId, userId),
+        gte(workouts.date, fromDate),
+        lte(workouts.date, toDate)
+      )
+    )
+    .orderBy(asc(workouts.date));
+
+  const days = new Map<
+    string,
+    { workoutIds: Set<string>; setCount: number; volume: number }
+  >();
+
+  for (const row of rows) {
+    const day = days.get(row.date) ?? {
+      workoutIds: new Set<string>(),
+      setCount: 0,
+      volume: 0,
+    };
+    day.workoutIds.add(row.workoutId);
+
+    // Null for workouts and exercises without sets
+    if (row.setType !== null && !isWarmUpSet(row.setType)) {
+      const weight =
+        row.weightUnit !== null
+          ? toDisplaySetWeight(row.weight, row.weightUnit, unit)
+          : null;
+      day.setCount++;
+      day.volume += getSetVolume(
+        toMeasurementType(row.measurementType ?? ""),
+        weight,
+        row.reps,
+        getBodyweightOn(bodyweights, row.date)
+      );
+    }
+
+    days.set(row.date, day);
+  }
+
+  return Array.from(days, ([date, day]) => ({
+    date,
+    workoutCount: day.workoutIds.size,
+    setCount: day.setCount,
+    volume: day.volume,
+  }));
+}
+
+const workoutColumns = {
+  id: workouts.id,
+  name: workouts.name,
+  date: workouts.date,
+  notes: workouts.notes,
+  updatedAt: workouts.updatedAt,
+};
+
+// A workout's own details, without its exercises and sets
+export async function getWorkoutDetails(
+  userId: string,
+  workoutId: string
+): Promise<Workout | null> {
+  const [workout] = await db
+    .select(workoutColumns)
+    .from(workouts)
+    .where(and(eq(workouts.id, workoutId), eq(workouts.userId, userId)));
+
+  return workout ?? null;
+}
+
+// Matches a row last updated when an edit to it was started. Postgres keeps
+// microseconds and a Date only milliseconds, so anything within that
+// millisecond counts.
+export function isUnchangedSince(column: AnyColumn, updatedAt: Date) {
+  return and(
+    gte(column, updatedAt),
+    lt(column, addMilliseconds(updatedAt, 1))
+  );
+}
+
+// A client-generated id makes this idempotent: replaying the same create
+// returns the workout it made
+export async function createWorkout(
+  userId: string,
+  data: { id?: string; name?: string; date: string; notes?: string }
+): Promise<Workout> {
+  if (data.id) {
+    const existing = await getWorkoutDetails(userId, data.id);
+
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const [workout] = await db
+    .insert(workouts)
+    .values({
+      id: data.id,
+      userId,
+      name: data.name ?? null,
+      date: data.date,
+      notes: data.notes ?? null,
+    })
+    .returning(workoutColumns);
+
+  return workout;
+}
+
+// Given expectedUpdatedAt, only updates a workout nobody has changed since
+// it was loaded. Returns null if it's gone or was changed, unless the change
+// is this very update, as with updateSet.
+export async function updateWorkout(
+  userId: string,
+  workoutId: string,
+  data: { name?: string | null; notes?: string | null },
+  expectedUpdatedAt?: Date
+): Promise<Workout | null> {
+  const [workout] = await db
+    .update(workouts)
+    .set({
+      ...data,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(workouts.id, workoutId),
+        eq(workouts.userId, userId),
+        expectedUpdatedAt && isUnchangedSince(workouts.updatedAt, expectedUpdatedAt)
+      )
+    )
+    .returning(workoutColumns);
+
+  if (!workout && expectedUpdatedAt) {
+    const current = await getWorkoutDetails(userId, workoutId);
+    const isAlreadyApplied =
+      current &&
+      (data.name === undefined || current.name === data.name) &&
+      (data.notes === undefined || current.notes === data.notes);
+
+    return isAlreadyApplied ? current : null;
+  }
+
+  return workout ?? null;
+}
+
+// Starts a live session, or picks a finished one back up where it left off
+export async function startWorkoutSession(userId: string, workoutId: string) {
+  const [workout] = await db
+    .update(workouts)
+    .set({
+      startedAt: sql`coalesce(${workouts.startedAt}, now())`,
+      completedAt: null,
+      updatedAt: new Date(),
+    })
+    .where(and(eq(workouts.id, workoutId), eq(workouts.userId, userId)))
+    .returning({ id: workouts.id, updatedAt: workouts.updatedAt });
+
+  return workout ?? null;
+}
+
+// Finishes a started session. Returns null if it was never started.
+export async function finishWorkoutSession(userId: string, workoutId: string) {
+  const [workout] = await db
+    .update(workouts)
+    .set({ completedAt: new Date(), updatedAt: new Date() })
+    .where(
+      and(
+        eq(workouts.id, workoutId),
+        eq(workouts.userId, userId),
+        isNotNull(workouts.startedAt)
+      )
+    )
+    .returning({ id: workouts.id, updatedAt: workouts.updatedAt });
+
+  return workout ?? null;
+}
+
+export async function deleteWorkout(userId: string, workoutId: string) {
+  const [deleted] = await db
+    .delete(workouts)
+    .where(and(eq(workouts.id, workoutId), eq(workouts.userId, userId)))
+    .returning({ id: workouts.id });
+
+  return deleted ?? null;
+}
+
+// Looks up a workout exercise only if its parent workout belongs to the user
+export async function getWorkoutExerciseById(
+  userId: string,
+  workoutExerciseId: string
+): Promise<WorkoutExercise | null> {
+  const [workoutExercise] = await db
+    .select({
+      id: workoutExercises.id,
+      workoutId: workoutExercises.workoutId,
+      exerciseId: workoutExercises.exerciseId,
+      order: workoutExercises.order,
+      groupId: workoutExercises.groupId,
+    })
+    .from(workoutExercises)
+    .innerJoin(workouts, eq(workoutExercises.workoutId, workouts.id))
+    .where(
+      and(
+        eq(workoutExercises.id, workoutExerciseId),
+        eq(workouts.userId, userId)
+      )
+    );
+
+  return workoutExercise ?? null;
+}
+
+// Appends an exercise from the catalog to the end of a workout. Like
+// createWorkout, a client-generated id makes replaying it harmless.
+export async function addExerciseToWorkout(
+  userId: string,
+  workoutId: string,
+  exerciseId: string,
+  workoutExerciseId?: string
+): Promise<WorkoutExercise | null> {
+  if (workoutExerciseId) {
+    const existing = await getWorkoutExerciseById(userId, workoutExerciseId);
+
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const [[workout], [exercise]] = await Promise.all([
+    db
+      .select({ id: workouts.id })
+      .from(workouts)
+      .where(and(eq(workouts.id, workoutId), eq(workouts.userId, userId))),
+    db
+      .select({ id: exercises.id })
+      .from(exercises)
+      .where(
+        and(
+          eq(exercises.id, exerciseId),
+          or(isNull(exercises.userId), eq(exercises.userId, userId))
+        )
+      ),
+  ]);
+
+  if (!workout || !exercise) {
+    return null;
+  }
+
+  const [{ maxOrder }] = await db
+    .select({ maxOrder: max(workoutExercises.order) })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutId));
+
+  const [workoutExercise] = await db
+    .insert(workoutExercises)
+    .values({
+      id: workoutExerciseId,
+      workoutId,
+      exerciseId,
+      order: (maxOrder ?? 0) + 1,
+    })
+    .returning({
+      id: workoutExercises.id,
+      workoutId: workoutExercises.workoutId,
+      exerciseId: workoutExercises.exerciseId,
+      order: workoutExercises.order,
+      groupId: workoutExercises.groupId,
+    });
+
+  return workoutExercise;
+}
+
+// Removes an exercise (and its sets) and closes the gap in the ordering
+export async function removeExerciseFromWorkout(
+  userId: string,
+  workoutExerciseId: string
+) {
+  const workoutExercise = await getWorkoutExerciseById(userId, workoutExerciseId);
+
+  if (!workoutExercise) {
+    return null;
+  }
+
+  const siblings = await db
+    .select({ id: workoutExercises.id, order: workoutExercises.order })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutExercise.workoutId))
+    .orderBy(asc(workoutExercises.order));
+
+  const reorders = siblings
+    .filter((sibling) => sibling.id !== workoutExerciseId)
+    .flatMap((sibling, index) =>
+      sibling.order === index + 1
+        ? []
+        : [
+            db
+              .update(workoutExercises)
+              .set({ order: index + 1 })
+              .where(eq(workoutExercises.id, sibling.id)),
+          ]
+    );
+
+  const [[deleted]] = await db.batch([
+    db
+      .delete(workoutExercises)
+      .where(eq(workoutExercises.id, workoutExerciseId))
+      .returning({ id: workoutExercises.id }),
+    ...reorders,
+  ]);
+
+  return deleted ?? null;
+}
+
+// Links an exercise into a superset with the one after it, or splits the
+// superset between them. Returns null if the exercise isn't the user's or is
+// the last in its workout.
+export async function setSupersetLink(
+  userId: string,
+  workoutExerciseId: string,
+  linked: boolean
+) {
+  const workoutExercise = await getWorkoutExerciseById(userId, workoutExerciseId);
+
+  if (!workoutExercise) {
+    return null;
+  }
+
+  const siblings = await db
+    .select({ id: workoutExercises.id, groupId: workoutExercises.groupId })
+    .from(workoutExercises)
+    .where(eq(workoutExercises.workoutId, workoutExercise.workoutId))
+    .orderBy(asc(workoutExercises.order));
+
+  const index = siblings.findIndex((sibling) => sibling.id === workoutExerciseId);
+
+  if (index === siblings.length - 1) {
+    return null;
+  }
+
+  const links = getSupersetLinks(siblings);
+  links[index] = linked;
+  const groupIds = getGroupIds(siblings, links);
+
+  const updates = siblings.flatMap((sibling, siblingIndex) =>
+    sibling.groupId === groupIds[siblingIndex]
+      ? []
+      : [
+          db
+            .update(workoutExercises)
+            .set({ groupId: groupIds[siblingIndex] })
+            .where(eq(workoutExercises.id, sibling.id)),
+        ]
+  );
+  const [first, ...rest] = updates;
+
+  if (first) {
+    await db.batch([first, ...rest]);
+  }
+
+  return { id: workoutExerciseId };
+}
+
+// Copies a workout, its exercises in order with their supersets and (unless
+// mode is "exercises") their sets to another date. "progression" adds the
+// increment to every weighted working set, converted into the unit each set
+// was logged in; for assisted exercises it takes that much assistance away.
+export async function copyWorkout(
+  userId: string,
+  workoutId: string,
+  data: {
+    date: string;
+    mode: WorkoutCopyMode;
+    increment?: { weight: number; unit: WeightUnit };
+  }
+): Promise<Workout | null> {
+  const [source] = await db
+    .select({ name: workouts.name, notes: workouts.notes })
+    .from(workouts)
+    .where(and(eq(workouts.id, workoutId), eq(workouts.userId, userId)));
+
+  if (!source) {
+    return null;
+  }
+
+  const [sourceExercises, sourceSets] = await Promise.all([
+    db
+      .select({
+        id: workoutExercises.id,
+        exerciseId: workoutExercises.exerciseId,
+        order: workoutExercises.order,
+        groupId: workoutExercises.groupId,
+      })
+      .from(workoutExercises)
+      .where(eq(workoutExercises.workoutId, workoutId))
+      .orderBy(asc(workoutExercises.order)),
+    data.mode === "exercises"
+      ? Promise.resolve([])
+      : db
+          .select({
+            workoutExerciseId: sets.workoutExerciseId,
+            setNumber: sets.setNumber,
+            weight: sets.weight,
+            weightUnit: sets.weightUnit,
+            reps: sets.reps,
+            durationSeconds: sets.durationSeconds,
+            distance: sets.distance,
+            notes: sets.notes,
+            setType: sets.setType,
+            rpe: sets.rpe,
+            rir: sets.rir,
+            tempo: sets.tempo,
+            measurementType: exercises.measurementType,
+          })
+          .from(sets)
+          .innerJoin(
+            workoutExercises,
+            eq(sets.workoutExerciseId, workoutExercises.id)
+          )
+          .innerJoin(exercises, eq(workoutExercises.exerciseId, exercises.id))
+          .where(eq(workoutExercises.workoutId, workoutId))
+          .orderBy(asc(sets.setNumber)),
+  ]);
+
+  const newWorkoutId = crypto.randomUUID();
+  const newExerciseIds = new Map(
+    sourceExercises.map((we) => [we.id, crypto.randomUUID()])
+  );
+  const newGroupIds = new Map(
+    sourceExercises.flatMap((we) =>
+      we.groupId !== null ? [[we.groupId, crypto.randomUUID()] as const] : []
+    )
+  );
+
+  const progress = (
+    set: Pick<
+      (typeof sourceSets)[number],
+      "weight" | "weightUnit" | "setType" | "measurementType"
+    >
+  ) => {
+    const { increment } = data;
+
+    if (
+      set.weight === null ||
+      data.mode !== "progression" ||
+      !increment ||
+      isWarmUpSet(set.setType)
+    ) {
+      return set.weight;
+    }
+
+    const unit = isWeightUnit(set.weightUnit) ? set.weightUnit : increment.unit;
+    const change = convertWeight(increment.weight, increment.unit, unit);
+    const progressed = Math.max(
+      0,
+      toMeasurementType(set.measurementType) === "assisted_reps"
+        ? Number(set.weight) - change
+        : Number(set.weight) + change
+    );
+    return (Math.round(progressed * 100) / 100).toString();
+  };
+
+  const exerciseRows = sourceExercises.map((we) => ({
+    id: newExerciseIds.get(we.id)!,
+    workoutId: newWorkoutId,
+    exerciseId: we.exerciseId,
+    order: we.order,
+    groupId: we.groupId !== null ? newGroupIds.get(we.groupId)! : null,
+  }));
+  const setRows = sourceSets.map(
+    ({ workoutExerciseId, measurementType, ...set }) => ({
+      ...set,
+      workoutExerciseId: newExerciseIds.get(workoutExerciseId)!,
+      weight: progress({ ...set, measurementType }),
+    })
+  );
+
+  const [[workout]] = await db.batch([
+    db
+      .insert(workouts)
+      .values({
+        id: newWorkoutId,
+        userId,
+        name: source.name,
+        date: data.date,
+        notes: source.notes,
+      })
+      .returning({
+        id: workouts.id,
+        name: workouts.name,
+        date: workouts.date,
+        notes: workouts.notes,
+        updatedAt: workouts.updatedAt,
+      }),
+    ...(exerciseRows.length > 0
+      ? [db.insert(workoutExercises).values(exerciseRows)]
+      : []),
+    ...(setRows.length > 0 ? [db.insert(sets).values(setRows)] : []),
+  ]);
+
+  return workout;
+}
@@ -0,0 +1,80 @@
+import type { MeasurementType } from "../lib/measurement-types";
+import type { MuscleGroup } from "../lib/muscles";
+
+// Curated system exercises loaded by `npm run db:seed`. The slug is the
+// stable key used for upserts: rename an exercise by changing its name, never
+// its slug, or the seed will insert a duplicate. Exercises without a
+// measurementType are logged as weight and reps.
+export const exerciseLibrary: {
+  slug: string;
+  name: string;
+  primaryMuscle: MuscleGroup;
+  secondaryMuscles: MuscleGroup[];
+  measurementType?: MeasurementType;
+}[] = [
+  // Chest
+  { slug: "barbell-bench-press", name: "Barbell Bench Press", primaryMuscle: "chest", secondaryMuscles: ["triceps", "shoulders"] },
+  { slug: "incline-barbell-bench-press", name: "Incline Barbell Bench Press", primaryMuscle: "chest", secondaryMuscles: ["shoulders", "triceps"] },
+  { slug: "close-grip-bench-press", name: "Close-Grip Bench Press", primaryMuscle: "triceps", secondaryMuscles: ["chest", "shoulders"] },
+  { slug: "dumbbell-bench-press", name: "Dumbbell Bench Press", primaryMuscle: "chest", secondaryMuscles: ["triceps", "shoulders"] },
+  { slug: "incline-dumbbell-press", name: "Incline Dumbbell Press", primaryMuscle: "chest", secondaryMuscles: ["shoulders", "triceps"] },
+  { slug: "dumbbell-fly", name: "Dumbbell Fly", primaryMuscle: "chest", secondaryMuscles: ["shoulders"] },
+  { slug: "cable-crossover", name: "Cable Crossover", primaryMuscle: "chest", secondaryMuscles: ["shoulders"] },
+  { slug: "dip", name: "Dip", primaryMuscle: "chest", secondaryMuscles: ["triceps", "shoulders"], measurementType: "bodyweight_reps" },
+  { slug: "assisted-dip", name: "Assisted Dip", primaryMuscle: "chest", secondaryMuscles: ["triceps", "shoulders"], measurementType: "assisted_reps" },
+  { slug: "push-up", name: "Push-Up", primaryMuscle: "chest", secondaryMuscles: ["triceps", "shoulders", "core"], measurementType: "bodyweight_reps" },
+
+  // Shoulders
+  { slug: "overhead-press", name: "Overhead Press", primaryMuscle: "shoulders", secondaryMuscles: ["triceps", "upper back"] },
+  { slug: "seated-dumbbell-shoulder-press", name: "Seated Dumbbell Shoulder Press", primaryMuscle: "shoulders", secondaryMuscles: ["triceps"] },
+  { slug: "dumbbell-lateral-raise", name: "Dumbbell Lateral Raise", primaryMuscle: "shoulders", secondaryMuscles: ["traps"] },
+  { slug: "face-pull", name: "Face Pull", primaryMuscle: "shoulders", secondaryMuscles: ["upper back", "traps"] },
+  { slug: "reverse-pec-deck", name: "Reverse Pec Deck", primaryMuscle: "shoulders", secondaryMuscles: ["upper back"] },
+
+  // Back
+  { slug: "deadlift", name: "Deadlift", primaryMuscle: "hamstrings", secondaryMuscles: ["glutes", "lower back", "traps", "forearms"] },
+  { slug: "barbell-row", name: "Barbell Row", primaryMuscle: "upper back", secondaryMuscles: ["lats", "biceps", "lower back"] },
+  { slug: "pendlay-row", name: "Pendlay Row", primaryMuscle: "upper back", secondaryMuscles: ["lats", "biceps", "lower back"] },
+  { slug: "dumbbell-row", name: "Dumbbell Row", primaryMuscle: "lats", secondaryMuscles: ["upper back", "biceps"] },
+  { slug: "seated-cable-row", name: "Seated Cable Row", primaryMuscle: "upper back", secondaryMuscles: ["lats", "biceps"] },
+  { slug: "pull-up", name: "Pull-Up", primaryMuscle: "lats", secondaryMuscles: ["biceps", "upper back"], measurementType: "bodyweight_reps" },
+  { slug: "assisted-pull-up", name: "Assisted Pull-Up", primaryMuscle: "lats", secondaryMuscles: ["biceps", "upper back"], measurementType: "assisted_reps" },
+  { slug: "chin-up", name: "Chin-Up", primaryMuscle: "lats", secondaryMuscles: ["biceps"], measurementType: "bodyweight_reps" },
+  { slug: "lat-pulldown", name: "Lat Pulldown", primaryMuscle: "lats", secondaryMuscles: ["biceps", "upper back"] },
+  { slug: "barbell-shrug", name: "Barbell Shrug", primaryMuscle: "traps", secondaryMuscles: ["forearms"] },
+  { slug: "back-extension", name: "Back Extension", primaryMuscle: "lower back", secondaryMuscles: ["glutes", "hamstrings"] },
+
+  // Arms
+  { slug: "barbell-curl", name: "Barbell Curl", primaryMuscle: "biceps", secondaryMuscles: ["forearms"] },
+  { slug: "dumbbell-curl", name: "Dumbbell Curl", primaryMuscle: "biceps", secondaryMuscles: ["forearms"] },
+  { slug: "hammer-curl", name: "Hammer Curl", primaryMuscle: "biceps", secondaryMuscles: ["forearms"] },
+  { slug: "triceps-pushdown", name: "Triceps Pushdown", primaryMuscle: "triceps", secondaryMuscles: [] },
+  { slug: "skull-crusher", name: "Skull Crusher", primaryMuscle: "triceps", secondaryMuscles: [] },
+  { slug: "overhead-triceps-extension", name: "Overhead Triceps Extension", primaryMuscle: "triceps", secondaryMuscles: [] },
+  { slug: "wrist-curl", name: "Wrist Curl", primaryMuscle: "forearms", secondaryMuscles: [] },
+
+  // Legs
+  { slug: "back-squat", name: "Back Squat", primaryMuscle: "quads", secondaryMuscles: ["glutes", "adductors", "lower back"] },
+  { slug: "front-squat", name: "Front Squat", primaryMuscle: "quads", secondaryMuscles: ["glutes", "upper back", "core"] },
+  { slug: "romanian-deadlift", name: "Romanian Deadlift", primaryMuscle: "hamstrings", secondaryMuscles: ["glutes", "lower back"] },
+  { slug: "sumo-deadlift", name: "Sumo Deadlift", primaryMuscle: "glutes", secondaryMuscles: ["quads", "adductors", "hamstrings", "lower back"] },
+  { slug: "leg-press", name: "Leg Press", primaryMuscle: "quads", secondaryMuscles: ["glutes", "adductors"] },
+  { slug: "bulgarian-split-squat", name: "Bulgarian Split Squat", primaryMuscle: "quads", secondaryMuscles: ["glutes", "adductors"] },
+  { slug: "walking-lunge", name: "Walking Lunge", primaryMuscle: "quads", secondaryMuscles: ["glutes", "hamstrings"] },
+  { slug: "hip-thrust", name: "Hip Thrust", primaryMuscle: "glutes", secondaryMuscles: ["hamstrings"] },
+  { slug: "leg-extension", name: "Leg Extension", primaryMuscle: "quads", secondaryMuscles: [] },
+  { slug: "lying-leg-curl", name: "Lying Leg Curl", primaryMuscle: "hamstrings", secondaryMuscles: ["calves"] },
+  { slug: "seated-leg-curl", name: "Seated Leg Curl", primaryMuscle: "hamstrings", secondaryMuscles: [] },
+  { slug: "standing-calf-raise", name: "Standing Calf Raise", primaryMuscle: "calves", secondaryMuscles: [] },
+  { slug: "seated-calf-raise", name: "Seated Calf Raise", primaryMuscle: "calves", secondaryMuscles: [] },
+  { slug: "sled-push", name: "Sled Push", primaryMuscle: "quads", secondaryMuscles: ["glutes", "calves"], measurementType: "distance" },
+
+  // Core
+  { slug: "hanging-leg-raise", name: "Hanging Leg Raise", primaryMuscle: "core", secondaryMuscles: ["forearms"] },
+  { slug: "cable-crunch", name: "Cable Crunch", primaryMuscle: "core", secondaryMuscles: [] },
+  { slug: "ab-wheel-rollout", name: "Ab Wheel Rollout", primaryMuscle: "core", secondaryMuscles: ["lats"] },
+  { slug: "plank", name: "Plank", primaryMuscle: "core", secondaryMuscles: ["shoulders"], measurementType: "duration" },
+
+  // Carries
+  { slug: "farmers-carry", name: "Farmer's Carry", primaryMuscle: "forearms", secondaryMuscles: ["traps", "core"], measurementType: "distance" },
+];
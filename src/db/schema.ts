@@ -1,4 +1,15 @@
-import { pgTable, uuid, text, date, timestamp, integer, numeric } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  uuid,
+  text,
+  date,
+  timestamp,
+  integer,
+  numeric,
+  boolean,
+  index,
+  unique,
+} from "drizzle-orm/pg-core";
 
 // Exercise catalog - system defaults (user_id = null) and user-created exercises
 export const exercises = pgTable("exercises", {
@@ -7,19 +18,29 @@ export const exercises = pgTable("exercises", {
   primaryMuscle: text("primary_muscle"),
   secondaryMuscles: text("secondary_muscles").array(),
   userId: text("user_id"), // null = system default, value = user-created
+  slug: text("slug").unique(), // stable seed key for system defaults
+  measurementType: text("measurement_type").notNull().default("weight_reps"), // see MEASUREMENT_TYPES
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 // Workout sessions tied to Clerk user
-export const workouts = pgTable("workouts", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: text("user_id").notNull(),
-  name: text("name"),
-  date: date("date").notNull(),
-  notes: text("notes"),
-  createdAt: timestamp("created_at").notNull().defaultNow(),
-  updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+export const workouts = pgTable(
+  "workouts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: text("user_id").notNull(),
+    name: text("name"),
+    date: date("date").notNull(),
+    notes: text("notes"),
+    // Set by the live session mode, so a session's duration is known
+    startedAt: timestamp("started_at"),
+    completedAt: timestamp("completed_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  // A user's workouts by date, as the dashboard and the export page them
+  (table) => [index().on(table.userId, table.date, table.id)]
+);
 
 // Junction table linking exercises to workouts
 export const workoutExercises = pgTable("workout_exercises", {
@@ -31,6 +52,7 @@ export const workoutExercises = pgTable("workout_exercises", {
     .notNull()
     .references(() => exercises.id, { onDelete: "restrict" }),
   order: integer("order").notNull(),
+  groupId: uuid("group_id"), // shared by the exercises of a superset
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -42,7 +64,140 @@ export const sets = pgTable("sets", {
     .references(() => workoutExercises.id, { onDelete: "cascade" }),
   setNumber: integer("set_number").notNull(),
   weight: numeric("weight", { precision: 7, scale: 2 }),
-  reps: integer("reps").notNull(),
+  weightUnit: text("weight_unit").notNull().default("lb"), // unit the weight was logged in
+  reps: integer("reps"), // null for timed and distance sets
+  durationSeconds: integer("duration_seconds"),
+  distance: numeric("distance", { precision: 8, scale: 2 }), // metres
+  notes: text("notes"),
+  setType: text("set_type").notNull().default("working"), // see SET_TYPES
+  rpe: numeric("rpe", { precision: 3, scale: 1 }), // rate of perceived exertion, 1-10
+  rir: integer("rir"), // reps in reserve
+  tempo: text("tempo"), // e.g. "3-1-1-0"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Reusable workout plans, e.g. "Push Day"
+export const workoutTemplates = pgTable("workout_templates", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Exercises planned in a template, with the sets to pre-fill when started
+export const templateExercises = pgTable("template_exercises", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  templateId: uuid("template_id")
+    .notNull()
+    .references(() => workoutTemplates.id, { onDelete: "cascade" }),
+  exerciseId: uuid("exercise_id")
+    .notNull()
+    .references(() => exercises.id, { onDelete: "restrict" }),
+  order: integer("order").notNull(),
+  targetSets: integer("target_sets").notNull(),
+  targetReps: integer("target_reps").notNull(),
+  targetWeight: numeric("target_weight", { precision: 7, scale: 2 }),
+  targetWeightUnit: text("target_weight_unit").notNull().default("lb"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Multi-week training plans scheduled from a start date
+export const programs = pgTable("programs", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  userId: text("user_id").notNull(),
+  name: text("name").notNull(),
   notes: text("notes"),
+  startDate: date("start_date").notNull(),
+  deloadPercentage: integer("deload_percentage").notNull().default(60), // load kept in deload weeks
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Weeks of a program, in order; deload weeks scale every load down
+export const programWeeks = pgTable("program_weeks", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  programId: uuid("program_id")
+    .notNull()
+    .references(() => programs.id, { onDelete: "cascade" }),
+  weekNumber: integer("week_number").notNull(),
+  isDeload: boolean("is_deload").notNull().default(false),
+});
+
+// Training days repeated every week of a program
+export const programDays = pgTable("program_days", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  programId: uuid("program_id")
+    .notNull()
+    .references(() => programs.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  dayOffset: integer("day_offset").notNull(), // days after the start of each week, 0-6
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+// Exercises prescribed on a program day, as a % of 1RM or a fixed weight
+export const programExercises = pgTable("program_exercises", {
+  id: uuid("id").primaryKey().defaultRandom(),
+  programDayId: uuid("program_day_id")
+    .notNull()
+    .references(() => programDays.id, { onDelete: "cascade" }),
+  exerciseId: uuid("exercise_id")
+    .notNull()
+    .references(() => exercises.id, { onDelete: "restrict" }),
+  order: integer("order").notNull(),
+  sets: integer("sets").notNull(),
+  reps: integer("reps").notNull(),
+  prescriptionType: text("prescription_type").notNull(), // "percentage" | "weight"
+  percentage: numeric("percentage", { precision: 5, scale: 2 }),
+  weight: numeric("weight", { precision: 7, scale: 2 }),
+  weightUnit: text("weight_unit").notNull().default("lb"),
+  // Added every non-deload week: percentage points, or weight in weightUnit
+  progressionPerWeek: numeric("progression_per_week", { precision: 6, scale: 2 })
+    .notNull()
+    .default("0"),
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
+
+// Per-user preferences, keyed by Clerk user id
+export const userSettings = pgTable("user_settings", {
+  userId: text("user_id").primaryKey(),
+  weightUnit: text("weight_unit").notNull().default("lb"),
+  weekStartsOn: integer("week_starts_on").notNull().default(1), // 0 = Sunday, 1 = Monday
+  restTimerSeconds: integer("rest_timer_seconds").notNull().default(90),
+  bodyweight: numeric("bodyweight", { precision: 6, scale: 2 }),
+  bodyweightUnit: text("bodyweight_unit").notNull().default("lb"),
+  oneRepMaxFormula: text("one_rep_max_formula").notNull().default("epley"),
+  timeZone: text("time_zone").notNull().default("UTC"),
+  progressionRule: text("progression_rule").notNull().default("double_progression"), // see PROGRESSION_RULES
+  repRangeMin: integer("rep_range_min").notNull().default(8),
+  repRangeMax: integer("rep_range_max").notNull().default(12),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+// Bodyweight, body fat and circumferences, at most one entry per user a day.
+// Every measurement is optional so a day can log just one of them.
+export const bodyMeasurements = pgTable(
+  "body_measurements",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: text("user_id").notNull(),
+    date: date("date").notNull(),
+    bodyweight: numeric("bodyweight", { precision: 6, scale: 2 }),
+    bodyweightUnit: text("bodyweight_unit").notNull().default("lb"),
+    bodyFatPercentage: numeric("body_fat_percentage", { precision: 4, scale: 1 }),
+    neck: numeric("neck", { precision: 5, scale: 2 }),
+    chest: numeric("chest", { precision: 5, scale: 2 }),
+    waist: numeric("waist", { precision: 5, scale: 2 }),
+    hips: numeric("hips", { precision: 5, scale: 2 }),
+    arms: numeric("arms", { precision: 5, scale: 2 }),
+    thighs: numeric("thighs", { precision: 5, scale: 2 }),
+    lengthUnit: text("length_unit").notNull().default("in"), // unit the circumferences were logged in
+    notes: text("notes"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+  },
+  (table) => [unique().on(table.userId, table.date)]
+);
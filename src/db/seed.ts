@@ -0,0 +1,56 @@
+import "dotenv/config";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { db } from "./index";
+import { exercises } from "./schema";
+import { exerciseLibrary } from "./exercise-library";
+import { DEFAULT_MEASUREMENT_TYPE } from "../lib/measurement-types";
+
+// Idempotent: safe to re-run after editing the library. Rows are matched on
+// `slug`, so existing system exercises are updated in place, never duplicated.
+async function seed() {
+  // System exercises created before slugs existed are adopted by name so the
+  // upsert below updates them instead of inserting a second copy.
+  const [firstAdoption, ...adoptions] = exerciseLibrary.map((exercise) =>
+    db
+      .update(exercises)
+      .set({ slug: exercise.slug })
+      .where(
+        and(
+          isNull(exercises.userId),
+          isNull(exercises.slug),
+          eq(sql`lower(${exercises.name})`, exercise.name.toLowerCase())
+        )
+      )
+  );
+  await db.batch([firstAdoption, ...adoptions]);
+
+  const seeded = await db
+    .insert(exercises)
+    .values(
+      exerciseLibrary.map((exercise) => ({
+        slug: exercise.slug,
+        name: exercise.name,
+        primaryMuscle: exercise.primaryMuscle,
+        secondaryMuscles: exercise.secondaryMuscles,
+        measurementType: exercise.measurementType ?? DEFAULT_MEASUREMENT_TYPE,
+        userId: null,
+      }))
+    )
+    .onConflictDoUpdate({
+      target: exercises.slug,
+      set: {
+        name: sql`excluded.name`,
+        primaryMuscle: sql`excluded.primary_muscle`,
+        secondaryMuscles: sql`excluded.secondary_muscles`,
+        measurementType: sql`excluded.measurement_type`,
+      },
+    })
+    .returning({ id: exercises.id });
+
+  console.log(`Seeded ${seeded.length} system exercises`);
+}
+
+seed().catch((error) => {
+  console.error("Seed failed:", error);
+  process.exit(1);
+});
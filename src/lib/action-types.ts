@@ -0,0 +1,16 @@
+export type ActionResult<T> =
+  | { data: T; error?: never }
+  | { data?: never; error: string | Record<string, string[]> };
+
+// Collapses a Server Action error (message or Zod field errors) into a
+// single user-facing message.
+export function getActionErrorMessage(
+  error: string | Record<string, string[]>
+): string {
+  if (typeof error === "string") {
+    return error;
+  }
+
+  const firstMessage = Object.values(error).flat()[0];
+  return firstMessage ?? "Something went wrong";
+}
@@ -0,0 +1,16 @@
+// Bump when the backup document changes shape, and teach restore to read the
+// older versions
+export const BACKUP_VERSION = 3;
+
+export const RESTORE_MODES = ["merge", "replace"] as const;
+
+export type RestoreMode = (typeof RESTORE_MODES)[number];
+
+export const RESTORE_MODE_LABELS: Record<RestoreMode, string> = {
+  merge: "Merge into my current data",
+  replace: "Replace everything with the backup",
+};
+
+export function isRestoreMode(value: unknown): value is RestoreMode {
+  return RESTORE_MODES.includes(value as RestoreMode);
+}
@@ -0,0 +1,171 @@
+import { format, parse, subDays } from "date-fns";
+import { convertWeight, formatWeight, type WeightUnit } from "./units";
+
+// Circumferences logged alongside bodyweight and body fat
+export const CIRCUMFERENCES = [
+  "neck",
+  "chest",
+  "waist",
+  "hips",
+  "arms",
+  "thighs",
+] as const;
+
+export type Circumference = (typeof CIRCUMFERENCES)[number];
+
+export const CIRCUMFERENCE_LABELS: Record<Circumference, string> = {
+  neck: "Neck",
+  chest: "Chest",
+  waist: "Waist",
+  hips: "Hips",
+  arms: "Arms",
+  thighs: "Thighs",
+};
+
+export const LENGTH_UNITS = ["cm", "in"] as const;
+
+export type LengthUnit = (typeof LENGTH_UNITS)[number];
+
+// Everything a body measurement entry can chart
+export const BODY_METRICS = [
+  "bodyweight",
+  "bodyFatPercentage",
+  ...CIRCUMFERENCES,
+] as const;
+
+export type BodyMetric = (typeof BODY_METRICS)[number];
+
+export const BODY_METRIC_LABELS: Record<BodyMetric, string> = {
+  bodyweight: "Bodyweight",
+  bodyFatPercentage: "Body fat",
+  ...CIRCUMFERENCE_LABELS,
+};
+
+// Largest circumference the column holds, in either unit
+export const MAX_CIRCUMFERENCE = 999.99;
+
+const CM_PER_IN = 2.54;
+
+export function isLengthUnit(value: unknown): value is LengthUnit {
+  return LENGTH_UNITS.includes(value as LengthUnit);
+}
+
+// Circumferences follow the weight unit: centimetres alongside kilograms,
+// inches alongside pounds
+export function getLengthUnit(unit: WeightUnit): LengthUnit {
+  return unit === "kg" ? "cm" : "in";
+}
+
+export function convertLength(
+  length: number,
+  from: LengthUnit,
+  to: LengthUnit
+): number {
+  if (from === to) {
+    return length;
+  }
+
+  return from === "in" ? length * CM_PER_IN : length / CM_PER_IN;
+}
+
+export function formatLength(length: number, unit: LengthUnit): string {
+  return `${length.toLocaleString("en-US", { maximumFractionDigits: 1 })} ${unit}`;
+}
+
+export function isBodyMetric(value: unknown): value is BodyMetric {
+  return BODY_METRICS.includes(value as BodyMetric);
+}
+
+// "80.2 kg", "15.5%" or "32 in"
+export function formatBodyMetric(
+  metric: BodyMetric,
+  value: number,
+  unit: WeightUnit
+): string {
+  switch (metric) {
+    case "bodyweight":
+      return formatWeight(value, unit, 1);
+    case "bodyFatPercentage":
+      return `${value.toLocaleString("en-US", { maximumFractionDigits: 1 })}%`;
+    default:
+      return formatLength(value, getLengthUnit(unit));
+  }
+}
+
+// A logged bodyweight in the display unit, to the nearest tenth so 80 kg
+// reads as 176.4 lbs
+export function toDisplayBodyweight(
+  bodyweight: number,
+  from: WeightUnit,
+  to: WeightUnit
+): number {
+  return Math.round(convertWeight(bodyweight, from, to) * 10) / 10;
+}
+
+// Every bodyweight the user has logged, oldest first and in the display
+// unit, plus the one in their settings for users who haven't logged any
+export type BodyweightHistory = {
+  entries: { date: string; bodyweight: number }[];
+  fallback: number | null;
+};
+
+export function hasBodyweight(history: BodyweightHistory) {
+  return history.entries.length > 0 || history.fallback !== null;
+}
+
+// Bodyweight on a date: the latest logged on or before it, or the first one
+// logged for dates before that
+export function getBodyweightOn(
+  history: BodyweightHistory,
+  date: string
+): number | null {
+  const { entries } = history;
+
+  if (entries.length === 0) {
+    return history.fallback;
+  }
+
+  // Index of the first entry after the date
+  let low = 0;
+  let high = entries.length;
+
+  while (low < high) {
+    const middle = (low + high) >> 1;
+
+    if (entries[middle].date <= date) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return entries[Math.max(low - 1, 0)].bodyweight;
+}
+
+// How much bodyweight has changed over the last so many days of logging:
+// the latest entry less the last one on or before that many days earlier.
+// Null until there are two entries to compare.
+export function getBodyweightChange(
+  history: BodyweightHistory,
+  days: number
+): number | null {
+  const latest = history.entries.at(-1);
+
+  if (!latest || history.entries.length < 2) {
+    return null;
+  }
+
+  const since = format(
+    subDays(parse(latest.date, "yyyy-MM-dd", new Date()), days),
+    "yyyy-MM-dd"
+  );
+  return latest.bodyweight - getBodyweightOn(history, since)!;
+}
+
+// A load as a multiple of bodyweight: "1.52× BW"
+export function formatRelativeStrength(ratio: number): string {
+  return `${ratio.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}× BW`;
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import { detectCsvDelimiter, parseCsv, toCsvField, toCsvRow } from "./csv";
+
+describe("toCsvField", () => {
+  it("writes empty values and numbers plainly", () => {
+    expect(toCsvField(null)).toBe("");
+    expect(toCsvField(62.5)).toBe("62.5");
+  });
+
+  it("quotes fields with delimiters, quotes or line breaks", () => {
+    expect(toCsvField("Push, heavy")).toBe('"Push, heavy"');
+    expect(toCsvField('The "big" one')).toBe('"The ""big"" one"');
+    expect(toCsvField("two\nlines")).toBe('"two\nlines"');
+  });
+
+  it("keeps spreadsheets from running fields as formulas", () => {
+    expect(toCsvField("=SUM(A1:A2)")).toBe("'=SUM(A1:A2)");
+    expect(toCsvField("-1")).toBe("'-1");
+  });
+});
+
+describe("toCsvRow", () => {
+  it("joins fields and ends the line with CRLF", () => {
+    expect(toCsvRow(["2024-01-15", "Bench, flat", 100, null])).toBe(
+      '2024-01-15,"Bench, flat",100,\r\n'
+    );
+  });
+});
+
+describe("detectCsvDelimiter", () => {
+  it("defaults to a comma", () => {
+    expect(detectCsvDelimiter("date,exercise,weight\n")).toBe(",");
+    expect(detectCsvDelimiter("")).toBe(",");
+  });
+
+  it("picks a semicolon when the header has more of them", () => {
+    expect(detectCsvDelimiter("\uFEFFdate;exercise;weight\r\n1;2;3,5")).toBe(
+      ";"
+    );
+  });
+});
+
+describe("parseCsv", () => {
+  it("splits rows and fields with the line each row starts on", () => {
+    expect(parseCsv("a,b\r\n1,2\n3,4")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 2, fields: ["1", "2"] },
+      { line: 3, fields: ["3", "4"] },
+    ]);
+  });
+
+  it("reads quoted fields with escaped quotes and line breaks", () => {
+    const text = 'name,notes\n"Squat","felt ""easy""\nall sets"\nDip,ok';
+
+    expect(parseCsv(text)).toEqual([
+      { line: 1, fields: ["name", "notes"] },
+      { line: 2, fields: ["Squat", 'felt "easy"\nall sets'] },
+      { line: 4, fields: ["Dip", "ok"] },
+    ]);
+  });
+
+  it("skips blank lines but keeps counting them", () => {
+    expect(parseCsv("a\n\n  \nb\n")).toEqual([
+      { line: 1, fields: ["a"] },
+      { line: 4, fields: ["b"] },
+    ]);
+  });
+
+  it("strips a byte order mark and reads semicolon files", () => {
+    expect(parseCsv("\uFEFFa;b\n1,5;2")).toEqual([
+      { line: 1, fields: ["a", "b"] },
+      { line: 2, fields: ["1,5", "2"] },
+    ]);
+  });
+});
@@ -0,0 +1,105 @@
+type CsvValue = string | number | null;
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_PREFIXES = ["=", "+", "-", "@", "\t", "\r"];
+
+// A single CSV field: quoted when it contains a delimiter, quote or line
+// break, and prefixed with an apostrophe when it would read as a formula
+export function toCsvField(value: CsvValue): string {
+  if (value === null) {
+    return "";
+  }
+
+  if (typeof value === "number") {
+    return String(value);
+  }
+
+  const text = FORMULA_PREFIXES.some((prefix) => value.startsWith(prefix))
+    ? `'${value}`
+    : value;
+
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
+
+export function toCsvRow(values: CsvValue[]): string {
+  return `${values.map(toCsvField).join(",")}\r\n`;
+}
+
+// A parsed row and the line of the file it starts on, counting from 1
+export type ParsedCsvRow = {
+  line: number;
+  fields: string[];
+};
+
+function stripBom(text: string) {
+  return text.startsWith("\uFEFF") ? text.slice(1) : text;
+}
+
+// A comma unless the header line has more semicolons, as in some
+// European-locale exports, which also write decimals with a comma
+export function detectCsvDelimiter(text: string): "," | ";" {
+  const input = stripBom(text);
+  const headerLine = input.slice(0, input.search(/\r?\n|$/));
+
+  return headerLine.split(";").length > headerLine.split(",").length
+    ? ";"
+    : ",";
+}
+
+// Splits CSV text into rows of fields, handling quoted fields with escaped
+// quotes and line breaks. See detectCsvDelimiter for the delimiter.
+export function parseCsv(text: string): ParsedCsvRow[] {
+  const input = stripBom(text);
+  const delimiter = detectCsvDelimiter(input);
+  const rows: ParsedCsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let index = 0; index < input.length; index++) {
+    const char = input[index];
+
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && input[index + 1] !== "\n")) {
+          line++;
+        }
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[index + 1] === "\n") {
+        index++;
+      }
+      row.push(field);
+      rows.push({ line: rowLine, fields: row });
+      row = [];
+      field = "";
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, fields: row });
+  }
+
+  // Blank lines come through as a single empty field
+  return rows.filter(({ fields }) =>
+    fields.some((value) => value.trim() !== "")
+  );
+}
@@ -0,0 +1,125 @@
+import {
+  addDays,
+  addMonths,
+  differenceInCalendarDays,
+  endOfMonth,
+  endOfWeek,
+  format,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import { isDateString, type WeekStartDay } from "./dates";
+
+export const DASHBOARD_VIEWS = ["day", "week", "month"] as const;
+
+export type DashboardView = (typeof DASHBOARD_VIEWS)[number];
+
+export const DASHBOARD_VIEW_LABELS: Record<DashboardView, string> = {
+  day: "Day",
+  week: "Week",
+  month: "Month",
+};
+
+// Longest custom ?from=&to= range the dashboard will load
+export const MAX_DASHBOARD_RANGE_DAYS = 366;
+
+export function isDashboardView(value: unknown): value is DashboardView {
+  return DASHBOARD_VIEWS.includes(value as DashboardView);
+}
+
+// The dates the dashboard shows: a day, the week or month around a date, or
+// a custom range. `date` anchors the date picker and view switching.
+export type DashboardRange = {
+  view: DashboardView | "range";
+  date: string;
+  fromDate: string;
+  toDate: string;
+};
+
+function parseDate(value: string) {
+  return parse(value, "yyyy-MM-dd", new Date());
+}
+
+function formatDate(date: Date) {
+  return format(date, "yyyy-MM-dd");
+}
+
+function getViewRange(
+  view: DashboardView,
+  date: string,
+  weekStartsOn: WeekStartDay
+): DashboardRange {
+  const anchor = parseDate(date);
+
+  switch (view) {
+    case "day":
+      return { view, date, fromDate: date, toDate: date };
+    case "week":
+      return {
+        view,
+        date,
+        fromDate: formatDate(startOfWeek(anchor, { weekStartsOn })),
+        toDate: formatDate(endOfWeek(anchor, { weekStartsOn })),
+      };
+    case "month":
+      return {
+        view,
+        date,
+        fromDate: formatDate(startOfMonth(anchor)),
+        toDate: formatDate(endOfMonth(anchor)),
+      };
+  }
+}
+
+// Reads the dashboard's search params. A valid ?from=&to= pair wins over
+// ?view=; anything unreadable falls back to the single-day view.
+export function resolveDashboardRange(
+  params: { date?: string; view?: string; from?: string; to?: string },
+  today: string,
+  weekStartsOn: WeekStartDay
+): DashboardRange {
+  const { from, to } = params;
+
+  if (isDateString(from) && isDateString(to)) {
+    const days = differenceInCalendarDays(parseDate(to), parseDate(from));
+
+    if (days >= 0 && days < MAX_DASHBOARD_RANGE_DAYS) {
+      return { view: "range", date: from, fromDate: from, toDate: to };
+    }
+  }
+
+  const date = isDateString(params.date) ? params.date : today;
+  const view = isDashboardView(params.view) ? params.view : "day";
+
+  return getViewRange(view, date, weekStartsOn);
+}
+
+export function getDashboardHref(view: DashboardView, date: string): string {
+  return view === "day"
+    ? `/dashboard?date=${date}`
+    : `/dashboard?view=${view}&date=${date}`;
+}
+
+// Link to the range just before or after this one, the same length
+export function getAdjacentRangeHref(
+  range: DashboardRange,
+  direction: -1 | 1
+): string {
+  if (range.view === "range") {
+    const length =
+      differenceInCalendarDays(parseDate(range.toDate), parseDate(range.fromDate)) +
+      1;
+    const shift = length * direction;
+
+    return `/dashboard?from=${formatDate(addDays(parseDate(range.fromDate), shift))}&to=${formatDate(addDays(parseDate(range.toDate), shift))}`;
+  }
+
+  const anchor = parseDate(range.date);
+  const date =
+    range.view === "month"
+      ? addMonths(anchor, direction)
+      : addDays(anchor, range.view === "week" ? 7 * direction : direction);
+
+  return getDashboardHref(range.view, formatDate(date));
+}
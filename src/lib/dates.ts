@@ -0,0 +1,72 @@
+import {
+  endOfMonth,
+  endOfWeek,
+  format,
+  isValid,
+  parse,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+
+export const WEEK_START_DAYS = [0, 1] as const;
+
+// date-fns day index: 0 = Sunday, 1 = Monday
+export type WeekStartDay = (typeof WEEK_START_DAYS)[number];
+
+export const WEEK_START_DAY_LABELS: Record<WeekStartDay, string> = {
+  0: "Sunday",
+  1: "Monday",
+};
+
+export function isWeekStartDay(value: unknown): value is WeekStartDay {
+  return WEEK_START_DAYS.includes(value as WeekStartDay);
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Every IANA zone the runtime knows, for pickers. UTC (the default) isn't a
+// canonical zone, so it is listed first explicitly.
+export function getTimeZones(): string[] {
+  return [
+    "UTC",
+    ...Intl.supportedValuesOf("timeZone").filter((zone) => zone !== "UTC"),
+  ];
+}
+
+// Whether a query parameter is a real YYYY-MM-DD date
+export function isDateString(value: string | undefined): value is string {
+  return (
+    value !== undefined &&
+    /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    isValid(parse(value, "yyyy-MM-dd", new Date()))
+  );
+}
+
+// Today's calendar date (YYYY-MM-DD) where the user is, not where the server is
+export function getTodayInTimeZone(timeZone: string): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(new Date());
+}
+
+// First and last dates (YYYY-MM-DD) a month view shows, including the days of
+// neighbouring months that fill out its first and last weeks
+export function getCalendarRange(
+  month: Date,
+  weekStartsOn: WeekStartDay
+): { fromDate: string; toDate: string } {
+  return {
+    fromDate: format(startOfWeek(startOfMonth(month), { weekStartsOn }), "yyyy-MM-dd"),
+    toDate: format(endOfWeek(endOfMonth(month), { weekStartsOn }), "yyyy-MM-dd"),
+  };
+}
@@ -0,0 +1,163 @@
+import { formatWeight, type WeightUnit } from "./units";
+
+// How sets of an exercise are measured. Every type can carry a weight; what
+// it means depends on the type (see WEIGHT_FIELD_LABELS).
+export const MEASUREMENT_TYPES = [
+  "weight_reps",
+  "bodyweight_reps",
+  "assisted_reps",
+  "duration",
+  "distance",
+] as const;
+
+export type MeasurementType = (typeof MEASUREMENT_TYPES)[number];
+
+export const DEFAULT_MEASUREMENT_TYPE: MeasurementType = "weight_reps";
+
+export const MEASUREMENT_TYPE_LABELS: Record<MeasurementType, string> = {
+  weight_reps: "Weight and reps",
+  bodyweight_reps: "Bodyweight reps, optionally weighted",
+  assisted_reps: "Assisted reps",
+  duration: "Time",
+  distance: "Distance",
+};
+
+export const WEIGHT_FIELD_LABELS: Record<MeasurementType, string> = {
+  weight_reps: "Weight",
+  bodyweight_reps: "Added weight",
+  assisted_reps: "Assistance",
+  duration: "Weight",
+  distance: "Weight",
+};
+
+// Sets are capped at a 24 hour hold and a 1,000 km distance, in metres
+export const MAX_DURATION_SECONDS = 86400;
+export const MAX_DISTANCE = 999999.99;
+
+export function isMeasurementType(value: unknown): value is MeasurementType {
+  return MEASUREMENT_TYPES.includes(value as MeasurementType);
+}
+
+export function toMeasurementType(value: string): MeasurementType {
+  return isMeasurementType(value) ? value : DEFAULT_MEASUREMENT_TYPE;
+}
+
+export function usesReps(type: MeasurementType) {
+  return type !== "duration" && type !== "distance";
+}
+
+// Whether heavier is better, so weight and estimated 1RM records make sense.
+// Assisted sets get easier with more weight, and timed or distance sets
+// aren't judged by load.
+export function tracksLoadRecords(type: MeasurementType) {
+  return type === "weight_reps" || type === "bodyweight_reps";
+}
+
+// Weight actually moved on each rep. Bodyweight and assisted exercises count
+// the lifter's bodyweight, so they have no load until it's set. Timed and
+// distance sets have no reps to multiply, so no load either.
+export function getEffectiveLoad(
+  type: MeasurementType,
+  weight: number | null,
+  bodyweight: number | null
+): number | null {
+  switch (type) {
+    case "weight_reps":
+      return weight;
+    case "bodyweight_reps":
+      return bodyweight !== null ? bodyweight + (weight ?? 0) : weight;
+    case "assisted_reps":
+      return bodyweight !== null ? Math.max(bodyweight - (weight ?? 0), 0) : null;
+    case "duration":
+    case "distance":
+      return null;
+  }
+}
+
+// Tonnage of one set: effective load × reps
+export function getSetVolume(
+  type: MeasurementType,
+  weight: number | null,
+  reps: number | null,
+  bodyweight: number | null
+) {
+  return (getEffectiveLoad(type, weight, bodyweight) ?? 0) * (reps ?? 0);
+}
+
+// "45s", "2m 30s" or "1h 5m"
+export function formatDuration(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+
+  if (hours > 0) {
+    return minutes > 0 ? `${hours}h ${minutes}m` : `${hours}h`;
+  }
+
+  if (minutes > 0) {
+    return seconds > 0 ? `${minutes}m ${seconds}s` : `${minutes}m`;
+  }
+
+  return `${seconds}s`;
+}
+
+// Metres, switching to kilometres from 1 km
+export function formatDistance(metres: number) {
+  return metres >= 1000
+    ? `${(metres / 1000).toLocaleString("en-US", { maximumFractionDigits: 2 })} km`
+    : `${metres.toLocaleString("en-US", { maximumFractionDigits: 1 })} m`;
+}
+
+// What a set records; the weight is in the user's display unit
+type MeasuredSet = {
+  weight: number | null;
+  reps: number | null;
+  durationSeconds: number | null;
+  distance: number | null;
+};
+
+// Bodyweight exercises show their weight relative to the lifter's, e.g.
+// "BW + 10 kg" for a weighted dip or "BW − 20 kg" for an assisted pull-up
+export function formatSetWeight(
+  type: MeasurementType,
+  weight: number | null,
+  unit: WeightUnit
+) {
+  if (type === "bodyweight_reps" || type === "assisted_reps") {
+    const sign = type === "bodyweight_reps" ? "+" : "−";
+    return weight ? `BW ${sign} ${formatWeight(weight, unit)}` : "BW";
+  }
+
+  return weight ? formatWeight(weight, unit) : "-";
+}
+
+// Reps, time or distance, whichever the exercise is measured by
+export function formatSetMeasurement(type: MeasurementType, set: MeasuredSet) {
+  switch (type) {
+    case "duration":
+      return set.durationSeconds !== null
+        ? formatDuration(set.durationSeconds)
+        : "-";
+    case "distance":
+      return set.distance !== null ? formatDistance(set.distance) : "-";
+    default:
+      return set.reps !== null ? set.reps.toString() : "-";
+  }
+}
+
+// "60 kg × 8 reps", "BW + 10 kg × 8 reps" or "40 m with 32 kg"
+export function formatSetSummary(
+  type: MeasurementType,
+  set: MeasuredSet,
+  unit: WeightUnit
+) {
+  const measurement = formatSetMeasurement(type, set);
+
+  if (usesReps(type)) {
+    return `${formatSetWeight(type, set.weight, unit)} × ${measurement} reps`;
+  }
+
+  return set.weight
+    ? `${measurement} with ${formatWeight(set.weight, unit)}`
+    : measurement;
+}
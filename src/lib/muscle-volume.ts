@@ -0,0 +1,89 @@
+import type { MuscleGroup } from "./muscles";
+
+// Sets lighter than this share of the exercise's heaviest set in the same
+// workout are treated as warm-ups rather than hard sets
+export const HARD_SET_MIN_INTENSITY = 0.6;
+
+// How much a set counts toward each secondary muscle of the exercise
+export const SECONDARY_FRACTIONS = [0, 0.25, 0.5, 1] as const;
+
+export type SecondaryFraction = (typeof SECONDARY_FRACTIONS)[number];
+
+export const DEFAULT_SECONDARY_FRACTION: SecondaryFraction = 0.5;
+
+export const SECONDARY_FRACTION_LABELS: Record<SecondaryFraction, string> = {
+  0: "Primary muscle only",
+  0.25: "Secondary muscles at ¼",
+  0.5: "Secondary muscles at ½",
+  1: "Secondary muscles in full",
+};
+
+export function isSecondaryFraction(value: unknown): value is SecondaryFraction {
+  return SECONDARY_FRACTIONS.includes(value as SecondaryFraction);
+}
+
+// Completed weeks the analytics page averages over, before the current one
+export const ANALYTICS_WEEK_OPTIONS = [4, 8, 12, 26] as const;
+
+export type AnalyticsWeeks = (typeof ANALYTICS_WEEK_OPTIONS)[number];
+
+export const DEFAULT_ANALYTICS_WEEKS: AnalyticsWeeks = 8;
+
+export function isAnalyticsWeeks(value: unknown): value is AnalyticsWeeks {
+  return ANALYTICS_WEEK_OPTIONS.includes(value as AnalyticsWeeks);
+}
+
+// Weekly hard sets that suit most lifters training for size, with smaller
+// ranges for muscles that get plenty of indirect work
+export const WEEKLY_SET_TARGETS: Record<
+  MuscleGroup,
+  { min: number; max: number }
+> = {
+  chest: { min: 10, max: 20 },
+  shoulders: { min: 8, max: 20 },
+  triceps: { min: 6, max: 14 },
+  biceps: { min: 6, max: 14 },
+  forearms: { min: 2, max: 10 },
+  lats: { min: 10, max: 20 },
+  "upper back": { min: 10, max: 20 },
+  traps: { min: 4, max: 12 },
+  "lower back": { min: 3, max: 10 },
+  core: { min: 4, max: 12 },
+  glutes: { min: 6, max: 16 },
+  quads: { min: 10, max: 20 },
+  hamstrings: { min: 8, max: 16 },
+  adductors: { min: 2, max: 10 },
+  calves: { min: 6, max: 16 },
+};
+
+export type VolumeStatus = "below" | "within" | "above";
+
+export const VOLUME_STATUS_LABELS: Record<VolumeStatus, string> = {
+  below: "Below target",
+  within: "On target",
+  above: "Above target",
+};
+
+export function getVolumeStatus(
+  muscle: MuscleGroup,
+  weeklyHardSets: number
+): VolumeStatus {
+  const { min, max } = WEEKLY_SET_TARGETS[muscle];
+
+  if (weeklyHardSets < min) {
+    return "below";
+  }
+
+  return weeklyHardSets > max ? "above" : "within";
+}
+
+// Whether a set counts as a hard set, given the heaviest load logged for the
+// same exercise in the workout. Sets without a load (unweighted, timed or
+// distance) always count.
+export function isHardSet(load: number | null, heaviestLoad: number | null) {
+  if (load === null || heaviestLoad === null || heaviestLoad === 0) {
+    return true;
+  }
+
+  return load >= heaviestLoad * HARD_SET_MIN_INTENSITY;
+}
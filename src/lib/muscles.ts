@@ -0,0 +1,67 @@
+// Muscle groups used for `exercises.primaryMuscle` and `secondaryMuscles`
+export const MUSCLE_GROUPS = [
+  "chest",
+  "shoulders",
+  "triceps",
+  "biceps",
+  "forearms",
+  "lats",
+  "upper back",
+  "traps",
+  "lower back",
+  "core",
+  "glutes",
+  "quads",
+  "hamstrings",
+  "adductors",
+  "calves",
+] as const;
+
+export type MuscleGroup = (typeof MUSCLE_GROUPS)[number];
+
+export function formatMuscle(muscle: string): string {
+  return muscle.charAt(0).toUpperCase() + muscle.slice(1);
+}
+
+// Coarser regions for charts, where fifteen muscle groups are too many to read
+export const BODY_PARTS = [
+  "chest",
+  "back",
+  "shoulders",
+  "arms",
+  "legs",
+  "core",
+] as const;
+
+export type BodyPart = (typeof BODY_PARTS)[number];
+
+export const BODY_PART_LABELS: Record<BodyPart, string> = {
+  chest: "Chest",
+  back: "Back",
+  shoulders: "Shoulders",
+  arms: "Arms",
+  legs: "Legs",
+  core: "Core",
+};
+
+export const MUSCLE_BODY_PARTS: Record<MuscleGroup, BodyPart> = {
+  chest: "chest",
+  shoulders: "shoulders",
+  triceps: "arms",
+  biceps: "arms",
+  forearms: "arms",
+  lats: "back",
+  "upper back": "back",
+  traps: "back",
+  "lower back": "back",
+  core: "core",
+  glutes: "legs",
+  quads: "legs",
+  hamstrings: "legs",
+  adductors: "legs",
+  calves: "legs",
+};
+
+export function isMuscleGroup(value: unknown): value is MuscleGroup {
+  return MUSCLE_GROUPS.includes(value as MuscleGroup);
+}
@@ -0,0 +1,35 @@
+export const ONE_REP_MAX_FORMULAS = ["epley", "brzycki"] as const;
+
+export type OneRepMaxFormula = (typeof ONE_REP_MAX_FORMULAS)[number];
+
+export const ONE_REP_MAX_FORMULA_LABELS: Record<OneRepMaxFormula, string> = {
+  epley: "Epley",
+  brzycki: "Brzycki",
+};
+
+export function isOneRepMaxFormula(value: unknown): value is OneRepMaxFormula {
+  return ONE_REP_MAX_FORMULAS.includes(value as OneRepMaxFormula);
+}
+
+// Estimated one-rep max for a set. A single rep is its own 1RM; Brzycki is
+// undefined from 37 reps up, so those sets return null.
+export function estimateOneRepMax(
+  weight: number,
+  reps: number,
+  formula: OneRepMaxFormula
+): number | null {
+  if (weight <= 0 || reps <= 0) {
+    return null;
+  }
+
+  if (reps === 1) {
+    return weight;
+  }
+
+  switch (formula) {
+    case "epley":
+      return weight * (1 + reps / 30);
+    case "brzycki":
+      return reps < 37 ? (weight * 36) / (37 - reps) : null;
+  }
+}
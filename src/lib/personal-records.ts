@@ -0,0 +1,200 @@
+import { estimateOneRepMax, type OneRepMaxFormula } from "./one-rep-max";
+
+export type PersonalRecordType = "weight" | "estimatedOneRepMax" | "volume";
+
+export const PERSONAL_RECORD_LABELS: Record<PersonalRecordType, string> = {
+  weight: "Weight PR",
+  estimatedOneRepMax: "1RM PR",
+  volume: "Volume PR",
+};
+
+export type PersonalRecordSet = {
+  setId: string;
+  workoutExerciseId: string;
+  workoutId: string;
+  exerciseId: string;
+  date: string;
+  weight: number | null;
+  reps: number;
+};
+
+export type PersonalRecordEvent = {
+  type: PersonalRecordType;
+  exerciseId: string;
+  workoutId: string;
+  date: string;
+  // Set that broke the record; null for session volume records
+  setId: string | null;
+  workoutExerciseIds: string[];
+  weight: number | null;
+  reps: number | null;
+  value: number;
+  previous: number;
+};
+
+type ExerciseBests = {
+  weightByReps: Map<number, number>;
+  estimatedOneRepMax: number | null;
+  volume: number | null;
+};
+
+type OpenSession = {
+  workoutId: string;
+  date: string;
+  workoutExerciseIds: Set<string>;
+  weightByReps: Map<number, number>;
+  estimatedOneRepMax: number | null;
+  volume: number;
+};
+
+// Replays a user's sets in chronological order and reports every set or
+// session that beat the best previously recorded for that exercise:
+// - weight: more weight than ever lifted for the same rep count
+// - estimatedOneRepMax: a higher estimated 1RM than any earlier set
+// - volume: more total weight × reps in one workout than any earlier workout,
+//   once an earlier workout has moved some weight
+// Sets are compared with earlier sessions, so a record needs something to beat:
+// first-time rep counts and the first session of an exercise never count.
+// Within a session a set must also beat the sets before it, so ramping up to
+// a heavy single flags only the sets that were new bests when lifted.
+export function detectPersonalRecords(
+  chronologicalSets: PersonalRecordSet[],
+  formula: OneRepMaxFormula
+): PersonalRecordEvent[] {
+  const events: PersonalRecordEvent[] = [];
+  const bests = new Map<string, ExerciseBests>();
+  const openSessions = new Map<string, OpenSession>();
+
+  const closeSession = (exerciseId: string) => {
+    const session = openSessions.get(exerciseId);
+    const exerciseBests = bests.get(exerciseId);
+
+    if (!session || !exerciseBests) {
+      return;
+    }
+
+    // A previous best of 0 (only bodyweight or zero-rep sessions so far) isn't
+    // a record to beat
+    if (
+      exerciseBests.volume !== null &&
+      exerciseBests.volume > 0 &&
+      session.volume > exerciseBests.volume
+    ) {
+      events.push({
+        type: "volume",
+        exerciseId,
+        workoutId: session.workoutId,
+        date: session.date,
+        setId: null,
+        workoutExerciseIds: Array.from(session.workoutExerciseIds),
+        weight: null,
+        reps: null,
+        value: session.volume,
+        previous: exerciseBests.volume,
+      });
+    }
+
+    for (const [reps, weight] of Array.from(session.weightByReps)) {
+      const previousWeight = exerciseBests.weightByReps.get(reps);
+      if (previousWeight === undefined || weight > previousWeight) {
+        exerciseBests.weightByReps.set(reps, weight);
+      }
+    }
+    if (
+      session.estimatedOneRepMax !== null &&
+      (exerciseBests.estimatedOneRepMax === null ||
+        session.estimatedOneRepMax > exerciseBests.estimatedOneRepMax)
+    ) {
+      exerciseBests.estimatedOneRepMax = session.estimatedOneRepMax;
+    }
+    exerciseBests.volume = Math.max(exerciseBests.volume ?? 0, session.volume);
+    openSessions.delete(exerciseId);
+  };
+
+  for (const set of chronologicalSets) {
+    if (openSessions.get(set.exerciseId)?.workoutId !== set.workoutId) {
+      closeSession(set.exerciseId);
+      openSessions.set(set.exerciseId, {
+        workoutId: set.workoutId,
+        date: set.date,
+        workoutExerciseIds: new Set(),
+        weightByReps: new Map(),
+        estimatedOneRepMax: null,
+        volume: 0,
+      });
+    }
+
+    const session = openSessions.get(set.exerciseId)!;
+    session.workoutExerciseIds.add(set.workoutExerciseId);
+
+    if (!bests.has(set.exerciseId)) {
+      bests.set(set.exerciseId, {
+        weightByReps: new Map(),
+        estimatedOneRepMax: null,
+        volume: null,
+      });
+    }
+    const exerciseBests = bests.get(set.exerciseId)!;
+
+    if (set.weight === null || set.weight <= 0) {
+      continue;
+    }
+
+    session.volume += set.weight * set.reps;
+
+    const setEvent = {
+      exerciseId: set.exerciseId,
+      workoutId: set.workoutId,
+      date: set.date,
+      setId: set.setId,
+      workoutExerciseIds: [set.workoutExerciseId],
+      weight: set.weight,
+      reps: set.reps,
+    };
+
+    const previousWeight = exerciseBests.weightByReps.get(set.reps);
+    const sessionWeight = session.weightByReps.get(set.reps);
+    if (
+      previousWeight !== undefined &&
+      set.weight > previousWeight &&
+      (sessionWeight === undefined || set.weight > sessionWeight)
+    ) {
+      events.push({
+        ...setEvent,
+        type: "weight",
+        value: set.weight,
+        previous: previousWeight,
+      });
+    }
+    if (sessionWeight === undefined || set.weight > sessionWeight) {
+      session.weightByReps.set(set.reps, set.weight);
+    }
+
+    const estimate = estimateOneRepMax(set.weight, set.reps, formula);
+    if (estimate !== null) {
+      const previousEstimate = exerciseBests.estimatedOneRepMax;
+      const sessionEstimate = session.estimatedOneRepMax;
+      if (
+        previousEstimate !== null &&
+        estimate > previousEstimate &&
+        (sessionEstimate === null || estimate > sessionEstimate)
+      ) {
+        events.push({
+          ...setEvent,
+          type: "estimatedOneRepMax",
+          value: estimate,
+          previous: previousEstimate,
+        });
+      }
+      if (sessionEstimate === null || estimate > sessionEstimate) {
+        session.estimatedOneRepMax = estimate;
+      }
+    }
+  }
+
+  for (const exerciseId of Array.from(openSessions.keys())) {
+    closeSession(exerciseId);
+  }
+
+  return events;
+}
@@ -0,0 +1,154 @@
+import {
+  formatDistance,
+  formatDuration,
+  formatSetMeasurement,
+  formatSetWeight,
+  getSetVolume,
+  usesReps,
+  type MeasurementType,
+} from "./measurement-types";
+import { isWarmUpSet, type SetType } from "./set-types";
+import { formatWeight, type WeightUnit } from "./units";
+
+// Weight in the user's display unit, distance in metres
+type ComparedSet = {
+  weight: number | null;
+  reps: number | null;
+  durationSeconds: number | null;
+  distance: number | null;
+  setType: SetType;
+};
+
+function getWorkingSets<T extends ComparedSet>(sets: T[]) {
+  return sets.filter((set) => !isWarmUpSet(set.setType));
+}
+
+// Working sets written the way lifters do, with runs of identical sets
+// collapsed: "3×5 @ 100 kg", "2×8 @ BW, 1×6 @ BW + 10 kg" or "3×1m"
+export function formatSetScheme(
+  type: MeasurementType,
+  sets: ComparedSet[],
+  unit: WeightUnit
+) {
+  const groups: {
+    count: number;
+    measurement: string;
+    weight: string | null;
+  }[] = [];
+
+  for (const set of getWorkingSets(sets)) {
+    const measurement = formatSetMeasurement(type, set);
+    const weight =
+      usesReps(type) && type !== "weight_reps"
+        ? formatSetWeight(type, set.weight, unit)
+        : set.weight
+          ? formatWeight(set.weight, unit)
+          : null;
+    const last = groups.at(-1);
+
+    if (last && last.measurement === measurement && last.weight === weight) {
+      last.count++;
+    } else {
+      groups.push({ count: 1, measurement, weight });
+    }
+  }
+
+  return groups
+    .map(
+      ({ count, measurement, weight }) =>
+        `${count}×${measurement}${weight ? ` @ ${weight}` : ""}`
+    )
+    .join(", ");
+}
+
+export type PerformanceDelta = {
+  // Positive when today's sets did more
+  amount: number;
+  // "+250 kg volume", "−2 reps" or "+30s"
+  label: string;
+};
+
+function formatSigned(amount: number, formatted: string) {
+  return `${amount > 0 ? "+" : "−"}${formatted}`;
+}
+
+// How today's working sets compare with last time's: by volume for weighted
+// rep sets, otherwise by total reps, time or distance. Each session's volume
+// counts the bodyweight on its own day. Null until today has a working set to
+// compare.
+export function getPerformanceDelta(
+  type: MeasurementType,
+  today: ComparedSet[],
+  previous: ComparedSet[],
+  unit: WeightUnit,
+  bodyweight: { today: number | null; previous: number | null }
+): PerformanceDelta | null {
+  const todaySets = getWorkingSets(today);
+  const previousSets = getWorkingSets(previous);
+
+  if (todaySets.length === 0) {
+    return null;
+  }
+
+  const sum = (list: ComparedSet[], value: (set: ComparedSet) => number) =>
+    list.reduce((total, set) => total + value(set), 0);
+
+  if (type === "duration") {
+    const amount =
+      sum(todaySets, (set) => set.durationSeconds ?? 0) -
+      sum(previousSets, (set) => set.durationSeconds ?? 0);
+    return {
+      amount,
+      label:
+        amount === 0
+          ? "Same time"
+          : formatSigned(amount, formatDuration(Math.abs(amount))),
+    };
+  }
+
+  if (type === "distance") {
+    // Rounded to the centimetre the column stores, so float sums compare
+    const amount =
+      Math.round(
+        (sum(todaySets, (set) => set.distance ?? 0) -
+          sum(previousSets, (set) => set.distance ?? 0)) *
+          100
+      ) / 100;
+    return {
+      amount,
+      label:
+        amount === 0
+          ? "Same distance"
+          : formatSigned(amount, formatDistance(Math.abs(amount))),
+    };
+  }
+
+  const volume = (bodyweight: number | null) => (set: ComparedSet) =>
+    getSetVolume(type, set.weight, set.reps, bodyweight);
+  const todayVolume = sum(todaySets, volume(bodyweight.today));
+  const previousVolume = sum(previousSets, volume(bodyweight.previous));
+
+  if (todayVolume > 0 || previousVolume > 0) {
+    const amount = todayVolume - previousVolume;
+    return {
+      amount,
+      label:
+        amount === 0
+          ? "Same volume"
+          : `${formatSigned(amount, formatWeight(Math.abs(amount), unit, 0))} volume`,
+    };
+  }
+
+  const amount =
+    sum(todaySets, (set) => set.reps ?? 0) -
+    sum(previousSets, (set) => set.reps ?? 0);
+  return {
+    amount,
+    label:
+      amount === 0
+        ? "Same reps"
+        : `${formatSigned(amount, Math.abs(amount).toString())} ${
+            Math.abs(amount) === 1 ? "rep" : "reps"
+          }`,
+  };
+}
@@ -0,0 +1,106 @@
+import { addDays, differenceInCalendarDays, format, parse } from "date-fns";
+
+export const PRESCRIPTION_TYPES = ["percentage", "weight"] as const;
+
+export type PrescriptionType = (typeof PRESCRIPTION_TYPES)[number];
+
+export const PRESCRIPTION_TYPE_LABELS: Record<PrescriptionType, string> = {
+  percentage: "% of 1RM",
+  weight: "Fixed weight",
+};
+
+export const MAX_PROGRAM_WEEKS = 52;
+
+export function isPrescriptionType(value: unknown): value is PrescriptionType {
+  return PRESCRIPTION_TYPES.includes(value as PrescriptionType);
+}
+
+function parseDate(value: string) {
+  return parse(value, "yyyy-MM-dd", new Date());
+}
+
+// Which week (1-based) and day of that week a date falls on, or null if the
+// date is before the program starts or after its last week
+export function getProgramPosition(
+  startDate: string,
+  weekCount: number,
+  date: string
+): { weekNumber: number; dayOffset: number } | null {
+  const daysIn = differenceInCalendarDays(parseDate(date), parseDate(startDate));
+
+  if (daysIn < 0 || daysIn >= weekCount * 7) {
+    return null;
+  }
+
+  return { weekNumber: Math.floor(daysIn / 7) + 1, dayOffset: daysIn % 7 };
+}
+
+export function getScheduledDate(
+  startDate: string,
+  weekNumber: number,
+  dayOffset: number
+): string {
+  return format(
+    addDays(parseDate(startDate), (weekNumber - 1) * 7 + dayOffset),
+    "yyyy-MM-dd"
+  );
+}
+
+// Weekday a program day lands on, since weeks start on the program's start date
+export function getProgramDayLabel(startDate: string, dayOffset: number): string {
+  return format(addDays(parseDate(startDate), dayOffset), "EEEE");
+}
+
+// Load prescribed for a week under linear progression: the base load plus one
+// step for every earlier non-deload week. Deload weeks don't advance the
+// progression and keep only deloadPercentage of the load.
+export function resolvePrescribedLoad(
+  base: number,
+  progressionPerWeek: number,
+  weeks: { weekNumber: number; isDeload: boolean }[],
+  weekNumber: number,
+  deloadPercentage: number
+): number {
+  const progressedWeeks = weeks.filter(
+    (week) => week.weekNumber < weekNumber && !week.isDeload
+  ).length;
+  const load = base + progressedWeeks * progressionPerWeek;
+  const isDeload = weeks.some(
+    (week) => week.weekNumber === weekNumber && week.isDeload
+  );
+
+  return isDeload ? (load * deloadPercentage) / 100 : load;
+}
+
+// How many prescribed sets were done, per prescription. A logged set of the
+// same exercise counts once, toward the first prescription it meets the reps
+// of; weight isn't judged because a % of 1RM target moves as the 1RM does.
+// Timed and distance sets have no reps to judge, so they always count.
+export function countCompletedSets(
+  prescriptions: { exerciseId: string; sets: number; reps: number }[],
+  loggedSets: { exerciseId: string; reps: number | null }[]
+): number[] {
+  const pool = new Map<string, (number | null)[]>();
+
+  for (const set of loggedSets) {
+    pool.set(set.exerciseId, [...(pool.get(set.exerciseId) ?? []), set.reps]);
+  }
+
+  return prescriptions.map((prescription) => {
+    const available = pool.get(prescription.exerciseId) ?? [];
+    let completed = 0;
+
+    for (let i = 0; i < available.length && completed < prescription.sets; ) {
+      const reps = available[i];
+
+      if (reps === null || reps >= prescription.reps) {
+        available.splice(i, 1);
+        completed++;
+      } else {
+        i++;
+      }
+    }
+
+    return completed;
+  });
+}
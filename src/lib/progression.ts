@@ -0,0 +1,306 @@
+import { usesReps, type MeasurementType } from "./measurement-types";
+import { formatSetScheme } from "./previous-performance";
+import { isWarmUpSet, type SetType } from "./set-types";
+import {
+  formatWeight,
+  roundToPlateIncrement,
+  type WeightUnit,
+} from "./units";
+
+// How the next session's weight and reps are worked out from the last ones:
+// - double progression adds reps across the rep range, then weight once
+//   every set reaches the top of it
+// - linear adds weight every session the bottom of the range is hit on every
+//   set, and drops back after missing it twice
+// - RPE-based moves the weight toward a target effort
+export const PROGRESSION_RULES = [
+  "double_progression",
+  "linear",
+  "rpe",
+] as const;
+
+export type ProgressionRule = (typeof PROGRESSION_RULES)[number];
+
+export const DEFAULT_PROGRESSION_RULE: ProgressionRule = "double_progression";
+
+export const PROGRESSION_RULE_LABELS: Record<ProgressionRule, string> = {
+  double_progression: "Double progression",
+  linear: "Linear (+5 lb or +2.5 kg a session)",
+  rpe: "RPE-based",
+};
+
+export const DEFAULT_REP_RANGE = { min: 8, max: 12 };
+
+export const MAX_TARGET_REPS = 50;
+
+// Added each time the weight goes up
+export const PROGRESSION_INCREMENTS: Record<WeightUnit, number> = {
+  kg: 2.5,
+  lb: 5,
+};
+
+// Effort the RPE-based rule aims every working set at
+export const TARGET_RPE = 8;
+
+// Roughly how much load one point of RPE is worth
+const LOAD_PER_RPE_POINT = 0.03;
+
+// Share of the load the linear rule drops after stalling
+const LINEAR_DELOAD = 0.1;
+
+export function isProgressionRule(value: unknown): value is ProgressionRule {
+  return PROGRESSION_RULES.includes(value as ProgressionRule);
+}
+
+export function toProgressionRule(value: string): ProgressionRule {
+  return isProgressionRule(value) ? value : DEFAULT_PROGRESSION_RULE;
+}
+
+export type RepRange = { min: number; max: number };
+
+// Weight in the user's display unit
+type HistorySet = {
+  weight: number | null;
+  reps: number | null;
+  rpe: number | null;
+  setType: SetType;
+};
+
+export type ProgressionSuggestion = {
+  sets: number;
+  // Assistance for assisted exercises, added weight for bodyweight ones
+  weight: number | null;
+  reps: number;
+  reason: string;
+};
+
+function clamp(value: number, { min, max }: RepRange) {
+  return Math.min(Math.max(value, min), max);
+}
+
+// Working sets with reps at the heaviest weight of a session. Assisted
+// exercises get harder with less assistance, so their "heaviest" is the
+// least assisted.
+function getTopSets(type: MeasurementType, sets: HistorySet[]) {
+  const working = sets.filter(
+    (set): set is HistorySet & { reps: number } =>
+      !isWarmUpSet(set.setType) && set.reps !== null
+  );
+
+  if (working.length === 0) {
+    return null;
+  }
+
+  const weights = working.map((set) => set.weight ?? 0);
+  const top =
+    type === "assisted_reps" ? Math.min(...weights) : Math.max(...weights);
+
+  return {
+    count: working.length,
+    weight: top,
+    sets: working.filter((set) => (set.weight ?? 0) === top),
+  };
+}
+
+type TopSets = NonNullable<ReturnType<typeof getTopSets>>;
+
+// Moves the load by a number of increments, which for assisted exercises
+// means taking assistance away
+function stepLoad(
+  type: MeasurementType,
+  weight: number,
+  steps: number,
+  unit: WeightUnit
+) {
+  const change = steps * PROGRESSION_INCREMENTS[unit];
+  return Math.max(
+    0,
+    type === "assisted_reps" ? weight - change : weight + change
+  );
+}
+
+function toWeight(weight: number) {
+  return weight > 0 ? weight : null;
+}
+
+function formatLoad(weight: number, unit: WeightUnit) {
+  return weight > 0 ? formatWeight(weight, unit) : "bodyweight";
+}
+
+function suggestDoubleProgression(
+  type: MeasurementType,
+  top: TopSets,
+  repRange: RepRange,
+  unit: WeightUnit
+): ProgressionSuggestion {
+  const fewestReps = Math.min(...top.sets.map((set) => set.reps));
+
+  if (fewestReps >= repRange.max) {
+    return {
+      sets: top.count,
+      weight: toWeight(stepLoad(type, top.weight, 1, unit)),
+      reps: repRange.min,
+      reason: `Every set reached ${repRange.max} reps, so go up and start again at ${repRange.min}.`,
+    };
+  }
+
+  const reps = clamp(fewestReps + 1, repRange);
+
+  return {
+    sets: top.count,
+    weight: toWeight(top.weight),
+    reps,
+    reason: `Stay at ${formatLoad(top.weight, unit)} and aim for ${reps} reps on every set.`,
+  };
+}
+
+function suggestLinear(
+  type: MeasurementType,
+  top: TopSets,
+  // The session before, to tell a stall from a single miss
+  before: TopSets | null,
+  repRange: RepRange,
+  unit: WeightUnit
+): ProgressionSuggestion {
+  const target = repRange.min;
+  const isMissed = (session: TopSets) =>
+    session.sets.some((set) => set.reps < target);
+
+  if (!isMissed(top)) {
+    return {
+      sets: top.count,
+      weight: toWeight(stepLoad(type, top.weight, 1, unit)),
+      reps: target,
+      reason: `Every set reached ${target} reps, so add ${formatWeight(PROGRESSION_INCREMENTS[unit], unit)}.`,
+    };
+  }
+
+  if (
+    type !== "assisted_reps" &&
+    before &&
+    before.weight === top.weight &&
+    isMissed(before)
+  ) {
+    return {
+      sets: top.count,
+      weight: toWeight(
+        roundToPlateIncrement(top.weight * (1 - LINEAR_DELOAD), unit)
+      ),
+      reps: target,
+      reason: `Missed ${target} reps at ${formatLoad(top.weight, unit)} twice, so drop ${LINEAR_DELOAD * 100}% and build back up.`,
+    };
+  }
+
+  return {
+    sets: top.count,
+    weight: toWeight(top.weight),
+    reps: target,
+    reason: `Repeat ${formatLoad(top.weight, unit)} until every set reaches ${target} reps.`,
+  };
+}
+
+function suggestByRpe(
+  type: MeasurementType,
+  top: TopSets,
+  repRange: RepRange,
+  unit: WeightUnit
+): ProgressionSuggestion | null {
+  const rated = top.sets.filter(
+    (set): set is typeof set & { rpe: number } => set.rpe !== null
+  );
+
+  if (rated.length === 0) {
+    return null;
+  }
+
+  const hardest = rated.reduce((a, b) => (b.rpe > a.rpe ? b : a));
+  const gap = TARGET_RPE - hardest.rpe;
+  const reps = clamp(hardest.reps, repRange);
+  // Assistance can't be scaled as a share of the load, so it moves a whole
+  // increment per point instead
+  const weight =
+    type === "assisted_reps" || top.weight === 0
+      ? stepLoad(type, top.weight, Math.round(gap), unit)
+      : roundToPlateIncrement(
+          top.weight * (1 + gap * LOAD_PER_RPE_POINT),
+          unit
+        );
+
+  return {
+    sets: top.count,
+    weight: toWeight(weight),
+    reps,
+    reason:
+      gap === 0
+        ? `Last time hit RPE ${TARGET_RPE}, so repeat it.`
+        : `Last time's hardest set was RPE ${hardest.rpe}, so ${gap > 0 ? "go up" : "back off"} to land on RPE ${TARGET_RPE}.`,
+  };
+}
+
+// What to aim for next time, from the exercise's recent sessions (most
+// recent first). Only rep-based exercises get suggestions, and only once
+// they have a working set to go on.
+export function suggestNextSession(
+  type: MeasurementType,
+  sessions: HistorySet[][],
+  rule: ProgressionRule,
+  repRange: RepRange,
+  unit: WeightUnit
+): ProgressionSuggestion | null {
+  if (!usesReps(type)) {
+    return null;
+  }
+
+  // Sessions without a working set (all warm-ups, say) are skipped
+  const tops = sessions.flatMap((session) => getTopSets(type, session) ?? []);
+  const [top, before = null] = tops;
+
+  if (!top) {
+    return null;
+  }
+
+  switch (rule) {
+    case "double_progression":
+      return suggestDoubleProgression(type, top, repRange, unit);
+    case "linear":
+      return suggestLinear(type, top, before, repRange, unit);
+    case "rpe": {
+      const suggestion = suggestByRpe(type, top, repRange, unit);
+
+      if (suggestion) {
+        return suggestion;
+      }
+
+      // Without an RPE logged there's no effort to aim from
+      const fallback = suggestDoubleProgression(type, top, repRange, unit);
+      return {
+        ...fallback,
+        reason: `No RPE logged last time. ${fallback.reason}`,
+      };
+    }
+  }
+}
+
+// The suggestion as a set to pre-fill a form or a planned workout with
+export function toSuggestedSet({ weight, reps }: ProgressionSuggestion) {
+  return {
+    weight,
+    reps,
+    durationSeconds: null,
+    distance: null,
+    setType: "working" as const,
+  };
+}
+
+// "3×8 @ 105 lbs"
+export function formatSuggestion(
+  type: MeasurementType,
+  suggestion: ProgressionSuggestion,
+  unit: WeightUnit
+) {
+  return formatSetScheme(
+    type,
+    Array.from({ length: suggestion.sets }, () => toSuggestedSet(suggestion)),
+    unit
+  );
+}
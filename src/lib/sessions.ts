@@ -0,0 +1,22 @@
+// Seconds each tap of − or + moves the running rest timer by
+export const REST_TIMER_STEP_SECONDS = 15;
+
+// "0:45", "12:05" or "1:02:05", for timers counting while you watch
+export function formatClock(totalSeconds: number) {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = (totalSeconds % 60).toString().padStart(2, "0");
+
+  return hours > 0
+    ? `${hours}:${minutes.toString().padStart(2, "0")}:${seconds}`
+    : `${minutes}:${seconds}`;
+}
+
+// Whole seconds from a session's start to its end, or to now while it's
+// still going
+export function getSessionSeconds(startedAt: Date, endedAt: Date) {
+  return Math.max(
+    0,
+    Math.floor((endedAt.getTime() - startedAt.getTime()) / 1000)
+  );
+}
@@ -0,0 +1,51 @@
+export const SET_TYPES = [
+  "warmup",
+  "working",
+  "drop",
+  "failure",
+  "amrap",
+] as const;
+
+export type SetType = (typeof SET_TYPES)[number];
+
+export const DEFAULT_SET_TYPE: SetType = "working";
+
+export const SET_TYPE_LABELS: Record<SetType, string> = {
+  warmup: "Warm-up",
+  working: "Working",
+  drop: "Drop set",
+  failure: "To failure",
+  amrap: "AMRAP",
+};
+
+// RPE is logged in half points from 1 to 10, RIR as whole reps in reserve
+export const MIN_RPE = 1;
+export const MAX_RPE = 10;
+export const RPE_STEP = 0.5;
+export const MAX_RIR = 10;
+
+// Room for notations like "3-1-1-0" or "31X0"
+export const MAX_TEMPO_LENGTH = 20;
+
+export function isSetType(value: unknown): value is SetType {
+  return SET_TYPES.includes(value as SetType);
+}
+
+export function toSetType(value: string): SetType {
+  return isSetType(value) ? value : DEFAULT_SET_TYPE;
+}
+
+// Warm-ups are logged for the record but left out of volume, PRs and totals
+export function isWarmUpSet(setType: string) {
+  return setType === "warmup";
+}
+
+// "RPE 8 · 2 RIR", or whichever half was logged; null if neither was
+export function formatEffort(rpe: number | null, rir: number | null) {
+  const parts = [
+    ...(rpe !== null ? [`RPE ${rpe}`] : []),
+    ...(rir !== null ? [`${rir} RIR`] : []),
+  ];
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
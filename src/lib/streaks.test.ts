@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { getDayStreak, getWeekStreak } from "./streaks";
+
+describe("getDayStreak", () => {
+  it("is empty without any training days", () => {
+    expect(getDayStreak([], "2024-03-10")).toEqual({ current: 0, longest: 0 });
+  });
+
+  it("counts a run ending today or yesterday as current", () => {
+    const dates = ["2024-03-07", "2024-03-08", "2024-03-09"];
+
+    expect(getDayStreak(dates, "2024-03-09")).toEqual({
+      current: 3,
+      longest: 3,
+    });
+    expect(getDayStreak(dates, "2024-03-10")).toEqual({
+      current: 3,
+      longest: 3,
+    });
+  });
+
+  it("ends the current run after a missed day", () => {
+    expect(getDayStreak(["2024-03-07", "2024-03-08"], "2024-03-10")).toEqual({
+      current: 0,
+      longest: 2,
+    });
+  });
+
+  it("keeps the longest run when a later one is shorter", () => {
+    const dates = [
+      "2024-02-26",
+      "2024-02-27",
+      "2024-02-28",
+      "2024-02-29",
+      "2024-03-01",
+      "2024-03-05",
+      "2024-03-06",
+    ];
+
+    expect(getDayStreak(dates, "2024-03-06")).toEqual({
+      current: 2,
+      longest: 5,
+    });
+  });
+});
+
+describe("getWeekStreak", () => {
+  // Mondays: 2024-03-04, 03-11, 03-18
+  const dates = ["2024-03-05", "2024-03-07", "2024-03-12", "2024-03-18"];
+
+  it("counts several workouts in a week once", () => {
+    expect(getWeekStreak(dates, "2024-03-19", 1)).toEqual({
+      current: 3,
+      longest: 3,
+    });
+  });
+
+  it("keeps the current run going through the week after", () => {
+    expect(getWeekStreak(dates, "2024-03-25", 1)).toEqual({
+      current: 3,
+      longest: 3,
+    });
+    expect(getWeekStreak(dates, "2024-04-01", 1)).toEqual({
+      current: 0,
+      longest: 3,
+    });
+  });
+
+  it("follows the week start", () => {
+    // With Sunday starts, Sunday the 17th is in a week of its own
+    const weekend = ["2024-03-16", "2024-03-17"];
+
+    expect(getWeekStreak(weekend, "2024-03-17", 0)).toEqual({
+      current: 2,
+      longest: 2,
+    });
+    expect(getWeekStreak(weekend, "2024-03-17", 1)).toEqual({
+      current: 1,
+      longest: 1,
+    });
+  });
+});
@@ -0,0 +1,57 @@
+import {
+  differenceInCalendarDays,
+  differenceInCalendarWeeks,
+  parse,
+} from "date-fns";
+import type { WeekStartDay } from "./dates";
+
+export type Streak = {
+  current: number;
+  longest: number;
+};
+
+// Runs of consecutive steps in an ascending list of step numbers (days or
+// weeks since some epoch). The current run survives if the latest step is
+// the present one or the one before it, since today or this week may still
+// have a workout to come.
+function getStreak(steps: number[], presentStep: number): Streak {
+  let longest = 0;
+  let run = 0;
+  let previous: number | null = null;
+
+  for (const step of steps) {
+    run = previous !== null && step === previous + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = step;
+  }
+
+  const current = previous !== null && presentStep - previous <= 1 ? run : 0;
+
+  return { current, longest };
+}
+
+const EPOCH = new Date(2000, 0, 1);
+
+function toDate(date: string) {
+  return parse(date, "yyyy-MM-dd", new Date());
+}
+
+// Streak of consecutive days trained, from distinct ascending YYYY-MM-DD dates
+export function getDayStreak(dates: string[], today: string): Streak {
+  return getStreak(
+    dates.map((date) => differenceInCalendarDays(toDate(date), EPOCH)),
+    differenceInCalendarDays(toDate(today), EPOCH)
+  );
+}
+
+// Streak of consecutive weeks with at least one workout
+export function getWeekStreak(
+  dates: string[],
+  today: string,
+  weekStartsOn: WeekStartDay
+): Streak {
+  const toWeek = (date: string) =>
+    differenceInCalendarWeeks(toDate(date), EPOCH, { weekStartsOn });
+
+  return getStreak([...new Set(dates.map(toWeek))], toWeek(today));
+}
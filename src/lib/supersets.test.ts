@@ -0,0 +1,129 @@
+import { describe, expect, it } from "vitest";
+import {
+  getExerciseLabels,
+  getGroupIds,
+  getSupersetLinks,
+  groupExercises,
+  interleaveSets,
+} from "./supersets";
+
+const entries = [
+  { id: "a", groupId: null },
+  { id: "b", groupId: "g1" },
+  { id: "c", groupId: "g1" },
+  { id: "d", groupId: "g2" },
+  { id: "e", groupId: "g2" },
+  { id: "f", groupId: "g2" },
+  { id: "g", groupId: "g3" },
+];
+
+describe("groupExercises", () => {
+  it("puts each group in one block and everything else on its own", () => {
+    expect(
+      groupExercises(entries).map((block) => block.map((entry) => entry.id))
+    ).toEqual([["a"], ["b", "c"], ["d", "e", "f"], ["g"]]);
+  });
+});
+
+describe("getExerciseLabels", () => {
+  it("letters blocks and numbers the members of groups", () => {
+    expect(getExerciseLabels(entries)).toEqual({
+      a: "A",
+      b: "B1",
+      c: "B2",
+      d: "C1",
+      e: "C2",
+      f: "C3",
+      g: "D",
+    });
+  });
+
+  it("falls back to positions past Z", () => {
+    const many = Array.from({ length: 28 }, (_, index) => ({
+      id: String(index),
+      groupId: null,
+    }));
+
+    expect(getExerciseLabels(many)["25"]).toBe("Z");
+    expect(getExerciseLabels(many)["27"]).toBe("28");
+  });
+});
+
+describe("getSupersetLinks", () => {
+  it("links each exercise to the next one in its group", () => {
+    expect(getSupersetLinks(entries)).toEqual([
+      false,
+      true,
+      false,
+      true,
+      true,
+      false,
+      false,
+    ]);
+  });
+});
+
+describe("getGroupIds", () => {
+  it("keeps the ids of groups that don't change", () => {
+    expect(getGroupIds(entries, getSupersetLinks(entries))).toEqual([
+      null,
+      "g1",
+      "g1",
+      "g2",
+      "g2",
+      "g2",
+      null,
+    ]);
+  });
+
+  it("takes an exercise left on its own out of its group", () => {
+    expect(
+      getGroupIds(entries, [false, true, false, false, true, false, false])
+    ).toEqual([null, "g1", "g1", null, "g2", "g2", null]);
+  });
+
+  it("gives a new id to a group whose first member's id is taken", () => {
+    const groupIds = getGroupIds(
+      entries,
+      [false, true, false, true, false, true, false]
+    );
+
+    expect(groupIds.slice(0, 5)).toEqual([null, "g1", "g1", "g2", "g2"]);
+    expect(groupIds[5]).toBe(groupIds[6]);
+    expect(groupIds[5]).toEqual(expect.any(String));
+    expect(groupIds[5]).not.toBe("g2");
+  });
+
+  it("joins neighbouring exercises into one group", () => {
+    const groupIds = getGroupIds(entries, [
+      true,
+      true,
+      true,
+      true,
+      true,
+      false,
+      false,
+    ]);
+
+    expect(new Set(groupIds.slice(0, 6)).size).toBe(1);
+    expect(groupIds[0]).toEqual(expect.any(String));
+    expect(groupIds[6]).toBeNull();
+  });
+});
+
+describe("interleaveSets", () => {
+  it("orders the sets of a group round by round", () => {
+    expect(interleaveSets([["a1", "a2", "a3"], ["b1"], ["c1", "c2"]])).toEqual([
+      "a1",
+      "b1",
+      "c1",
+      "a2",
+      "c2",
+      "a3",
+    ]);
+  });
+
+  it("is empty for no sets", () => {
+    expect(interleaveSets([])).toEqual([]);
+  });
+});
@@ -0,0 +1,99 @@
+// Exercises of a workout that share a group id are done back to back as a
+// superset (two exercises) or circuit (three or more). Members of a group are
+// always next to each other in the workout's order.
+
+type Groupable = { id: string; groupId: string | null };
+
+// Runs of exercises in workout order: one per group, and one per exercise
+// outside a group (or left alone in one)
+export function groupExercises<T extends Groupable>(entries: T[]): T[][] {
+  const blocks: T[][] = [];
+
+  for (const entry of entries) {
+    const block = blocks.at(-1);
+
+    if (block && entry.groupId !== null && block[0].groupId === entry.groupId) {
+      block.push(entry);
+    } else {
+      blocks.push([entry]);
+    }
+  }
+
+  return blocks;
+}
+
+// "A", "B", then "C1", "C2" and "C3" for a circuit, keyed by exercise id
+export function getExerciseLabels(entries: Groupable[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+
+  groupExercises(entries).forEach((block, blockIndex) => {
+    // Past Z, fall back to the position
+    const letter =
+      blockIndex < 26
+        ? String.fromCharCode(65 + blockIndex)
+        : (blockIndex + 1).toString();
+
+    block.forEach((entry, index) => {
+      labels[entry.id] = block.length > 1 ? `${letter}${index + 1}` : letter;
+    });
+  });
+
+  return labels;
+}
+
+// Whether each exercise is linked to the one after it
+export function getSupersetLinks(entries: Groupable[]): boolean[] {
+  return entries.map((entry, index) => {
+    const next = entries[index + 1];
+    return (
+      next !== undefined &&
+      entry.groupId !== null &&
+      entry.groupId === next.groupId
+    );
+  });
+}
+
+// Group ids that give exactly the links asked for. Groups keep the id of
+// their first member where they can, and an exercise left on its own is taken
+// out of its group.
+export function getGroupIds(
+  entries: Groupable[],
+  links: boolean[]
+): (string | null)[] {
+  const groupIds: (string | null)[] = [];
+  const usedIds = new Set<string>();
+  let start = 0;
+
+  entries.forEach((_, index) => {
+    if (links[index] && index < entries.length - 1) {
+      return;
+    }
+
+    const size = index - start + 1;
+    const existingId = entries[start].groupId;
+    let groupId: string | null = null;
+
+    if (size > 1) {
+      groupId =
+        existingId !== null && !usedIds.has(existingId)
+          ? existingId
+          : crypto.randomUUID();
+      usedIds.add(groupId);
+    }
+
+    groupIds.push(...Array<string | null>(size).fill(groupId));
+    start = index + 1;
+  });
+
+  return groupIds;
+}
+
+// Sets of the exercises in a group, round by round: every exercise's first
+// set in order, then every exercise's second set, and so on
+export function interleaveSets<T>(setLists: T[][]): T[] {
+  const roundCount = Math.max(0, ...setLists.map((list) => list.length));
+
+  return Array.from({ length: roundCount }, (_, round) =>
+    setLists.flatMap((list) => (round < list.length ? [list[round]] : []))
+  ).flat();
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  convertWeight,
+  formatWeight,
+  isWeightUnit,
+  roundToPlateIncrement,
+  toDisplaySetWeight,
+  toDisplayWeight,
+} from "./units";
+
+describe("convertWeight", () => {
+  it("leaves a weight in the same unit alone", () => {
+    expect(convertWeight(100, "kg", "kg")).toBe(100);
+  });
+
+  it("converts between kilograms and pounds", () => {
+    expect(convertWeight(100, "kg", "lb")).toBeCloseTo(220.462, 3);
+    expect(convertWeight(225, "lb", "kg")).toBeCloseTo(102.058, 3);
+  });
+
+  it("round-trips", () => {
+    const pounds = convertWeight(80, "kg", "lb");
+
+    expect(convertWeight(pounds, "lb", "kg")).toBeCloseTo(80, 10);
+  });
+});
+
+describe("roundToPlateIncrement", () => {
+  it("snaps to the nearest pair of change plates", () => {
+    expect(roundToPlateIncrement(220.46, "lb")).toBe(220);
+    expect(roundToPlateIncrement(101.9, "kg")).toBe(102.5);
+  });
+});
+
+describe("toDisplayWeight", () => {
+  it("shows weights logged in the display unit as logged", () => {
+    expect(toDisplayWeight(101.9, "kg", "kg")).toBe(101.9);
+  });
+
+  it("snaps converted weights to a plate increment", () => {
+    expect(toDisplayWeight(100, "kg", "lb")).toBe(220);
+    expect(toDisplayWeight(225, "lb", "kg")).toBe(102.5);
+  });
+});
+
+describe("toDisplaySetWeight", () => {
+  it("parses a stored weight into the display unit", () => {
+    expect(toDisplaySetWeight("100.00", "kg", "lb")).toBe(220);
+  });
+
+  it("keeps sets without a weight empty", () => {
+    expect(toDisplaySetWeight(null, "kg", "lb")).toBeNull();
+  });
+
+  it("shows a weight in an unknown unit as stored", () => {
+    expect(toDisplaySetWeight("42.5", "stone", "kg")).toBe(42.5);
+  });
+});
+
+describe("isWeightUnit", () => {
+  it("accepts only the supported units", () => {
+    expect(isWeightUnit("kg")).toBe(true);
+    expect(isWeightUnit("lb")).toBe(true);
+    expect(isWeightUnit("lbs")).toBe(false);
+    expect(isWeightUnit(undefined)).toBe(false);
+  });
+});
+
+describe("formatWeight", () => {
+  it("abbreviates the unit and trims trailing zeros", () => {
+    expect(formatWeight(100, "kg")).toBe("100 kg");
+    expect(formatWeight(1234.567, "lb")).toBe("1,234.57 lbs");
+    expect(formatWeight(80.25, "kg", 1)).toBe("80.3 kg");
+  });
+});
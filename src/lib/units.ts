@@ -0,0 +1,82 @@
+export const WEIGHT_UNITS = ["kg", "lb"] as const;
+
+export type WeightUnit = (typeof WEIGHT_UNITS)[number];
+
+export const DEFAULT_WEIGHT_UNIT: WeightUnit = "lb";
+
+export const WEIGHT_UNIT_LABELS: Record<WeightUnit, string> = {
+  kg: "Kilograms (kg)",
+  lb: "Pounds (lbs)",
+};
+
+export const WEIGHT_UNIT_ABBREVIATIONS: Record<WeightUnit, string> = {
+  kg: "kg",
+  lb: "lbs",
+};
+
+// Smallest jump a pair of the usual change plates allows
+export const PLATE_INCREMENTS: Record<WeightUnit, number> = {
+  kg: 1.25,
+  lb: 2.5,
+};
+
+const KG_PER_LB = 0.45359237;
+
+export function isWeightUnit(value: unknown): value is WeightUnit {
+  return WEIGHT_UNITS.includes(value as WeightUnit);
+}
+
+export function convertWeight(
+  weight: number,
+  from: WeightUnit,
+  to: WeightUnit
+): number {
+  if (from === to) {
+    return weight;
+  }
+
+  return from === "kg" ? weight / KG_PER_LB : weight * KG_PER_LB;
+}
+
+export function roundToPlateIncrement(weight: number, unit: WeightUnit): number {
+  const increment = PLATE_INCREMENTS[unit];
+  return Math.round(weight / increment) * increment;
+}
+
+// A logged set weight in the user's display unit. Weights already in that unit
+// are shown as logged; converted ones snap to the nearest plate increment so
+// 100 kg reads as 220 lbs rather than 220.46. Everything that aggregates set
+// weights goes through here so cards, summaries and analytics agree.
+export function toDisplayWeight(
+  weight: number,
+  from: WeightUnit,
+  to: WeightUnit
+): number {
+  return from === to
+    ? weight
+    : roundToPlateIncrement(convertWeight(weight, from, to), to);
+}
+
+// Parses a weight as stored on a set (numeric string plus the unit it was
+// logged in) into the display unit
+export function toDisplaySetWeight(
+  weight: string | null,
+  weightUnit: string,
+  unit: WeightUnit
+): number | null {
+  if (weight === null) {
+    return null;
+  }
+
+  return isWeightUnit(weightUnit)
+    ? toDisplayWeight(Number(weight), weightUnit, unit)
+    : Number(weight);
+}
+
+export function formatWeight(
+  weight: number,
+  unit: WeightUnit,
+  maximumFractionDigits = 2
+): string {
+  return `${weight.toLocaleString("en-US", { maximumFractionDigits })} ${WEIGHT_UNIT_ABBREVIATIONS[unit]}`;
+}
@@ -0,0 +1,13 @@
+export const WORKOUT_COPY_MODES = ["sets", "progression", "exercises"] as const;
+
+export type WorkoutCopyMode = (typeof WORKOUT_COPY_MODES)[number];
+
+export const WORKOUT_COPY_MODE_LABELS: Record<WorkoutCopyMode, string> = {
+  sets: "Exercises and sets as logged",
+  progression: "Exercises and sets, adding weight",
+  exercises: "Exercises only",
+};
+
+export function isWorkoutCopyMode(value: unknown): value is WorkoutCopyMode {
+  return WORKOUT_COPY_MODES.includes(value as WorkoutCopyMode);
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { matchExerciseName, parseWorkoutCsv } from "./workout-import";
+
+const STRONG_CSV = [
+  "Date,Workout Name,Duration,Exercise Name,Set Order,Weight,Reps,Distance,Seconds,Notes,Workout Notes,RPE",
+  "2024-01-15 08:30:00,Push,1h,Bench Press (Barbell),W,40,10,0,0,,,",
+  "2024-01-15 08:30:00,Push,1h,Bench Press (Barbell),1,80,5,0,0,Felt strong,,",
+  "2024-01-15 08:30:00,Push,1h,Running,1,0,0,5,1800,,,",
+  "2024-01-15 08:30:00,Push,1h,Bench Press (Barbell),D,60,8,0,0,,,",
+  "2024-01-12 18:00:00,Legs,1h,Squat (Barbell),1,100,5,0,0,,,",
+].join("\n");
+
+describe("parseWorkoutCsv", () => {
+  it("returns null for files it doesn't recognise", () => {
+    expect(parseWorkoutCsv("a,b,c\n1,2,3")).toBeNull();
+    expect(parseWorkoutCsv("")).toBeNull();
+  });
+
+  it("reads a Strong export into workouts, oldest first", () => {
+    const parsed = parseWorkoutCsv(STRONG_CSV);
+
+    expect(parsed).toMatchObject({
+      source: "strong",
+      weightUnit: null,
+      skippedRows: 1,
+      invalidRows: [],
+    });
+    expect(parsed?.workouts).toEqual([
+      {
+        date: "2024-01-12",
+        name: "Legs",
+        exercises: [
+          {
+            name: "Squat (Barbell)",
+            sets: [{ weight: 100, reps: 5, setType: "working", notes: null }],
+          },
+        ],
+      },
+      {
+        date: "2024-01-15",
+        name: "Push",
+        exercises: [
+          {
+            name: "Bench Press (Barbell)",
+            sets: [
+              { weight: 40, reps: 10, setType: "warmup", notes: null },
+              { weight: 80, reps: 5, setType: "working", notes: "Felt strong" },
+              { weight: 60, reps: 8, setType: "drop", notes: null },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reads a Hevy export with its unit and set types", () => {
+    const parsed = parseWorkoutCsv(
+      [
+        "title,start_time,end_time,description,exercise_title,superset_id,exercise_notes,set_index,set_type,weight_kg,reps,distance_km,duration_seconds,rpe",
+        'Upper,"15 Jan 2024, 08:30","15 Jan 2024, 09:30",,Pull Up,,,0,normal,0,8,,,',
+        'Upper,"15 Jan 2024, 08:30","15 Jan 2024, 09:30",,Pull Up,,,1,failure,-10,6,,,',
+      ].join("\n")
+    );
+
+    expect(parsed).toMatchObject({ source: "hevy", weightUnit: "kg" });
+    expect(parsed?.workouts).toEqual([
+      {
+        date: "2024-01-15",
+        name: "Upper",
+        exercises: [
+          {
+            name: "Pull Up",
+            sets: [
+              // Bodyweight and assisted sets have no weight
+              { weight: null, reps: 8, setType: "working", notes: null },
+              { weight: null, reps: 6, setType: "failure", notes: null },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("reads a semicolon-separated FitNotes export with decimal commas", () => {
+    const parsed = parseWorkoutCsv(
+      [
+        "Date;Exercise;Category;Weight (kgs);Reps;Distance;Distance Unit;Time;Comment",
+        "2024-02-01;Deadlift;Back;142,5;3;;;;Belt",
+      ].join("\n")
+    );
+
+    expect(parsed).toMatchObject({ source: "fitnotes", weightUnit: "kg" });
+    expect(parsed?.workouts[0].exercises[0].sets).toEqual([
+      { weight: 142.5, reps: 3, setType: "working", notes: "Belt" },
+    ]);
+  });
+
+  it("reports the lines of rows it can't read", () => {
+    const parsed = parseWorkoutCsv(
+      [
+        "Date,Workout Name,Exercise Name,Set Order,Weight,Reps,Notes",
+        "not a date,Push,Bench Press,1,80,5,",
+        "2024-01-15,Push,,1,80,5,",
+        "2024-01-15,Push,Bench Press,1,80,2.5,",
+        "2024-01-15,Push,Bench Press,1,heavy,5,",
+        "2024-01-15,Push,Bench Press,1,80,5,",
+      ].join("\n")
+    );
+
+    expect(parsed?.invalidRows).toEqual([2, 3, 4, 5]);
+    expect(parsed?.workouts[0].exercises[0].sets).toHaveLength(1);
+  });
+});
+
+describe("matchExerciseName", () => {
+  const catalog = [
+    { name: "Barbell Bench Press" },
+    { name: "Squat" },
+    { name: "Pull-Up" },
+  ];
+
+  it("ignores case and punctuation", () => {
+    expect(matchExerciseName("pull up", catalog)).toBe(catalog[2]);
+  });
+
+  it("moves bracketed equipment to the front", () => {
+    expect(matchExerciseName("Bench Press (Barbell)", catalog)).toBe(
+      catalog[0]
+    );
+  });
+
+  it("falls back to the name without its equipment", () => {
+    expect(matchExerciseName("Squat (Barbell)", catalog)).toBe(catalog[1]);
+  });
+
+  it("returns undefined when nothing matches", () => {
+    expect(matchExerciseName("Cable Fly", catalog)).toBeUndefined();
+  });
+});
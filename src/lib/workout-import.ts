@@ -0,0 +1,315 @@
+import { format, isValid, parse } from "date-fns";
+import { detectCsvDelimiter, parseCsv } from "./csv";
+import { DEFAULT_SET_TYPE, type SetType } from "./set-types";
+import type { WeightUnit } from "./units";
+
+export const IMPORT_SOURCES = ["strong", "hevy", "fitnotes"] as const;
+
+export type ImportSource = (typeof IMPORT_SOURCES)[number];
+
+export const IMPORT_SOURCE_LABELS: Record<ImportSource, string> = {
+  strong: "Strong",
+  hevy: "Hevy",
+  fitnotes: "FitNotes",
+};
+
+// Longest set note the sets table accepts
+export const MAX_IMPORTED_NOTE_LENGTH = 500;
+
+export type ImportedSet = {
+  weight: number | null;
+  reps: number;
+  setType: SetType;
+  notes: string | null;
+};
+
+export type ImportedExercise = {
+  // Exercise name as written by the source app
+  name: string;
+  sets: ImportedSet[];
+};
+
+export type ImportedWorkout = {
+  date: string;
+  name: string | null;
+  exercises: ImportedExercise[];
+};
+
+export type ParsedImport = {
+  source: ImportSource;
+  // Null when the file doesn't say, as with Strong
+  weightUnit: WeightUnit | null;
+  workouts: ImportedWorkout[];
+  // Rows without a rep count, such as cardio
+  skippedRows: number;
+  // Line numbers of rows whose date, exercise, reps or weight can't be read
+  invalidRows: number[];
+};
+
+// Where the exercises under one imported name go: an existing catalog
+// exercise, or a new custom exercise created during the import
+export type ExerciseMapping =
+  | { name: string; exerciseId: string }
+  | { name: string; newExerciseName: string };
+
+// Which column holds each value, by lowercase header name
+type ColumnMap = {
+  // Rows sharing this value belong to the same workout
+  session: string;
+  date: string;
+  name?: string;
+  exercise: string;
+  weight: string;
+  reps: string;
+  setType?: string;
+  notes?: string;
+};
+
+type SourceFormat = {
+  source: ImportSource;
+  weightUnit: WeightUnit | null;
+  columns: ColumnMap;
+};
+
+// Hevy writes "warmup", "normal", "dropset" or "failure" in its set type
+// column; Strong marks warm-ups, drop sets and failure sets in its set order
+// column with W, D and F instead of a number
+const IMPORTED_SET_TYPES: Record<string, SetType> = {
+  warmup: "warmup",
+  w: "warmup",
+  dropset: "drop",
+  d: "drop",
+  failure: "failure",
+  f: "failure",
+};
+
+const HEVY_DATE_FORMATS = [
+  "d MMM yyyy, HH:mm",
+  "d MMM yyyy HH:mm",
+  "MMM d, yyyy, h:mm a",
+];
+
+function detectFormat(header: string[]): SourceFormat | null {
+  const has = (column: string) => header.includes(column);
+
+  if (has("exercise name") && has("set order")) {
+    return {
+      source: "strong",
+      weightUnit: null,
+      columns: {
+        session: "date",
+        date: "date",
+        name: "workout name",
+        exercise: "exercise name",
+        weight: "weight",
+        reps: "reps",
+        setType: "set order",
+        notes: "notes",
+      },
+    };
+  }
+
+  if (has("exercise_title") && (has("weight_kg") || has("weight_lbs"))) {
+    return {
+      source: "hevy",
+      weightUnit: has("weight_kg") ? "kg" : "lb",
+      columns: {
+        session: "start_time",
+        date: "start_time",
+        name: "title",
+        exercise: "exercise_title",
+        weight: has("weight_kg") ? "weight_kg" : "weight_lbs",
+        reps: "reps",
+        setType: "set_type",
+      },
+    };
+  }
+
+  const fitNotesWeight = header.find((column) =>
+    /^weight \((kgs?|lbs?)\)$/.test(column)
+  );
+
+  if (has("exercise") && has("category") && fitNotesWeight) {
+    return {
+      source: "fitnotes",
+      weightUnit: fitNotesWeight.includes("kg") ? "kg" : "lb",
+      columns: {
+        session: "date",
+        date: "date",
+        exercise: "exercise",
+        weight: fitNotesWeight,
+        reps: "reps",
+        notes: "comment",
+      },
+    };
+  }
+
+  return null;
+}
+
+// Strong and FitNotes write ISO dates, optionally followed by a time; Hevy
+// writes them out like "15 Jan 2023, 08:30"
+function toIsoDate(value: string): string | null {
+  const isoMatch = value.match(/^\d{4}-\d{2}-\d{2}/);
+
+  if (isoMatch) {
+    return isoMatch[0];
+  }
+
+  for (const dateFormat of HEVY_DATE_FORMATS) {
+    const date = parse(value, dateFormat, new Date());
+
+    if (isValid(date)) {
+      return format(date, "yyyy-MM-dd");
+    }
+  }
+
+  return null;
+}
+
+function toImportedSetType(value: string): SetType {
+  return IMPORTED_SET_TYPES[value.toLowerCase()] ?? DEFAULT_SET_TYPE;
+}
+
+// Reads a CSV export from one of the supported apps into workouts with their
+// exercises and sets in logged order. Returns null for unrecognised files.
+// An exercise repeated within a workout is merged into one entry.
+export function parseWorkoutCsv(text: string): ParsedImport | null {
+  const [headerRow, ...rows] = parseCsv(text);
+
+  if (!headerRow) {
+    return null;
+  }
+
+  const header = headerRow.fields.map((column) => column.trim().toLowerCase());
+  const sourceFormat = detectFormat(header);
+
+  if (!sourceFormat) {
+    return null;
+  }
+
+  const indexes = Object.fromEntries(
+    Object.entries(sourceFormat.columns).map(([key, column]) => [
+      key,
+      header.indexOf(column),
+    ])
+  ) as Record<keyof ColumnMap, number>;
+  const read = (row: string[], key: keyof ColumnMap) =>
+    indexes[key] === undefined || indexes[key] < 0
+      ? ""
+      : (row[indexes[key]] ?? "").trim();
+
+  // Semicolon-separated exports write decimals with a comma: "62,5"
+  const toNumber =
+    detectCsvDelimiter(text) === ";"
+      ? (value: string) => Number(value.replace(",", "."))
+      : Number;
+
+  const workoutsBySession = new Map<string, ImportedWorkout>();
+  let skippedRows = 0;
+  const invalidRows: number[] = [];
+
+  for (const { line, fields: row } of rows) {
+    const repsValue = read(row, "reps");
+
+    // Cardio and timed sets come through with no reps, or 0
+    if (repsValue === "" || toNumber(repsValue) === 0) {
+      skippedRows++;
+      continue;
+    }
+
+    const date = toIsoDate(read(row, "date"));
+    const exerciseName = read(row, "exercise");
+    const reps = toNumber(repsValue);
+    const weight = toNumber(read(row, "weight") || "0");
+
+    if (
+      !date ||
+      !exerciseName ||
+      !Number.isInteger(reps) ||
+      reps < 1 ||
+      reps > 999 ||
+      !Number.isFinite(weight) ||
+      weight > 9999.99
+    ) {
+      invalidRows.push(line);
+      continue;
+    }
+
+    const session = `${read(row, "session")}|${read(row, "name")}`;
+    let workout = workoutsBySession.get(session);
+
+    if (!workout) {
+      workout = { date, name: read(row, "name") || null, exercises: [] };
+      workoutsBySession.set(session, workout);
+    }
+
+    let exercise = workout.exercises.find(
+      (candidate) => candidate.name === exerciseName
+    );
+
+    if (!exercise) {
+      exercise = { name: exerciseName, sets: [] };
+      workout.exercises.push(exercise);
+    }
+
+    const notes = read(row, "notes");
+
+    exercise.sets.push({
+      // Bodyweight sets come through as 0 and assisted ones as negative
+      weight: weight > 0 ? Math.round(weight * 100) / 100 : null,
+      reps,
+      setType: toImportedSetType(read(row, "setType")),
+      notes: notes ? notes.slice(0, MAX_IMPORTED_NOTE_LENGTH) : null,
+    });
+  }
+
+  return {
+    source: sourceFormat.source,
+    weightUnit: sourceFormat.weightUnit,
+    workouts: [...workoutsBySession.values()].sort((a, b) =>
+      a.date.localeCompare(b.date)
+    ),
+    skippedRows,
+    invalidRows,
+  };
+}
+
+// Lowercase words only, so "Bench Press (Barbell)" and "bench-press barbell"
+// compare equal
+function normalizeExerciseName(name: string) {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+// Strong and Hevy put the equipment in brackets after the name, where the
+// catalog puts it first: "Bench Press (Barbell)" is "Barbell Bench Press"
+function getNameCandidates(name: string) {
+  const candidates = [normalizeExerciseName(name)];
+  const bracketed = name.match(/^(.*)\(([^)]+)\)\s*$/);
+
+  if (bracketed) {
+    candidates.push(
+      normalizeExerciseName(`${bracketed[2]} ${bracketed[1]}`),
+      normalizeExerciseName(bracketed[1])
+    );
+  }
+
+  return candidates;
+}
+
+// The catalog exercise an imported name most likely refers to, if any
+export function matchExerciseName<T extends { name: string }>(
+  name: string,
+  exercises: T[]
+): T | undefined {
+  const exercisesByName = new Map(
+    exercises.map((exercise) => [normalizeExerciseName(exercise.name), exercise])
+  );
+
+  return getNameCandidates(name)
+    .map((candidate) => exercisesByName.get(candidate))
+    .find((exercise) => exercise !== undefined);
+}